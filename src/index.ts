@@ -119,6 +119,7 @@ async function main(): Promise<void> {
       },
       {
         capabilities: {
+          logging: {},
           prompts: {},
           resources: {},
           tools: {},
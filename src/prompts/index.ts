@@ -5,6 +5,29 @@
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { buildLogFilter } from "../services/logging/filter.js";
+import {
+  findAlertIncidents,
+  formatIncidents,
+  getIncidentDetails,
+} from "../services/monitoring/incidents.js";
+import {
+  getAlertPolicyClient,
+  getMonitoringClient,
+} from "../services/monitoring/types.js";
+import { getProjectId } from "../utils/auth.js";
+import { parseRelativeTime } from "../utils/time.js";
+
+/**
+ * How far back the alert investigation looks for a policy's incidents when
+ * no timeframe is given
+ */
+const ALERT_INCIDENT_LOOKBACK = "7d";
+
+/**
+ * Most incidents of a policy embedded in the alert investigation
+ */
+const MAX_ALERT_INCIDENTS = 5;
 
 /**
  * Register all prompts with the MCP server
@@ -51,17 +74,10 @@ function registerLogAnalysisPrompts(server: McpServer): void {
     },
     async (args) => {
       const { timeframe, severity, service } = args;
-      const filter = [];
-
-      if (severity) {
-        filter.push(`severity>=${severity}`);
-      }
-
-      if (service) {
-        filter.push(`resource.type="${service}"`);
-      }
-
-      const filterString = filter.length > 0 ? filter.join(" AND ") : "";
+      const filterString = buildLogFilter({
+        severity,
+        resourceType: service,
+      });
 
       return {
         messages: [
@@ -118,7 +134,7 @@ function registerLogAnalysisPrompts(server: McpServer): void {
             content: {
               type: "resource",
               resource: {
-                uri: `logging://entries?timeframe=${timeframe}&filter=${encodeURIComponent(`trace="${traceId}"`)}`,
+                uri: `logging://entries?timeframe=${timeframe}&filter=${encodeURIComponent(buildLogFilter({ trace: traceId }))}`,
                 text: "",
                 mimeType: "text/plain",
               },
@@ -190,33 +206,36 @@ function registerMonitoringPrompts(server: McpServer): void {
       description:
         "Investigate a specific alert and analyse related metrics and logs",
       argsSchema: {
-        alertId: z.string().describe("Alert ID to investigate") as any,
+        alertId: z
+          .string()
+          .describe("Incident or alert policy ID to investigate") as any,
         timeframe: z
           .string()
           .optional()
-          .describe('Time window around alert (e.g., "30m", "1h")') as any,
+          .describe(
+            'How far back to look for the alert\'s incidents and logs (e.g., "30m", "1h"); incidents default to the past 7 days and logs to the past 30 minutes',
+          ) as any,
       },
     },
     async (args) => {
-      const { alertId, timeframe = "30m" } = args;
+      const { alertId, timeframe } = args;
       return {
         messages: [
           {
             role: "user",
             content: {
               type: "text",
-              text: `Investigate the following alert and provide analysis of what caused it, its impact, and recommended actions:`,
+              text: `Investigate the following alert incidents, using the conditions and metric values that opened them, and provide analysis of what caused them, their impact, and recommended actions:`,
             },
           },
           {
             role: "user",
             content: {
-              type: "resource",
-              resource: {
-                uri: `monitoring://alerts/${alertId}?timeframe=${timeframe}`,
-                text: "",
-                mimeType: "application/json",
-              },
+              type: "text",
+              text: await describeAlertIncidents(
+                alertId,
+                timeframe ?? ALERT_INCIDENT_LOOKBACK,
+              ),
             },
           },
           {
@@ -224,7 +243,7 @@ function registerMonitoringPrompts(server: McpServer): void {
             content: {
               type: "resource",
               resource: {
-                uri: `logging://entries?timeframe=${timeframe}&filter=${encodeURIComponent(`jsonPayload.alertId="${alertId}"`)}`,
+                uri: `logging://entries?timeframe=${timeframe ?? "30m"}&filter=${encodeURIComponent(buildLogFilter({ payload: { alertId } }))}`,
                 text: "",
                 mimeType: "text/plain",
               },
@@ -236,6 +255,40 @@ function registerMonitoringPrompts(server: McpServer): void {
   );
 }
 
+/**
+ * Describes the incidents of an alert for the investigation prompt
+ *
+ * Failures are described in the text so the prompt can still be used.
+ *
+ * @param alertId An incident or policy, by ID or resource name
+ * @param lookback How far back to look for a policy's incidents, e.g. "7d"
+ * @returns The incidents with their conditions and triggering values
+ */
+async function describeAlertIncidents(
+  alertId: string,
+  lookback: string,
+): Promise<string> {
+  try {
+    const projectId = await getProjectId();
+    const incidents = await findAlertIncidents(
+      projectId,
+      alertId,
+      parseRelativeTime(lookback),
+      MAX_ALERT_INCIDENTS,
+    );
+    if (incidents.length === 0) {
+      return `No incidents were found for alert ${alertId} in the past ${lookback}.`;
+    }
+    const details = await getIncidentDetails(incidents, projectId, {
+      alertPolicy: getAlertPolicyClient(),
+      monitoring: getMonitoringClient(),
+    });
+    return `# Alert Incidents\n\nProject: ${projectId}\n\n${formatIncidents(details)}`;
+  } catch (error: unknown) {
+    return `Incident data for alert ${alertId} could not be retrieved: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
 /**
  * Register Spanner prompts
  *
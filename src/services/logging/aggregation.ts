@@ -0,0 +1,284 @@
+/**
+ * Log aggregation utilities for Google Cloud Logging
+ *
+ * Builds histograms over log entries so large result sets can be summarised
+ * without returning the entries themselves.
+ */
+import { GcpMcpError } from "../../utils/error.js";
+import { LogEntry } from "./types.js";
+
+/**
+ * Field path used to bucket entries by time
+ */
+export const TIME_BUCKET_FIELD = "timestamp";
+
+/**
+ * Top-level fields that can be used as a grouping key
+ */
+const GROUPABLE_ROOTS = new Set([
+  "severity",
+  "resource",
+  "logName",
+  "labels",
+  "jsonPayload",
+  "protoPayload",
+  "httpRequest",
+  "sourceLocation",
+  "operation",
+  "trace",
+  TIME_BUCKET_FIELD,
+]);
+
+/**
+ * Label used for entries where the grouping field is absent
+ */
+export const MISSING_VALUE = "(missing)";
+
+/**
+ * A single histogram bucket
+ */
+export interface LogAggregationBucket {
+  key: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+/**
+ * Result of aggregating log entries by a field
+ */
+export interface LogAggregationResult {
+  groupBy: string;
+  total: number;
+  buckets: LogAggregationBucket[];
+  bucketSeconds?: number;
+}
+
+/**
+ * Validates a grouping field path
+ *
+ * @param path A dotted field path such as "resource.type" or "jsonPayload.service"
+ */
+export function validateGroupByField(path: string): void {
+  const segments = path.split(".");
+  if (segments.some((segment) => segment.length === 0)) {
+    throw new GcpMcpError(
+      `Invalid groupBy field: "${path}"`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  if (!GROUPABLE_ROOTS.has(segments[0])) {
+    throw new GcpMcpError(
+      `Unsupported groupBy field: "${path}". Use one of severity, resource.type, resource.labels.*, logName, labels.*, jsonPayload.*, protoPayload.*, httpRequest.*, or timestamp.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+}
+
+/**
+ * Reads a dotted field path from a log entry
+ *
+ * @param entry The log entry
+ * @param path A dotted field path, e.g. "jsonPayload.request.method"
+ * @returns The value at the path, or undefined if any segment is missing
+ */
+export function getLogFieldValue(entry: LogEntry, path: string): unknown {
+  let current: unknown = entry;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Accumulates counts for log entries grouped by a field
+ */
+export class LogAggregator {
+  private readonly counts = new Map<string, LogAggregationBucket>();
+  private readonly groupBy: string;
+  private readonly bucketSeconds?: number;
+  private total = 0;
+
+  /**
+   * Create a new LogAggregator
+   *
+   * @param groupBy The field path to group by
+   * @param bucketSeconds Bucket width when grouping by timestamp
+   */
+  constructor(groupBy: string, bucketSeconds?: number) {
+    validateGroupByField(groupBy);
+    if (groupBy === TIME_BUCKET_FIELD && !bucketSeconds) {
+      throw new GcpMcpError(
+        "A bucket size is required when grouping by timestamp",
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+
+    this.groupBy = groupBy;
+    this.bucketSeconds = bucketSeconds;
+  }
+
+  /**
+   * Add an entry to the histogram
+   *
+   * @param entry The log entry to count
+   */
+  add(entry: LogEntry): void {
+    const key = this.keyFor(entry);
+    const timestamp = this.timestampOf(entry);
+    const bucket = this.counts.get(key) || { key, count: 0 };
+    bucket.count++;
+    if (timestamp) {
+      if (!bucket.firstSeen || timestamp < bucket.firstSeen) {
+        bucket.firstSeen = timestamp;
+      }
+      if (!bucket.lastSeen || timestamp > bucket.lastSeen) {
+        bucket.lastSeen = timestamp;
+      }
+    }
+
+    this.counts.set(key, bucket);
+    this.total++;
+  }
+
+  /**
+   * Get the aggregated result
+   *
+   * Time buckets are returned in chronological order, all other groupings
+   * are sorted by descending count.
+   *
+   * @returns The aggregation result
+   */
+  getResult(): LogAggregationResult {
+    const buckets = Array.from(this.counts.values());
+    if (this.groupBy === TIME_BUCKET_FIELD) {
+      buckets.push(...this.emptyTimeBuckets());
+      buckets.sort((a, b) => a.key.localeCompare(b.key));
+    } else {
+      buckets.sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+    }
+
+    return {
+      groupBy: this.groupBy,
+      total: this.total,
+      buckets,
+      bucketSeconds:
+        this.groupBy === TIME_BUCKET_FIELD ? this.bucketSeconds : undefined,
+    };
+  }
+
+  private keyFor(entry: LogEntry): string {
+    if (this.groupBy === TIME_BUCKET_FIELD) {
+      const timestamp = this.timestampOf(entry);
+      if (!timestamp) {
+        return MISSING_VALUE;
+      }
+      const bucketMs = (this.bucketSeconds as number) * 1000;
+      const start =
+        Math.floor(new Date(timestamp).getTime() / bucketMs) * bucketMs;
+      return new Date(start).toISOString();
+    }
+
+    const value = getLogFieldValue(entry, this.groupBy);
+    if (value === undefined || value === null || value === "") {
+      // Entries without a severity are reported by the API as DEFAULT
+      return this.groupBy === "severity" ? "DEFAULT" : MISSING_VALUE;
+    }
+    if (typeof value === "object") {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  /**
+   * Creates zero-count buckets for gaps between the first and last time bucket
+   * so quiet periods remain visible in the histogram
+   */
+  private emptyTimeBuckets(): LogAggregationBucket[] {
+    const starts = Array.from(this.counts.keys())
+      .filter((key) => key !== MISSING_VALUE)
+      .map((key) => new Date(key).getTime());
+    if (starts.length < 2) {
+      return [];
+    }
+
+    const bucketMs = (this.bucketSeconds as number) * 1000;
+    const first = Math.min(...starts);
+    const last = Math.max(...starts);
+    // Avoid producing an unreadable histogram for very fine buckets
+    if ((last - first) / bucketMs > 1000) {
+      return [];
+    }
+
+    const empty: LogAggregationBucket[] = [];
+    for (let start = first; start <= last; start += bucketMs) {
+      const key = new Date(start).toISOString();
+      if (!this.counts.has(key)) {
+        empty.push({ key, count: 0 });
+      }
+    }
+    return empty;
+  }
+
+  private timestampOf(entry: LogEntry): string | undefined {
+    if (!entry.timestamp) {
+      return undefined;
+    }
+    const date = new Date(entry.timestamp);
+    return !isNaN(date.getTime()) ? date.toISOString() : undefined;
+  }
+}
+
+/**
+ * Formats an aggregation result as a markdown histogram
+ *
+ * @param result The aggregation result
+ * @param topN Maximum number of buckets to list for non-time groupings
+ * @returns Markdown table of counts
+ */
+export function formatLogAggregation(
+  result: LogAggregationResult,
+  topN = 25,
+): string {
+  if (result.total === 0) {
+    return "No log entries matched the filter.";
+  }
+
+  const isTimeSeries = result.groupBy === TIME_BUCKET_FIELD;
+  const shown = isTimeSeries ? result.buckets : result.buckets.slice(0, topN);
+  const maxCount = Math.max(...shown.map((bucket) => bucket.count));
+
+  let markdown = isTimeSeries
+    ? "| Bucket Start | Count | % | Distribution |\n|--------------|-------|---|--------------|\n"
+    : `| ${result.groupBy} | Count | % | First Seen | Last Seen |\n|---|-------|---|------------|-----------|\n`;
+
+  for (const bucket of shown) {
+    const percentage = ((bucket.count / result.total) * 100).toFixed(1);
+    if (isTimeSeries) {
+      const bar = "█".repeat(
+        bucket.count === 0
+          ? 0
+          : Math.max(1, Math.round((bucket.count / maxCount) * 20)),
+      );
+      markdown += `| ${bucket.key} | ${bucket.count} | ${percentage}% | ${bar} |\n`;
+    } else {
+      const key = bucket.key.replace(/\|/g, "\\|").replace(/\n/g, " ");
+      markdown += `| ${key} | ${bucket.count} | ${percentage}% | ${bucket.firstSeen || "-"} | ${bucket.lastSeen || "-"} |\n`;
+    }
+  }
+
+  if (!isTimeSeries && result.buckets.length > shown.length) {
+    const remaining = result.buckets.slice(shown.length);
+    const otherCount = remaining.reduce((sum, bucket) => sum + bucket.count, 0);
+    markdown += `\n*${remaining.length} more values (${otherCount} entries) not shown. Increase \`topN\` to see them.*\n`;
+  }
+
+  return markdown;
+}
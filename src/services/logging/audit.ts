@@ -0,0 +1,429 @@
+/**
+ * Cloud Audit Logs exploration for Google Cloud Logging
+ *
+ * Audit entries carry an AuditLog proto payload that the generic entry
+ * formatter prints as nested JSON. This module extracts who made each call,
+ * what they called, on which resource and with what outcome, so changes can
+ * be listed and grouped by principal, resource or method.
+ */
+import { quoteFilterString } from "../../utils/filter.js";
+import { LogEntry } from "./types.js";
+
+/**
+ * Audit log streams, one per log ID
+ */
+export const AUDIT_LOG_TYPES = [
+  "admin-activity",
+  "data-access",
+  "system-event",
+  "policy-denied",
+] as const;
+
+/**
+ * An audit log stream
+ */
+export type AuditLogType = (typeof AUDIT_LOG_TYPES)[number];
+
+/**
+ * Log ID of each audit log stream
+ */
+export const AUDIT_LOG_IDS: Record<AuditLogType, string> = {
+  "admin-activity": "cloudaudit.googleapis.com/activity",
+  "data-access": "cloudaudit.googleapis.com/data_access",
+  "system-event": "cloudaudit.googleapis.com/system_event",
+  "policy-denied": "cloudaudit.googleapis.com/policy",
+};
+
+/**
+ * Display names of the audit log streams
+ */
+export const AUDIT_LOG_TYPE_NAMES: Record<AuditLogType, string> = {
+  "admin-activity": "Admin Activity",
+  "data-access": "Data Access",
+  "system-event": "System Event",
+  "policy-denied": "Policy Denied",
+};
+
+/**
+ * Fields audit events can be grouped by
+ */
+export const AUDIT_GROUP_FIELDS = [
+  "principal",
+  "resource",
+  "method",
+  "service",
+  "callerIp",
+] as const;
+
+/**
+ * A field audit events can be grouped by
+ */
+export type AuditGroupField = (typeof AUDIT_GROUP_FIELDS)[number];
+
+/**
+ * Names of the canonical gRPC status codes used in audit entries
+ */
+const STATUS_CODE_NAMES: Record<number, string> = {
+  1: "CANCELLED",
+  2: "UNKNOWN",
+  3: "INVALID_ARGUMENT",
+  4: "DEADLINE_EXCEEDED",
+  5: "NOT_FOUND",
+  6: "ALREADY_EXISTS",
+  7: "PERMISSION_DENIED",
+  8: "RESOURCE_EXHAUSTED",
+  9: "FAILED_PRECONDITION",
+  10: "ABORTED",
+  11: "OUT_OF_RANGE",
+  12: "UNIMPLEMENTED",
+  13: "INTERNAL",
+  14: "UNAVAILABLE",
+  15: "DATA_LOSS",
+  16: "UNAUTHENTICATED",
+};
+
+/**
+ * Criteria for selecting audit entries
+ */
+export interface AuditLogQuery {
+  types: AuditLogType[];
+  /** Exact principal email */
+  principal?: string;
+  /** Text the method name must contain */
+  method?: string;
+  /** Text the resource name must contain */
+  resource?: string;
+  /** Exact service name, e.g. compute.googleapis.com */
+  service?: string;
+  /** Only calls that returned an error status */
+  failedOnly?: boolean;
+}
+
+/**
+ * The parts of an audit entry that answer who did what, when
+ */
+export interface AuditEvent {
+  timestamp: string;
+  type?: AuditLogType;
+  principal: string;
+  method: string;
+  service: string;
+  resourceName: string;
+  /** gRPC status code, 0 for success */
+  statusCode: number;
+  statusMessage?: string;
+  callerIp?: string;
+  userAgent?: string;
+  severity: string;
+  insertId?: string;
+}
+
+/**
+ * Audit events sharing a value of the grouping field
+ */
+export interface AuditEventGroup {
+  key: string;
+  count: number;
+  failed: number;
+  types: Partial<Record<AuditLogType, number>>;
+  /** Distinct methods called, most frequent first */
+  methods: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+/**
+ * Builds the filter selecting audit entries
+ *
+ * @param query The selection criteria
+ * @returns The filter
+ */
+export function buildAuditLogFilter(query: AuditLogQuery): string {
+  const types = query.types.length > 0 ? query.types : AUDIT_LOG_TYPES;
+  const logIds = types.map(
+    (type) => `log_id(${quoteFilterString(AUDIT_LOG_IDS[type])})`,
+  );
+  const parts = [logIds.length === 1 ? logIds[0] : `(${logIds.join(" OR ")})`];
+
+  if (query.principal) {
+    parts.push(
+      `protoPayload.authenticationInfo.principalEmail=${quoteFilterString(query.principal)}`,
+    );
+  }
+  if (query.method) {
+    parts.push(`protoPayload.methodName:${quoteFilterString(query.method)}`);
+  }
+  if (query.resource) {
+    parts.push(
+      `protoPayload.resourceName:${quoteFilterString(query.resource)}`,
+    );
+  }
+  if (query.service) {
+    parts.push(`protoPayload.serviceName=${quoteFilterString(query.service)}`);
+  }
+  if (query.failedOnly) {
+    parts.push("protoPayload.status.code>0");
+  }
+
+  return parts.join(" AND ");
+}
+
+/**
+ * Works out which audit log stream an entry belongs to
+ *
+ * @param logName The entry's log name
+ * @returns The audit log type, or undefined for other logs
+ */
+export function getAuditLogType(logName?: string): AuditLogType | undefined {
+  const logId = decodeURIComponent((logName || "").replace(/^.*\/logs\//, ""));
+  return AUDIT_LOG_TYPES.find((type) => AUDIT_LOG_IDS[type] === logId);
+}
+
+/**
+ * Reads a string field from a payload object
+ *
+ * @param value The object
+ * @param key The field name
+ * @returns The field as a string, or undefined if absent
+ */
+function readString(value: unknown, key: string): string | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const field = (value as Record<string, unknown>)[key];
+  return field === undefined || field === null || field === ""
+    ? undefined
+    : String(field);
+}
+
+/**
+ * Extracts the audit details from a log entry
+ *
+ * Entries from the gRPC client must pass through toLogEntry first, which
+ * decodes their protoPayload from a google.protobuf.Any.
+ *
+ * @param entry The log entry
+ * @returns The audit event, or undefined if the entry has no AuditLog payload
+ */
+export function parseAuditLogEntry(entry: LogEntry): AuditEvent | undefined {
+  const payload = entry.protoPayload;
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+
+  const type = getAuditLogType(entry.logName);
+  const status = payload.status as
+    | { code?: number | string; message?: string }
+    | undefined;
+  const authentication = payload.authenticationInfo;
+  const requestMetadata = payload.requestMetadata;
+
+  const event: AuditEvent = {
+    timestamp: String(entry.timestamp || ""),
+    principal:
+      readString(authentication, "principalEmail") ||
+      readString(authentication, "principalSubject") ||
+      (type === "system-event" ? "(Google system)" : "(unknown)"),
+    method: readString(payload, "methodName") || "(unknown)",
+    service: readString(payload, "serviceName") || "(unknown)",
+    resourceName: readString(payload, "resourceName") || "(unknown)",
+    statusCode: Number(status?.code || 0),
+    severity: entry.severity || "DEFAULT",
+  };
+
+  if (type) {
+    event.type = type;
+  }
+  if (status?.message) {
+    event.statusMessage = String(status.message);
+  }
+  const callerIp = readString(requestMetadata, "callerIp");
+  if (callerIp) {
+    event.callerIp = callerIp;
+  }
+  const userAgent = readString(requestMetadata, "callerSuppliedUserAgent");
+  if (userAgent) {
+    event.userAgent = userAgent;
+  }
+  if (entry.insertId) {
+    event.insertId = entry.insertId;
+  }
+  return event;
+}
+
+/**
+ * Reads the grouping value of an event
+ *
+ * @param event The audit event
+ * @param field The grouping field
+ * @returns The value
+ */
+function getAuditGroupKey(event: AuditEvent, field: AuditGroupField): string {
+  switch (field) {
+    case "principal":
+      return event.principal;
+    case "resource":
+      return event.resourceName;
+    case "method":
+      return event.method;
+    case "service":
+      return event.service;
+    case "callerIp":
+      return event.callerIp || "(unknown)";
+  }
+}
+
+/**
+ * Groups audit events by a field
+ *
+ * @param events The audit events
+ * @param field The grouping field
+ * @returns The groups, largest first
+ */
+export function groupAuditEvents(
+  events: AuditEvent[],
+  field: AuditGroupField,
+): AuditEventGroup[] {
+  const groups = new Map<
+    string,
+    AuditEventGroup & { methodCounts: Map<string, number> }
+  >();
+
+  for (const event of events) {
+    const key = getAuditGroupKey(event, field);
+    const group = groups.get(key) || {
+      key,
+      count: 0,
+      failed: 0,
+      types: {},
+      methods: [],
+      methodCounts: new Map<string, number>(),
+    };
+
+    group.count++;
+    if (event.statusCode !== 0) {
+      group.failed++;
+    }
+    if (event.type) {
+      group.types[event.type] = (group.types[event.type] || 0) + 1;
+    }
+    group.methodCounts.set(
+      event.method,
+      (group.methodCounts.get(event.method) || 0) + 1,
+    );
+    if (event.timestamp) {
+      if (!group.firstSeen || event.timestamp < group.firstSeen) {
+        group.firstSeen = event.timestamp;
+      }
+      if (!group.lastSeen || event.timestamp > group.lastSeen) {
+        group.lastSeen = event.timestamp;
+      }
+    }
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ methodCounts, ...group }) => ({
+      ...group,
+      methods: [...methodCounts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([method]) => method),
+    }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Describes an event's outcome
+ *
+ * @param event The audit event
+ * @returns "OK" or the status code name and message
+ */
+function formatAuditStatus(event: AuditEvent): string {
+  if (event.statusCode === 0) {
+    return "OK";
+  }
+  const name =
+    STATUS_CODE_NAMES[event.statusCode] || `Code ${event.statusCode}`;
+  return event.statusMessage ? `${name}: ${event.statusMessage}` : name;
+}
+
+/**
+ * Escapes a value for a markdown table cell
+ *
+ * @param value The value
+ * @returns The value with pipes and newlines escaped
+ */
+function tableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Formats audit events as markdown, one table per audit log type
+ *
+ * @param events The audit events, newest first
+ * @param limit Maximum number of events to list per type
+ * @returns The formatted events
+ */
+export function formatAuditEvents(events: AuditEvent[], limit = 50): string {
+  let markdown = "";
+
+  for (const type of [...AUDIT_LOG_TYPES, undefined]) {
+    const matching = events.filter((event) => event.type === type);
+    if (matching.length === 0) {
+      continue;
+    }
+
+    markdown += `## ${type ? AUDIT_LOG_TYPE_NAMES[type] : "Other"} (${matching.length})\n\n`;
+    markdown += `| Time | Principal | Method | Resource | Status | Caller IP |\n|------|-----------|--------|----------|--------|-----------|\n`;
+    for (const event of matching.slice(0, limit)) {
+      markdown += `| ${event.timestamp} | ${tableCell(event.principal)} | ${tableCell(event.method)} | ${tableCell(event.resourceName)} | ${tableCell(formatAuditStatus(event))} | ${event.callerIp || ""} |\n`;
+    }
+    if (matching.length > limit) {
+      markdown += `\n*${matching.length - limit} older events not shown.*\n`;
+    }
+    markdown += "\n";
+  }
+
+  return markdown || "No audit events found.";
+}
+
+/**
+ * Formats grouped audit events as a markdown table
+ *
+ * @param groups The groups
+ * @param field The grouping field
+ * @param limit Maximum number of groups to list
+ * @returns The formatted groups
+ */
+export function formatAuditGroups(
+  groups: AuditEventGroup[],
+  field: AuditGroupField,
+  limit = 50,
+): string {
+  if (groups.length === 0) {
+    return "No audit events found.";
+  }
+
+  const headings: Record<AuditGroupField, string> = {
+    principal: "Principal",
+    resource: "Resource",
+    method: "Method",
+    service: "Service",
+    callerIp: "Caller IP",
+  };
+
+  let markdown = `| ${headings[field]} | Events | Failed | Log Types | Top Methods | First Seen | Last Seen |\n|---|---|---|---|---|---|---|\n`;
+  for (const group of groups.slice(0, limit)) {
+    const types = AUDIT_LOG_TYPES.filter((type) => group.types[type])
+      .map((type) => `${AUDIT_LOG_TYPE_NAMES[type]}: ${group.types[type]}`)
+      .join(", ");
+    const methods =
+      group.methods.slice(0, 3).join(", ") +
+      (group.methods.length > 3 ? ` (+${group.methods.length - 3} more)` : "");
+    markdown += `| ${tableCell(group.key)} | ${group.count} | ${group.failed} | ${types} | ${tableCell(methods)} | ${group.firstSeen || ""} | ${group.lastSeen || ""} |\n`;
+  }
+  if (groups.length > limit) {
+    markdown += `\n*${groups.length - limit} smaller groups not shown.*\n`;
+  }
+  return markdown;
+}
@@ -0,0 +1,450 @@
+/**
+ * Log window comparison for Google Cloud Logging
+ *
+ * Mines message templates from a baseline and a comparison set of entries,
+ * such as the hour before and after a deploy or two release versions, and
+ * reports templates that are new, have vanished, or whose share of the
+ * traffic changed significantly. Shares rather than raw counts are compared
+ * so windows of different length or volume can be compared fairly.
+ */
+import { Logging } from "@google-cloud/logging";
+import { scanLogEntries } from "./pagination.js";
+import {
+  getLogMessage,
+  LogPattern,
+  LogPatternMiner,
+  WILDCARD_TOKEN,
+} from "./patterns.js";
+import { LOG_SEVERITIES } from "./filter.js";
+import { LogEntry, toLogEntry } from "./types.js";
+
+/**
+ * Maximum message length shown in examples
+ */
+const MAX_EXAMPLE_LENGTH = 300;
+
+/**
+ * Templates and severities mined from one side of a comparison
+ */
+export interface LogWindowSummary {
+  /** Human-readable description, e.g. the time range or version */
+  label: string;
+  filter: string;
+  entries: number;
+  truncated: boolean;
+  patterns: LogPattern[];
+  severities: Record<string, number>;
+}
+
+/**
+ * How a template differs between the two sides
+ */
+export type LogPatternChangeKind =
+  | "new"
+  | "vanished"
+  | "increased"
+  | "decreased"
+  | "severity-shift";
+
+/**
+ * A template that differs between the baseline and the comparison
+ */
+export interface LogPatternChange {
+  kind: LogPatternChangeKind;
+  template: string;
+  baselineCount: number;
+  comparisonCount: number;
+  /** Fraction of the baseline entries that matched the template */
+  baselineShare: number;
+  /** Fraction of the comparison entries that matched the template */
+  comparisonShare: number;
+  /** Comparison share divided by baseline share, when both are non-zero */
+  ratio?: number;
+  /** Severities the template was logged at only in the comparison */
+  newSeverities: string[];
+  example: LogEntry;
+}
+
+/**
+ * Counts for one severity on both sides
+ */
+export interface LogSeverityChange {
+  severity: string;
+  baselineCount: number;
+  comparisonCount: number;
+  baselineShare: number;
+  comparisonShare: number;
+}
+
+/**
+ * Thresholds for reporting a changed template
+ */
+export interface LogComparisonOptions {
+  /** Minimum change in share, in either direction, to report (e.g. 2 for 2x) */
+  changeRatio: number;
+  /** Minimum entries on the larger side for a change to be reported */
+  minCount: number;
+}
+
+/**
+ * Result of comparing two sets of entries
+ */
+export interface LogWindowComparison {
+  changes: LogPatternChange[];
+  severities: LogSeverityChange[];
+  /** Number of templates present on both sides without a significant change */
+  unchanged: number;
+}
+
+/**
+ * Mines templates from every entry matching a filter
+ *
+ * @param logging The Logging client
+ * @param label Description of the window
+ * @param filter The filter selecting the window's entries
+ * @param maxEntries Upper bound on the entries scanned
+ * @param resourceNames Resources to read from instead of the current project
+ * @returns The window summary
+ */
+export async function summariseLogWindow(
+  logging: Logging,
+  label: string,
+  filter: string,
+  maxEntries: number,
+  resourceNames?: string[],
+): Promise<LogWindowSummary> {
+  const miner = new LogPatternMiner();
+  const severities: Record<string, number> = {};
+
+  const scan = await scanLogEntries(
+    logging,
+    { filter, maxEntries, orderBy: "timestamp desc", resourceNames },
+    (entries) => {
+      for (const entry of entries) {
+        const logEntry = toLogEntry(entry);
+        const severity = logEntry.severity || "DEFAULT";
+        severities[severity] = (severities[severity] || 0) + 1;
+        miner.add(logEntry);
+      }
+    },
+  );
+
+  return {
+    label,
+    filter,
+    entries: scan.scanned,
+    truncated: scan.truncated,
+    patterns: miner.getPatterns(),
+    severities,
+  };
+}
+
+/**
+ * Checks whether two templates describe the same messages
+ *
+ * Templates mined separately can wildcard different positions, so positions
+ * match when the tokens are equal or either is a wildcard.
+ *
+ * @param a The first template
+ * @param b The second template
+ * @returns Whether the templates are compatible
+ */
+export function templatesMatch(a: string, b: string): boolean {
+  const left = a.split(" ");
+  const right = b.split(" ");
+  return (
+    left.length === right.length &&
+    left.every(
+      (token, i) =>
+        token === right[i] ||
+        token === WILDCARD_TOKEN ||
+        right[i] === WILDCARD_TOKEN,
+    )
+  );
+}
+
+/**
+ * Counts the exactly matching token positions of two templates
+ *
+ * @param a The first template
+ * @param b The second template
+ * @returns The number of positions with identical tokens
+ */
+function exactTokenMatches(a: string, b: string): number {
+  const right = b.split(" ");
+  return a.split(" ").filter((token, i) => token === right[i]).length;
+}
+
+/**
+ * Calculates a count as a fraction of a total
+ *
+ * @param count The count
+ * @param total The total
+ * @returns The share, or 0 for an empty total
+ */
+function share(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+/**
+ * Compares the templates and severities of two windows
+ *
+ * @param baseline The baseline window
+ * @param comparison The comparison window
+ * @param options Thresholds for reporting changes
+ * @returns The changes, most significant first
+ */
+export function compareLogWindows(
+  baseline: LogWindowSummary,
+  comparison: LogWindowSummary,
+  options: LogComparisonOptions,
+): LogWindowComparison {
+  const matched = new Map<LogPattern, LogPattern[]>();
+  const unmatched: LogPattern[] = [];
+
+  for (const pattern of comparison.patterns) {
+    let best: LogPattern | undefined;
+    let bestScore = -1;
+    for (const candidate of baseline.patterns) {
+      if (templatesMatch(candidate.template, pattern.template)) {
+        const score = exactTokenMatches(candidate.template, pattern.template);
+        if (score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+    }
+
+    if (best) {
+      matched.set(best, [...(matched.get(best) || []), pattern]);
+    } else {
+      unmatched.push(pattern);
+    }
+  }
+
+  const changes: LogPatternChange[] = [];
+  let unchanged = 0;
+
+  for (const pattern of unmatched) {
+    changes.push({
+      kind: "new",
+      template: pattern.template,
+      baselineCount: 0,
+      comparisonCount: pattern.count,
+      baselineShare: 0,
+      comparisonShare: share(pattern.count, comparison.entries),
+      newSeverities: Object.keys(pattern.severities),
+      example: pattern.example,
+    });
+  }
+
+  for (const pattern of baseline.patterns) {
+    const counterparts = matched.get(pattern);
+    if (!counterparts) {
+      changes.push({
+        kind: "vanished",
+        template: pattern.template,
+        baselineCount: pattern.count,
+        comparisonCount: 0,
+        baselineShare: share(pattern.count, baseline.entries),
+        comparisonShare: 0,
+        newSeverities: [],
+        example: pattern.example,
+      });
+      continue;
+    }
+
+    const comparisonCount = counterparts.reduce(
+      (total, counterpart) => total + counterpart.count,
+      0,
+    );
+    const newSeverities = [
+      ...new Set(
+        counterparts.flatMap((counterpart) =>
+          Object.keys(counterpart.severities),
+        ),
+      ),
+    ].filter((severity) => !pattern.severities[severity]);
+
+    const baselineShare = share(pattern.count, baseline.entries);
+    const comparisonShare = share(comparisonCount, comparison.entries);
+    const ratio = comparisonShare / baselineShare;
+
+    let kind: LogPatternChangeKind | undefined;
+    if (ratio >= options.changeRatio && comparisonCount >= options.minCount) {
+      kind = "increased";
+    } else if (
+      ratio <= 1 / options.changeRatio &&
+      pattern.count >= options.minCount
+    ) {
+      kind = "decreased";
+    } else if (newSeverities.length > 0) {
+      kind = "severity-shift";
+    }
+
+    if (!kind) {
+      unchanged++;
+      continue;
+    }
+
+    changes.push({
+      kind,
+      template:
+        counterparts.length === 1 ? counterparts[0].template : pattern.template,
+      baselineCount: pattern.count,
+      comparisonCount,
+      baselineShare,
+      comparisonShare,
+      ratio,
+      newSeverities,
+      example: counterparts[0].example,
+    });
+  }
+
+  changes.sort(
+    (a, b) =>
+      Math.max(b.baselineCount, b.comparisonCount) -
+        Math.max(a.baselineCount, a.comparisonCount) ||
+      a.template.localeCompare(b.template),
+  );
+
+  const severityNames = [
+    ...new Set([
+      ...Object.keys(baseline.severities),
+      ...Object.keys(comparison.severities),
+    ]),
+  ].sort(
+    (a, b) =>
+      (LOG_SEVERITIES as readonly string[]).indexOf(b) -
+      (LOG_SEVERITIES as readonly string[]).indexOf(a),
+  );
+
+  return {
+    changes,
+    unchanged,
+    severities: severityNames.map((severity) => ({
+      severity,
+      baselineCount: baseline.severities[severity] || 0,
+      comparisonCount: comparison.severities[severity] || 0,
+      baselineShare: share(
+        baseline.severities[severity] || 0,
+        baseline.entries,
+      ),
+      comparisonShare: share(
+        comparison.severities[severity] || 0,
+        comparison.entries,
+      ),
+    })),
+  };
+}
+
+/**
+ * Formats a share as a percentage
+ *
+ * @param value The share
+ * @returns The percentage with one decimal place
+ */
+function formatShare(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Formats the changes of one kind as markdown
+ *
+ * @param title The section title
+ * @param changes The changes to list
+ * @param limit Maximum number of changes to list
+ * @returns The formatted section, or an empty string if there are none
+ */
+function formatChangeSection(
+  title: string,
+  changes: LogPatternChange[],
+  limit: number,
+): string {
+  if (changes.length === 0) {
+    return "";
+  }
+
+  let markdown = `## ${title} (${changes.length})\n\n`;
+  for (const change of changes.slice(0, limit)) {
+    const example = getLogMessage(change.example).split("\n", 1)[0];
+    markdown += `\`\`\`\n${change.template}\n\`\`\`\n`;
+    markdown += `- **Baseline:** ${change.baselineCount} (${formatShare(change.baselineShare)})\n`;
+    markdown += `- **Comparison:** ${change.comparisonCount} (${formatShare(change.comparisonShare)})\n`;
+    if (change.ratio !== undefined) {
+      markdown += `- **Change:** ${change.ratio.toFixed(2)}x\n`;
+    }
+    if (change.newSeverities.length > 0 && change.kind !== "new") {
+      markdown += `- **New Severities:** ${change.newSeverities.join(", ")}\n`;
+    }
+    markdown += `- **Example:** ${example.slice(0, MAX_EXAMPLE_LENGTH)}\n\n`;
+  }
+  if (changes.length > limit) {
+    markdown += `*${changes.length - limit} more not shown.*\n\n`;
+  }
+  return markdown;
+}
+
+/**
+ * Formats a window comparison as markdown
+ *
+ * @param baseline The baseline window
+ * @param comparison The comparison window
+ * @param result The comparison result
+ * @param limit Maximum number of templates to list per section
+ * @returns The formatted comparison
+ */
+export function formatLogWindowComparison(
+  baseline: LogWindowSummary,
+  comparison: LogWindowSummary,
+  result: LogWindowComparison,
+  limit = 20,
+): string {
+  let markdown = `| Window | Description | Entries | Templates |\n|--------|-------------|---------|-----------|\n`;
+  for (const [name, window] of [
+    ["Baseline", baseline],
+    ["Comparison", comparison],
+  ] as const) {
+    markdown += `| ${name} | ${window.label} | ${window.entries}${window.truncated ? " (truncated)" : ""} | ${window.patterns.length} |\n`;
+  }
+
+  if (result.severities.length > 0) {
+    markdown += `\n## Severities\n\n| Severity | Baseline | Comparison |\n|----------|----------|------------|\n`;
+    for (const severity of result.severities) {
+      markdown += `| ${severity.severity} | ${severity.baselineCount} (${formatShare(severity.baselineShare)}) | ${severity.comparisonCount} (${formatShare(severity.comparisonShare)}) |\n`;
+    }
+  }
+  markdown += "\n";
+
+  const byKind = (kind: LogPatternChangeKind) =>
+    result.changes.filter((change) => change.kind === kind);
+
+  markdown += formatChangeSection("New Templates", byKind("new"), limit);
+  markdown += formatChangeSection(
+    "Vanished Templates",
+    byKind("vanished"),
+    limit,
+  );
+  markdown += formatChangeSection(
+    "Increased Templates",
+    byKind("increased"),
+    limit,
+  );
+  markdown += formatChangeSection(
+    "Decreased Templates",
+    byKind("decreased"),
+    limit,
+  );
+  markdown += formatChangeSection(
+    "Templates With New Severities",
+    byKind("severity-shift"),
+    limit,
+  );
+
+  if (result.changes.length === 0) {
+    markdown += "No significant differences between the windows.\n";
+  }
+  markdown += `\n${result.unchanged} template(s) were present in both windows without a significant change.`;
+
+  return markdown;
+}
@@ -0,0 +1,511 @@
+/**
+ * Request-scoped log correlation for Google Cloud Logging
+ *
+ * Finds every entry belonging to one request, by trace ID, request ID or
+ * client IP, and stitches them into a single chronological timeline across
+ * load balancer, application and Cloud SQL proxy logs. Database logs rarely
+ * carry the request's trace, so they are correlated by time instead: entries
+ * written while the request was in flight are included and marked as such.
+ */
+import { Logging } from "@google-cloud/logging";
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { scanLogEntries } from "./pagination.js";
+import { getLogMessage } from "./patterns.js";
+import { LogEntry, toLogEntry } from "./types.js";
+
+/**
+ * Fields that commonly hold a request ID, searched for exact matches
+ */
+export const REQUEST_ID_FIELDS = [
+  "protoPayload.requestId",
+  "jsonPayload.requestId",
+  "jsonPayload.request_id",
+  "jsonPayload.req_id",
+  "jsonPayload.reqId",
+  "labels.request_id",
+  "labels.requestId",
+  "operation.id",
+];
+
+/**
+ * Filter selecting Cloud SQL and Cloud SQL proxy logs
+ */
+export const DATABASE_LOG_FILTER =
+  'resource.type="cloudsql_database" OR logName:"cloud_sql_proxy" OR logName:"cloud-sql-proxy" OR resource.labels.container_name:"cloud-sql-proxy"';
+
+/**
+ * Resource types written by Google Cloud load balancers
+ */
+const LOAD_BALANCER_RESOURCE_TYPES = new Set([
+  "http_load_balancer",
+  "internal_http_lb_rule",
+  "tcp_ssl_proxy_rule",
+  "l4_proxy_rule",
+]);
+
+/**
+ * Maximum message length shown in the timeline
+ */
+const MAX_MESSAGE_LENGTH = 200;
+
+/**
+ * Longest request span for which database logs are correlated by time
+ *
+ * Beyond this the span usually covers many requests, for example when
+ * correlating by client IP, and time-correlated entries would be noise.
+ */
+const MAX_TIME_CORRELATION_MS = 60 * 1000;
+
+/**
+ * Margin added to both ends of the time-correlation window
+ *
+ * Covers clock skew between services and requests whose only entry has no
+ * latency, which would otherwise give a window of zero width.
+ */
+const TIME_CORRELATION_PADDING_MS = 1000;
+
+/**
+ * Values identifying a request
+ */
+export interface RequestCorrelationKeys {
+  /** Trace ID or full trace resource name */
+  traceId?: string;
+  requestId?: string;
+  remoteIp?: string;
+}
+
+/**
+ * Part of the serving path that wrote an entry
+ */
+export type RequestLogLayer = "load-balancer" | "application" | "database";
+
+/**
+ * One entry in a request timeline
+ */
+export interface RequestTimelineEvent {
+  timestamp: string;
+  /** Milliseconds since the first event */
+  offsetMs: number;
+  layer: RequestLogLayer;
+  service: string;
+  logName?: string;
+  severity: string;
+  message: string;
+  status?: number;
+  /** Latency reported in httpRequest.latency, in milliseconds */
+  latencyMs?: number;
+  /** Whether the entry matched the request keys or only its time span */
+  correlatedBy: "request" | "time";
+  insertId?: string;
+}
+
+/**
+ * Latency reported by one component of the serving path
+ */
+export interface RequestLatencyComponent {
+  layer: RequestLogLayer;
+  service: string;
+  latencyMs: number;
+}
+
+/**
+ * A reconstructed request
+ */
+export interface RequestTimeline {
+  events: RequestTimelineEvent[];
+  start?: string;
+  end?: string;
+  /** Time between the first and last matching entry, in milliseconds */
+  spanMs: number;
+  /** Latency per component, slowest first */
+  latency: RequestLatencyComponent[];
+}
+
+/**
+ * Options for reconstructing a request
+ */
+export interface RequestTimelineRequest {
+  keys: RequestCorrelationKeys;
+  start: Date;
+  end: Date;
+  /** Additional filter criteria for the key-matched entries */
+  filter?: string;
+  maxEntries: number;
+  includeDatabaseLogs: boolean;
+  resourceNames?: string[];
+}
+
+/**
+ * A reconstructed request with details of how it was fetched
+ */
+export interface RequestTimelineResult {
+  timeline: RequestTimeline;
+  filter: string;
+  /** Whether more matching entries remained when the scan stopped */
+  truncated: boolean;
+  /** Why database logs were not correlated by time, if they were requested but skipped */
+  databaseSkippedReason?: string;
+}
+
+/**
+ * Builds the filter selecting entries that belong to a request
+ *
+ * @param keys The request identifiers
+ * @returns The filter, with the identifiers OR-ed together
+ */
+export function buildRequestCorrelationFilter(
+  keys: RequestCorrelationKeys,
+): string {
+  const clauses: string[] = [];
+
+  if (keys.traceId) {
+    // Substring match so both bare IDs and projects/P/traces/ID names work
+    const traceId = keys.traceId.replace(/^.*\/traces\//, "");
+    clauses.push(`trace:${quoteFilterString(traceId)}`);
+  }
+  if (keys.requestId) {
+    const value = quoteFilterString(keys.requestId);
+    clauses.push(...REQUEST_ID_FIELDS.map((field) => `${field}=${value}`));
+  }
+  if (keys.remoteIp) {
+    clauses.push(`httpRequest.remoteIp=${quoteFilterString(keys.remoteIp)}`);
+  }
+
+  if (clauses.length === 0) {
+    throw new GcpMcpError(
+      "Provide a trace ID, request ID or remote IP to correlate",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(" OR ")})`;
+}
+
+/**
+ * Parses an httpRequest.latency value
+ *
+ * @param latency A duration string such as "0.25s", or a {seconds, nanos} object
+ * @returns The latency in milliseconds, or undefined if it cannot be read
+ */
+export function parseHttpLatency(latency: unknown): number | undefined {
+  if (typeof latency === "string") {
+    const match = latency.trim().match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? parseFloat(match[1]) * 1000 : undefined;
+  }
+  if (latency && typeof latency === "object") {
+    const { seconds, nanos } = latency as {
+      seconds?: number | string;
+      nanos?: number;
+    };
+    if (seconds === undefined && nanos === undefined) {
+      return undefined;
+    }
+    return Number(seconds || 0) * 1000 + Number(nanos || 0) / 1e6;
+  }
+  return undefined;
+}
+
+/**
+ * Works out which part of the serving path wrote an entry
+ *
+ * @param entry The log entry
+ * @returns The layer
+ */
+export function classifyRequestLogLayer(entry: LogEntry): RequestLogLayer {
+  const resourceType = entry.resource?.type || "";
+  const logName = entry.logName || "";
+  if (
+    LOAD_BALANCER_RESOURCE_TYPES.has(resourceType) ||
+    logName.includes("loadbalancing.googleapis.com")
+  ) {
+    return "load-balancer";
+  }
+  if (
+    resourceType === "cloudsql_database" ||
+    /cloud[-_]sql[-_]proxy/.test(logName) ||
+    /cloud[-_]sql[-_]proxy/.test(entry.resource?.labels?.container_name || "")
+  ) {
+    return "database";
+  }
+  return "application";
+}
+
+/**
+ * Names the service that wrote an entry
+ *
+ * @param entry The log entry
+ * @returns The service, forwarding rule, container or database name
+ */
+function getRequestLogService(entry: LogEntry): string {
+  const labels = entry.resource?.labels || {};
+  return (
+    labels.service_name ||
+    labels.module_id ||
+    labels.function_name ||
+    labels.container_name ||
+    labels.forwarding_rule_name ||
+    labels.url_map_name ||
+    labels.database_id ||
+    entry.resource?.type ||
+    "unknown"
+  );
+}
+
+/**
+ * Summarises an entry in one line
+ *
+ * @param entry The log entry
+ * @returns The HTTP request line or the first line of the message
+ */
+function describeRequestLogEntry(entry: LogEntry): string {
+  const message = getLogMessage(entry).split("\n", 1)[0];
+  const http = entry.httpRequest;
+  if (http?.requestMethod || http?.requestUrl) {
+    const request =
+      `${http.requestMethod || ""} ${http.requestUrl || ""}`.trim();
+    return message && !message.startsWith("{")
+      ? `${request} - ${message}`
+      : request;
+  }
+  return message;
+}
+
+/**
+ * Builds a chronological timeline from the entries of a request
+ *
+ * @param entries Entries matching the request identifiers
+ * @param timeCorrelated Entries matched only by falling within the request's time span
+ * @returns The timeline with a latency breakdown
+ */
+export function buildRequestTimeline(
+  entries: LogEntry[],
+  timeCorrelated: LogEntry[] = [],
+): RequestTimeline {
+  const seen = new Set<string>();
+  const tagged = [
+    ...entries.map((entry) => ({ entry, correlatedBy: "request" as const })),
+    ...timeCorrelated.map((entry) => ({
+      entry,
+      correlatedBy: "time" as const,
+    })),
+  ].filter(({ entry }) => {
+    // Time-correlated queries can return entries already matched by key
+    if (!entry.insertId) {
+      return true;
+    }
+    const key = `${entry.logName}/${entry.insertId}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  tagged.sort(
+    (a, b) =>
+      new Date(a.entry.timestamp).getTime() -
+      new Date(b.entry.timestamp).getTime(),
+  );
+
+  const requestTimes = tagged
+    .filter((item) => item.correlatedBy === "request")
+    .map((item) => new Date(item.entry.timestamp).getTime())
+    .filter((time) => !isNaN(time));
+  const firstTime = tagged.length
+    ? new Date(tagged[0].entry.timestamp).getTime()
+    : NaN;
+
+  const events: RequestTimelineEvent[] = tagged.map(
+    ({ entry, correlatedBy }) => {
+      const time = new Date(entry.timestamp).getTime();
+      const event: RequestTimelineEvent = {
+        timestamp: String(entry.timestamp),
+        offsetMs: isNaN(time) || isNaN(firstTime) ? 0 : time - firstTime,
+        layer: classifyRequestLogLayer(entry),
+        service: getRequestLogService(entry),
+        logName: entry.logName,
+        severity: entry.severity || "DEFAULT",
+        message: describeRequestLogEntry(entry).slice(0, MAX_MESSAGE_LENGTH),
+        correlatedBy,
+      };
+      if (entry.httpRequest?.status) {
+        event.status = Number(entry.httpRequest.status);
+      }
+      const latencyMs = parseHttpLatency(entry.httpRequest?.latency);
+      if (latencyMs !== undefined) {
+        event.latencyMs = latencyMs;
+      }
+      if (entry.insertId) {
+        event.insertId = entry.insertId;
+      }
+      return event;
+    },
+  );
+
+  // Keep the slowest report per component; retries and redirects log twice
+  const latency = new Map<string, RequestLatencyComponent>();
+  for (const event of events) {
+    if (event.latencyMs === undefined) {
+      continue;
+    }
+    const key = `${event.layer}/${event.service}`;
+    const current = latency.get(key);
+    if (!current || event.latencyMs > current.latencyMs) {
+      latency.set(key, {
+        layer: event.layer,
+        service: event.service,
+        latencyMs: event.latencyMs,
+      });
+    }
+  }
+
+  const spanMs =
+    requestTimes.length > 0
+      ? Math.max(...requestTimes) - Math.min(...requestTimes)
+      : 0;
+
+  return {
+    events,
+    start: events[0]?.timestamp,
+    end: events[events.length - 1]?.timestamp,
+    spanMs,
+    latency: [...latency.values()].sort((a, b) => b.latencyMs - a.latencyMs),
+  };
+}
+
+/**
+ * Fetches the entries of a request and builds its timeline
+ *
+ * @param logging The Logging client
+ * @param request The request identifiers and time window
+ * @returns The timeline and how it was fetched
+ */
+export async function fetchRequestTimeline(
+  logging: Logging,
+  request: RequestTimelineRequest,
+): Promise<RequestTimelineResult> {
+  const timeFilter = (start: Date, end: Date) =>
+    `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
+  const filter = `${timeFilter(request.start, request.end)} AND ${buildRequestCorrelationFilter(request.keys)}${request.filter ? ` AND ${request.filter}` : ""}`;
+
+  const entries: LogEntry[] = [];
+  const scan = await scanLogEntries(
+    logging,
+    {
+      filter,
+      maxEntries: request.maxEntries,
+      orderBy: "timestamp asc",
+      resourceNames: request.resourceNames,
+    },
+    (page) => {
+      entries.push(...page.map(toLogEntry));
+    },
+  );
+
+  const timeCorrelated: LogEntry[] = [];
+  let databaseSkippedReason: string | undefined;
+  const times = entries
+    .map((entry) => new Date(entry.timestamp).getTime())
+    .filter((time) => !isNaN(time));
+
+  if (request.includeDatabaseLogs && times.length > 0) {
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    // Not needed when the proxy or database logged the request's identifiers
+    const hasDatabaseEntries = entries.some(
+      (entry) => classifyRequestLogLayer(entry) === "database",
+    );
+
+    if (!hasDatabaseEntries && last - first > MAX_TIME_CORRELATION_MS) {
+      databaseSkippedReason = `the matching entries span ${Math.round((last - first) / 1000)} seconds, which likely covers more than one request`;
+    } else if (!hasDatabaseEntries) {
+      // Entries are stamped when the request arrived, so the request was in
+      // flight until its timestamp plus its latency
+      const finished = entries.reduce((latest, entry) => {
+        const time = new Date(entry.timestamp).getTime();
+        const latencyMs = parseHttpLatency(entry.httpRequest?.latency) ?? 0;
+        return isNaN(time) ? latest : Math.max(latest, time + latencyMs);
+      }, last);
+      await scanLogEntries(
+        logging,
+        {
+          filter: `${timeFilter(new Date(first - TIME_CORRELATION_PADDING_MS), new Date(finished + TIME_CORRELATION_PADDING_MS))} AND (${DATABASE_LOG_FILTER})`,
+          maxEntries: request.maxEntries,
+          orderBy: "timestamp asc",
+          resourceNames: request.resourceNames,
+        },
+        (page) => {
+          timeCorrelated.push(...page.map(toLogEntry));
+        },
+      );
+    }
+  }
+
+  return {
+    timeline: buildRequestTimeline(entries, timeCorrelated),
+    filter,
+    truncated: scan.truncated,
+    databaseSkippedReason,
+  };
+}
+
+/**
+ * Formats a duration in milliseconds for display
+ *
+ * @param ms The duration
+ * @returns The duration, e.g. "12.5 ms" or "1.20 s"
+ */
+function formatMilliseconds(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms.toFixed(1)} ms`;
+}
+
+/**
+ * Formats a request timeline as markdown
+ *
+ * @param timeline The timeline
+ * @returns The latency breakdown and the chronological events
+ */
+export function formatRequestTimeline(timeline: RequestTimeline): string {
+  const labels: Record<RequestLogLayer, string> = {
+    "load-balancer": "Load Balancer",
+    application: "Application",
+    database: "Database",
+  };
+
+  let markdown = "";
+
+  if (timeline.latency.length > 0) {
+    // The outermost component, normally the load balancer, sees the whole request
+    const total = timeline.latency[0].latencyMs;
+    markdown += `## Latency Breakdown\n\n| Layer | Service | Latency | Share of Total |\n|-------|---------|---------|----------------|\n`;
+    for (const component of timeline.latency) {
+      const percentage =
+        total > 0 ? ((component.latencyMs / total) * 100).toFixed(1) : "0";
+      markdown += `| ${labels[component.layer]} | ${component.service} | ${formatMilliseconds(component.latencyMs)} | ${percentage}% |\n`;
+    }
+    const loadBalancer = timeline.latency.find(
+      (component) => component.layer === "load-balancer",
+    );
+    const backend = timeline.latency.find(
+      (component) => component.layer !== "load-balancer",
+    );
+    if (loadBalancer && backend && loadBalancer.latencyMs > backend.latencyMs) {
+      markdown += `\n${formatMilliseconds(loadBalancer.latencyMs - backend.latencyMs)} of the load balancer latency was spent outside the slowest backend (network, queuing and proxying).\n`;
+    }
+    markdown += "\n";
+  }
+
+  markdown += `## Timeline\n\n| Offset | Time | Layer | Service | Severity | Status | Latency | Message |\n|--------|------|-------|---------|----------|--------|---------|---------|\n`;
+  for (const event of timeline.events) {
+    const layer = `${labels[event.layer]}${event.correlatedBy === "time" ? " (by time)" : ""}`;
+    const message = event.message.replace(/\|/g, "\\|");
+    markdown += `| +${formatMilliseconds(event.offsetMs)} | ${event.timestamp} | ${layer} | ${event.service} | ${event.severity} | ${event.status ?? ""} | ${event.latencyMs !== undefined ? formatMilliseconds(event.latencyMs) : ""} | ${message} |\n`;
+  }
+
+  if (timeline.events.some((event) => event.correlatedBy === "time")) {
+    markdown += `\n*Entries marked "by time" do not carry the request's identifiers; they were written by database components while the request was in flight and may belong to concurrent requests.*\n`;
+  }
+
+  return markdown;
+}
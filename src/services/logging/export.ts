@@ -0,0 +1,464 @@
+/**
+ * Export of log entries to local files for offline analysis
+ *
+ * Entries are streamed page by page from the Logging API straight to disk, so
+ * an export never holds more than one page (or one Parquet row group) in
+ * memory regardless of how many entries match.
+ */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { once } from "events";
+import { Logging } from "@google-cloud/logging";
+import {
+  fileWriter,
+  ParquetWriter,
+  schemaFromColumnData,
+} from "hyparquet-writer";
+import { GcpMcpError } from "../../utils/error.js";
+import { parseLogFilter } from "./filter.js";
+import { scanLogEntries } from "./pagination.js";
+import { getLogMessage } from "./patterns.js";
+import { LogEntry, normaliseLogEntry, toLogEntry } from "./types.js";
+import { labelLogEntrySources } from "./scope.js";
+
+/**
+ * Supported export formats
+ */
+export const LOG_EXPORT_FORMATS = ["ndjson", "csv", "parquet"] as const;
+
+/**
+ * Export file format
+ */
+export type LogExportFormat = (typeof LOG_EXPORT_FORMATS)[number];
+
+/**
+ * MIME types of exported files
+ */
+export const LOG_EXPORT_MIME_TYPES: Record<LogExportFormat, string> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv",
+  parquet: "application/vnd.apache.parquet",
+};
+
+/**
+ * Columns written to CSV and Parquet files when none are chosen
+ *
+ * `message` is the entry's main message, read from textPayload or the usual
+ * jsonPayload message fields.
+ */
+export const DEFAULT_LOG_EXPORT_COLUMNS = [
+  "timestamp",
+  "severity",
+  "logName",
+  "resource.type",
+  "insertId",
+  "trace",
+  "message",
+];
+
+/**
+ * Rows buffered before a Parquet row group is written
+ */
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+/**
+ * Options for an export
+ */
+export interface LogExportRequest {
+  filter: string;
+  format: LogExportFormat;
+  /** Columns for CSV and Parquet; NDJSON always writes whole entries */
+  columns?: string[];
+  maxEntries: number;
+  resourceNames?: string[];
+  /** File name within the export directory, generated if omitted */
+  fileName?: string;
+}
+
+/**
+ * Summary of a completed export
+ */
+export interface LogExportResult {
+  fileName: string;
+  path: string;
+  format: LogExportFormat;
+  columns?: string[];
+  entries: number;
+  bytes: number;
+  /** Whether more matching entries remained when the export stopped */
+  truncated: boolean;
+}
+
+/**
+ * Destination that exported entries are written to
+ */
+interface LogExportWriter {
+  write(entries: LogEntry[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Returns the directory exports are written to
+ *
+ * @returns The `LOG_EXPORT_DIR` environment variable, or ~/.google-cloud-mcp/exports
+ */
+export function getLogExportDirectory(): string {
+  return (
+    process.env.LOG_EXPORT_DIR ||
+    path.join(os.homedir(), ".google-cloud-mcp", "exports")
+  );
+}
+
+/**
+ * Resolves an export file name to a path inside the export directory
+ *
+ * @param fileName The file name
+ * @returns The absolute file path
+ */
+export function resolveLogExportPath(fileName: string): string {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(fileName)) {
+    throw new GcpMcpError(
+      `Invalid export file name: "${fileName}". Use letters, digits, dots, dashes and underscores only.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return path.join(getLogExportDirectory(), fileName);
+}
+
+/**
+ * Chooses the file name for an export
+ *
+ * A name without an export extension gets the one for the format, so the
+ * export resource serves the file with the right MIME type.
+ *
+ * @param fileName The requested file name, if any
+ * @param format The export format
+ * @returns The file name to write
+ * @throws GcpMcpError if the name's extension is for a different format
+ */
+export function resolveLogExportFileName(
+  fileName: string | undefined,
+  format: LogExportFormat,
+): string {
+  if (!fileName) {
+    return `logs-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`;
+  }
+  const extensionFormat = getLogExportFormat(fileName);
+  if (!extensionFormat) {
+    return `${fileName}.${format}`;
+  }
+  if (extensionFormat !== format) {
+    throw new GcpMcpError(
+      `Export file name "${fileName}" has a .${extensionFormat} extension but the format is ${format}. Use a .${format} name or omit the extension.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return fileName;
+}
+
+/**
+ * Builds the URI of the resource that serves an export file
+ *
+ * @param fileName The export file name
+ * @returns The resource URI
+ */
+export function logExportResourceUri(fileName: string): string {
+  return `gcp-logs-export://${fileName}`;
+}
+
+/**
+ * Infers an export file's format from its extension
+ *
+ * @param fileName The export file name
+ * @returns The format, or undefined if the extension is not recognised
+ */
+export function getLogExportFormat(
+  fileName: string,
+): LogExportFormat | undefined {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return (LOG_EXPORT_FORMATS as readonly string[]).includes(extension)
+    ? (extension as LogExportFormat)
+    : undefined;
+}
+
+/**
+ * Parses export column paths into field path segments
+ *
+ * @param columns Dotted field paths, or `message`
+ * @returns The path segments for each column
+ */
+function parseExportColumns(columns: string[]): string[][] {
+  return columns.map((column) => {
+    if (column === "message") {
+      return [];
+    }
+    try {
+      const node = parseLogFilter(`${column}:""`);
+      if (node?.kind === "comparison" && node.path.length > 0) {
+        return node.path;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new GcpMcpError(
+      `Invalid export column: "${column}". Use a dotted field path such as jsonPayload.userId, or "message".`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  });
+}
+
+/**
+ * Reads a column value from an entry as text
+ *
+ * @param entry The log entry
+ * @param segments The column's path segments, empty for the message
+ * @returns The value, or null if the field is absent
+ */
+function readExportColumn(entry: LogEntry, segments: string[]): string | null {
+  if (segments.length === 0) {
+    return getLogMessage(entry) || null;
+  }
+
+  let value: unknown = entry;
+  for (const segment of segments) {
+    if (value === null || typeof value !== "object") {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Escapes a value for a CSV field
+ *
+ * @param value The value, or null for an empty field
+ * @returns The CSV field
+ */
+export function escapeCsvValue(value: string | null): string {
+  if (value === null) {
+    return "";
+  }
+  return /[",\r\n]|^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Writes a chunk to a stream, waiting for it to drain when its buffer is full
+ *
+ * @param stream The file stream
+ * @param chunk The text to write
+ */
+async function writeChunk(
+  stream: fs.WriteStream,
+  chunk: string,
+): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, "drain");
+  }
+}
+
+/**
+ * Closes a file stream once all data has been flushed
+ *
+ * @param stream The file stream
+ */
+async function closeStream(stream: fs.WriteStream): Promise<void> {
+  stream.end();
+  await once(stream, "finish");
+}
+
+/**
+ * Creates a writer producing one normalised entry per line
+ *
+ * @param filePath The output path
+ * @param labelSources Whether to label entries with their source resource
+ * @returns The writer
+ */
+function createNdjsonWriter(
+  filePath: string,
+  labelSources: boolean,
+): LogExportWriter {
+  const stream = fs.createWriteStream(filePath);
+  return {
+    async write(entries) {
+      const normalised = entries.map(normaliseLogEntry);
+      const records = labelSources
+        ? labelLogEntrySources(normalised)
+        : normalised;
+      await writeChunk(
+        stream,
+        records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+      );
+    },
+    close: () => closeStream(stream),
+  };
+}
+
+/**
+ * Creates a writer producing CSV with a header row
+ *
+ * @param filePath The output path
+ * @param columns The column names
+ * @returns The writer
+ */
+function createCsvWriter(filePath: string, columns: string[]): LogExportWriter {
+  const segments = parseExportColumns(columns);
+  const stream = fs.createWriteStream(filePath);
+  let headerWritten = false;
+
+  const writeHeader = async () => {
+    if (!headerWritten) {
+      headerWritten = true;
+      await writeChunk(stream, `${columns.map(escapeCsvValue).join(",")}\n`);
+    }
+  };
+
+  return {
+    async write(entries) {
+      await writeHeader();
+      const rows = entries.map(
+        (entry) =>
+          `${segments.map((path) => escapeCsvValue(readExportColumn(entry, path))).join(",")}\n`,
+      );
+      await writeChunk(stream, rows.join(""));
+    },
+    async close() {
+      await writeHeader();
+      await closeStream(stream);
+    },
+  };
+}
+
+/**
+ * Creates a writer producing Parquet with one nullable string column each
+ *
+ * @param filePath The output path
+ * @param columns The column names
+ * @returns The writer
+ */
+function createParquetWriter(
+  filePath: string,
+  columns: string[],
+): LogExportWriter {
+  const segments = parseExportColumns(columns);
+  const writer = new ParquetWriter({
+    writer: fileWriter(filePath),
+    schema: schemaFromColumnData({
+      columnData: columns.map((name) => ({
+        name,
+        data: [],
+        type: "STRING",
+        nullable: true,
+      })),
+    }),
+  });
+  let buffered: Array<Array<string | null>> = columns.map(() => []);
+
+  const flush = async () => {
+    if (buffered[0].length === 0) {
+      return;
+    }
+    await writer.write({
+      columnData: columns.map((name, i) => ({ name, data: buffered[i] })),
+      rowGroupSize: buffered[0].length,
+    });
+    buffered = columns.map(() => []);
+  };
+
+  return {
+    async write(entries) {
+      for (const entry of entries) {
+        segments.forEach((path, i) => {
+          buffered[i].push(readExportColumn(entry, path));
+        });
+      }
+      if (buffered[0].length >= PARQUET_ROW_GROUP_SIZE) {
+        await flush();
+      }
+    },
+    async close() {
+      await flush();
+      await writer.finish();
+    },
+  };
+}
+
+/**
+ * Exports every entry matching a filter to a local file
+ *
+ * @param logging The Logging client
+ * @param request The export request
+ * @returns Summary of the export
+ */
+export async function exportLogEntries(
+  logging: Logging,
+  request: LogExportRequest,
+): Promise<LogExportResult> {
+  const columns =
+    request.format === "ndjson"
+      ? undefined
+      : request.columns && request.columns.length > 0
+        ? request.columns
+        : DEFAULT_LOG_EXPORT_COLUMNS;
+  const fileName = resolveLogExportFileName(request.fileName, request.format);
+  const filePath = resolveLogExportPath(fileName);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  if (fs.existsSync(filePath)) {
+    throw new GcpMcpError(
+      `An export named "${fileName}" already exists. Choose another file name or omit it to generate one.`,
+      "ALREADY_EXISTS",
+      409,
+    );
+  }
+
+  const labelSources = Boolean(
+    request.resourceNames && request.resourceNames.length > 1,
+  );
+  const writer =
+    request.format === "ndjson"
+      ? createNdjsonWriter(filePath, labelSources)
+      : request.format === "csv"
+        ? createCsvWriter(filePath, columns as string[])
+        : createParquetWriter(filePath, columns as string[]);
+
+  try {
+    const scan = await scanLogEntries(
+      logging,
+      {
+        filter: request.filter,
+        maxEntries: request.maxEntries,
+        orderBy: "timestamp asc",
+        resourceNames: request.resourceNames,
+      },
+      (entries) => writer.write(entries.map(toLogEntry)),
+    );
+    await writer.close();
+
+    const { size } = await fs.promises.stat(filePath);
+    return {
+      fileName,
+      path: filePath,
+      format: request.format,
+      columns,
+      entries: scan.scanned,
+      bytes: size,
+      truncated: scan.truncated,
+    };
+  } catch (error: unknown) {
+    // Do not leave a partial file that looks like a complete export
+    await writer.close().catch(() => undefined);
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+}
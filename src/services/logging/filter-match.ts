@@ -0,0 +1,355 @@
+/**
+ * Local evaluation of Cloud Logging filters against log entries
+ *
+ * Used to work out which sinks and exclusions apply to an entry without a
+ * round trip to the API. Evaluation is three-valued: parts of the language
+ * that cannot be reproduced locally, such as sample() or cast(), make the
+ * result "unknown" rather than guessing.
+ */
+import {
+  compileRe2Pattern,
+  FilterLiteral,
+  FilterNode,
+  FilterOperator,
+  FilterValue,
+  LOG_SEVERITIES,
+  parseLogFilter,
+  unescapeFilterString,
+} from "./filter.js";
+import { toLogEntry } from "./types.js";
+
+/**
+ * Outcome of evaluating a filter against an entry
+ */
+export type FilterMatchResult = "match" | "no-match" | "unknown";
+
+/**
+ * Result of matching a filter, with the parts that could not be evaluated
+ */
+export interface FilterMatch {
+  result: FilterMatchResult;
+  /** Parts of the filter evaluated as unknown */
+  unsupported: string[];
+}
+
+/**
+ * Fields compared as timestamps rather than strings
+ */
+const TIMESTAMP_FIELDS = new Set(["timestamp", "receiveTimestamp"]);
+
+/**
+ * Combines results with AND, where any no-match wins over unknown
+ *
+ * @param results The operand results
+ * @returns The combined result
+ */
+function and(results: FilterMatchResult[]): FilterMatchResult {
+  if (results.includes("no-match")) {
+    return "no-match";
+  }
+  return results.includes("unknown") ? "unknown" : "match";
+}
+
+/**
+ * Combines results with OR, where any match wins over unknown
+ *
+ * @param results The operand results
+ * @returns The combined result
+ */
+function or(results: FilterMatchResult[]): FilterMatchResult {
+  if (results.includes("match")) {
+    return "match";
+  }
+  return results.includes("unknown") ? "unknown" : "no-match";
+}
+
+/**
+ * Negates a result, leaving unknown unchanged
+ *
+ * @param result The result to negate
+ * @returns The negated result
+ */
+function not(result: FilterMatchResult): FilterMatchResult {
+  if (result === "unknown") {
+    return result;
+  }
+  return result === "match" ? "no-match" : "match";
+}
+
+/**
+ * Reads the values at a field path, descending into arrays
+ *
+ * @param value The object to read from
+ * @param path The field path segments
+ * @returns The values found, empty if the field is absent
+ */
+function resolveField(value: unknown, path: string[]): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => resolveField(item, path));
+  }
+  if (path.length === 0) {
+    return [value];
+  }
+  if (typeof value !== "object") {
+    return [];
+  }
+  return resolveField(
+    (value as Record<string, unknown>)[path[0]],
+    path.slice(1),
+  );
+}
+
+/**
+ * Collects every scalar value below a value as text
+ *
+ * @param value The value to search
+ * @returns The scalar values as strings
+ */
+function collectText(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value === "object") {
+    return Object.values(value as Record<string, unknown>).flatMap(collectText);
+  }
+  return [String(value)];
+}
+
+/**
+ * Checks whether any text below a value contains a term, ignoring case
+ *
+ * @param value The value to search
+ * @param term The term to look for
+ * @returns Whether the term was found
+ */
+function containsText(value: unknown, term: string): boolean {
+  const needle = term.toLowerCase();
+  return collectText(value).some((text) => text.toLowerCase().includes(needle));
+}
+
+/**
+ * Orders a field value against a literal
+ *
+ * @param root The first segment of the field path
+ * @param value The field value
+ * @param literal The literal from the filter
+ * @returns Negative, zero or positive like a sort comparator
+ */
+function compareValues(root: string, value: unknown, literal: string): number {
+  if (root === "severity") {
+    const severities = LOG_SEVERITIES as readonly string[];
+    const left = severities.indexOf(String(value).toUpperCase());
+    const right = severities.indexOf(literal.toUpperCase());
+    if (left !== -1 && right !== -1) {
+      return left - right;
+    }
+  }
+
+  if (TIMESTAMP_FIELDS.has(root)) {
+    const left = new Date(String(value)).getTime();
+    const right = new Date(literal).getTime();
+    if (!isNaN(left) && !isNaN(right)) {
+      return left - right;
+    }
+  }
+
+  const text = String(value);
+  const left = Number(text);
+  const right = Number(literal);
+  if (text.trim() !== "" && literal.trim() !== "" && !isNaN(left)) {
+    if (!isNaN(right)) {
+      return left - right;
+    }
+  }
+
+  return text < literal ? -1 : text > literal ? 1 : 0;
+}
+
+/**
+ * Evaluates a parsed filter against a single entry
+ */
+class FilterMatcher {
+  private readonly filter: string;
+  private readonly entry: Record<string, unknown>;
+  readonly unsupported: string[] = [];
+
+  constructor(filter: string, entry: Record<string, unknown>) {
+    this.filter = filter;
+    this.entry = entry;
+  }
+
+  evaluate(node: FilterNode): FilterMatchResult {
+    switch (node.kind) {
+      case "and":
+        return and(node.operands.map((operand) => this.evaluate(operand)));
+      case "or":
+        return or(node.operands.map((operand) => this.evaluate(operand)));
+      case "not":
+        return not(this.evaluate(node.operand));
+      case "term":
+        return containsText(this.entry, node.value) ? "match" : "no-match";
+      case "function":
+        return this.evaluateFunction(node);
+      case "comparison":
+        return this.evaluateComparison(node);
+    }
+  }
+
+  private evaluateComparison(
+    node: Extract<FilterNode, { kind: "comparison" }>,
+  ): FilterMatchResult {
+    if (node.path.length === 0) {
+      return this.unknown(node.start, node.end);
+    }
+    if (node.operator === "!=") {
+      return not(this.compareField(node, "=", node.value));
+    }
+    if (node.operator === "!~") {
+      return not(this.compareField(node, "=~", node.value));
+    }
+    return this.compareField(node, node.operator, node.value);
+  }
+
+  private compareField(
+    node: Extract<FilterNode, { kind: "comparison" }>,
+    operator: FilterOperator,
+    value: FilterValue,
+  ): FilterMatchResult {
+    switch (value.kind) {
+      case "and":
+        return and(
+          value.operands.map((operand) =>
+            this.compareField(node, operator, operand),
+          ),
+        );
+      case "or":
+        return or(
+          value.operands.map((operand) =>
+            this.compareField(node, operator, operand),
+          ),
+        );
+      case "not":
+        return not(this.compareField(node, operator, value.operand));
+      case "literal":
+        return this.compareLiteral(node, operator, value);
+    }
+  }
+
+  private compareLiteral(
+    node: Extract<FilterNode, { kind: "comparison" }>,
+    operator: FilterOperator,
+    literal: FilterLiteral,
+  ): FilterMatchResult {
+    const values = resolveField(this.entry, node.path);
+
+    if (operator === ":" && !literal.quoted && literal.value === "*") {
+      return values.length > 0 ? "match" : "no-match";
+    }
+
+    if (operator === "=~") {
+      let pattern: RegExp | undefined;
+      try {
+        pattern = compileRe2Pattern(literal.value);
+      } catch {
+        pattern = undefined;
+      }
+      if (!pattern) {
+        return this.unknown(literal.start, literal.end);
+      }
+      return values.some(
+        (value) => typeof value !== "object" && pattern.test(String(value)),
+      )
+        ? "match"
+        : "no-match";
+    }
+
+    if (operator === ":") {
+      return values.some((value) => containsText(value, literal.value))
+        ? "match"
+        : "no-match";
+    }
+
+    const matched = values.some((value) => {
+      if (typeof value === "object") {
+        return false;
+      }
+      const order = compareValues(node.path[0], value, literal.value);
+      switch (operator) {
+        case "=":
+          return order === 0;
+        case ">":
+          return order > 0;
+        case "<":
+          return order < 0;
+        case ">=":
+          return order >= 0;
+        case "<=":
+          return order <= 0;
+        default:
+          return false;
+      }
+    });
+    return matched ? "match" : "no-match";
+  }
+
+  private evaluateFunction(
+    node: Extract<FilterNode, { kind: "function" }>,
+  ): FilterMatchResult {
+    const args = node.args.map((arg) =>
+      arg.startsWith('"') ? unescapeFilterString(arg.slice(1, -1)) : arg,
+    );
+
+    switch (node.name.toLowerCase()) {
+      case "log_id": {
+        const logName = String(this.entry.logName || "");
+        const logId = decodeURIComponent(
+          logName.slice(logName.indexOf("/logs/") + "/logs/".length),
+        );
+        return logName.includes("/logs/") && logId === args[0]
+          ? "match"
+          : "no-match";
+      }
+      case "search": {
+        const term = args[args.length - 1] || "";
+        const scope =
+          args.length > 1
+            ? resolveField(this.entry, args[0].split("."))
+            : this.entry;
+        return containsText(scope, term) ? "match" : "no-match";
+      }
+      default:
+        return this.unknown(node.start, node.end);
+    }
+  }
+
+  private unknown(start: number, end: number): FilterMatchResult {
+    this.unsupported.push(this.filter.slice(start, end));
+    return "unknown";
+  }
+}
+
+/**
+ * Evaluates a filter against a log entry
+ *
+ * An empty filter matches every entry, as it does for sinks.
+ *
+ * @param filter The filter text
+ * @param entry A log entry, either an `Entry` instance or a plain object
+ * @returns The match result and any parts that could not be evaluated
+ */
+export function matchLogFilter(filter: string, entry: unknown): FilterMatch {
+  const node = parseLogFilter(filter);
+  if (!node) {
+    return { result: "match", unsupported: [] };
+  }
+
+  const matcher = new FilterMatcher(
+    filter,
+    toLogEntry(entry) as unknown as Record<string, unknown>,
+  );
+  const result = matcher.evaluate(node);
+  return { result, unsupported: matcher.unsupported };
+}
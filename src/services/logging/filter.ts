@@ -0,0 +1,1139 @@
+/**
+ * Parser, validator and builder for the Cloud Logging query language
+ *
+ * Filters are parsed locally so syntax errors can be reported with their exact
+ * position before a request is sent, and so relative timestamps such as
+ * `timestamp >= "-1h"` can be resolved to the RFC 3339 values the API expects.
+ *
+ * Precedence follows the Logging query language: NOT binds tightest, then OR,
+ * then AND. Expressions placed next to each other are implicitly ANDed.
+ */
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { parseDurationSeconds, parseRelativeTime } from "../../utils/time.js";
+
+/**
+ * Comparison operators supported by the query language
+ */
+export type FilterOperator =
+  | "="
+  | "!="
+  | ">"
+  | "<"
+  | ">="
+  | "<="
+  | ":"
+  | "=~"
+  | "!~";
+
+/**
+ * Operators that compare a severity with a level rather than match its name
+ */
+const SEVERITY_LEVEL_OPERATORS = new Set<FilterOperator>([
+  "=",
+  "!=",
+  ">",
+  "<",
+  ">=",
+  "<=",
+]);
+
+/**
+ * Operators in the order they must be matched, longest first
+ */
+const FILTER_OPERATORS: FilterOperator[] = [
+  "=~",
+  "!~",
+  ">=",
+  "<=",
+  "!=",
+  "=",
+  ">",
+  "<",
+  ":",
+];
+
+/**
+ * Characters that can start an operator
+ */
+const OPERATOR_CHARS = new Set(["=", "!", ">", "<", ":", "~"]);
+
+/**
+ * Log severities in ascending order
+ */
+export const LOG_SEVERITIES = [
+  "DEFAULT",
+  "DEBUG",
+  "INFO",
+  "NOTICE",
+  "WARNING",
+  "ERROR",
+  "CRITICAL",
+  "ALERT",
+  "EMERGENCY",
+] as const;
+
+/**
+ * Top-level LogEntry fields that can appear in a filter
+ */
+const KNOWN_ROOT_FIELDS = new Set([
+  "timestamp",
+  "receiveTimestamp",
+  "severity",
+  "logName",
+  "resource",
+  "labels",
+  "textPayload",
+  "jsonPayload",
+  "protoPayload",
+  "httpRequest",
+  "sourceLocation",
+  "operation",
+  "trace",
+  "spanId",
+  "traceSampled",
+  "insertId",
+  "split",
+  "errorGroups",
+  "apphub",
+  "apphubDestination",
+]);
+
+/**
+ * Fields whose values are timestamps
+ */
+const TIMESTAMP_FIELDS = new Set(["timestamp", "receiveTimestamp"]);
+
+/**
+ * Relative times accepted in timestamp comparisons, e.g. "-1h" or "30m"
+ */
+const RELATIVE_TIME_PATTERN = /^-?(\d+[smhdw])$/;
+
+/**
+ * Unquoted field path segments
+ */
+const FIELD_SEGMENT_PATTERN = /^[A-Za-z0-9_@-]+/;
+
+/**
+ * A literal value in a filter
+ */
+export interface FilterLiteral {
+  kind: "literal";
+  /** The value with escape sequences resolved */
+  value: string;
+  quoted: boolean;
+  /** Offset of the first character, including any opening quote */
+  start: number;
+  /** Offset just past the last character, including any closing quote */
+  end: number;
+}
+
+/**
+ * The right-hand side of a comparison
+ */
+export type FilterValue =
+  | FilterLiteral
+  | { kind: "and" | "or"; operands: FilterValue[] }
+  | { kind: "not"; operand: FilterValue };
+
+/**
+ * A parsed filter expression
+ */
+export type FilterNode =
+  | { kind: "and" | "or"; operands: FilterNode[] }
+  | { kind: "not"; operand: FilterNode }
+  | {
+      kind: "comparison";
+      /** The field as written, e.g. `labels."k8s-pod/app"` */
+      field: string;
+      /** The unquoted path segments, empty for function calls such as cast() */
+      path: string[];
+      operator: FilterOperator;
+      value: FilterValue;
+      start: number;
+      end: number;
+    }
+  | {
+      /** A global restriction that matches any field */
+      kind: "term";
+      value: string;
+      quoted: boolean;
+      start: number;
+      end: number;
+    }
+  | {
+      kind: "function";
+      name: string;
+      args: string[];
+      start: number;
+      end: number;
+    };
+
+/**
+ * An error or warning found in a filter
+ */
+export interface FilterProblem {
+  message: string;
+  /** Zero-based character offset */
+  position: number;
+  /** One-based line number */
+  line: number;
+  /** One-based column number */
+  column: number;
+}
+
+/**
+ * Result of validating a filter
+ */
+export interface FilterValidationResult {
+  valid: boolean;
+  errors: FilterProblem[];
+  warnings: FilterProblem[];
+  /** The filter with relative timestamps resolved, when valid */
+  normalised?: string;
+  /** Field paths referenced by comparisons */
+  fields: string[];
+  ast?: FilterNode;
+}
+
+/**
+ * Location details attached to filter syntax errors
+ */
+interface FilterErrorDetails {
+  position: number;
+  line: number;
+  column: number;
+  reason: string;
+}
+
+/**
+ * Converts a character offset into a one-based line and column
+ *
+ * @param input The filter text
+ * @param position The character offset
+ * @returns The line and column
+ */
+function locate(
+  input: string,
+  position: number,
+): { line: number; column: number } {
+  const before = input.slice(0, position);
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Describes a problem in a filter, quoting the offending line with a caret
+ *
+ * @param input The filter text
+ * @param problem The problem to describe
+ * @returns A multi-line description
+ */
+export function describeFilterProblem(
+  input: string,
+  problem: FilterProblem,
+): string {
+  const lineText = input.split("\n")[problem.line - 1] || "";
+  return `Line ${problem.line}, column ${problem.column}: ${problem.message}\n  ${lineText}\n  ${" ".repeat(problem.column - 1)}^`;
+}
+
+/**
+ * Creates the error thrown for a filter problem
+ *
+ * @param input The filter text
+ * @param reason What is wrong
+ * @param position Where it is wrong
+ * @returns The error
+ */
+function filterError(
+  input: string,
+  reason: string,
+  position: number,
+): GcpMcpError {
+  const { line, column } = locate(input, position);
+  const details: FilterErrorDetails = { position, line, column, reason };
+  return new GcpMcpError(
+    `Invalid filter: ${describeFilterProblem(input, { message: reason, ...details })}`,
+    "INVALID_ARGUMENT",
+    400,
+    details,
+  );
+}
+
+/**
+ * Resolves backslash escapes in a quoted string
+ *
+ * @param raw The text between the quotes
+ * @returns The unescaped value
+ */
+export function unescapeFilterString(raw: string): string {
+  return raw.replace(/\\(.)/g, (_match, char: string) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case '"':
+      case "\\":
+        return char;
+      default:
+        // Keep unknown escapes intact so regular expressions survive
+        return `\\${char}`;
+    }
+  });
+}
+
+/**
+ * Recursive descent parser for the Logging query language
+ */
+class FilterParser {
+  private readonly input: string;
+  private pos = 0;
+
+  /**
+   * Create a new FilterParser
+   *
+   * @param input The filter text
+   */
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  /**
+   * Parse the full filter
+   *
+   * @returns The expression tree, or undefined for an empty filter
+   */
+  parse(): FilterNode | undefined {
+    this.skipWhitespace();
+    if (this.atEnd()) {
+      return undefined;
+    }
+
+    const node = this.parseConjunction();
+    this.skipWhitespace();
+    if (!this.atEnd()) {
+      throw this.fail(
+        this.peek() === ")"
+          ? 'Unexpected ")" without a matching "("'
+          : `Unexpected "${this.peek()}"`,
+      );
+    }
+    return node;
+  }
+
+  private parseConjunction(): FilterNode {
+    const operands = [this.parseDisjunction()];
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd() || this.peek() === ")") {
+        break;
+      }
+      if (this.matchKeyword("AND")) {
+        this.expectOperand("AND");
+      }
+      operands.push(this.parseDisjunction());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "and", operands };
+  }
+
+  private parseDisjunction(): FilterNode {
+    const operands = [this.parseUnary()];
+    while (true) {
+      const save = this.pos;
+      this.skipWhitespace();
+      if (!this.matchKeyword("OR")) {
+        this.pos = save;
+        break;
+      }
+      this.expectOperand("OR");
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "or", operands };
+  }
+
+  private parseUnary(): FilterNode {
+    this.skipWhitespace();
+    if (this.matchKeyword("NOT")) {
+      this.expectOperand("NOT");
+      return { kind: "not", operand: this.parseUnary() };
+    }
+    if (this.peek() === "-" && /\S/.test(this.input[this.pos + 1] || " ")) {
+      this.pos++;
+      return { kind: "not", operand: this.parsePrimary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    this.skipWhitespace();
+    const start = this.pos;
+    const char = this.peek();
+
+    if (char === "(") {
+      this.pos++;
+      this.skipWhitespace();
+      if (this.peek() === ")") {
+        throw this.fail("Empty parentheses");
+      }
+      const node = this.parseConjunction();
+      this.skipWhitespace();
+      if (this.peek() !== ")") {
+        throw this.fail(
+          `Missing ")" to close the "(" at column ${locate(this.input, start).column}`,
+        );
+      }
+      this.pos++;
+      return node;
+    }
+
+    if (char === ")") {
+      throw this.fail('Unexpected ")" without a matching "("');
+    }
+
+    for (const keyword of ["AND", "OR"]) {
+      if (this.peekKeyword(keyword)) {
+        throw this.fail(`Expected an expression before "${keyword}"`);
+      }
+    }
+
+    if (char === '"') {
+      const literal = this.readQuoted();
+      const operator = this.readOperatorAhead();
+      if (operator) {
+        return this.finishComparison(
+          this.input.slice(start, literal.end),
+          [literal.value],
+          operator,
+          start,
+        );
+      }
+      return {
+        kind: "term",
+        value: literal.value,
+        quoted: true,
+        start,
+        end: literal.end,
+      };
+    }
+
+    const path = this.readFieldPath();
+    if (path) {
+      if (this.peek() === "(" && path.segments.length === 1) {
+        const call = this.readFunctionCall(path.segments[0], start);
+        const operator = this.readOperatorAhead();
+        if (operator) {
+          return this.finishComparison(
+            this.input.slice(start, call.end),
+            [],
+            operator,
+            start,
+          );
+        }
+        return call;
+      }
+
+      const operator = this.readOperatorAhead();
+      if (operator) {
+        return this.finishComparison(path.text, path.segments, operator, start);
+      }
+      this.pos = start;
+    }
+
+    // Anything else is a bare search term
+    while (!this.atEnd() && !/[\s()"]/.test(this.peek())) {
+      if (OPERATOR_CHARS.has(this.peek())) {
+        const text = this.input.slice(start, this.pos);
+        throw this.fail(
+          text
+            ? `Invalid field name "${text}". Quote path segments that contain special characters, e.g. labels."k8s-pod/app"`
+            : `Expected a field name before "${this.peek()}"`,
+          text ? start : this.pos,
+        );
+      }
+      this.pos++;
+    }
+    if (this.pos === start) {
+      throw this.fail(
+        this.atEnd() ? "Unexpected end of filter" : `Unexpected "${char}"`,
+      );
+    }
+    return {
+      kind: "term",
+      value: this.input.slice(start, this.pos),
+      quoted: false,
+      start,
+      end: this.pos,
+    };
+  }
+
+  private finishComparison(
+    field: string,
+    path: string[],
+    operator: FilterOperator,
+    start: number,
+  ): FilterNode {
+    const value = this.parseValueOperand(operator);
+    return {
+      kind: "comparison",
+      field,
+      path,
+      operator,
+      value,
+      start,
+      end: this.pos,
+    };
+  }
+
+  private parseValueOperand(operator: string): FilterValue {
+    this.skipWhitespace();
+    if (this.atEnd() || this.peek() === ")") {
+      throw this.fail(`Expected a value after "${operator}"`);
+    }
+    if (this.peek() === "(") {
+      const open = this.pos;
+      this.pos++;
+      this.skipWhitespace();
+      if (this.peek() === ")") {
+        throw this.fail("Empty parentheses");
+      }
+      const value = this.parseValueConjunction(operator);
+      this.skipWhitespace();
+      if (this.peek() !== ")") {
+        throw this.fail(
+          `Missing ")" to close the "(" at column ${locate(this.input, open).column}`,
+        );
+      }
+      this.pos++;
+      return value;
+    }
+    return this.readLiteral(operator);
+  }
+
+  private parseValueConjunction(operator: string): FilterValue {
+    const operands = [this.parseValueDisjunction(operator)];
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd() || this.peek() === ")") {
+        break;
+      }
+      if (this.matchKeyword("AND")) {
+        this.expectOperand("AND");
+      }
+      operands.push(this.parseValueDisjunction(operator));
+    }
+    return operands.length === 1 ? operands[0] : { kind: "and", operands };
+  }
+
+  private parseValueDisjunction(operator: string): FilterValue {
+    const operands = [this.parseValueUnary(operator)];
+    while (true) {
+      const save = this.pos;
+      this.skipWhitespace();
+      if (!this.matchKeyword("OR")) {
+        this.pos = save;
+        break;
+      }
+      this.expectOperand("OR");
+      operands.push(this.parseValueUnary(operator));
+    }
+    return operands.length === 1 ? operands[0] : { kind: "or", operands };
+  }
+
+  private parseValueUnary(operator: string): FilterValue {
+    this.skipWhitespace();
+    if (this.matchKeyword("NOT")) {
+      this.expectOperand("NOT");
+      return { kind: "not", operand: this.parseValueUnary(operator) };
+    }
+    return this.parseValueOperand(operator);
+  }
+
+  private readLiteral(operator: string): FilterLiteral {
+    if (this.peek() === '"') {
+      return this.readQuoted();
+    }
+
+    const start = this.pos;
+    if (OPERATOR_CHARS.has(this.peek())) {
+      throw this.fail(`Unexpected "${this.peek()}" after "${operator}"`);
+    }
+    while (!this.atEnd() && !/[\s()"]/.test(this.peek())) {
+      this.pos++;
+    }
+    return {
+      kind: "literal",
+      value: this.input.slice(start, this.pos),
+      quoted: false,
+      start,
+      end: this.pos,
+    };
+  }
+
+  private readQuoted(): FilterLiteral {
+    const start = this.pos;
+    this.pos++;
+    while (!this.atEnd() && this.peek() !== '"') {
+      this.pos += this.peek() === "\\" ? 2 : 1;
+    }
+    if (this.atEnd()) {
+      throw this.fail("Unterminated string", start);
+    }
+    this.pos++;
+    return {
+      kind: "literal",
+      value: unescapeFilterString(this.input.slice(start + 1, this.pos - 1)),
+      quoted: true,
+      start,
+      end: this.pos,
+    };
+  }
+
+  /**
+   * Reads a dotted field path, returning undefined if the text is not one
+   */
+  private readFieldPath(): { segments: string[]; text: string } | undefined {
+    const start = this.pos;
+    const segments: string[] = [];
+    while (true) {
+      if (this.peek() === '"') {
+        segments.push(this.readQuoted().value);
+      } else {
+        const match = this.input.slice(this.pos).match(FIELD_SEGMENT_PATTERN);
+        if (!match) {
+          this.pos = start;
+          return undefined;
+        }
+        segments.push(match[0]);
+        this.pos += match[0].length;
+      }
+      if (this.peek() !== ".") {
+        break;
+      }
+      this.pos++;
+    }
+    return { segments, text: this.input.slice(start, this.pos) };
+  }
+
+  private readFunctionCall(
+    name: string,
+    start: number,
+  ): Extract<FilterNode, { kind: "function" }> {
+    const open = this.pos;
+    this.pos++;
+    const args: string[] = [];
+    this.skipWhitespace();
+    while (this.peek() !== ")") {
+      if (this.atEnd()) {
+        throw this.fail(
+          `Missing ")" to close the "(" at column ${locate(this.input, open).column}`,
+        );
+      }
+      const argStart = this.pos;
+      if (this.peek() === '"') {
+        this.readQuoted();
+      } else {
+        while (!this.atEnd() && !/[\s,()]/.test(this.peek())) {
+          this.pos++;
+        }
+      }
+      if (this.pos === argStart) {
+        throw this.fail(`Unexpected "${this.peek()}" in arguments to ${name}`);
+      }
+      args.push(this.input.slice(argStart, this.pos));
+      this.skipWhitespace();
+      if (this.peek() === ",") {
+        this.pos++;
+        this.skipWhitespace();
+      } else if (this.peek() !== ")" && !this.atEnd()) {
+        throw this.fail(`Expected "," or ")" in arguments to ${name}`);
+      }
+    }
+    this.pos++;
+    return { kind: "function", name, args, start, end: this.pos };
+  }
+
+  /**
+   * Reads an operator after optional whitespace, restoring the position if none follows
+   */
+  private readOperatorAhead(): FilterOperator | undefined {
+    const save = this.pos;
+    this.skipWhitespace();
+    const operator = FILTER_OPERATORS.find((candidate) =>
+      this.input.startsWith(candidate, this.pos),
+    );
+    if (!operator) {
+      this.pos = save;
+      return undefined;
+    }
+    this.pos += operator.length;
+    return operator;
+  }
+
+  private expectOperand(keyword: string): void {
+    this.skipWhitespace();
+    if (this.atEnd() || this.peek() === ")") {
+      throw this.fail(`Expected an expression after "${keyword}"`);
+    }
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    if (!this.input.startsWith(keyword, this.pos)) {
+      return false;
+    }
+    const next = this.input[this.pos + keyword.length];
+    return next === undefined || /[\s(]/.test(next);
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) {
+      return false;
+    }
+    this.pos += keyword.length;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (!this.atEnd()) {
+      if (/\s/.test(this.peek())) {
+        this.pos++;
+      } else if (this.input.startsWith("--", this.pos)) {
+        // Comments run to the end of the line
+        const newline = this.input.indexOf("\n", this.pos);
+        this.pos = newline === -1 ? this.input.length : newline;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private peek(): string {
+    return this.input[this.pos] || "";
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private fail(reason: string, position = this.pos): GcpMcpError {
+    return filterError(this.input, reason, position);
+  }
+}
+
+/**
+ * Parses a filter into an expression tree
+ *
+ * @param filter The filter text
+ * @returns The expression tree, or undefined if the filter is empty
+ * @throws GcpMcpError with the line and column of the first syntax error
+ */
+export function parseLogFilter(filter: string): FilterNode | undefined {
+  return new FilterParser(filter).parse();
+}
+
+/**
+ * Collects the literals of a comparison value
+ *
+ * @param value The comparison value
+ * @returns Every literal in the value
+ */
+function collectLiterals(value: FilterValue): FilterLiteral[] {
+  switch (value.kind) {
+    case "literal":
+      return [value];
+    case "not":
+      return collectLiterals(value.operand);
+    default:
+      return value.operands.flatMap(collectLiterals);
+  }
+}
+
+/**
+ * Collects every comparison in an expression tree, in source order
+ *
+ * @param node The expression tree
+ * @returns The comparisons
+ */
+function collectComparisons(
+  node: FilterNode,
+): Array<Extract<FilterNode, { kind: "comparison" }>> {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return node.operands.flatMap(collectComparisons);
+    case "not":
+      return collectComparisons(node.operand);
+    case "comparison":
+      return [node];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Resolves a relative time used in a timestamp comparison
+ *
+ * @param value The literal value, e.g. "-1h" or "30m"
+ * @param now The reference time
+ * @returns The absolute time, or undefined if the value is not relative
+ */
+function resolveRelativeTimestamp(value: string, now: Date): Date | undefined {
+  const match = value.trim().match(RELATIVE_TIME_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  return new Date(now.getTime() - parseDurationSeconds(match[1]) * 1000);
+}
+
+/**
+ * Validates a filter and resolves relative timestamps
+ *
+ * Syntax errors stop validation at the first error. Semantic checks such as
+ * unknown severities, unparseable timestamps and invalid regular expressions
+ * are reported together, and unknown top-level fields produce warnings.
+ *
+ * @param filter The filter text
+ * @param now The reference time for relative timestamps
+ * @returns The validation result
+ */
+export function validateLogFilter(
+  filter: string,
+  now = new Date(),
+): FilterValidationResult {
+  const problem = (message: string, position: number): FilterProblem => ({
+    message,
+    position,
+    ...locate(filter, position),
+  });
+
+  let ast: FilterNode | undefined;
+  try {
+    ast = parseLogFilter(filter);
+  } catch (error: unknown) {
+    const details =
+      error instanceof GcpMcpError
+        ? (error.details as FilterErrorDetails | undefined)
+        : undefined;
+    if (typeof details?.reason !== "string") {
+      throw error;
+    }
+    return {
+      valid: false,
+      errors: [problem(details.reason, details.position)],
+      warnings: [],
+      fields: [],
+    };
+  }
+
+  const errors: FilterProblem[] = [];
+  const warnings: FilterProblem[] = [];
+  const fields = new Set<string>();
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  if (ast) {
+    for (const comparison of collectComparisons(ast)) {
+      const root = comparison.path[0];
+      if (comparison.path.length > 0) {
+        fields.add(comparison.path.join("."));
+        if (!KNOWN_ROOT_FIELDS.has(root)) {
+          warnings.push(
+            problem(
+              `Unknown field "${root}". It will only match entries that contain it.`,
+              comparison.start,
+            ),
+          );
+        }
+      }
+
+      for (const literal of collectLiterals(comparison.value)) {
+        if (
+          comparison.path.length === 1 &&
+          root === "severity" &&
+          SEVERITY_LEVEL_OPERATORS.has(comparison.operator)
+        ) {
+          const severity = literal.value.toUpperCase();
+          if (
+            !(LOG_SEVERITIES as readonly string[]).includes(severity) &&
+            !/^\d+$/.test(literal.value)
+          ) {
+            errors.push(
+              problem(
+                `Unknown severity "${literal.value}". Use one of ${LOG_SEVERITIES.join(", ")}.`,
+                literal.start,
+              ),
+            );
+          }
+        }
+
+        if (
+          comparison.path.length === 1 &&
+          TIMESTAMP_FIELDS.has(root) &&
+          comparison.operator !== ":"
+        ) {
+          const relative = resolveRelativeTimestamp(literal.value, now);
+          if (relative) {
+            replacements.push({
+              start: literal.start,
+              end: literal.end,
+              text: `"${relative.toISOString()}"`,
+            });
+          } else if (isNaN(new Date(literal.value).getTime())) {
+            errors.push(
+              problem(
+                `Invalid timestamp "${literal.value}". Use an RFC 3339 time such as "2025-01-01T00:00:00Z" or a relative time such as "-1h".`,
+                literal.start,
+              ),
+            );
+          }
+        }
+
+        if (comparison.operator === "=~" || comparison.operator === "!~") {
+          try {
+            compileRe2Pattern(literal.value);
+          } catch (error: unknown) {
+            const reason =
+              error instanceof Error ? error.message : "Unknown error";
+            errors.push(problem(reason, literal.start));
+          }
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings, fields: [...fields], ast };
+  }
+
+  let normalised = filter;
+  for (const replacement of replacements.sort((a, b) => b.start - a.start)) {
+    normalised =
+      normalised.slice(0, replacement.start) +
+      replacement.text +
+      normalised.slice(replacement.end);
+  }
+
+  return {
+    valid: true,
+    errors,
+    warnings,
+    normalised: normalised.trim(),
+    fields: [...fields],
+    ast,
+  };
+}
+
+/**
+ * Validates a filter before it is sent to the API
+ *
+ * @param filter The filter text
+ * @param now The reference time for relative timestamps
+ * @returns The filter with relative timestamps resolved
+ * @throws GcpMcpError describing the first problem, with its line and column
+ */
+export function prepareLogFilter(filter: string, now = new Date()): string {
+  const result = validateLogFilter(filter, now);
+  if (!result.valid) {
+    const [first] = result.errors;
+    const more =
+      result.errors.length > 1
+        ? `\n\n${result.errors.length - 1} more problem(s) found. Use gcp-logging-validate-filter to see them all.`
+        : "";
+    throw new GcpMcpError(
+      `Invalid filter: ${describeFilterProblem(filter, first)}${more}`,
+      "INVALID_ARGUMENT",
+      400,
+      { errors: result.errors },
+    );
+  }
+  return result.normalised as string;
+}
+
+/**
+ * Compiles an RE2 pattern, as used by the =~ and !~ operators, into a
+ * JavaScript regular expression
+ *
+ * Leading inline flags such as (?i) become regex flags and named groups
+ * written (?P<name>...) become (?<name>...). RE2 syntax with no JavaScript
+ * equivalent, such as flags set part way through a pattern, is left for the
+ * API to judge.
+ *
+ * @param pattern The RE2 pattern
+ * @returns The regular expression, or undefined if it cannot be checked locally
+ * @throws SyntaxError if the pattern is invalid
+ */
+export function compileRe2Pattern(pattern: string): RegExp | undefined {
+  let source = pattern;
+  let flags = "";
+  const leading = /^\(\?([imsU]+)\)/.exec(source);
+  if (leading) {
+    if (leading[1].includes("U")) {
+      return undefined;
+    }
+    flags = [...new Set(leading[1])].join("");
+    source = source.slice(leading[0].length);
+  }
+  source = source.replace(/(?<!\\)\(\?P</g, "(?<");
+  if (/(?<!\\)\(\?[imsU-]+[:)]/.test(source)) {
+    return undefined;
+  }
+  return new RegExp(source, flags);
+}
+
+/**
+ * Formats a field path, quoting segments that contain special characters
+ *
+ * @param segments The unquoted path segments, e.g. ["labels", "k8s-pod/app"]
+ * @returns The path as it should appear in a filter
+ */
+export function formatFieldPath(segments: string[]): string {
+  return segments
+    .map((segment) =>
+      /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)
+        ? segment
+        : quoteFilterString(segment),
+    )
+    .join(".");
+}
+
+/**
+ * A condition on a single field, either a value to match exactly or an
+ * explicit operator and value
+ */
+export type LogFilterCondition =
+  | string
+  | number
+  | boolean
+  | { operator: FilterOperator; value: string | number | boolean };
+
+/**
+ * Structured description of a filter
+ */
+export interface LogFilterSpec {
+  /** Minimum severity, e.g. "WARNING" */
+  severity?: string;
+  /** Monitored resource type, e.g. "cloud_run_revision" */
+  resourceType?: string;
+  /** Monitored resource labels, e.g. { service_name: "api" } */
+  resourceLabels?: Record<string, string>;
+  /** Log ID, e.g. "run.googleapis.com/requests" */
+  logId?: string;
+  /** User-defined entry labels */
+  labels?: Record<string, string>;
+  /** Conditions on jsonPayload, keyed by dotted path */
+  payload?: Record<string, LogFilterCondition>;
+  /** Text that textPayload must contain */
+  textPayload?: string;
+  /** Trace ID or full trace resource name */
+  trace?: string;
+  /** Text to search for in any field */
+  search?: string;
+  /** Start of the time range, ISO or relative (e.g. "1h") */
+  startTime?: string;
+  /** End of the time range, ISO or relative */
+  endTime?: string;
+  /** Additional raw filter, ANDed with the other conditions */
+  filter?: string;
+}
+
+/**
+ * Formats a value for use on the right-hand side of a comparison
+ *
+ * @param value The value
+ * @returns The quoted string, or the number or boolean as-is
+ */
+function formatFilterValue(value: string | number | boolean): string {
+  return typeof value === "string" ? quoteFilterString(value) : String(value);
+}
+
+/**
+ * Builds a filter from structured input
+ *
+ * @param spec The conditions to combine
+ * @param now The reference time for relative start and end times
+ * @returns A validated filter combining every condition with AND
+ */
+export function buildLogFilter(spec: LogFilterSpec, now = new Date()): string {
+  const parts: string[] = [];
+
+  if (spec.severity) {
+    const severity = spec.severity.toUpperCase();
+    if (!(LOG_SEVERITIES as readonly string[]).includes(severity)) {
+      throw new GcpMcpError(
+        `Unknown severity "${spec.severity}". Use one of ${LOG_SEVERITIES.join(", ")}.`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    parts.push(`severity>=${severity}`);
+  }
+  if (spec.resourceType) {
+    parts.push(`resource.type=${quoteFilterString(spec.resourceType)}`);
+  }
+  for (const [key, value] of Object.entries(spec.resourceLabels || {})) {
+    parts.push(
+      `${formatFieldPath(["resource", "labels", key])}=${quoteFilterString(value)}`,
+    );
+  }
+  if (spec.logId) {
+    parts.push(`log_id(${quoteFilterString(spec.logId)})`);
+  }
+  for (const [key, value] of Object.entries(spec.labels || {})) {
+    parts.push(
+      `${formatFieldPath(["labels", key])}=${quoteFilterString(value)}`,
+    );
+  }
+  for (const [path, condition] of Object.entries(spec.payload || {})) {
+    const field = formatFieldPath(["jsonPayload", ...path.split(".")]);
+    if (typeof condition === "object") {
+      parts.push(
+        `${field}${condition.operator}${formatFilterValue(condition.value)}`,
+      );
+    } else {
+      parts.push(`${field}=${formatFilterValue(condition)}`);
+    }
+  }
+  if (spec.textPayload) {
+    parts.push(`textPayload:${quoteFilterString(spec.textPayload)}`);
+  }
+  if (spec.trace) {
+    parts.push(
+      spec.trace.startsWith("projects/")
+        ? `trace=${quoteFilterString(spec.trace)}`
+        : `trace:${quoteFilterString(spec.trace)}`,
+    );
+  }
+  if (spec.search) {
+    parts.push(quoteFilterString(spec.search));
+  }
+  if (spec.startTime) {
+    parts.push(
+      `timestamp>="${parseFilterTime(spec.startTime, now).toISOString()}"`,
+    );
+  }
+  if (spec.endTime) {
+    parts.push(
+      `timestamp<="${parseFilterTime(spec.endTime, now).toISOString()}"`,
+    );
+  }
+  if (spec.filter && spec.filter.trim()) {
+    parts.push(`(${prepareLogFilter(spec.filter, now)})`);
+  }
+
+  return prepareLogFilter(parts.join(" AND "), now);
+}
+
+/**
+ * Parses a start or end time for the builder
+ *
+ * @param value An ISO time or relative time such as "1h" or "-1h"
+ * @param now The reference time for relative values
+ * @returns The absolute time
+ */
+function parseFilterTime(value: string, now: Date): Date {
+  return (
+    resolveRelativeTimestamp(value, now) ||
+    parseRelativeTime(value.replace(/^-/, ""))
+  );
+}
@@ -6,6 +6,22 @@
 
 // Export types and utilities
 export * from "./types.js";
+export * from "./pagination.js";
+export * from "./aggregation.js";
+export * from "./patterns.js";
+export * from "./comparison.js";
+export * from "./correlation.js";
+export * from "./audit.js";
+export * from "./proto-payload.js";
+export * from "./tail.js";
+export * from "./output.js";
+export * from "./filter.js";
+export * from "./search.js";
+export * from "./log-metrics.js";
+export * from "./filter-match.js";
+export * from "./routing.js";
+export * from "./scope.js";
+export * from "./export.js";
 
 // Export resources and tools
 export { registerLoggingResources } from "./resources.js";
@@ -0,0 +1,616 @@
+/**
+ * Log-based metrics for Google Cloud Logging
+ *
+ * Builds, normalises and previews log-based metric definitions. Counter
+ * metrics count matching entries; distribution metrics record a value
+ * extracted from each matching entry into histogram buckets.
+ */
+import { Logging } from "@google-cloud/logging";
+import { z } from "zod";
+import { GcpMcpError } from "../../utils/error.js";
+import { prepareLogFilter } from "./filter.js";
+import { scanLogEntries } from "./pagination.js";
+import { normaliseTimestamp, requestLoggingApi } from "./types.js";
+
+/**
+ * Kind of log-based metric
+ */
+export type LogMetricKind = "counter" | "distribution";
+
+/**
+ * A label on a log-based metric and the extractor that populates it
+ */
+export interface LogMetricLabel {
+  key: string;
+  valueType?: "STRING" | "BOOL" | "INT64";
+  description?: string;
+  /** EXTRACT(field) or REGEXP_EXTRACT(field, "regex") */
+  extractor: string;
+}
+
+/**
+ * Histogram buckets for a distribution metric
+ */
+export type LogMetricBuckets =
+  | {
+      type: "exponential";
+      numFiniteBuckets: number;
+      growthFactor: number;
+      scale: number;
+    }
+  | { type: "linear"; numFiniteBuckets: number; width: number; offset: number }
+  | { type: "explicit"; bounds: number[] };
+
+/**
+ * Changes that can be applied to a log-based metric
+ */
+export interface LogMetricChanges {
+  description?: string;
+  filter?: string;
+  valueExtractor?: string;
+  unit?: string;
+  labels?: LogMetricLabel[];
+  buckets?: LogMetricBuckets;
+  disabled?: boolean;
+}
+
+/**
+ * Definition of a new log-based metric
+ */
+export interface LogMetricSpec extends LogMetricChanges {
+  name: string;
+  filter: string;
+  kind: LogMetricKind;
+}
+
+/**
+ * A log-based metric in the shape used by the Logging API
+ */
+export interface LogMetric {
+  name: string;
+  description?: string;
+  filter: string;
+  disabled?: boolean;
+  metricDescriptor: {
+    metricKind?: string;
+    valueType: string;
+    unit?: string;
+    labels?: Array<{
+      key: string;
+      valueType?: string;
+      description?: string;
+    }>;
+  };
+  valueExtractor?: string;
+  labelExtractors?: Record<string, string>;
+  bucketOptions?: Record<string, unknown>;
+  createTime?: string;
+  updateTime?: string;
+}
+
+/**
+ * Input schema for metric labels
+ */
+export const logMetricLabelSchema = z.object({
+  key: z.string().describe("Label key"),
+  valueType: z
+    .enum(["STRING", "BOOL", "INT64"])
+    .optional()
+    .describe("Label value type (default STRING)"),
+  description: z.string().optional().describe("Label description"),
+  extractor: z
+    .string()
+    .describe(
+      'Extractor for the label value, e.g. EXTRACT(jsonPayload.status) or REGEXP_EXTRACT(textPayload, "user=(\\\\w+)")',
+    ),
+});
+
+/**
+ * Input schema for distribution buckets
+ */
+export const logMetricBucketsSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("exponential"),
+    numFiniteBuckets: z.number().int().positive(),
+    growthFactor: z.number().gt(1),
+    scale: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal("linear"),
+    numFiniteBuckets: z.number().int().positive(),
+    width: z.number().positive(),
+    offset: z.number(),
+  }),
+  z.object({
+    type: z.literal("explicit"),
+    bounds: z.array(z.number()).min(1),
+  }),
+]);
+
+/**
+ * Buckets used for distribution metrics when none are given, matching the
+ * Cloud Console default
+ */
+const DEFAULT_BUCKETS: LogMetricBuckets = {
+  type: "exponential",
+  numFiniteBuckets: 64,
+  growthFactor: 2,
+  scale: 0.01,
+};
+
+const METRIC_NAME_PATTERN = /^[A-Za-z0-9_\-.,+!*'()%/]{1,100}$/;
+const EXTRACTOR_PATTERN = /^(EXTRACT|REGEXP_EXTRACT)\s*\(.+\)$/s;
+
+/**
+ * Builds the resource name of a log-based metric
+ *
+ * @param projectId The project ID
+ * @param name The metric name
+ * @returns The metric resource name
+ */
+export function logMetricResourceName(projectId: string, name: string): string {
+  return `projects/${projectId}/metrics/${validateLogMetricName(name)}`;
+}
+
+/**
+ * Checks a metric name against the characters the API accepts
+ *
+ * @param name The metric name
+ * @returns The metric name
+ */
+export function validateLogMetricName(name: string): string {
+  if (!METRIC_NAME_PATTERN.test(name)) {
+    throw new GcpMcpError(
+      `Invalid metric name: "${name}". Names are up to 100 characters of A-Z, a-z, 0-9 and _-.,+!*'()%/`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return name;
+}
+
+/**
+ * Checks the syntax of a value or label extractor
+ *
+ * @param extractor The extractor expression
+ * @param description What the extractor is for, used in errors
+ * @returns The trimmed extractor
+ */
+function validateExtractor(extractor: string, description: string): string {
+  const trimmed = extractor.trim();
+  if (!EXTRACTOR_PATTERN.test(trimmed)) {
+    throw new GcpMcpError(
+      `Invalid ${description}: "${extractor}". Use EXTRACT(field) or REGEXP_EXTRACT(field, "regex").`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Converts bucket settings into API bucket options
+ *
+ * @param buckets The bucket settings
+ * @returns The bucket options
+ */
+function buildBucketOptions(
+  buckets: LogMetricBuckets,
+): Record<string, unknown> {
+  switch (buckets.type) {
+    case "exponential":
+      return {
+        exponentialBuckets: {
+          numFiniteBuckets: buckets.numFiniteBuckets,
+          growthFactor: buckets.growthFactor,
+          scale: buckets.scale,
+        },
+      };
+    case "linear":
+      return {
+        linearBuckets: {
+          numFiniteBuckets: buckets.numFiniteBuckets,
+          width: buckets.width,
+          offset: buckets.offset,
+        },
+      };
+    case "explicit":
+      return {
+        explicitBuckets: { bounds: [...buckets.bounds].sort((a, b) => a - b) },
+      };
+  }
+}
+
+/**
+ * Applies changes to a metric definition and checks the result is consistent
+ *
+ * Labels replace the existing label set, as the API does not support adding
+ * or removing individual labels.
+ *
+ * @param existing The current metric definition
+ * @param changes The changes to apply
+ * @returns The updated metric definition
+ */
+export function applyLogMetricChanges(
+  existing: LogMetric,
+  changes: LogMetricChanges,
+): LogMetric {
+  const metric: LogMetric = {
+    ...existing,
+    metricDescriptor: { ...existing.metricDescriptor },
+  };
+  delete metric.createTime;
+  delete metric.updateTime;
+
+  if (changes.description !== undefined) {
+    metric.description = changes.description;
+  }
+  if (changes.filter !== undefined) {
+    metric.filter = prepareLogFilter(changes.filter);
+  }
+  if (changes.disabled !== undefined) {
+    metric.disabled = changes.disabled;
+  }
+  if (changes.unit !== undefined) {
+    metric.metricDescriptor.unit = changes.unit;
+  }
+  if (changes.valueExtractor !== undefined) {
+    metric.valueExtractor = validateExtractor(
+      changes.valueExtractor,
+      "value extractor",
+    );
+  }
+  if (changes.buckets !== undefined) {
+    metric.bucketOptions = buildBucketOptions(changes.buckets);
+  }
+  if (changes.labels !== undefined) {
+    const keys = new Set<string>();
+    metric.metricDescriptor.labels = [];
+    metric.labelExtractors = {};
+    for (const label of changes.labels) {
+      if (keys.has(label.key)) {
+        throw new GcpMcpError(
+          `Duplicate metric label: "${label.key}"`,
+          "INVALID_ARGUMENT",
+          400,
+        );
+      }
+      keys.add(label.key);
+      metric.metricDescriptor.labels.push({
+        key: label.key,
+        valueType: label.valueType || "STRING",
+        description: label.description,
+      });
+      metric.labelExtractors[label.key] = validateExtractor(
+        label.extractor,
+        `extractor for label "${label.key}"`,
+      );
+    }
+  }
+
+  if (!metric.filter) {
+    throw new GcpMcpError(
+      "A log-based metric requires a filter",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  if (metric.metricDescriptor.valueType === "DISTRIBUTION") {
+    if (!metric.valueExtractor) {
+      throw new GcpMcpError(
+        "Distribution metrics require a value extractor, e.g. EXTRACT(jsonPayload.latencyMs)",
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    metric.bucketOptions =
+      metric.bucketOptions || buildBucketOptions(DEFAULT_BUCKETS);
+  } else if (metric.valueExtractor || metric.bucketOptions) {
+    throw new GcpMcpError(
+      "Counter metrics cannot have a value extractor or buckets; create a distribution metric instead",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  return metric;
+}
+
+/**
+ * Builds a new metric definition
+ *
+ * @param spec The metric definition
+ * @returns The metric in the shape used by the Logging API
+ */
+export function buildLogMetric(spec: LogMetricSpec): LogMetric {
+  const { name, kind, ...changes } = spec;
+  return applyLogMetricChanges(
+    {
+      name: validateLogMetricName(name),
+      filter: "",
+      metricDescriptor: {
+        metricKind: "DELTA",
+        valueType: kind === "distribution" ? "DISTRIBUTION" : "INT64",
+      },
+    },
+    changes,
+  );
+}
+
+/**
+ * Normalises a metric returned by the API
+ *
+ * Unset proto fields come back as empty strings, empty objects or null, so
+ * they are dropped to keep definitions comparable and safe to send back.
+ *
+ * @param metric The metric returned by the Logging API
+ * @returns The normalised metric
+ */
+export function normaliseLogMetric(metric: unknown): LogMetric {
+  const raw = (metric || {}) as Record<string, unknown>;
+  const descriptor = (raw.metricDescriptor || {}) as Record<string, unknown>;
+  const labels = Array.isArray(descriptor.labels)
+    ? (descriptor.labels as Array<Record<string, unknown>>)
+    : [];
+  const labelExtractors = (raw.labelExtractors || {}) as Record<string, string>;
+
+  const normalised: LogMetric = {
+    name: String(raw.name || ""),
+    filter: String(raw.filter || ""),
+    metricDescriptor: {
+      metricKind: (descriptor.metricKind as string) || "DELTA",
+      valueType: (descriptor.valueType as string) || "INT64",
+    },
+  };
+
+  if (raw.description) {
+    normalised.description = String(raw.description);
+  }
+  if (raw.disabled) {
+    normalised.disabled = true;
+  }
+  if (descriptor.unit && descriptor.unit !== "1") {
+    normalised.metricDescriptor.unit = String(descriptor.unit);
+  }
+  if (labels.length > 0) {
+    normalised.metricDescriptor.labels = labels.map((label) => ({
+      key: String(label.key),
+      valueType: (label.valueType as string) || "STRING",
+      description: (label.description as string) || undefined,
+    }));
+  }
+  if (raw.valueExtractor) {
+    normalised.valueExtractor = String(raw.valueExtractor);
+  }
+  if (Object.keys(labelExtractors).length > 0) {
+    normalised.labelExtractors = { ...labelExtractors };
+  }
+  if (raw.bucketOptions && typeof raw.bucketOptions === "object") {
+    normalised.bucketOptions = raw.bucketOptions as Record<string, unknown>;
+  }
+  if (raw.createTime) {
+    normalised.createTime = normaliseTimestamp(raw.createTime) as string;
+  }
+  if (raw.updateTime) {
+    normalised.updateTime = normaliseTimestamp(raw.updateTime) as string;
+  }
+
+  return normalised;
+}
+
+/**
+ * Builds the body of an update request from the metric the API returned
+ *
+ * The API has no update mask for metrics, so the whole metric is sent back.
+ * Only the fields named in the changes are taken from the updated
+ * definition; everything else, including fields the normalised shape leaves
+ * out such as the bucket name and the descriptor's display name, is sent
+ * back as it was fetched.
+ *
+ * @param raw The metric as returned by the Logging API
+ * @param metric The updated definition from applyLogMetricChanges
+ * @param changes The changes that were applied
+ * @returns The metric to send with updateLogMetric
+ */
+export function overlayLogMetricChanges(
+  raw: Record<string, unknown>,
+  metric: LogMetric,
+  changes: LogMetricChanges,
+): Record<string, unknown> {
+  const body: Record<string, unknown> = { ...raw };
+  const descriptor = {
+    ...((raw.metricDescriptor || {}) as Record<string, unknown>),
+  };
+  delete body.createTime;
+  delete body.updateTime;
+
+  if (changes.description !== undefined) {
+    body.description = metric.description;
+  }
+  if (changes.filter !== undefined) {
+    body.filter = metric.filter;
+  }
+  if (changes.disabled !== undefined) {
+    body.disabled = metric.disabled;
+  }
+  if (changes.valueExtractor !== undefined) {
+    body.valueExtractor = metric.valueExtractor;
+  }
+  if (changes.buckets !== undefined || !raw.bucketOptions) {
+    body.bucketOptions = metric.bucketOptions ?? raw.bucketOptions;
+  }
+  if (changes.unit !== undefined) {
+    descriptor.unit = metric.metricDescriptor.unit;
+  }
+  if (changes.labels !== undefined) {
+    descriptor.labels = metric.metricDescriptor.labels;
+    body.labelExtractors = metric.labelExtractors;
+  }
+  body.metricDescriptor = descriptor;
+
+  return body;
+}
+
+/**
+ * Fetches a single log-based metric exactly as the API returns it
+ *
+ * @param logging The Logging client
+ * @param projectId The project ID
+ * @param name The metric name
+ * @returns The metric with every field the API set
+ */
+export async function getRawLogMetric(
+  logging: Logging,
+  projectId: string,
+  name: string,
+): Promise<Record<string, unknown>> {
+  const metric = await requestLoggingApi<Record<string, unknown> | null>(
+    logging,
+    "MetricsServiceV2Client",
+    "getLogMetric",
+    { metricName: logMetricResourceName(projectId, name) },
+  );
+  return metric || {};
+}
+
+/**
+ * Fetches a single log-based metric
+ *
+ * @param logging The Logging client
+ * @param projectId The project ID
+ * @param name The metric name
+ * @returns The normalised metric
+ */
+export async function getLogMetric(
+  logging: Logging,
+  projectId: string,
+  name: string,
+): Promise<LogMetric> {
+  return normaliseLogMetric(await getRawLogMetric(logging, projectId, name));
+}
+
+/**
+ * How many recent entries a metric filter matches
+ */
+export interface LogMetricPreview {
+  hours: number;
+  since: string;
+  matched: number;
+  /** Whether counting stopped at the entry limit */
+  truncated: boolean;
+}
+
+/**
+ * Counts the entries a metric filter would have matched over recent hours
+ *
+ * @param logging The Logging client
+ * @param filter The metric filter
+ * @param hours How many hours to look back
+ * @param maxEntries Upper bound on the entries counted
+ * @param now The current time
+ * @returns The preview counts
+ */
+export async function previewLogMetric(
+  logging: Logging,
+  filter: string,
+  hours: number,
+  maxEntries = 10000,
+  now = new Date(),
+): Promise<LogMetricPreview> {
+  const since = new Date(now.getTime() - hours * 3600 * 1000).toISOString();
+  const result = await scanLogEntries(
+    logging,
+    { filter: `(${filter}) AND timestamp>="${since}"`, maxEntries },
+    () => undefined,
+  );
+
+  return {
+    hours,
+    since,
+    matched: result.scanned,
+    truncated: result.truncated,
+  };
+}
+
+/**
+ * Describes bucket options in a single line
+ *
+ * @param bucketOptions The API bucket options
+ * @returns A readable description
+ */
+function describeBuckets(bucketOptions: Record<string, unknown>): string {
+  const { exponentialBuckets, linearBuckets, explicitBuckets } =
+    bucketOptions as Record<string, Record<string, unknown> | undefined>;
+  if (exponentialBuckets) {
+    return `exponential (${exponentialBuckets.numFiniteBuckets} buckets, growth factor ${exponentialBuckets.growthFactor}, scale ${exponentialBuckets.scale})`;
+  }
+  if (linearBuckets) {
+    return `linear (${linearBuckets.numFiniteBuckets} buckets, width ${linearBuckets.width}, offset ${linearBuckets.offset})`;
+  }
+  if (explicitBuckets) {
+    return `explicit (bounds ${(explicitBuckets.bounds as number[]).join(", ")})`;
+  }
+  return "unknown";
+}
+
+/**
+ * Formats a metric definition as markdown
+ *
+ * @param metric The metric
+ * @returns The formatted metric
+ */
+export function formatLogMetric(metric: LogMetric): string {
+  const kind =
+    metric.metricDescriptor.valueType === "DISTRIBUTION"
+      ? "distribution"
+      : "counter";
+
+  let text = `## ${metric.name}\n\n`;
+  if (metric.description) {
+    text += `${metric.description}\n\n`;
+  }
+  text += `- **Type:** ${kind}${metric.disabled ? " (disabled)" : ""}\n`;
+  text += `- **Monitoring Metric:** logging.googleapis.com/user/${metric.name}\n`;
+  if (metric.metricDescriptor.unit) {
+    text += `- **Unit:** ${metric.metricDescriptor.unit}\n`;
+  }
+  if (metric.valueExtractor) {
+    text += `- **Value Extractor:** \`${metric.valueExtractor}\`\n`;
+  }
+  if (metric.bucketOptions) {
+    text += `- **Buckets:** ${describeBuckets(metric.bucketOptions)}\n`;
+  }
+  if (metric.createTime) {
+    text += `- **Created:** ${metric.createTime}\n`;
+  }
+  if (metric.updateTime) {
+    text += `- **Updated:** ${metric.updateTime}\n`;
+  }
+  text += `\n**Filter:**\n\n\`\`\`\n${metric.filter}\n\`\`\`\n`;
+
+  const labels = metric.metricDescriptor.labels || [];
+  if (labels.length > 0) {
+    text += `\n**Labels:**\n\n| Key | Type | Extractor |\n|-----|------|-----------|\n`;
+    for (const label of labels) {
+      const extractor = metric.labelExtractors?.[label.key] || "";
+      text += `| ${label.key} | ${label.valueType || "STRING"} | \`${extractor}\` |\n`;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Formats a filter preview as markdown
+ *
+ * @param preview The preview counts
+ * @returns The formatted preview
+ */
+export function formatLogMetricPreview(preview: LogMetricPreview): string {
+  const count = preview.truncated
+    ? `at least ${preview.matched}`
+    : `${preview.matched}`;
+  const rate = (preview.matched / preview.hours).toFixed(1);
+  return `## Filter Preview\n\nThe filter matched ${count} entries in the last ${preview.hours} hour(s) (since ${preview.since}), about ${rate} per hour.\n`;
+}
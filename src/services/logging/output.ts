@@ -0,0 +1,195 @@
+/**
+ * Output formats for Google Cloud Logging tools and resources
+ *
+ * Every entry-returning tool can render its result as markdown for people, or
+ * as JSON/NDJSON for agents and scripts. The same data is always exposed as
+ * MCP structured content so clients never need to parse the markdown.
+ */
+import { z } from "zod";
+import { GcpMcpError } from "../../utils/error.js";
+import { formatLogEntry, LogEntry, NormalisedLogEntry } from "./types.js";
+import { getLogEntrySource } from "./scope.js";
+
+/**
+ * Supported output formats
+ */
+export const LOG_OUTPUT_FORMATS = ["markdown", "json", "ndjson"] as const;
+
+/**
+ * Output format for log tools and resources
+ */
+export type LogOutputFormat = (typeof LOG_OUTPUT_FORMATS)[number];
+
+/**
+ * MIME types used when returning each format from a resource
+ */
+export const LOG_OUTPUT_MIME_TYPES: Record<LogOutputFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+/**
+ * Input schema shared by every tool that accepts an output format
+ */
+export const logOutputFormatSchema = z
+  .enum(LOG_OUTPUT_FORMATS)
+  .default("markdown")
+  .describe(
+    'Response format: "markdown" for readable text, "json" for a single JSON document, or "ndjson" for one JSON object per line',
+  );
+
+/**
+ * Schema for a normalised log entry
+ */
+export const normalisedLogEntrySchema = z.object({
+  timestamp: z.string().optional(),
+  receiveTimestamp: z.string().optional(),
+  severity: z.string(),
+  logName: z.string().optional(),
+  insertId: z.string().optional(),
+  resource: z.object({
+    type: z.string(),
+    labels: z.record(z.string()),
+  }),
+  labels: z.record(z.string()),
+  trace: z.string().optional(),
+  spanId: z.string().optional(),
+  traceSampled: z.boolean().optional(),
+  httpRequest: z.record(z.unknown()).optional(),
+  sourceLocation: z.record(z.unknown()).optional(),
+  operation: z.record(z.unknown()).optional(),
+  payloadType: z.enum(["text", "json", "proto", "none"]),
+  payload: z.unknown(),
+  source: z.string().optional(),
+});
+
+/**
+ * Parses an output format supplied as a string, e.g. from a resource URI
+ *
+ * @param value The requested format
+ * @returns The validated output format
+ */
+export function parseLogOutputFormat(value: string): LogOutputFormat {
+  const format = value.toLowerCase();
+  if (!(LOG_OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new GcpMcpError(
+      `Unsupported output format: "${value}". Use one of ${LOG_OUTPUT_FORMATS.join(", ")}.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return format as LogOutputFormat;
+}
+
+/**
+ * Formats log entries as markdown, isolating failures to individual entries
+ *
+ * @param entries The entries to format
+ * @param separator Text placed between entries
+ * @param labelSources Whether to show the resource each entry came from
+ * @returns The formatted entries
+ */
+export function formatLogEntries(
+  entries: LogEntry[],
+  separator = "\n\n",
+  labelSources = false,
+): string {
+  return entries
+    .map((entry) => {
+      try {
+        const formatted = formatLogEntry(entry);
+        const source = labelSources
+          ? getLogEntrySource(entry.logName)
+          : undefined;
+        // Place the source directly below the entry heading
+        return source
+          ? formatted.replace("\n\n", `\n\n**Source:** ${source}\n`)
+          : formatted;
+      } catch (err: unknown) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Unknown error";
+        return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
+      }
+    })
+    .join(separator);
+}
+
+/**
+ * Serialises records as newline-delimited JSON
+ *
+ * @param records The records to serialise
+ * @returns One JSON document per line
+ */
+export function toNdjson(records: unknown[]): string {
+  return records.map((record) => JSON.stringify(record)).join("\n");
+}
+
+/**
+ * Builds a tool result in the requested format
+ *
+ * Markdown is returned as-is, JSON serialises the structured content and
+ * NDJSON serialises `records` one per line. A continuation cursor in the
+ * structured content is repeated as a separate text block for NDJSON, as it
+ * cannot be represented as a record.
+ *
+ * @param format The requested output format
+ * @param markdown The markdown rendering of the result
+ * @param structuredContent The machine-readable result
+ * @param records The records emitted in NDJSON mode
+ * @returns The MCP tool result
+ */
+export function buildLogToolResult(
+  format: LogOutputFormat,
+  markdown: string,
+  structuredContent: Record<string, unknown>,
+  records: unknown[],
+): {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent: Record<string, unknown>;
+} {
+  if (format === "json") {
+    return {
+      content: [
+        { type: "text", text: JSON.stringify(structuredContent, null, 2) },
+      ],
+      structuredContent,
+    };
+  }
+
+  if (format === "ndjson") {
+    const content: Array<{ type: "text"; text: string }> = [
+      { type: "text", text: toNdjson(records) },
+    ];
+    if (typeof structuredContent.nextCursor === "string") {
+      content.push({
+        type: "text",
+        text: `Next Cursor: ${structuredContent.nextCursor}`,
+      });
+    }
+    return { content, structuredContent };
+  }
+
+  return {
+    content: [{ type: "text", text: markdown }],
+    structuredContent,
+  };
+}
+
+/**
+ * Serialises normalised entries for a resource read
+ *
+ * @param format The requested output format
+ * @param entries The normalised entries
+ * @param context Additional fields included in the JSON document
+ * @returns The resource text
+ */
+export function serialiseLogEntries(
+  format: Exclude<LogOutputFormat, "markdown">,
+  entries: NormalisedLogEntry[],
+  context: Record<string, unknown>,
+): string {
+  return format === "ndjson"
+    ? toNdjson(entries)
+    : JSON.stringify({ ...context, entries }, null, 2);
+}
@@ -0,0 +1,217 @@
+/**
+ * Cursor-based pagination helpers for Google Cloud Logging queries
+ *
+ * Cloud Logging page tokens are only valid for the exact request that issued
+ * them, so the cursor handed back to clients carries the resolved filter
+ * alongside the page token. Relative time ranges and the client library's
+ * implicit 24 hour window are therefore pinned on the first page.
+ */
+import { Entry, Logging } from "@google-cloud/logging";
+import { GcpMcpError } from "../../utils/error.js";
+
+/**
+ * Decoded contents of an opaque log query cursor
+ */
+export interface LogQueryCursor {
+  /** Page token returned by the Cloud Logging API */
+  pageToken: string;
+  /** The fully resolved filter sent to the API */
+  filter: string;
+  /** The filter as originally supplied by the caller, if any */
+  query?: string;
+  /** Start time as originally supplied, for time range queries */
+  startTime?: string;
+  /** End time as originally supplied, for time range queries */
+  endTime?: string;
+  /** Sort order used for the original request */
+  orderBy?: string;
+  /** Resources queried by the original request */
+  resourceNames?: string[];
+}
+
+/**
+ * Options for fetching a single page of log entries
+ */
+export interface LogEntriesPageRequest {
+  filter: string;
+  pageSize: number;
+  pageToken?: string;
+  orderBy?: string;
+  /** Resources to read from, defaulting to the client's project */
+  resourceNames?: string[];
+}
+
+/**
+ * A single page of log entries
+ */
+export interface LogEntriesPage {
+  entries: Entry[];
+  nextPageToken?: string;
+}
+
+/**
+ * Encodes a cursor into an opaque string that can be returned to clients
+ *
+ * @param cursor The cursor contents
+ * @returns A URL-safe base64 encoded cursor
+ */
+export function encodeLogCursor(cursor: LogQueryCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+/**
+ * Decodes an opaque cursor previously produced by encodeLogCursor
+ *
+ * @param cursor The encoded cursor
+ * @returns The decoded cursor contents
+ */
+export function decodeLogCursor(cursor: string): LogQueryCursor {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    );
+    if (
+      !decoded ||
+      typeof decoded.pageToken !== "string" ||
+      typeof decoded.filter !== "string"
+    ) {
+      throw new Error("missing page token or filter");
+    }
+    return decoded as LogQueryCursor;
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    throw new GcpMcpError(
+      `Invalid log query cursor: ${errorMessage}`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+}
+
+/**
+ * Pins the implicit time window applied by the client library
+ *
+ * The client library appends a rolling 24 hour window to any filter that does
+ * not mention `timestamp`, which would change the request between pages.
+ *
+ * @param filter The filter supplied by the caller
+ * @param now The reference time for the default window
+ * @returns A filter that is stable across paginated requests
+ */
+export function resolveLogFilter(filter: string, now = new Date()): string {
+  if (filter.includes("timestamp")) {
+    return filter;
+  }
+
+  const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const timeFilter = `timestamp >= "${since.toISOString()}"`;
+  return filter.trim() ? `${filter} AND ${timeFilter}` : timeFilter;
+}
+
+/**
+ * Fetches a single page of log entries without auto-pagination
+ *
+ * @param logging The Logging client
+ * @param request The page request
+ * @returns The entries in the page and the token for the next page, if any
+ */
+export async function fetchLogEntriesPage(
+  logging: Logging,
+  request: LogEntriesPageRequest,
+): Promise<LogEntriesPage> {
+  const [entries, nextQuery, apiResponse] = await logging.getEntries({
+    filter: request.filter,
+    pageSize: request.pageSize,
+    ...(request.pageToken ? { pageToken: request.pageToken } : {}),
+    ...(request.orderBy ? { orderBy: request.orderBy } : {}),
+    ...(request.resourceNames ? { resourceNames: request.resourceNames } : {}),
+    autoPaginate: false,
+  });
+
+  const nextPageToken =
+    apiResponse?.nextPageToken ||
+    (nextQuery as { pageToken?: string } | null)?.pageToken ||
+    undefined;
+
+  return {
+    entries: entries || [],
+    nextPageToken,
+  };
+}
+
+/**
+ * Options for scanning every entry that matches a filter
+ */
+export interface LogEntriesScanRequest {
+  filter: string;
+  /** Upper bound on the number of entries read before stopping */
+  maxEntries: number;
+  pageSize?: number;
+  orderBy?: string;
+  resourceNames?: string[];
+}
+
+/**
+ * Outcome of a scan across multiple pages
+ */
+export interface LogEntriesScanResult {
+  /** Number of entries handed to the page callback */
+  scanned: number;
+  /** Number of API pages requested */
+  pages: number;
+  /** Whether more matching entries remained when the scan stopped */
+  truncated: boolean;
+}
+
+/**
+ * Pages through every entry matching a filter, handing each page to a callback
+ *
+ * Pages are processed one at a time so callers can accumulate results without
+ * holding the full result set in memory.
+ *
+ * @param logging The Logging client
+ * @param request The scan request
+ * @param onPage Callback invoked with each page of entries
+ * @returns Summary of the scan
+ */
+export async function scanLogEntries(
+  logging: Logging,
+  request: LogEntriesScanRequest,
+  onPage: (entries: Entry[]) => void | Promise<void>,
+): Promise<LogEntriesScanResult> {
+  const filter = resolveLogFilter(request.filter);
+  const pageSize = Math.min(request.pageSize || 1000, 1000);
+
+  let scanned = 0;
+  let pages = 0;
+  let pageToken: string | undefined;
+
+  do {
+    const remaining = request.maxEntries - scanned;
+    const page = await fetchLogEntriesPage(logging, {
+      filter,
+      pageSize: Math.min(pageSize, remaining),
+      pageToken,
+      orderBy: request.orderBy,
+      resourceNames: request.resourceNames,
+    });
+    pages++;
+
+    const entries = page.entries.slice(0, remaining);
+    scanned += entries.length;
+    if (entries.length > 0) {
+      await onPage(entries);
+    }
+
+    // Empty pages can still carry a token when the API stops early on a
+    // long time range, so only the token decides whether to continue
+    pageToken = page.nextPageToken;
+  } while (pageToken && scanned < request.maxEntries);
+
+  return {
+    scanned,
+    pages,
+    truncated: Boolean(pageToken) && scanned >= request.maxEntries,
+  };
+}
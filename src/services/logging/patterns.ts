@@ -0,0 +1,334 @@
+/**
+ * Log pattern mining for Google Cloud Logging
+ *
+ * Collapses repetitive log messages into templates using a simplified Drain
+ * algorithm: variable tokens (UUIDs, IPs, hex strings, numbers) are masked,
+ * messages are grouped by token count and leading token, and messages within
+ * a group are merged into a template when enough token positions match.
+ */
+import { LogEntry } from "./types.js";
+
+/**
+ * Placeholder used for token positions that vary within a template
+ */
+export const WILDCARD_TOKEN = "<*>";
+
+/**
+ * Masks applied to messages before clustering, in order of application
+ */
+const VARIABLE_TOKEN_MASKS: Array<{ pattern: RegExp; token: string }> = [
+  {
+    pattern:
+      /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?\b/g,
+    token: "<TIMESTAMP>",
+  },
+  {
+    pattern:
+      /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g,
+    token: "<UUID>",
+  },
+  {
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}(?::\d{1,5})?\b/g,
+    token: "<IP>",
+  },
+  {
+    pattern: /\b(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\b/g,
+    token: "<IP>",
+  },
+  {
+    pattern: /\b0x[0-9a-fA-F]+\b/g,
+    token: "<HEX>",
+  },
+  {
+    // Long hex strings such as trace IDs, hashes and object IDs
+    pattern: /\b(?=[0-9a-fA-F]*\d)(?=[0-9a-fA-F]*[a-fA-F])[0-9a-fA-F]{8,}\b/g,
+    token: "<HEX>",
+  },
+  {
+    pattern: /(?<![\w<])[-+]?\d+(?:\.\d+)?(?:[a-zA-Z%]{1,3})?(?![\w>])/g,
+    token: "<NUM>",
+  },
+];
+
+/**
+ * Maximum message length considered for clustering
+ */
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * A mined log template
+ */
+export interface LogPattern {
+  template: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  severities: Record<string, number>;
+  example: LogEntry;
+}
+
+/**
+ * Internal cluster state
+ */
+interface LogCluster {
+  tokens: string[];
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  severities: Record<string, number>;
+  example: LogEntry;
+}
+
+/**
+ * Extracts the human-readable message from a log entry
+ *
+ * @param entry The log entry
+ * @returns The message text, or an empty string if none could be found
+ */
+export function getLogMessage(entry: LogEntry): string {
+  if (entry.textPayload !== undefined && entry.textPayload !== null) {
+    return String(entry.textPayload);
+  }
+
+  const json = entry.jsonPayload;
+  if (json) {
+    for (const key of ["message", "msg", "error", "err", "text"]) {
+      const value = json[key];
+      if (typeof value === "string" && value.length > 0) {
+        return value;
+      }
+    }
+    return JSON.stringify(json);
+  }
+
+  const proto = entry.protoPayload;
+  if (proto) {
+    const status = proto.status as { message?: string } | undefined;
+    if (status?.message) {
+      return status.message;
+    }
+    if (typeof proto.methodName === "string") {
+      return proto.methodName;
+    }
+    return JSON.stringify(proto);
+  }
+
+  for (const key of ["message", "msg", "data"]) {
+    const value = entry[key];
+    if (typeof value === "string" && value.length > 0) {
+      return value;
+    }
+  }
+
+  return "";
+}
+
+/**
+ * Replaces variable tokens in a message with typed placeholders
+ *
+ * @param message The raw log message
+ * @returns The message with UUIDs, IPs, hex strings and numbers masked
+ */
+export function maskVariableTokens(message: string): string {
+  return VARIABLE_TOKEN_MASKS.reduce(
+    (masked, { pattern, token }) => masked.replace(pattern, token),
+    message,
+  );
+}
+
+/**
+ * Splits a message into the tokens used for clustering
+ *
+ * Only the first line is used so stack traces cluster by their headline.
+ *
+ * @param message The raw log message
+ * @returns The masked tokens
+ */
+export function tokeniseLogMessage(message: string): string[] {
+  const firstLine = message.split("\n", 1)[0].slice(0, MAX_MESSAGE_LENGTH);
+  return maskVariableTokens(firstLine)
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Mines templates from a stream of log entries
+ */
+export class LogPatternMiner {
+  private readonly groups = new Map<string, LogCluster[]>();
+  private readonly similarityThreshold: number;
+  private readonly maxClustersPerGroup: number;
+  private total = 0;
+
+  /**
+   * Create a new LogPatternMiner
+   *
+   * @param similarityThreshold Fraction of matching tokens required to merge a message into a template
+   * @param maxClustersPerGroup Upper bound on templates per token-count group
+   */
+  constructor(similarityThreshold = 0.5, maxClustersPerGroup = 200) {
+    this.similarityThreshold = similarityThreshold;
+    this.maxClustersPerGroup = maxClustersPerGroup;
+  }
+
+  /**
+   * Add a log entry to the miner
+   *
+   * @param entry The log entry
+   */
+  add(entry: LogEntry): void {
+    const tokens = tokeniseLogMessage(getLogMessage(entry));
+    if (tokens.length === 0) {
+      tokens.push("<EMPTY>");
+    }
+
+    const groupKey = `${tokens.length}:${this.leadingToken(tokens)}`;
+    const clusters = this.groups.get(groupKey) || [];
+
+    let best: LogCluster | undefined;
+    let bestSimilarity = -1;
+    for (const cluster of clusters) {
+      const similarity = this.similarity(cluster.tokens, tokens);
+      if (similarity > bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    const timestamp = entry.timestamp ? String(entry.timestamp) : undefined;
+    const severity = entry.severity || "DEFAULT";
+
+    if (
+      best &&
+      (bestSimilarity >= this.similarityThreshold ||
+        clusters.length >= this.maxClustersPerGroup)
+    ) {
+      best.tokens = best.tokens.map((token, index) =>
+        token === tokens[index] ? token : WILDCARD_TOKEN,
+      );
+      best.count++;
+      best.severities[severity] = (best.severities[severity] || 0) + 1;
+      if (timestamp) {
+        if (!best.firstSeen || timestamp < best.firstSeen) {
+          best.firstSeen = timestamp;
+        }
+        if (!best.lastSeen || timestamp > best.lastSeen) {
+          best.lastSeen = timestamp;
+        }
+      }
+    } else {
+      clusters.push({
+        tokens,
+        count: 1,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        severities: { [severity]: 1 },
+        example: entry,
+      });
+      this.groups.set(groupKey, clusters);
+    }
+
+    this.total++;
+  }
+
+  /**
+   * Number of entries added to the miner
+   */
+  get entryCount(): number {
+    return this.total;
+  }
+
+  /**
+   * Get the mined templates, most frequent first
+   *
+   * @returns The templates with their counts and an example entry
+   */
+  getPatterns(): LogPattern[] {
+    const patterns: LogPattern[] = [];
+    for (const clusters of this.groups.values()) {
+      for (const cluster of clusters) {
+        patterns.push({
+          template: cluster.tokens.join(" "),
+          count: cluster.count,
+          firstSeen: cluster.firstSeen,
+          lastSeen: cluster.lastSeen,
+          severities: cluster.severities,
+          example: cluster.example,
+        });
+      }
+    }
+
+    return patterns.sort(
+      (a, b) => b.count - a.count || a.template.localeCompare(b.template),
+    );
+  }
+
+  /**
+   * Messages starting with a variable token are grouped together rather
+   * than by the value of that token
+   */
+  private leadingToken(tokens: string[]): string {
+    const first = tokens[0];
+    return /^<[A-Z]+>$/.test(first) || /\d/.test(first)
+      ? WILDCARD_TOKEN
+      : first;
+  }
+
+  private similarity(template: string[], tokens: string[]): number {
+    let matches = 0;
+    for (let i = 0; i < template.length; i++) {
+      if (template[i] === tokens[i] || template[i] === WILDCARD_TOKEN) {
+        matches++;
+      }
+    }
+    return matches / template.length;
+  }
+}
+
+/**
+ * Formats mined templates as markdown
+ *
+ * @param patterns The templates to format
+ * @param totalEntries The number of entries that were mined
+ * @param limit Maximum number of templates to list
+ * @returns Markdown describing each template
+ */
+export function formatLogPatterns(
+  patterns: LogPattern[],
+  totalEntries: number,
+  limit = 50,
+): string {
+  if (patterns.length === 0) {
+    return "No log patterns found.";
+  }
+
+  let markdown = "";
+  for (const [index, pattern] of patterns.slice(0, limit).entries()) {
+    const percentage =
+      totalEntries > 0
+        ? ((pattern.count / totalEntries) * 100).toFixed(1)
+        : "0";
+    const severities = Object.entries(pattern.severities)
+      .sort((a, b) => b[1] - a[1])
+      .map(([severity, count]) => `${severity}: ${count}`)
+      .join(", ");
+    const example = getLogMessage(pattern.example).split("\n", 1)[0];
+
+    markdown += `## Pattern ${index + 1} (${pattern.count} entries, ${percentage}%)\n\n`;
+    markdown += `\`\`\`\n${pattern.template}\n\`\`\`\n`;
+    markdown += `- **First Seen:** ${pattern.firstSeen || "Unknown"}\n`;
+    markdown += `- **Last Seen:** ${pattern.lastSeen || "Unknown"}\n`;
+    markdown += `- **Severities:** ${severities}\n`;
+    markdown += `- **Example:** ${example.slice(0, MAX_MESSAGE_LENGTH)}\n`;
+    if (pattern.example.insertId) {
+      markdown += `- **Example Insert ID:** ${pattern.example.insertId}\n`;
+    }
+    markdown += "\n";
+  }
+
+  if (patterns.length > limit) {
+    markdown += `*${patterns.length - limit} less frequent patterns not shown.*\n`;
+  }
+
+  return markdown;
+}
@@ -0,0 +1,242 @@
+/**
+ * Decoding of proto payloads returned by the Logging client
+ *
+ * The gRPC client returns protoPayload as an undecoded google.protobuf.Any,
+ * a type URL and the serialised message, because the payload types are not
+ * among its bundled protos. Cloud Audit Logs are by far the most common proto
+ * payload, so the AuditLog fields this server reads are decoded here from the
+ * protobuf wire format into the shape the JSON API returns.
+ */
+
+/**
+ * Type URL of Cloud Audit Logs payloads
+ */
+export const AUDIT_LOG_TYPE_URL =
+  "type.googleapis.com/google.cloud.audit.AuditLog";
+
+/**
+ * How a field is decoded: as a string, as a number, or as a nested message
+ */
+type ProtoFieldType = "string" | "int32" | "int64" | ProtoMessageSchema;
+
+/**
+ * Names and types of the decoded fields of a message, by field number
+ */
+interface ProtoMessageSchema {
+  [fieldNumber: number]: [string, ProtoFieldType];
+}
+
+/**
+ * google.rpc.Status
+ */
+const STATUS_SCHEMA: ProtoMessageSchema = {
+  1: ["code", "int32"],
+  2: ["message", "string"],
+};
+
+/**
+ * google.cloud.audit.AuthenticationInfo
+ */
+const AUTHENTICATION_INFO_SCHEMA: ProtoMessageSchema = {
+  1: ["principalEmail", "string"],
+  2: ["authoritySelector", "string"],
+  5: ["serviceAccountKeyName", "string"],
+  8: ["principalSubject", "string"],
+};
+
+/**
+ * google.cloud.audit.RequestMetadata
+ */
+const REQUEST_METADATA_SCHEMA: ProtoMessageSchema = {
+  1: ["callerIp", "string"],
+  2: ["callerSuppliedUserAgent", "string"],
+  3: ["callerNetwork", "string"],
+};
+
+/**
+ * google.cloud.audit.AuditLog, limited to the fields that identify a call
+ */
+const AUDIT_LOG_SCHEMA: ProtoMessageSchema = {
+  2: ["status", STATUS_SCHEMA],
+  3: ["authenticationInfo", AUTHENTICATION_INFO_SCHEMA],
+  4: ["requestMetadata", REQUEST_METADATA_SCHEMA],
+  7: ["serviceName", "string"],
+  8: ["methodName", "string"],
+  11: ["resourceName", "string"],
+  12: ["numResponseItems", "int64"],
+};
+
+/**
+ * Reads protobuf wire format values from a buffer
+ */
+class ProtoReader {
+  private readonly bytes: Buffer;
+  private offset = 0;
+
+  /**
+   * Create a reader positioned at the start of a message
+   *
+   * @param bytes The serialised message
+   */
+  constructor(bytes: Buffer) {
+    this.bytes = bytes;
+  }
+
+  /**
+   * Whether every byte has been read
+   */
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  /**
+   * Read a base 128 varint
+   *
+   * @returns The value, exact up to 2^53
+   */
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      if (this.done) {
+        throw new Error("Truncated varint");
+      }
+      const byte = this.bytes[this.offset++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 128;
+    }
+  }
+
+  /**
+   * Read a length-delimited value
+   *
+   * @returns The value's bytes
+   */
+  lengthDelimited(): Buffer {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Truncated length-delimited field");
+    }
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  /**
+   * Skip a value that is not decoded
+   *
+   * @param wireType The value's wire type
+   */
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.varint();
+        return;
+      case 1:
+        this.offset += 8;
+        return;
+      case 2:
+        this.lengthDelimited();
+        return;
+      case 5:
+        this.offset += 4;
+        return;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Decodes the fields of a message named in a schema, skipping the rest
+ *
+ * @param bytes The serialised message
+ * @param schema The fields to decode
+ * @returns The decoded fields, keyed by their JSON names
+ */
+function decodeProtoMessage(
+  bytes: Buffer,
+  schema: ProtoMessageSchema,
+): Record<string, unknown> {
+  const reader = new ProtoReader(bytes);
+  const message: Record<string, unknown> = {};
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const fieldNumber = Math.floor(tag / 8);
+    const wireType = tag % 8;
+    const field = schema[fieldNumber];
+    const expectedWireType =
+      field && (field[1] === "int32" || field[1] === "int64") ? 0 : 2;
+
+    if (!field || wireType !== expectedWireType) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    const [name, type] = field;
+    if (type === "string") {
+      message[name] = reader.lengthDelimited().toString("utf-8");
+    } else if (type === "int32") {
+      message[name] = reader.varint();
+    } else if (type === "int64") {
+      message[name] = String(reader.varint());
+    } else {
+      message[name] = decodeProtoMessage(reader.lengthDelimited(), type);
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Reads the serialised message of an Any
+ *
+ * @param value The Any's value as a Buffer, byte array or base64 string
+ * @returns The bytes, or undefined if the value is none of these
+ */
+function readAnyValue(value: unknown): Buffer | undefined {
+  if (Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value);
+  }
+  if (typeof value === "string") {
+    return Buffer.from(value, "base64");
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a protoPayload returned by the Logging client
+ *
+ * Payloads that are already decoded, such as those returned by the JSON API
+ * or built by hand, are returned unchanged. Any payloads of other types are
+ * reduced to their `@type`, as their fields cannot be decoded without the
+ * message definition.
+ *
+ * @param payload The protoPayload field of a log entry
+ * @returns The payload in the shape the JSON API returns
+ */
+export function decodeProtoPayload(
+  payload: Record<string, unknown>,
+): Record<string, unknown> {
+  const typeUrl = payload.type_url ?? payload.typeUrl;
+  if (typeof typeUrl !== "string" || "@type" in payload) {
+    return payload;
+  }
+
+  const bytes = readAnyValue(payload.value);
+  if (typeUrl !== AUDIT_LOG_TYPE_URL || !bytes) {
+    return { "@type": typeUrl };
+  }
+  try {
+    return { "@type": typeUrl, ...decodeProtoMessage(bytes, AUDIT_LOG_SCHEMA) };
+  } catch {
+    return { "@type": typeUrl };
+  }
+}
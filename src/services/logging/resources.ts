@@ -7,11 +7,57 @@ import {
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getProjectId } from "../../utils/auth.js";
 import { GcpMcpError } from "../../utils/error.js";
-import { formatLogEntry, getLoggingClient, LogEntry } from "./types.js";
+import fs from "fs";
+import { getLoggingClient, normaliseLogEntry, toLogEntry } from "./types.js";
+import {
+  formatLogEntries,
+  LOG_OUTPUT_MIME_TYPES,
+  LogOutputFormat,
+  parseLogOutputFormat,
+  serialiseLogEntries,
+} from "./output.js";
+import { prepareLogFilter } from "./filter.js";
+import {
+  formatLogScope,
+  labelLogEntrySources,
+  parseLogResourceScope,
+} from "./scope.js";
+import {
+  getLogExportFormat,
+  LOG_EXPORT_MIME_TYPES,
+  resolveLogExportPath,
+} from "./export.js";
+
+/**
+ * Largest export file served through a resource; bigger files are read from disk
+ */
+const MAX_EXPORT_RESOURCE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * A template variable as passed to resource callbacks
+ */
+type TemplateVariable = string | string[] | undefined;
+
+/**
+ * Reads the first value of a template variable
+ *
+ * @param value The template variable
+ * @returns The value, or undefined if absent
+ */
+function firstValue(value: TemplateVariable): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
 
 /**
  * Registers Google Cloud Logging resources with the MCP server
  *
+ * Each resource is also available with a trailing `/{format}` segment
+ * (`markdown`, `json` or `ndjson`) for machine-readable output. The
+ * `{projectId}` segment may list several project IDs or URL-encoded resource
+ * names separated by commas, e.g. `gcp-logs://app-a,folders%2F123/recent`.
+ * Files written by gcp-logging-export are served as
+ * `gcp-logs-export://{fileName}`.
+ *
  * @param server The MCP server instance
  */
 export function registerLoggingResources(server: McpServer): void {
@@ -19,76 +65,16 @@ export function registerLoggingResources(server: McpServer): void {
   server.resource(
     "gcp-logging-recent-logs",
     new ResourceTemplate("gcp-logs://{projectId}/recent", { list: undefined }),
-    async (uri, { projectId }) => {
-      try {
-        const actualProjectId = projectId || (await getProjectId());
-        const logging = getLoggingClient();
-
-        const defaultFilter = process.env.LOG_FILTER || "";
-        const [entries] = await logging.getEntries({
-          pageSize: 50,
-          filter: defaultFilter,
-        });
-
-        if (!entries || entries.length === 0) {
-          return {
-            contents: [
-              {
-                uri: uri.href,
-                text: "No log entries found.",
-              },
-            ],
-          };
-        }
-
-        // Format logs with error handling for each entry
-        const formattedLogs = entries
-          .map((entry) => {
-            try {
-              return formatLogEntry(entry as unknown as LogEntry);
-            } catch (err: unknown) {
-              const errorMessage =
-                err instanceof Error ? err.message : "Unknown error";
-              return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
-            }
-          })
-          .join("\n\n");
+    async (uri, { projectId }) => readRecentLogs(uri, projectId),
+  );
 
-        return {
-          contents: [
-            {
-              uri: uri.href,
-              text: `# Recent Logs for Project: ${actualProjectId}\n\n${formattedLogs}`,
-            },
-          ],
-        };
-      } catch (error: unknown) {
-        // Get project ID safely
-        let projectIdForError: string;
-        try {
-          projectIdForError = Array.isArray(projectId)
-            ? projectId[0]
-            : (projectId as string) ||
-              process.env.GOOGLE_CLOUD_PROJECT ||
-              "unknown";
-        } catch {
-          projectIdForError = "unknown";
-        }
-
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-
-        // Return a user-friendly error message instead of throwing
-        return {
-          contents: [
-            {
-              uri: uri.href,
-              text: `# Error Fetching Recent Logs\n\nAn error occurred while fetching recent logs for project ${projectIdForError}: ${errorMessage}\n\nPlease check your Google Cloud credentials and project configuration.`,
-            },
-          ],
-        };
-      }
-    },
+  server.resource(
+    "gcp-logging-recent-logs-formatted",
+    new ResourceTemplate("gcp-logs://{projectId}/recent/{format}", {
+      list: undefined,
+    }),
+    async (uri, { projectId, format }) =>
+      readRecentLogs(uri, projectId, format),
   );
 
   // Register a resource for querying logs with a filter
@@ -97,91 +83,278 @@ export function registerLoggingResources(server: McpServer): void {
     new ResourceTemplate("gcp-logs://{projectId}/filter/{filter}", {
       list: undefined,
     }),
-    async (uri, { projectId, filter }) => {
-      try {
-        const actualProjectId = projectId || (await getProjectId());
-        const logging = getLoggingClient();
-
-        if (!filter) {
-          throw new GcpMcpError(
-            "Log filter is required",
-            "INVALID_ARGUMENT",
-            400,
-          );
-        }
-
-        const decodedFilter = Array.isArray(filter)
-          ? decodeURIComponent(filter[0])
-          : decodeURIComponent(filter);
-
-        const [entries] = await logging.getEntries({
-          pageSize: 50,
-          filter: decodedFilter,
-        });
-
-        if (!entries || entries.length === 0) {
-          return {
-            contents: [
+    async (uri, { projectId, filter }) =>
+      readFilteredLogs(uri, projectId, filter),
+  );
+
+  server.resource(
+    "gcp-logging-filtered-logs-formatted",
+    new ResourceTemplate("gcp-logs://{projectId}/filter/{filter}/{format}", {
+      list: undefined,
+    }),
+    async (uri, { projectId, filter, format }) =>
+      readFilteredLogs(uri, projectId, filter, format),
+  );
+
+  // Register a resource for downloading exported log files
+  server.resource(
+    "gcp-logging-export-file",
+    new ResourceTemplate("gcp-logs-export://{fileName}", { list: undefined }),
+    async (uri, { fileName }) => readExportedLogs(uri, fileName),
+  );
+}
+
+/**
+ * Reads the most recent log entries
+ *
+ * @param uri The resource URI
+ * @param projectId The project ID template variable
+ * @param format The output format template variable
+ * @returns The resource contents
+ */
+async function readRecentLogs(
+  uri: URL,
+  projectId: TemplateVariable,
+  format?: TemplateVariable,
+) {
+  try {
+    const outputFormat: LogOutputFormat = format
+      ? parseLogOutputFormat(firstValue(format) as string)
+      : "markdown";
+    const actualProjectId = firstValue(projectId) || (await getProjectId());
+    const resourceNames = parseLogResourceScope(actualProjectId);
+    const multiple = Boolean(resourceNames && resourceNames.length > 1);
+    const logging = getLoggingClient();
+
+    const defaultFilter = prepareLogFilter(process.env.LOG_FILTER || "");
+    const [entries] = await logging.getEntries({
+      pageSize: 50,
+      filter: defaultFilter,
+      ...(resourceNames ? { resourceNames } : {}),
+    });
+
+    if (outputFormat !== "markdown") {
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: LOG_OUTPUT_MIME_TYPES[outputFormat],
+            text: serialiseLogEntries(
+              outputFormat,
+              multiple
+                ? labelLogEntrySources((entries || []).map(normaliseLogEntry))
+                : (entries || []).map(normaliseLogEntry),
               {
-                uri: uri.href,
-                text: `No log entries found matching filter: ${decodedFilter}`,
+                projectId: actualProjectId,
+                resourceNames,
+                filter: defaultFilter,
               },
-            ],
-          };
-        }
-
-        // Format logs with error handling for each entry
-        const formattedLogs = entries
-          .map((entry) => {
-            try {
-              return formatLogEntry(entry as unknown as LogEntry);
-            } catch (err: unknown) {
-              const errorMessage =
-                err instanceof Error ? err.message : "Unknown error";
-              return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
-            }
-          })
-          .join("\n\n");
+            ),
+          },
+        ],
+      };
+    }
+
+    if (!entries || entries.length === 0) {
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: "No log entries found.",
+          },
+        ],
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: `# Recent Logs for ${formatLogScope(actualProjectId, multiple ? resourceNames : undefined)}\n\n${formatLogEntries(entries.map(toLogEntry), "\n\n", multiple)}`,
+        },
+      ],
+    };
+  } catch (error: unknown) {
+    const projectIdForError =
+      firstValue(projectId) || process.env.GOOGLE_CLOUD_PROJECT || "unknown";
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    // Return a user-friendly error message instead of throwing
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: `# Error Fetching Recent Logs\n\nAn error occurred while fetching recent logs for project ${projectIdForError}: ${errorMessage}\n\nPlease check your Google Cloud credentials and project configuration.`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Reads log entries matching a URL-encoded filter
+ *
+ * @param uri The resource URI
+ * @param projectId The project ID template variable
+ * @param filter The filter template variable
+ * @param format The output format template variable
+ * @returns The resource contents
+ */
+async function readFilteredLogs(
+  uri: URL,
+  projectId: TemplateVariable,
+  filter: TemplateVariable,
+  format?: TemplateVariable,
+) {
+  try {
+    const outputFormat: LogOutputFormat = format
+      ? parseLogOutputFormat(firstValue(format) as string)
+      : "markdown";
+    const actualProjectId = firstValue(projectId) || (await getProjectId());
+    const resourceNames = parseLogResourceScope(actualProjectId);
+    const multiple = Boolean(resourceNames && resourceNames.length > 1);
+    const logging = getLoggingClient();
+
+    if (!filter) {
+      throw new GcpMcpError("Log filter is required", "INVALID_ARGUMENT", 400);
+    }
+
+    const decodedFilter = prepareLogFilter(
+      decodeURIComponent(firstValue(filter) as string),
+    );
+
+    const [entries] = await logging.getEntries({
+      pageSize: 50,
+      filter: decodedFilter,
+      ...(resourceNames ? { resourceNames } : {}),
+    });
 
-        return {
-          contents: [
-            {
+    if (outputFormat !== "markdown") {
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: LOG_OUTPUT_MIME_TYPES[outputFormat],
+            text: serialiseLogEntries(
+              outputFormat,
+              multiple
+                ? labelLogEntrySources((entries || []).map(normaliseLogEntry))
+                : (entries || []).map(normaliseLogEntry),
+              {
+                projectId: actualProjectId,
+                resourceNames,
+                filter: decodedFilter,
+              },
+            ),
+          },
+        ],
+      };
+    }
+
+    if (!entries || entries.length === 0) {
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: `No log entries found matching filter: ${decodedFilter}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: `# Filtered Logs for ${formatLogScope(actualProjectId, multiple ? resourceNames : undefined)}\n\nFilter: ${decodedFilter}\n\n${formatLogEntries(entries.map(toLogEntry), "\n\n", multiple)}`,
+        },
+      ],
+    };
+  } catch (error: unknown) {
+    const projectIdForError =
+      firstValue(projectId) || process.env.GOOGLE_CLOUD_PROJECT || "unknown";
+    const filterForError = firstValue(filter) || "unknown";
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    // Return a user-friendly error message instead of throwing
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: `# Error Fetching Filtered Logs\n\nAn error occurred while fetching logs with filter "${filterForError}" for project ${projectIdForError}: ${errorMessage}\n\nPlease check your filter syntax and Google Cloud credentials.`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Reads a file written by the export tool
+ *
+ * NDJSON and CSV files are returned as text and Parquet files as a base64
+ * blob.
+ *
+ * @param uri The resource URI
+ * @param fileName The file name template variable
+ * @returns The resource contents
+ */
+async function readExportedLogs(uri: URL, fileName: TemplateVariable) {
+  try {
+    const name = decodeURIComponent(firstValue(fileName) || "");
+    const filePath = resolveLogExportPath(name);
+    const format = getLogExportFormat(name);
+    if (!format) {
+      throw new GcpMcpError(
+        `Unrecognised export file type: "${name}"`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+    if (size > MAX_EXPORT_RESOURCE_BYTES) {
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: `# Exported Logs\n\nThe export is ${size} bytes, which is too large to return as a resource. Read it directly from ${filePath}.`,
+          },
+        ],
+      };
+    }
+
+    const data = await fs.promises.readFile(filePath);
+    return {
+      contents: [
+        format === "parquet"
+          ? {
               uri: uri.href,
-              text: `# Filtered Logs for Project: ${actualProjectId}\n\nFilter: ${decodedFilter}\n\n${formattedLogs}`,
-            },
-          ],
-        };
-      } catch (error: unknown) {
-        // Get project ID and filter safely
-        let projectIdForError: string;
-        let filterForError: string;
-        try {
-          projectIdForError = Array.isArray(projectId)
-            ? projectId[0]
-            : (projectId as string) ||
-              process.env.GOOGLE_CLOUD_PROJECT ||
-              "unknown";
-          filterForError = Array.isArray(filter)
-            ? filter[0]
-            : String(filter || "unknown");
-        } catch {
-          projectIdForError = "unknown";
-          filterForError = "unknown";
-        }
-
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-
-        // Return a user-friendly error message instead of throwing
-        return {
-          contents: [
-            {
+              mimeType: LOG_EXPORT_MIME_TYPES[format],
+              blob: data.toString("base64"),
+            }
+          : {
               uri: uri.href,
-              text: `# Error Fetching Filtered Logs\n\nAn error occurred while fetching logs with filter "${filterForError}" for project ${projectIdForError}: ${errorMessage}\n\nPlease check your filter syntax and Google Cloud credentials.`,
+              mimeType: LOG_EXPORT_MIME_TYPES[format],
+              text: data.toString("utf8"),
             },
-          ],
-        };
-      }
-    },
-  );
+      ],
+    };
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    // Return a user-friendly error message instead of throwing
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: `# Error Reading Exported Logs\n\nAn error occurred while reading exported logs "${firstValue(fileName) || "unknown"}": ${errorMessage}\n\nRun gcp-logging-export to create a new export.`,
+        },
+      ],
+    };
+  }
 }
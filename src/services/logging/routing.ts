@@ -0,0 +1,355 @@
+/**
+ * Log routing inspection for Google Cloud Logging
+ *
+ * Lists sinks and exclusions and works out where a log entry is routed. Each
+ * sink routes an entry when its inclusion filter matches and none of its
+ * exclusion filters do. Project-level exclusions apply to the _Default sink,
+ * and the _Required sink cannot exclude anything.
+ */
+import { Logging } from "@google-cloud/logging";
+import {
+  matchLogFilter,
+  FilterMatch,
+  FilterMatchResult,
+} from "./filter-match.js";
+import { normaliseTimestamp, requestLoggingApi } from "./types.js";
+
+/**
+ * An exclusion filter, either on a sink or at project level
+ */
+export interface LogExclusion {
+  name: string;
+  description?: string;
+  filter: string;
+  disabled: boolean;
+  createTime?: string;
+  updateTime?: string;
+}
+
+/**
+ * A log sink and where it sends entries
+ */
+export interface LogSink {
+  name: string;
+  destination: string;
+  filter: string;
+  description?: string;
+  disabled: boolean;
+  includeChildren: boolean;
+  writerIdentity?: string;
+  exclusions: LogExclusion[];
+  createTime?: string;
+  updateTime?: string;
+}
+
+/**
+ * How a sink treats an entry
+ */
+export type LogSinkDecision =
+  | "routed"
+  | "excluded"
+  | "not-matched"
+  | "disabled"
+  | "unknown";
+
+/**
+ * The routing decision for one sink
+ */
+export interface LogSinkRoute {
+  sink: string;
+  destination: string;
+  decision: LogSinkDecision;
+  /** Names of the exclusions that dropped the entry */
+  excludedBy: string[];
+  /** Filter text that could not be evaluated locally */
+  unsupported: string[];
+}
+
+/**
+ * Normalises an exclusion returned by the API
+ *
+ * @param exclusion The exclusion returned by the Logging API
+ * @returns The normalised exclusion
+ */
+export function normaliseLogExclusion(exclusion: unknown): LogExclusion {
+  const raw = (exclusion || {}) as Record<string, unknown>;
+  const normalised: LogExclusion = {
+    name: String(raw.name || "").replace(/^.*\/exclusions\//, ""),
+    filter: String(raw.filter || ""),
+    disabled: Boolean(raw.disabled),
+  };
+  if (raw.description) {
+    normalised.description = String(raw.description);
+  }
+  if (raw.createTime) {
+    normalised.createTime = normaliseTimestamp(raw.createTime) as string;
+  }
+  if (raw.updateTime) {
+    normalised.updateTime = normaliseTimestamp(raw.updateTime) as string;
+  }
+  return normalised;
+}
+
+/**
+ * Normalises a sink returned by the Logging client
+ *
+ * @param sink A `Sink` instance from getSinks() or a plain sink object
+ * @returns The normalised sink
+ */
+export function normaliseLogSink(sink: unknown): LogSink {
+  const candidate = (sink || {}) as { name?: unknown; metadata?: unknown };
+  const raw = (
+    candidate.metadata && typeof candidate.metadata === "object"
+      ? { name: candidate.name, ...candidate.metadata }
+      : candidate
+  ) as Record<string, unknown>;
+
+  const normalised: LogSink = {
+    name: String(raw.name || "").replace(/^.*\/sinks\//, ""),
+    destination: String(raw.destination || ""),
+    filter: String(raw.filter || ""),
+    disabled: Boolean(raw.disabled),
+    includeChildren: Boolean(raw.includeChildren),
+    exclusions: Array.isArray(raw.exclusions)
+      ? raw.exclusions.map(normaliseLogExclusion)
+      : [],
+  };
+  if (raw.description) {
+    normalised.description = String(raw.description);
+  }
+  if (raw.writerIdentity) {
+    normalised.writerIdentity = String(raw.writerIdentity);
+  }
+  if (raw.createTime) {
+    normalised.createTime = normaliseTimestamp(raw.createTime) as string;
+  }
+  if (raw.updateTime) {
+    normalised.updateTime = normaliseTimestamp(raw.updateTime) as string;
+  }
+  return normalised;
+}
+
+/**
+ * Lists the sinks in the current project
+ *
+ * @param logging The Logging client
+ * @returns The normalised sinks, sorted by name
+ */
+export async function listLogSinks(logging: Logging): Promise<LogSink[]> {
+  const [sinks] = await logging.getSinks();
+  return (sinks || [])
+    .map(normaliseLogSink)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Lists the project-level exclusions
+ *
+ * @param logging The Logging client
+ * @param projectId The project ID
+ * @returns The normalised exclusions, sorted by name
+ */
+export async function listLogExclusions(
+  logging: Logging,
+  projectId: string,
+): Promise<LogExclusion[]> {
+  const exclusions = await requestLoggingApi<unknown[]>(
+    logging,
+    "ConfigServiceV2Client",
+    "listExclusions",
+    { parent: `projects/${projectId}` },
+  );
+  return (exclusions || [])
+    .map(normaliseLogExclusion)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Evaluates a sink or exclusion filter, reporting one the local parser
+ * cannot read as unknown instead of failing every other sink with it
+ *
+ * @param filter The filter text
+ * @param entry The log entry
+ * @returns The match result and any parts that could not be evaluated
+ */
+function matchRoutingFilter(filter: string, entry: unknown): FilterMatch {
+  try {
+    return matchLogFilter(filter, entry);
+  } catch {
+    return { result: "unknown", unsupported: [filter] };
+  }
+}
+
+/**
+ * Works out how each sink treats a log entry
+ *
+ * @param entry The log entry
+ * @param sinks The sinks to evaluate
+ * @param projectExclusions Project-level exclusions, applied to the _Default sink
+ * @returns One routing decision per sink
+ */
+export function routeLogEntry(
+  entry: unknown,
+  sinks: LogSink[],
+  projectExclusions: LogExclusion[] = [],
+): LogSinkRoute[] {
+  return sinks.map((sink) => {
+    const route: LogSinkRoute = {
+      sink: sink.name,
+      destination: sink.destination,
+      decision: "not-matched",
+      excludedBy: [],
+      unsupported: [],
+    };
+
+    if (sink.disabled) {
+      route.decision = "disabled";
+      return route;
+    }
+
+    const inclusion = matchRoutingFilter(sink.filter, entry);
+    route.unsupported.push(...inclusion.unsupported);
+    if (inclusion.result === "no-match") {
+      return route;
+    }
+
+    const exclusions =
+      sink.name === "_Required"
+        ? []
+        : [
+            ...sink.exclusions,
+            ...(sink.name === "_Default" ? projectExclusions : []),
+          ];
+
+    let excluded: FilterMatchResult = "no-match";
+    for (const exclusion of exclusions.filter((item) => !item.disabled)) {
+      const match = matchRoutingFilter(exclusion.filter, entry);
+      route.unsupported.push(...match.unsupported);
+      if (match.result === "match") {
+        route.excludedBy.push(exclusion.name);
+        excluded = "match";
+      } else if (match.result === "unknown" && excluded !== "match") {
+        excluded = "unknown";
+      }
+    }
+
+    if (excluded === "match") {
+      route.decision = "excluded";
+    } else if (inclusion.result === "unknown" || excluded === "unknown") {
+      route.decision = "unknown";
+    } else {
+      route.decision = "routed";
+    }
+    return route;
+  });
+}
+
+/**
+ * Formats an exclusion as a markdown list item
+ *
+ * @param exclusion The exclusion
+ * @returns The formatted exclusion
+ */
+function formatLogExclusion(exclusion: LogExclusion): string {
+  return `- **${exclusion.name}**${exclusion.disabled ? " (disabled)" : ""}${exclusion.description ? ` - ${exclusion.description}` : ""}\n  \`${exclusion.filter}\``;
+}
+
+/**
+ * Formats sinks as markdown
+ *
+ * @param sinks The sinks
+ * @returns The formatted sinks
+ */
+export function formatLogSinks(sinks: LogSink[]): string {
+  return sinks
+    .map((sink) => {
+      let text = `## ${sink.name}${sink.disabled ? " (disabled)" : ""}\n\n`;
+      if (sink.description) {
+        text += `${sink.description}\n\n`;
+      }
+      text += `- **Destination:** ${sink.destination}\n`;
+      if (sink.writerIdentity) {
+        text += `- **Writer Identity:** ${sink.writerIdentity}\n`;
+      }
+      if (sink.includeChildren) {
+        text += `- **Includes Child Resources:** yes\n`;
+      }
+      text += `\n**Filter:**\n\n\`\`\`\n${sink.filter || "(none - all entries)"}\n\`\`\`\n`;
+      if (sink.exclusions.length > 0) {
+        text += `\n**Exclusions:**\n\n${sink.exclusions.map(formatLogExclusion).join("\n")}\n`;
+      }
+      return text;
+    })
+    .join("\n");
+}
+
+/**
+ * Formats exclusions as markdown
+ *
+ * @param exclusions The exclusions
+ * @returns The formatted exclusions
+ */
+export function formatLogExclusions(exclusions: LogExclusion[]): string {
+  return exclusions.map(formatLogExclusion).join("\n");
+}
+
+/**
+ * Formats routing decisions as a markdown table
+ *
+ * @param routes The routing decisions
+ * @returns The formatted decisions
+ */
+export function formatLogRoutes(routes: LogSinkRoute[]): string {
+  const labels: Record<LogSinkDecision, string> = {
+    routed: "Routed",
+    excluded: "Excluded",
+    "not-matched": "Not matched",
+    disabled: "Sink disabled",
+    unknown: "Unknown",
+  };
+
+  let text = `| Sink | Decision | Destination | Details |\n|------|----------|-------------|---------|\n`;
+  for (const route of routes) {
+    const details =
+      route.excludedBy.length > 0
+        ? `Excluded by ${route.excludedBy.join(", ")}`
+        : route.unsupported.length > 0
+          ? `Could not evaluate ${route.unsupported.map((part) => `\`${part}\``).join(", ")}`
+          : "";
+    text += `| ${route.sink} | ${labels[route.decision]} | ${route.destination} | ${details} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats routing decisions for a sample of entries as per-sink counts
+ *
+ * @param routesPerEntry The routing decisions for each sampled entry
+ * @returns The formatted counts
+ */
+export function formatLogRouteCounts(routesPerEntry: LogSinkRoute[][]): string {
+  const counts = new Map<
+    string,
+    { destination: string } & Record<LogSinkDecision, number>
+  >();
+  for (const routes of routesPerEntry) {
+    for (const route of routes) {
+      const count = counts.get(route.sink) || {
+        destination: route.destination,
+        routed: 0,
+        excluded: 0,
+        "not-matched": 0,
+        disabled: 0,
+        unknown: 0,
+      };
+      count[route.decision]++;
+      counts.set(route.sink, count);
+    }
+  }
+
+  let text = `| Sink | Routed | Excluded | Not Matched | Unknown | Destination |\n|------|--------|----------|-------------|---------|-------------|\n`;
+  for (const [sink, count] of counts) {
+    text += `| ${sink}${count.disabled > 0 ? " (disabled)" : ""} | ${count.routed} | ${count.excluded} | ${count["not-matched"]} | ${count.unknown} | ${count.destination} |\n`;
+  }
+  return text;
+}
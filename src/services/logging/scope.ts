@@ -0,0 +1,117 @@
+/**
+ * Query scope for Google Cloud Logging
+ *
+ * Queries default to the current project. Passing `resourceNames` reads from
+ * several projects, folders, organizations, billing accounts or log views at
+ * once; the API merges the results in timestamp order and each entry is
+ * labelled with the resource its log belongs to.
+ */
+import { z } from "zod";
+import { GcpMcpError } from "../../utils/error.js";
+import { NormalisedLogEntry } from "./types.js";
+
+/**
+ * Resource names accepted by entries.list
+ */
+const RESOURCE_NAME_PATTERN =
+  /^(projects|folders|organizations|billingAccounts)\/[^/\s]+(\/locations\/[^/\s]+\/buckets\/[^/\s]+(\/views\/[^/\s]+)?)?$/;
+
+/**
+ * Input schema shared by every tool that can query several resources
+ */
+export const logResourceNamesSchema = z
+  .array(z.string())
+  .optional()
+  .describe(
+    'Resources to read from instead of the current project: project IDs or resource names such as "projects/my-app", "folders/123", "organizations/456", "billingAccounts/ABC-123" or "projects/my-app/locations/global/buckets/my-bucket/views/_AllLogs"',
+  );
+
+/**
+ * Validates and normalises resource names, treating bare IDs as projects
+ *
+ * @param resourceNames The resource names supplied by the caller
+ * @returns The de-duplicated resource names, or undefined for the default project
+ */
+export function normaliseLogResourceNames(
+  resourceNames?: string[],
+): string[] | undefined {
+  const names = [
+    ...new Set(
+      (resourceNames || [])
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0)
+        .map((name) => (name.includes("/") ? name : `projects/${name}`)),
+    ),
+  ];
+
+  for (const name of names) {
+    if (!RESOURCE_NAME_PATTERN.test(name)) {
+      throw new GcpMcpError(
+        `Invalid resource name: "${name}". Use a project ID or a name such as projects/PROJECT_ID, folders/FOLDER_ID, organizations/ORGANIZATION_ID, billingAccounts/ACCOUNT_ID or projects/PROJECT_ID/locations/LOCATION/buckets/BUCKET/views/VIEW.`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+  }
+
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Parses the comma-separated scope used in resource URIs
+ *
+ * @param scope Project IDs or URL-encoded resource names separated by commas
+ * @returns The normalised resource names
+ */
+export function parseLogResourceScope(scope: string): string[] | undefined {
+  return normaliseLogResourceNames(
+    scope.split(",").map((part) => decodeURIComponent(part)),
+  );
+}
+
+/**
+ * Reads the resource an entry was written to from its log name
+ *
+ * @param logName The entry's log name, e.g. projects/my-app/logs/syslog
+ * @returns The project ID, or the folder, organization or billing account name
+ */
+export function getLogEntrySource(logName?: string): string | undefined {
+  const match = logName?.match(
+    /^(projects|folders|organizations|billingAccounts)\/([^/]+)\/logs\//,
+  );
+  if (!match) {
+    return undefined;
+  }
+  return match[1] === "projects" ? match[2] : `${match[1]}/${match[2]}`;
+}
+
+/**
+ * Labels normalised entries with the resource they were written to
+ *
+ * @param entries The normalised entries
+ * @returns The entries with `source` set where it can be determined
+ */
+export function labelLogEntrySources(
+  entries: NormalisedLogEntry[],
+): NormalisedLogEntry[] {
+  return entries.map((entry) => {
+    const source = getLogEntrySource(entry.logName);
+    return source ? { ...entry, source } : entry;
+  });
+}
+
+/**
+ * Describes the scope of a query for result headers
+ *
+ * @param projectId The default project ID
+ * @param resourceNames The resource names queried, if any
+ * @returns A header line such as "Project: my-app"
+ */
+export function formatLogScope(
+  projectId: string,
+  resourceNames?: string[],
+): string {
+  return resourceNames
+    ? `Resources: ${resourceNames.join(", ")}`
+    : `Project: ${projectId}`;
+}
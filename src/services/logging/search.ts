@@ -0,0 +1,183 @@
+/**
+ * Search filter construction for Google Cloud Logging
+ *
+ * Builds the multi-field filter used by the comprehensive search tool. Search
+ * terms are always emitted as escaped string literals so quotes, backslashes
+ * and keywords such as OR in a term cannot change the meaning of the filter.
+ */
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { compileRe2Pattern, parseLogFilter } from "./filter.js";
+
+/**
+ * Fields searched when no field list is supplied
+ */
+export const DEFAULT_SEARCH_FIELDS = [
+  "textPayload",
+  "jsonPayload.message",
+  "jsonPayload.msg",
+  "jsonPayload.error",
+  "jsonPayload.exception",
+  "jsonPayload.stack",
+  "jsonPayload.stackTrace",
+  "jsonPayload.description",
+  "jsonPayload.details",
+  "jsonPayload.reason",
+  "jsonPayload.code",
+  "jsonPayload.status",
+  "jsonPayload.method",
+  "jsonPayload.url",
+  "jsonPayload.path",
+  "jsonPayload.endpoint",
+  "jsonPayload.service",
+  "jsonPayload.operation",
+  "jsonPayload.function",
+  "jsonPayload.name",
+  "jsonPayload.type",
+  "jsonPayload.level",
+  "jsonPayload.category",
+  "jsonPayload.component",
+  "jsonPayload.module",
+  "jsonPayload.class",
+  "jsonPayload.thread",
+  "jsonPayload.user",
+  "jsonPayload.userId",
+  "jsonPayload.sessionId",
+  "jsonPayload.requestId",
+  "jsonPayload.traceId",
+  "jsonPayload.spanId",
+  "jsonPayload.host",
+  "jsonPayload.hostname",
+  "jsonPayload.ip",
+  "jsonPayload.port",
+  "protoPayload.methodName",
+  "protoPayload.serviceName",
+  "protoPayload.resourceName",
+  "labels.service",
+  "labels.version",
+  "labels.environment",
+  "labels.region",
+  "labels.zone",
+  "httpRequest.requestUrl",
+  "httpRequest.userAgent",
+  "httpRequest.remoteIp",
+  "httpRequest.referer",
+  "sourceLocation.file",
+  "sourceLocation.function",
+  "operation.id",
+  "operation.producer",
+];
+
+/**
+ * How a search term is matched against each field
+ *
+ * - `contains`: the field contains the term (`:`)
+ * - `exact`: the field equals the term (`=`)
+ * - `regex`: the field matches the term as a regular expression (`=~`)
+ */
+export type SearchMatchMode = "contains" | "exact" | "regex";
+
+/**
+ * Operator used for each match mode
+ */
+const MATCH_OPERATORS: Record<SearchMatchMode, string> = {
+  contains: ":",
+  exact: "=",
+  regex: "=~",
+};
+
+/**
+ * Checks that a search field is a single field path
+ *
+ * @param field A dotted field path, e.g. `jsonPayload.orderId` or `labels."k8s-pod/app"`
+ * @returns The trimmed field path
+ */
+export function validateSearchField(field: string): string {
+  const trimmed = field.trim();
+  let isFieldPath = false;
+  try {
+    const node = parseLogFilter(`${trimmed}:""`);
+    isFieldPath =
+      node?.kind === "comparison" &&
+      node.field === trimmed &&
+      node.path.length > 0;
+  } catch {
+    isFieldPath = false;
+  }
+
+  if (!isFieldPath) {
+    throw new GcpMcpError(
+      `Invalid search field: "${field}". Use a dotted field path such as jsonPayload.orderId, quoting segments with special characters, e.g. labels."k8s-pod/app".`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Resolves the fields to search
+ *
+ * Team-specific paths can be added for every search with the
+ * `LOG_SEARCH_FIELDS` environment variable (comma-separated).
+ *
+ * @param searchFields Fields that replace the defaults
+ * @param additionalFields Fields searched in addition to the defaults
+ * @returns The de-duplicated, validated field list
+ */
+export function resolveSearchFields(
+  searchFields?: string[],
+  additionalFields?: string[],
+): string[] {
+  const configured = (process.env.LOG_SEARCH_FIELDS || "")
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+
+  const base =
+    searchFields && searchFields.length > 0
+      ? searchFields
+      : [...DEFAULT_SEARCH_FIELDS, ...configured];
+
+  return [...new Set([...base, ...(additionalFields || [])])].map(
+    validateSearchField,
+  );
+}
+
+/**
+ * Builds a filter matching a term in any of the given fields
+ *
+ * @param term The search term, treated as a literal (or a pattern in regex mode)
+ * @param fields The fields to search
+ * @param matchMode How the term is matched
+ * @returns A parenthesised disjunction over the fields
+ */
+export function buildSearchFilter(
+  term: string,
+  fields: string[],
+  matchMode: SearchMatchMode = "contains",
+): string {
+  if (fields.length === 0) {
+    throw new GcpMcpError(
+      "At least one search field is required",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  if (matchMode === "regex") {
+    try {
+      compileRe2Pattern(term);
+    } catch (error: unknown) {
+      throw new GcpMcpError(
+        `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+  }
+
+  const operator = MATCH_OPERATORS[matchMode];
+  const value = quoteFilterString(term);
+  return `(${fields.map((field) => `${field}${operator}${value}`).join(" OR ")})`;
+}
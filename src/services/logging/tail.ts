@@ -0,0 +1,229 @@
+/**
+ * Live log tailing for Google Cloud Logging
+ *
+ * Polls `entries.list` with a moving timestamp watermark. Entries can be
+ * ingested a few seconds after their timestamp, so each poll re-reads a short
+ * window behind the watermark and duplicates are dropped by `insertId`.
+ */
+import { Logging } from "@google-cloud/logging";
+import { fetchLogEntriesPage } from "./pagination.js";
+import { getLogMessage } from "./patterns.js";
+import { LogEntry, toLogEntry } from "./types.js";
+
+/**
+ * How far behind the watermark each poll reads to catch late-arriving entries
+ */
+export const LATE_ARRIVAL_WINDOW_MS = 10 * 1000;
+
+/**
+ * Maximum number of pages read in a single poll
+ */
+const MAX_PAGES_PER_POLL = 5;
+
+/**
+ * Reason the tail stopped
+ */
+export type LogTailStopReason = "duration" | "maxEntries" | "cancelled";
+
+/**
+ * Options for tailing log entries
+ */
+export interface LogTailOptions {
+  /** Additional filter criteria */
+  filter?: string;
+  /** Resources to read from, defaulting to the client's project */
+  resourceNames?: string[];
+  /** How long to tail for, in milliseconds */
+  durationMs: number;
+  /** Delay between polls, in milliseconds */
+  pollIntervalMs: number;
+  /** Stop once this many new entries have been delivered */
+  maxEntries: number;
+  /** Initial watermark, defaults to the current time */
+  startTime?: Date;
+  /** Signal used to cancel the tail early */
+  signal?: AbortSignal;
+  /** Invoked with each batch of new entries, oldest first */
+  onEntries: (entries: LogEntry[]) => void | Promise<void>;
+  /** Clock and timer overrides, used by tests */
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Summary of a completed tail
+ */
+export interface LogTailResult {
+  delivered: number;
+  polls: number;
+  duplicatesSkipped: number;
+  stopReason: LogTailStopReason;
+  watermark: string;
+}
+
+/**
+ * Waits for the given number of milliseconds, resolving early if aborted
+ *
+ * @param ms The delay
+ * @param signal Optional abort signal
+ */
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Builds the de-duplication key for an entry
+ *
+ * @param entry The log entry
+ * @returns The insert ID, or a fallback derived from the entry contents
+ */
+function dedupeKey(entry: LogEntry): string {
+  if (entry.insertId) {
+    return entry.insertId;
+  }
+  return `${entry.logName}|${entry.timestamp}|${JSON.stringify(
+    entry.textPayload ?? entry.jsonPayload ?? entry.protoPayload ?? "",
+  )}`;
+}
+
+/**
+ * Tails log entries for a bounded duration, delivering new entries as they arrive
+ *
+ * @param logging The Logging client
+ * @param options Tail options
+ * @returns Summary of the tail
+ */
+export async function tailLogEntries(
+  logging: Logging,
+  options: LogTailOptions,
+): Promise<LogTailResult> {
+  const now = options.now || Date.now;
+  const sleep = options.sleep || defaultSleep;
+  const deadline = now() + options.durationMs;
+
+  let watermark = options.startTime ? options.startTime.getTime() : now();
+  // The late-arrival window must not pull in entries from before the tail started
+  const floor = watermark;
+  // insertId -> timestamp (ms) for entries inside the late-arrival window
+  const seen = new Map<string, number>();
+  let delivered = 0;
+  let polls = 0;
+  let duplicatesSkipped = 0;
+  let stopReason: LogTailStopReason = "duration";
+
+  while (true) {
+    if (options.signal?.aborted) {
+      stopReason = "cancelled";
+      break;
+    }
+
+    const since = new Date(watermark - LATE_ARRIVAL_WINDOW_MS).toISOString();
+    const filter = options.filter
+      ? `timestamp >= "${since}" AND (${options.filter})`
+      : `timestamp >= "${since}"`;
+
+    const fresh: LogEntry[] = [];
+    let pageToken: string | undefined;
+    let pages = 0;
+    do {
+      const page = await fetchLogEntriesPage(logging, {
+        filter,
+        pageSize: 1000,
+        pageToken,
+        orderBy: "timestamp asc",
+        resourceNames: options.resourceNames,
+      });
+      pages++;
+
+      for (const raw of page.entries) {
+        const entry = toLogEntry(raw);
+        const timestampMs = new Date(entry.timestamp).getTime();
+        if (timestampMs < floor) {
+          continue;
+        }
+        const key = dedupeKey(entry);
+        if (seen.has(key)) {
+          duplicatesSkipped++;
+          continue;
+        }
+        seen.set(key, isNaN(timestampMs) ? watermark : timestampMs);
+        fresh.push(entry);
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && pages < MAX_PAGES_PER_POLL);
+    polls++;
+
+    if (fresh.length > 0) {
+      const batch = fresh.slice(0, options.maxEntries - delivered);
+      await options.onEntries(batch);
+      delivered += batch.length;
+
+      for (const entry of fresh) {
+        const timestampMs = new Date(entry.timestamp).getTime();
+        if (!isNaN(timestampMs) && timestampMs > watermark) {
+          watermark = timestampMs;
+        }
+      }
+    }
+
+    // Forget entries that can no longer be returned by the next poll
+    const horizon = watermark - LATE_ARRIVAL_WINDOW_MS;
+    for (const [key, timestampMs] of seen) {
+      if (timestampMs < horizon) {
+        seen.delete(key);
+      }
+    }
+
+    if (delivered >= options.maxEntries) {
+      stopReason = "maxEntries";
+      break;
+    }
+
+    const remaining = deadline - now();
+    if (remaining <= 0) {
+      break;
+    }
+    await sleep(Math.min(options.pollIntervalMs, remaining), options.signal);
+  }
+
+  return {
+    delivered,
+    polls,
+    duplicatesSkipped,
+    stopReason,
+    watermark: new Date(watermark).toISOString(),
+  };
+}
+
+/**
+ * Formats an entry as a single compact line for streaming
+ *
+ * @param entry The log entry
+ * @returns A one-line summary of the entry
+ */
+export function formatLogLine(entry: LogEntry): string {
+  const resourceLabels = entry.resource?.labels || {};
+  const source =
+    resourceLabels.service_name ||
+    resourceLabels.container_name ||
+    resourceLabels.function_name ||
+    resourceLabels.instance_id ||
+    entry.resource?.type ||
+    "unknown";
+  const message = getLogMessage(entry).split("\n", 1)[0].slice(0, 300);
+  return `${entry.timestamp || "-"} ${(entry.severity || "DEFAULT").padEnd(9)} [${source}] ${message}`;
+}
@@ -4,8 +4,107 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getProjectId } from "../../utils/auth.js";
-import { formatLogEntry, getLoggingClient, LogEntry } from "./types.js";
-import { parseRelativeTime } from "../../utils/time.js";
+import {
+  getLoggingClient,
+  NormalisedLogEntry,
+  normaliseLogEntry,
+  requestLoggingApi,
+  toLogEntry,
+} from "./types.js";
+import { parseDurationSeconds, parseRelativeTime } from "../../utils/time.js";
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import {
+  decodeLogCursor,
+  encodeLogCursor,
+  fetchLogEntriesPage,
+  resolveLogFilter,
+  scanLogEntries,
+} from "./pagination.js";
+import {
+  formatLogAggregation,
+  LogAggregator,
+  TIME_BUCKET_FIELD,
+} from "./aggregation.js";
+import { formatLogPatterns, LogPatternMiner } from "./patterns.js";
+import {
+  compareLogWindows,
+  formatLogWindowComparison,
+  summariseLogWindow,
+} from "./comparison.js";
+import {
+  fetchRequestTimeline,
+  formatRequestTimeline,
+  REQUEST_ID_FIELDS,
+} from "./correlation.js";
+import {
+  AUDIT_GROUP_FIELDS,
+  AUDIT_LOG_TYPE_NAMES,
+  AUDIT_LOG_TYPES,
+  AuditEvent,
+  buildAuditLogFilter,
+  formatAuditEvents,
+  formatAuditGroups,
+  groupAuditEvents,
+  parseAuditLogEntry,
+} from "./audit.js";
+import { formatLogLine, tailLogEntries } from "./tail.js";
+import {
+  buildLogToolResult,
+  formatLogEntries,
+  logOutputFormatSchema,
+  normalisedLogEntrySchema,
+} from "./output.js";
+import {
+  buildLogFilter,
+  describeFilterProblem,
+  LOG_SEVERITIES,
+  prepareLogFilter,
+  validateLogFilter,
+} from "./filter.js";
+import {
+  buildSearchFilter,
+  resolveSearchFields,
+  validateSearchField,
+} from "./search.js";
+import {
+  applyLogMetricChanges,
+  buildLogMetric,
+  formatLogMetric,
+  formatLogMetricPreview,
+  getLogMetric,
+  getRawLogMetric,
+  logMetricBucketsSchema,
+  logMetricLabelSchema,
+  logMetricResourceName,
+  normaliseLogMetric,
+  overlayLogMetricChanges,
+  previewLogMetric,
+} from "./log-metrics.js";
+import {
+  formatLogExclusions,
+  formatLogRouteCounts,
+  formatLogRoutes,
+  formatLogSinks,
+  listLogExclusions,
+  listLogSinks,
+  routeLogEntry,
+} from "./routing.js";
+import {
+  formatLogScope,
+  getLogEntrySource,
+  labelLogEntrySources,
+  logResourceNamesSchema,
+  normaliseLogResourceNames,
+} from "./scope.js";
+import {
+  DEFAULT_LOG_EXPORT_COLUMNS,
+  exportLogEntries,
+  LOG_EXPORT_FORMATS,
+  LOG_EXPORT_MIME_TYPES,
+  logExportResourceUri,
+} from "./export.js";
+import { logger } from "../../utils/logger.js";
 
 /**
  * Registers Google Cloud Logging tools with the MCP server
@@ -32,49 +131,82 @@ export function registerLoggingTools(server: McpServer): void {
           .max(1000)
           .default(50)
           .describe("Maximum number of log entries to return"),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Continuation cursor (nextCursor) returned by a previous call with the same filter. The original resources are reused.",
+          ),
+        resourceNames: logResourceNamesSchema,
+        outputFormat: logOutputFormatSchema,
+      },
+      outputSchema: {
+        projectId: z.string(),
+        filter: z.string(),
+        entries: z.array(normalisedLogEntrySchema),
+        nextCursor: z.string().optional(),
+        resourceNames: z.array(z.string()).optional(),
       },
     },
-    async ({ filter, limit }) => {
+    async ({ filter, limit, cursor, resourceNames, outputFormat }) => {
       try {
         const projectId = await getProjectId();
         const logging = getLoggingClient();
 
-        const [entries] = await logging.getEntries({
+        let resolvedFilter: string;
+        let pageToken: string | undefined;
+        let scope = normaliseLogResourceNames(resourceNames);
+        if (cursor) {
+          const decoded = decodeLogCursor(cursor);
+          if (decoded.query !== filter) {
+            throw new GcpMcpError(
+              "The cursor was issued for a different filter. Repeat the original filter or omit the cursor to start over.",
+              "INVALID_ARGUMENT",
+              400,
+            );
+          }
+          resolvedFilter = decoded.filter;
+          pageToken = decoded.pageToken;
+          scope = decoded.resourceNames;
+        } else {
+          resolvedFilter = resolveLogFilter(prepareLogFilter(filter));
+        }
+
+        const { entries, nextPageToken } = await fetchLogEntriesPage(logging, {
+          filter: resolvedFilter,
           pageSize: limit,
-          filter,
+          pageToken,
+          resourceNames: scope,
         });
+        const nextCursor = nextPageToken
+          ? encodeLogCursor({
+              pageToken: nextPageToken,
+              filter: resolvedFilter,
+              query: filter,
+              resourceNames: scope,
+            })
+          : undefined;
 
-        if (!entries || entries.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `No log entries found matching filter: ${filter}`,
-              },
-            ],
-          };
-        }
-
-        const formattedLogs = entries
-          .map((entry) => {
-            try {
-              return formatLogEntry(entry as unknown as LogEntry);
-            } catch (err: unknown) {
-              const errorMessage =
-                err instanceof Error ? err.message : "Unknown error";
-              return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
-            }
-          })
-          .join("\n\n");
+        const normalised = scope
+          ? labelLogEntrySources(entries.map(normaliseLogEntry))
+          : entries.map(normaliseLogEntry);
+        const markdown =
+          entries.length === 0
+            ? `No log entries found matching filter: ${filter}`
+            : `# Log Query Results\n\n${formatLogScope(projectId, scope)}\nFilter: ${filter}\nEntries: ${entries.length}${formatNextCursor(nextCursor)}\n\n${formatLogEntries(entries.map(toLogEntry), "\n\n", Boolean(scope))}`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `# Log Query Results\n\nProject: ${projectId}\nFilter: ${filter}\nEntries: ${entries.length}\n\n${formattedLogs}`,
-            },
-          ],
-        };
+        return buildLogToolResult(
+          outputFormat,
+          markdown,
+          {
+            projectId,
+            filter,
+            entries: normalised,
+            nextCursor,
+            resourceNames: scope,
+          },
+          normalised,
+        );
       } catch (error: unknown) {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
@@ -121,58 +253,110 @@ Please check your filter syntax and try again. For filter syntax help, see: http
           .max(1000)
           .default(50)
           .describe("Maximum number of log entries to return"),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Continuation cursor (nextCursor) returned by a previous call with the same startTime, endTime and filter. The original time range and resources are reused.",
+          ),
+        resourceNames: logResourceNamesSchema,
+        outputFormat: logOutputFormatSchema,
+      },
+      outputSchema: {
+        projectId: z.string(),
+        filter: z.string(),
+        timeRange: z.string(),
+        entries: z.array(normalisedLogEntrySchema),
+        nextCursor: z.string().optional(),
+        resourceNames: z.array(z.string()).optional(),
       },
     },
-    async ({ startTime, endTime, filter, limit }) => {
+    async ({
+      startTime,
+      endTime,
+      filter,
+      limit,
+      cursor,
+      resourceNames,
+      outputFormat,
+    }) => {
       try {
         const projectId = await getProjectId();
         const logging = getLoggingClient();
 
-        const start = parseRelativeTime(startTime);
-        const end = endTime ? parseRelativeTime(endTime) : new Date();
+        let filterStr: string;
+        let timeRange: string;
+        let pageToken: string | undefined;
+        let scope = normaliseLogResourceNames(resourceNames);
+        if (cursor) {
+          // Relative times would resolve differently on every call, so the
+          // absolute range captured in the cursor is reused instead
+          const decoded = decodeLogCursor(cursor);
+          if (
+            decoded.query !== filter ||
+            decoded.startTime !== startTime ||
+            decoded.endTime !== endTime
+          ) {
+            throw new GcpMcpError(
+              "The cursor was issued for a different time range or filter. Repeat the original startTime, endTime and filter or omit the cursor to start over.",
+              "INVALID_ARGUMENT",
+              400,
+            );
+          }
+          filterStr = decoded.filter;
+          pageToken = decoded.pageToken;
+          scope = decoded.resourceNames;
+          timeRange = "Continued from cursor";
+        } else {
+          const start = parseRelativeTime(startTime);
+          const end = endTime ? parseRelativeTime(endTime) : new Date();
 
-        // Build filter string
-        let filterStr = `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
-        if (filter) {
-          filterStr = `${filterStr} AND ${filter}`;
+          // Build filter string
+          filterStr = `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
+          if (filter) {
+            filterStr = `${filterStr} AND ${prepareLogFilter(filter)}`;
+          }
+          timeRange = `${start.toISOString()} to ${end.toISOString()}`;
         }
 
-        const [entries] = await logging.getEntries({
-          pageSize: limit,
+        const { entries, nextPageToken } = await fetchLogEntriesPage(logging, {
           filter: filterStr,
+          pageSize: limit,
+          pageToken,
+          resourceNames: scope,
         });
+        const nextCursor = nextPageToken
+          ? encodeLogCursor({
+              pageToken: nextPageToken,
+              filter: filterStr,
+              query: filter,
+              startTime,
+              endTime,
+              resourceNames: scope,
+            })
+          : undefined;
 
-        if (!entries || entries.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `No log entries found in the specified time range with filter: ${filterStr}`,
-              },
-            ],
-          };
-        }
-
-        const formattedLogs = entries
-          .map((entry) => {
-            try {
-              return formatLogEntry(entry as unknown as LogEntry);
-            } catch (err: unknown) {
-              const errorMessage =
-                err instanceof Error ? err.message : "Unknown error";
-              return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
-            }
-          })
-          .join("\n\n");
+        const normalised = scope
+          ? labelLogEntrySources(entries.map(normaliseLogEntry))
+          : entries.map(normaliseLogEntry);
+        const markdown =
+          entries.length === 0
+            ? `No log entries found in the specified time range with filter: ${filterStr}`
+            : `# Log Time Range Results\n\n${formatLogScope(projectId, scope)}\nTime Range: ${timeRange}\nFilter: ${cursor ? filterStr : filter || "None"}\nEntries: ${entries.length}${formatNextCursor(nextCursor)}\n\n${formatLogEntries(entries.map(toLogEntry), "\n\n", Boolean(scope))}`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `# Log Time Range Results\n\nProject: ${projectId}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\nFilter: ${filter || "None"}\nEntries: ${entries.length}\n\n${formattedLogs}`,
-            },
-          ],
-        };
+        return buildLogToolResult(
+          outputFormat,
+          markdown,
+          {
+            projectId,
+            filter: filterStr,
+            timeRange,
+            entries: normalised,
+            nextCursor,
+            resourceNames: scope,
+          },
+          normalised,
+        );
       } catch (error: unknown) {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
@@ -203,27 +387,37 @@ Please check your time range format and try again. Valid formats include:
     {
       title: "Comprehensive Log Search",
       description:
-        "Search across all log fields including textPayload, jsonPayload, protoPayload, labels, HTTP requests, and metadata. Provides maximum context.",
+        "Search across all log fields including textPayload, jsonPayload, protoPayload, labels, HTTP requests, and metadata. Provides maximum context, or use patterns mode to collapse repetitive messages into templates.",
       inputSchema: {
         searchTerm: z
           .string()
-          .describe("Term to search for across all payload types and fields"),
+          .describe(
+            "Term to search for across all payload types and fields. Treated as a literal string, or as a regular expression when matchMode is regex.",
+          ),
+        matchMode: z
+          .enum(["contains", "exact", "regex"])
+          .default("contains")
+          .describe(
+            "How the term is matched: field contains the term (:), equals it (=), or matches it as a regular expression (=~)",
+          ),
+        searchFields: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Field paths to search instead of the default list (e.g., ["textPayload", "jsonPayload.orderId"])',
+          ),
+        additionalSearchFields: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Field paths to search in addition to the default list (e.g., ["jsonPayload.tenant.id"])',
+          ),
         timeRange: z
           .string()
           .default("1h")
           .describe('Time range to search (e.g., "1h", "24h", "7d")'),
         severity: z
-          .enum([
-            "DEFAULT",
-            "DEBUG",
-            "INFO",
-            "NOTICE",
-            "WARNING",
-            "ERROR",
-            "CRITICAL",
-            "ALERT",
-            "EMERGENCY",
-          ])
+          .enum(LOG_SEVERITIES)
           .optional()
           .describe("Minimum severity level to filter by"),
         resource: z
@@ -237,13 +431,65 @@ Please check your time range format and try again. Valid formats include:
           .min(1)
           .max(500)
           .default(50)
-          .describe("Maximum number of log entries to return"),
+          .describe(
+            "Maximum number of log entries to return (or templates in patterns mode)",
+          ),
+        mode: z
+          .enum(["entries", "patterns"])
+          .default("entries")
+          .describe(
+            "Return matching entries, or mine them into message templates with counts (patterns)",
+          ),
+        maxScan: z
+          .number()
+          .min(1)
+          .max(20000)
+          .default(2000)
+          .describe("Maximum number of log entries to scan in patterns mode"),
+        resourceNames: logResourceNamesSchema,
+        outputFormat: logOutputFormatSchema,
+      },
+      outputSchema: {
+        projectId: z.string(),
+        searchTerm: z.string(),
+        filter: z.string(),
+        mode: z.enum(["entries", "patterns"]),
+        entries: z.array(normalisedLogEntrySchema),
+        patterns: z
+          .array(
+            z.object({
+              template: z.string(),
+              count: z.number(),
+              firstSeen: z.string().optional(),
+              lastSeen: z.string().optional(),
+              severities: z.record(z.number()),
+              example: normalisedLogEntrySchema,
+            }),
+          )
+          .optional(),
+        entriesScanned: z.number().optional(),
+        truncated: z.boolean().optional(),
+        resourceNames: z.array(z.string()).optional(),
       },
     },
-    async ({ searchTerm, timeRange, severity, resource, limit }) => {
+    async ({
+      searchTerm,
+      matchMode,
+      searchFields,
+      additionalSearchFields,
+      timeRange,
+      severity,
+      resource,
+      limit,
+      mode,
+      maxScan,
+      resourceNames,
+      outputFormat,
+    }) => {
       try {
         const projectId = await getProjectId();
         const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
 
         const endTime = new Date();
         const startTime = parseRelativeTime(timeRange);
@@ -254,64 +500,12 @@ Please check your time range format and try again. Valid formats include:
           `timestamp <= "${endTime.toISOString()}"`,
         ];
 
-        // Add search term across multiple payload types and fields
-        const searchParts = [
-          `textPayload:("${searchTerm}")`,
-          `jsonPayload.message:("${searchTerm}")`,
-          `jsonPayload.msg:("${searchTerm}")`,
-          `jsonPayload.error:("${searchTerm}")`,
-          `jsonPayload.exception:("${searchTerm}")`,
-          `jsonPayload.stack:("${searchTerm}")`,
-          `jsonPayload.stackTrace:("${searchTerm}")`,
-          `jsonPayload.description:("${searchTerm}")`,
-          `jsonPayload.details:("${searchTerm}")`,
-          `jsonPayload.reason:("${searchTerm}")`,
-          `jsonPayload.code:("${searchTerm}")`,
-          `jsonPayload.status:("${searchTerm}")`,
-          `jsonPayload.method:("${searchTerm}")`,
-          `jsonPayload.url:("${searchTerm}")`,
-          `jsonPayload.path:("${searchTerm}")`,
-          `jsonPayload.endpoint:("${searchTerm}")`,
-          `jsonPayload.service:("${searchTerm}")`,
-          `jsonPayload.operation:("${searchTerm}")`,
-          `jsonPayload.function:("${searchTerm}")`,
-          `jsonPayload.name:("${searchTerm}")`,
-          `jsonPayload.type:("${searchTerm}")`,
-          `jsonPayload.level:("${searchTerm}")`,
-          `jsonPayload.category:("${searchTerm}")`,
-          `jsonPayload.component:("${searchTerm}")`,
-          `jsonPayload.module:("${searchTerm}")`,
-          `jsonPayload.class:("${searchTerm}")`,
-          `jsonPayload.thread:("${searchTerm}")`,
-          `jsonPayload.user:("${searchTerm}")`,
-          `jsonPayload.userId:("${searchTerm}")`,
-          `jsonPayload.sessionId:("${searchTerm}")`,
-          `jsonPayload.requestId:("${searchTerm}")`,
-          `jsonPayload.traceId:("${searchTerm}")`,
-          `jsonPayload.spanId:("${searchTerm}")`,
-          `jsonPayload.host:("${searchTerm}")`,
-          `jsonPayload.hostname:("${searchTerm}")`,
-          `jsonPayload.ip:("${searchTerm}")`,
-          `jsonPayload.port:("${searchTerm}")`,
-          `protoPayload.methodName:("${searchTerm}")`,
-          `protoPayload.serviceName:("${searchTerm}")`,
-          `protoPayload.resourceName:("${searchTerm}")`,
-          `labels.service:("${searchTerm}")`,
-          `labels.version:("${searchTerm}")`,
-          `labels.environment:("${searchTerm}")`,
-          `labels.region:("${searchTerm}")`,
-          `labels.zone:("${searchTerm}")`,
-          `httpRequest.requestUrl:("${searchTerm}")`,
-          `httpRequest.userAgent:("${searchTerm}")`,
-          `httpRequest.remoteIp:("${searchTerm}")`,
-          `httpRequest.referer:("${searchTerm}")`,
-          `sourceLocation.file:("${searchTerm}")`,
-          `sourceLocation.function:("${searchTerm}")`,
-          `operation.id:("${searchTerm}")`,
-          `operation.producer:("${searchTerm}")`,
-        ];
-
-        filterParts.push(`(${searchParts.join(" OR ")})`);
+        // Add the escaped search term across payload types and fields
+        const fields = resolveSearchFields(
+          searchFields,
+          additionalSearchFields,
+        );
+        filterParts.push(buildSearchFilter(searchTerm, fields, matchMode));
 
         // Add severity filter if specified
         if (severity) {
@@ -320,45 +514,358 @@ Please check your time range format and try again. Valid formats include:
 
         // Add resource filter if specified
         if (resource) {
-          filterParts.push(`resource.type = "${resource}"`);
+          filterParts.push(`resource.type = ${quoteFilterString(resource)}`);
         }
 
-        const filter = filterParts.join(" AND ");
+        const filter = prepareLogFilter(filterParts.join(" AND "));
+
+        if (mode === "patterns") {
+          const miner = new LogPatternMiner();
+          const scan = await scanLogEntries(
+            logging,
+            {
+              filter,
+              maxEntries: maxScan,
+              orderBy: "timestamp desc",
+              resourceNames: scope,
+            },
+            (entries) => {
+              for (const entry of entries) {
+                miner.add(toLogEntry(entry));
+              }
+            },
+          );
+          const patterns = miner.getPatterns();
+          const truncatedNote = scan.truncated
+            ? `\n\n*Scan stopped after ${scan.scanned} entries; older matching entries were not mined. Increase \`maxScan\` to include them.*`
+            : "";
+          const structuredPatterns = patterns
+            .slice(0, limit)
+            .map((pattern) => ({
+              ...pattern,
+              example: scope
+                ? labelLogEntrySources([normaliseLogEntry(pattern.example)])[0]
+                : normaliseLogEntry(pattern.example),
+            }));
+
+          return buildLogToolResult(
+            outputFormat,
+            `# Comprehensive Log Search Patterns\n\n${formatLogScope(projectId, scope)}\nSearch Term: "${searchTerm}"\nMatch Mode: ${matchMode || "contains"}\nTime Range: ${startTime.toISOString()} to ${endTime.toISOString()}\nSeverity: ${severity || "All levels"}\nResource: ${resource || "All resources"}\nEntries Scanned: ${scan.scanned}\nDistinct Patterns: ${patterns.length}${truncatedNote}\n\nVariable tokens are masked as <UUID>, <IP>, <HEX>, <NUM> and <TIMESTAMP>; other varying tokens are shown as <*>.\n\n${formatLogPatterns(patterns, scan.scanned, limit)}`,
+            {
+              projectId,
+              searchTerm,
+              filter,
+              mode,
+              entries: [],
+              patterns: structuredPatterns,
+              entriesScanned: scan.scanned,
+              truncated: scan.truncated,
+              resourceNames: scope,
+            },
+            structuredPatterns,
+          );
+        }
 
         const [entries] = await logging.getEntries({
           pageSize: limit,
           filter,
           orderBy: "timestamp desc",
+          ...(scope ? { resourceNames: scope } : {}),
         });
 
-        if (!entries || entries.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# Comprehensive Log Search Results\n\nProject: ${projectId}\nSearch Term: "${searchTerm}"\nTime Range: ${startTime.toISOString()} to ${endTime.toISOString()}\nSeverity: ${severity || "All levels"}\nResource: ${resource || "All resources"}\n\n**No matching log entries found.**\n\nThe search looked across:\n- Text payloads\n- JSON payload fields (message, error, exception, etc.)\n- Proto payload fields\n- Labels\n- HTTP request details\n- Source location\n- Operation details`,
-              },
-            ],
-          };
+        const normalised = scope
+          ? labelLogEntrySources((entries || []).map(normaliseLogEntry))
+          : (entries || []).map(normaliseLogEntry);
+        const markdown =
+          normalised.length === 0
+            ? `# Comprehensive Log Search Results\n\n${formatLogScope(projectId, scope)}\nSearch Term: "${searchTerm}"\nMatch Mode: ${matchMode || "contains"}\nTime Range: ${startTime.toISOString()} to ${endTime.toISOString()}\nSeverity: ${severity || "All levels"}\nResource: ${resource || "All resources"}\n\n**No matching log entries found.**\n\n${describeSearchCoverage(fields, searchFields)}`
+            : `# Comprehensive Log Search Results\n\n${formatLogScope(projectId, scope)}\nSearch Term: "${searchTerm}"\nMatch Mode: ${matchMode || "contains"}\nTime Range: ${startTime.toISOString()} to ${endTime.toISOString()}\nSeverity: ${severity || "All levels"}\nResource: ${resource || "All resources"}\nEntries Found: ${entries.length}\n\n**Search Coverage:**\n${describeSearchCoverage(fields, searchFields)}\n\n---\n\n${formatLogEntries(entries.map(toLogEntry), "\n\n---\n\n", Boolean(scope))}`;
+
+        return buildLogToolResult(
+          outputFormat,
+          markdown,
+          {
+            projectId,
+            searchTerm,
+            filter,
+            mode,
+            entries: normalised,
+            resourceNames: scope,
+          },
+          normalised,
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error in Comprehensive Log Search\n\nAn error occurred while searching logs: ${errorMessage}\n\nPlease check your search parameters and try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to check a filter locally before running it
+  server.registerTool(
+    "gcp-logging-validate-filter",
+    {
+      title: "Validate Log Filter",
+      description:
+        'Check a Cloud Logging query language filter without running it. Reports the line and column of syntax errors, unknown severities, invalid timestamps and regular expressions, and resolves relative timestamps such as timestamp>="-1h".',
+      inputSchema: {
+        filter: z
+          .string()
+          .describe("The filter to validate (Cloud Logging query language)"),
+      },
+    },
+    async ({ filter }) => {
+      try {
+        const result = validateLogFilter(filter);
+
+        let text = `# Log Filter Validation\n\nStatus: ${result.valid ? "Valid" : "Invalid"}\n\n\`\`\`\n${filter}\n\`\`\`\n`;
+
+        if (result.errors.length > 0) {
+          text += `\n## Errors\n\n`;
+          for (const error of result.errors) {
+            text += `\`\`\`\n${describeFilterProblem(filter, error)}\n\`\`\`\n`;
+          }
+        }
+
+        if (result.warnings.length > 0) {
+          text += `\n## Warnings\n\n`;
+          for (const warning of result.warnings) {
+            text += `- Line ${warning.line}, column ${warning.column}: ${warning.message}\n`;
+          }
+        }
+
+        if (result.valid && result.normalised !== filter.trim()) {
+          text += `\n## Normalised Filter\n\nRelative timestamps were resolved:\n\n\`\`\`\n${result.normalised}\n\`\`\`\n`;
+        }
+
+        if (result.fields.length > 0) {
+          text += `\n## Fields Referenced\n\n${result.fields.map((field) => `- ${field}`).join("\n")}\n`;
         }
 
-        const formattedLogs = entries
-          .map((entry) => {
-            try {
-              return formatLogEntry(entry as unknown as LogEntry);
-            } catch (err: unknown) {
-              const errorMessage =
-                err instanceof Error ? err.message : "Unknown error";
-              return `## Error Formatting Log Entry\n\nAn error occurred while formatting a log entry: ${errorMessage}`;
+        return {
+          content: [{ type: "text", text }],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Validating Log Filter\n\nAn error occurred while validating the filter: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to build a filter from structured conditions
+  server.registerTool(
+    "gcp-logging-build-filter",
+    {
+      title: "Build Log Filter",
+      description:
+        "Build a valid Cloud Logging query language filter from structured conditions such as severity, resource labels and jsonPayload fields. Values are quoted and escaped automatically.",
+      inputSchema: {
+        severity: z
+          .enum(LOG_SEVERITIES)
+          .optional()
+          .describe("Minimum severity level"),
+        resourceType: z
+          .string()
+          .optional()
+          .describe('Monitored resource type (e.g., "cloud_run_revision")'),
+        resourceLabels: z
+          .record(z.string())
+          .optional()
+          .describe('Resource labels to match (e.g., {"service_name": "api"})'),
+        logId: z
+          .string()
+          .optional()
+          .describe('Log ID to match (e.g., "run.googleapis.com/requests")'),
+        labels: z
+          .record(z.string())
+          .optional()
+          .describe("Entry labels to match"),
+        payload: z
+          .record(z.union([z.string(), z.number(), z.boolean()]))
+          .optional()
+          .describe(
+            'jsonPayload fields to match exactly, keyed by dotted path (e.g., {"request.method": "POST"})',
+          ),
+        textPayload: z
+          .string()
+          .optional()
+          .describe("Text that textPayload must contain"),
+        trace: z
+          .string()
+          .optional()
+          .describe("Trace ID or full trace resource name"),
+        search: z
+          .string()
+          .optional()
+          .describe("Text to search for in any field"),
+        startTime: z
+          .string()
+          .optional()
+          .describe('Start time in ISO format or relative time (e.g., "1h")'),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End time in ISO format or relative time"),
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Additional raw filter criteria to AND with the conditions",
+          ),
+      },
+    },
+    async (spec) => {
+      try {
+        const filter = buildLogFilter(spec);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: filter
+                ? `# Log Filter\n\n\`\`\`\n${filter}\n\`\`\`\n\nUse this filter with gcp-logging-query-logs, gcp-logging-aggregate or gcp-logging-tail.`
+                : "# Log Filter\n\nNo conditions were given, so the filter is empty and matches every entry.",
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Building Log Filter\n\nAn error occurred while building the filter: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to summarise logs as counts grouped by a field
+  server.registerTool(
+    "gcp-logging-aggregate",
+    {
+      title: "Aggregate Logs",
+      description:
+        "Count log entries grouped by severity, resource.type, logName, labels, any jsonPayload path, or time bucket. Returns a histogram instead of raw entries.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Additional filter criteria (Cloud Logging query language)",
+          ),
+        startTime: z
+          .string()
+          .default("1h")
+          .describe(
+            'Start time in ISO format or relative time (e.g., "1h", "2d")',
+          ),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End time in ISO format (defaults to now)"),
+        groupBy: z
+          .string()
+          .default("severity")
+          .describe(
+            'Field to group by, e.g. "severity", "resource.type", "resource.labels.service_name", "logName", "jsonPayload.status", or "timestamp" for time buckets',
+          ),
+        bucketSize: z
+          .string()
+          .default("5m")
+          .describe(
+            'Bucket width when grouping by timestamp (e.g., "1m", "5m", "1h")',
+          ),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(50000)
+          .default(10000)
+          .describe("Maximum number of log entries to scan"),
+        topN: z
+          .number()
+          .min(1)
+          .max(200)
+          .default(25)
+          .describe("Maximum number of groups to list"),
+        resourceNames: logResourceNamesSchema,
+      },
+    },
+    async ({
+      filter,
+      startTime,
+      endTime,
+      groupBy,
+      bucketSize,
+      maxEntries,
+      topN,
+      resourceNames,
+    }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+
+        const start = parseRelativeTime(startTime);
+        const end = endTime ? parseRelativeTime(endTime) : new Date();
+
+        let filterStr = `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
+        if (filter) {
+          filterStr = `${filterStr} AND ${prepareLogFilter(filter)}`;
+        }
+
+        const aggregator = new LogAggregator(
+          groupBy,
+          groupBy === TIME_BUCKET_FIELD
+            ? parseDurationSeconds(bucketSize)
+            : undefined,
+        );
+
+        const scan = await scanLogEntries(
+          logging,
+          { filter: filterStr, maxEntries, resourceNames: scope },
+          (entries) => {
+            for (const entry of entries) {
+              aggregator.add(toLogEntry(entry));
             }
-          })
-          .join("\n\n---\n\n");
+          },
+        );
+
+        const result = aggregator.getResult();
+        const truncatedNote = scan.truncated
+          ? `\n\n*Scan stopped after ${scan.scanned} entries; more entries match the filter. Counts cover the most recent entries only. Narrow the time range or increase \`maxEntries\` for complete counts.*`
+          : "";
 
         return {
           content: [
             {
               type: "text",
-              text: `# Comprehensive Log Search Results\n\nProject: ${projectId}\nSearch Term: "${searchTerm}"\nTime Range: ${startTime.toISOString()} to ${endTime.toISOString()}\nSeverity: ${severity || "All levels"}\nResource: ${resource || "All resources"}\nEntries Found: ${entries.length}\n\n**Search Coverage:**\nThis search looked across all payload types and fields including:\n- Text payloads\n- JSON payload fields (message, error, exception, stack traces, HTTP details, etc.)\n- Proto payload fields\n- Labels and metadata\n- HTTP request details\n- Source location information\n- Operation details\n\n---\n\n${formattedLogs}`,
+              text: `# Log Aggregation Results\n\n${formatLogScope(projectId, scope)}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\nFilter: ${filter || "None"}\nGrouped By: ${groupBy}${groupBy === TIME_BUCKET_FIELD ? ` (${bucketSize} buckets)` : ""}\nEntries Scanned: ${scan.scanned}\nDistinct Groups: ${result.buckets.length}${truncatedNote}\n\n${formatLogAggregation(result, topN)}`,
             },
           ],
         };
@@ -370,7 +877,7 @@ Please check your time range format and try again. Valid formats include:
           content: [
             {
               type: "text",
-              text: `# Error in Comprehensive Log Search\n\nAn error occurred while searching logs: ${errorMessage}\n\nPlease check your search parameters and try again.`,
+              text: `# Error Aggregating Logs\n\nAn error occurred while aggregating logs: ${errorMessage}\n\nPlease check your filter syntax and groupBy field and try again.`,
             },
           ],
           isError: true,
@@ -378,4 +885,1464 @@ Please check your time range format and try again. Valid formats include:
       }
     },
   );
+
+  // Tool to compare log templates between two windows or versions
+  server.registerTool(
+    "gcp-logging-compare-windows",
+    {
+      title: "Compare Log Windows",
+      description:
+        "Compare log message templates and severities between a baseline and a comparison window, or between two release versions, and report templates that are new, have vanished, or changed significantly. Useful for asking what a deploy changed.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Additional filter criteria applied to both windows (Cloud Logging query language)",
+          ),
+        comparisonStart: z
+          .string()
+          .default("1h")
+          .describe(
+            'Start of the comparison window in ISO format or relative time (e.g., "1h"); also the start of the range in version mode',
+          ),
+        comparisonEnd: z
+          .string()
+          .optional()
+          .describe(
+            "End of the comparison window in ISO format (defaults to now)",
+          ),
+        baselineStart: z
+          .string()
+          .optional()
+          .describe(
+            "Start of the baseline window in ISO format or relative time (defaults to a window of equal length just before the comparison)",
+          ),
+        baselineEnd: z
+          .string()
+          .optional()
+          .describe(
+            "End of the baseline window in ISO format (defaults to the comparison start)",
+          ),
+        baselineVersion: z
+          .string()
+          .optional()
+          .describe(
+            "Compare versions instead of windows: the baseline value of versionField",
+          ),
+        comparisonVersion: z
+          .string()
+          .optional()
+          .describe("The comparison value of versionField"),
+        versionField: z
+          .string()
+          .default("labels.version")
+          .describe(
+            'Field holding the version when comparing versions (e.g., "labels.version", "resource.labels.revision_name")',
+          ),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(50000)
+          .default(5000)
+          .describe("Maximum number of log entries to scan per window"),
+        changeRatio: z
+          .number()
+          .min(1)
+          .default(2)
+          .describe(
+            "Minimum change in a template's share of entries, in either direction, to report it (e.g., 2 for 2x)",
+          ),
+        minCount: z
+          .number()
+          .min(1)
+          .default(5)
+          .describe(
+            "Minimum entries on the busier side for an increase or decrease to be reported",
+          ),
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .default(20)
+          .describe("Maximum number of templates to list per section"),
+        resourceNames: logResourceNamesSchema,
+      },
+    },
+    async ({
+      filter,
+      comparisonStart,
+      comparisonEnd,
+      baselineStart,
+      baselineEnd,
+      baselineVersion,
+      comparisonVersion,
+      versionField,
+      maxEntries,
+      changeRatio,
+      minCount,
+      limit,
+      resourceNames,
+    }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+
+        if (Boolean(baselineVersion) !== Boolean(comparisonVersion)) {
+          throw new GcpMcpError(
+            "Provide both baselineVersion and comparisonVersion to compare versions",
+            "INVALID_ARGUMENT",
+            400,
+          );
+        }
+
+        const extraFilter = filter ? ` AND ${prepareLogFilter(filter)}` : "";
+        const timeFilter = (start: Date, end: Date) =>
+          `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
+
+        const compStart = parseRelativeTime(comparisonStart);
+        const compEnd = comparisonEnd
+          ? parseRelativeTime(comparisonEnd)
+          : new Date();
+
+        let baselineLabel: string;
+        let comparisonLabel: string;
+        let baselineFilter: string;
+        let comparisonFilter: string;
+        let modeLine: string;
+
+        if (baselineVersion && comparisonVersion) {
+          const field = validateSearchField(versionField);
+          const range = timeFilter(compStart, compEnd);
+          baselineLabel = `${field} = ${baselineVersion}`;
+          comparisonLabel = `${field} = ${comparisonVersion}`;
+          baselineFilter = `${range} AND ${field}=${quoteFilterString(baselineVersion)}${extraFilter}`;
+          comparisonFilter = `${range} AND ${field}=${quoteFilterString(comparisonVersion)}${extraFilter}`;
+          modeLine = `Comparing Versions Of: ${field}\nTime Range: ${compStart.toISOString()} to ${compEnd.toISOString()}`;
+        } else {
+          const baseEnd = baselineEnd
+            ? parseRelativeTime(baselineEnd)
+            : compStart;
+          const baseStart = baselineStart
+            ? parseRelativeTime(baselineStart)
+            : new Date(
+                baseEnd.getTime() - (compEnd.getTime() - compStart.getTime()),
+              );
+          baselineLabel = `${baseStart.toISOString()} to ${baseEnd.toISOString()}`;
+          comparisonLabel = `${compStart.toISOString()} to ${compEnd.toISOString()}`;
+          baselineFilter = `${timeFilter(baseStart, baseEnd)}${extraFilter}`;
+          comparisonFilter = `${timeFilter(compStart, compEnd)}${extraFilter}`;
+          modeLine = "Comparing: Time windows";
+        }
+
+        const baseline = await summariseLogWindow(
+          logging,
+          baselineLabel,
+          baselineFilter,
+          maxEntries,
+          scope,
+        );
+        const comparison = await summariseLogWindow(
+          logging,
+          comparisonLabel,
+          comparisonFilter,
+          maxEntries,
+          scope,
+        );
+
+        const truncatedNote =
+          baseline.truncated || comparison.truncated
+            ? `\n\n*At least one window had more than ${maxEntries} matching entries, so only the most recent entries were compared. Narrow the filter or increase \`maxEntries\` for a complete comparison.*`
+            : "";
+
+        if (baseline.entries === 0 || comparison.entries === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log Window Comparison\n\n${formatLogScope(projectId, scope)}\n${modeLine}\nFilter: ${filter || "None"}\n\nThe ${baseline.entries === 0 ? "baseline" : "comparison"} (${baseline.entries === 0 ? baselineLabel : comparisonLabel}) has no matching entries, so there is nothing to compare.`,
+              },
+            ],
+          };
+        }
+
+        const result = compareLogWindows(baseline, comparison, {
+          changeRatio,
+          minCount,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log Window Comparison\n\n${formatLogScope(projectId, scope)}\n${modeLine}\nFilter: ${filter || "None"}${truncatedNote}\n\n${formatLogWindowComparison(baseline, comparison, result, limit)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Comparing Log Windows\n\nAn error occurred while comparing log windows: ${errorMessage}\n\nPlease check your filter syntax and time ranges and try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to reconstruct a single request across services
+  server.registerTool(
+    "gcp-logging-request-timeline",
+    {
+      title: "Request Timeline",
+      description:
+        "Reconstruct one request as a chronological timeline across load balancer, application and Cloud SQL proxy logs, given its trace ID, request ID or client IP. Includes a latency breakdown from httpRequest.latency.",
+      inputSchema: {
+        traceId: z
+          .string()
+          .optional()
+          .describe(
+            "Trace ID, or full trace name (projects/PROJECT_ID/traces/TRACE_ID)",
+          ),
+        requestId: z
+          .string()
+          .optional()
+          .describe(
+            `Request ID, matched against ${REQUEST_ID_FIELDS.join(", ")}`,
+          ),
+        remoteIp: z
+          .string()
+          .optional()
+          .describe("Client IP address, matched against httpRequest.remoteIp"),
+        startTime: z
+          .string()
+          .default("1h")
+          .describe(
+            'Start time in ISO format or relative time (e.g., "1h", "2d")',
+          ),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End time in ISO format (defaults to now)"),
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Additional filter criteria (Cloud Logging query language)",
+          ),
+        includeDatabaseLogs: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Include Cloud SQL and Cloud SQL proxy entries written while the request was in flight",
+          ),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(5000)
+          .default(500)
+          .describe("Maximum number of log entries to include"),
+        resourceNames: logResourceNamesSchema,
+      },
+    },
+    async ({
+      traceId,
+      requestId,
+      remoteIp,
+      startTime,
+      endTime,
+      filter,
+      includeDatabaseLogs,
+      maxEntries,
+      resourceNames,
+    }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+
+        const start = parseRelativeTime(startTime);
+        const end = endTime ? parseRelativeTime(endTime) : new Date();
+
+        const result = await fetchRequestTimeline(logging, {
+          keys: { traceId, requestId, remoteIp },
+          start,
+          end,
+          filter: filter ? prepareLogFilter(filter) : undefined,
+          maxEntries,
+          includeDatabaseLogs: includeDatabaseLogs !== false,
+          resourceNames: scope,
+        });
+
+        const keys = [
+          traceId ? `Trace: ${traceId}` : "",
+          requestId ? `Request ID: ${requestId}` : "",
+          remoteIp ? `Remote IP: ${remoteIp}` : "",
+        ].filter(Boolean);
+        const header = `# Request Timeline\n\n${formatLogScope(projectId, scope)}\n${keys.join("\n")}\nTime Range: ${start.toISOString()} to ${end.toISOString()}`;
+
+        const { timeline } = result;
+        if (timeline.events.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${header}\n\nNo log entries matched the request. Widen the time range or check the identifiers.`,
+              },
+            ],
+          };
+        }
+
+        const notes = [
+          result.truncated
+            ? `*Stopped after ${maxEntries} entries; more entries match. Narrow the time range or increase \`maxEntries\`.*`
+            : "",
+          result.databaseSkippedReason
+            ? `*Database logs were not correlated by time because ${result.databaseSkippedReason}.*`
+            : "",
+        ].filter(Boolean);
+        const services = new Set(
+          timeline.events.map((event) => `${event.layer}/${event.service}`),
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${header}\nEntries: ${timeline.events.length}\nServices: ${services.size}\nFirst Entry: ${timeline.start}\nLast Entry: ${timeline.end}${notes.length > 0 ? `\n\n${notes.join("\n\n")}` : ""}\n\n${formatRequestTimeline(timeline)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Building Request Timeline\n\nAn error occurred while correlating the request: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to explore Cloud Audit Logs
+  server.registerTool(
+    "gcp-logging-audit",
+    {
+      title: "Explore Audit Logs",
+      description:
+        "Answer who changed what, and when, from Cloud Audit Logs. Extracts the principal, method, resource, status and caller IP of each call, separates Admin Activity, Data Access, System Event and Policy Denied logs, and can group calls by principal, resource, method, service or caller IP.",
+      inputSchema: {
+        logTypes: z
+          .array(z.enum(AUDIT_LOG_TYPES))
+          .default(["admin-activity", "system-event", "policy-denied"])
+          .describe(
+            "Audit logs to read. Data Access logs are often high-volume, so they are only read when requested.",
+          ),
+        principal: z
+          .string()
+          .optional()
+          .describe("Only calls made by this principal email"),
+        method: z
+          .string()
+          .optional()
+          .describe('Only methods containing this text (e.g., "SetIamPolicy")'),
+        resource: z
+          .string()
+          .optional()
+          .describe("Only resource names containing this text"),
+        service: z
+          .string()
+          .optional()
+          .describe(
+            'Only calls to this service (e.g., "compute.googleapis.com")',
+          ),
+        failedOnly: z
+          .boolean()
+          .default(false)
+          .describe("Only calls that returned an error"),
+        startTime: z
+          .string()
+          .default("24h")
+          .describe(
+            'Start time in ISO format or relative time (e.g., "1h", "7d")',
+          ),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End time in ISO format (defaults to now)"),
+        groupBy: z
+          .enum(AUDIT_GROUP_FIELDS)
+          .optional()
+          .describe("Group calls by this field instead of listing them"),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(10000)
+          .default(1000)
+          .describe("Maximum number of audit entries to scan"),
+        limit: z
+          .number()
+          .min(1)
+          .max(500)
+          .default(50)
+          .describe("Maximum number of calls per log type, or groups, to list"),
+        resourceNames: logResourceNamesSchema,
+      },
+    },
+    async ({
+      logTypes,
+      principal,
+      method,
+      resource,
+      service,
+      failedOnly,
+      startTime,
+      endTime,
+      groupBy,
+      maxEntries,
+      limit,
+      resourceNames,
+    }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+
+        const start = parseRelativeTime(startTime);
+        const end = endTime ? parseRelativeTime(endTime) : new Date();
+
+        const auditFilter = buildAuditLogFilter({
+          types: logTypes || [],
+          principal,
+          method,
+          resource,
+          service,
+          failedOnly,
+        });
+        const filter = `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}" AND ${auditFilter}`;
+
+        const events: AuditEvent[] = [];
+        const scan = await scanLogEntries(
+          logging,
+          {
+            filter,
+            maxEntries,
+            orderBy: "timestamp desc",
+            resourceNames: scope,
+          },
+          (entries) => {
+            for (const entry of entries) {
+              const event = parseAuditLogEntry(toLogEntry(entry));
+              if (event) {
+                events.push(event);
+              }
+            }
+          },
+        );
+
+        const typeCounts = AUDIT_LOG_TYPES.map(
+          (type) =>
+            `${AUDIT_LOG_TYPE_NAMES[type]}: ${events.filter((event) => event.type === type).length}`,
+        ).join(", ");
+        const failed = events.filter((event) => event.statusCode !== 0).length;
+        const truncatedNote = scan.truncated
+          ? `\n\n*Scan stopped after ${scan.scanned} entries; older audit entries were not read. Narrow the time range or filters, or increase \`maxEntries\`.*`
+          : "";
+
+        const body = groupBy
+          ? `## Calls by ${groupBy}\n\n${formatAuditGroups(groupAuditEvents(events, groupBy), groupBy, limit)}`
+          : formatAuditEvents(events, limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Audit Log Results\n\n${formatLogScope(projectId, scope)}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\nFilter: ${auditFilter}\nAudit Events: ${events.length} (${failed} failed)\nBy Log Type: ${typeCounts}${truncatedNote}\n\n${body}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Reading Audit Logs\n\nAn error occurred while reading audit logs: ${errorMessage}\n\nData Access logs must be enabled in the project's audit configuration before they can be read.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to follow logs as they arrive
+  server.registerTool(
+    "gcp-logging-tail",
+    {
+      title: "Tail Logs",
+      description:
+        "Follow new log entries for a bounded duration. New entries are streamed as MCP logging and progress notifications and returned as a summary when the tail ends.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            'Filter criteria (e.g., \'resource.type="cloud_run_revision" AND resource.labels.revision_name="api-00042-abc"\')',
+          ),
+        durationSeconds: z
+          .number()
+          .min(5)
+          .max(600)
+          .default(60)
+          .describe("How long to follow logs for"),
+        pollIntervalSeconds: z
+          .number()
+          .min(1)
+          .max(60)
+          .default(5)
+          .describe("Seconds between polls for new entries"),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(2000)
+          .default(500)
+          .describe("Stop after this many new entries"),
+        startTime: z
+          .string()
+          .optional()
+          .describe(
+            'Also include entries since this time (ISO or relative, e.g. "5m"). Defaults to now.',
+          ),
+        resourceNames: logResourceNamesSchema,
+        outputFormat: logOutputFormatSchema.describe(
+          'Response format: "markdown" for readable text, "json" for a single JSON document, or "ndjson" for one JSON object per line. In json and ndjson modes notifications carry the normalised entry instead of a formatted line.',
+        ),
+      },
+      outputSchema: {
+        projectId: z.string(),
+        filter: z.string().optional(),
+        stopReason: z.enum(["duration", "maxEntries", "cancelled"]),
+        delivered: z.number(),
+        polls: z.number(),
+        duplicatesSkipped: z.number(),
+        watermark: z.string(),
+        entries: z.array(normalisedLogEntrySchema),
+        resourceNames: z.array(z.string()).optional(),
+      },
+    },
+    async (
+      {
+        filter,
+        durationSeconds,
+        pollIntervalSeconds,
+        maxEntries,
+        startTime,
+        resourceNames,
+        outputFormat,
+      },
+      extra,
+    ) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+        const progressToken = extra._meta?.progressToken;
+        const collected: string[] = [];
+        const collectedEntries: NormalisedLogEntry[] = [];
+        const startedAt = Date.now();
+
+        const notify = async (
+          notification: Parameters<typeof extra.sendNotification>[0],
+        ) => {
+          try {
+            await extra.sendNotification(notification);
+          } catch (error: unknown) {
+            logger.debug(
+              `Unable to send tail notification: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        };
+
+        const result = await tailLogEntries(logging, {
+          filter: filter ? prepareLogFilter(filter) : undefined,
+          resourceNames: scope,
+          durationMs: durationSeconds * 1000,
+          pollIntervalMs: pollIntervalSeconds * 1000,
+          maxEntries,
+          startTime: startTime ? parseRelativeTime(startTime) : undefined,
+          signal: extra.signal,
+          onEntries: async (entries) => {
+            for (const entry of entries) {
+              const source = scope
+                ? getLogEntrySource(entry.logName)
+                : undefined;
+              const line = source
+                ? `[${source}] ${formatLogLine(entry)}`
+                : formatLogLine(entry);
+              const normalised = source
+                ? { ...normaliseLogEntry(entry), source }
+                : normaliseLogEntry(entry);
+              collected.push(line);
+              collectedEntries.push(normalised);
+              await notify({
+                method: "notifications/message",
+                params: {
+                  level: toNotificationLevel(entry.severity),
+                  logger: "gcp-logging-tail",
+                  data: outputFormat === "markdown" ? line : normalised,
+                },
+              });
+            }
+
+            if (progressToken !== undefined) {
+              await notify({
+                method: "notifications/progress",
+                params: {
+                  progressToken,
+                  progress: Math.min(
+                    (Date.now() - startedAt) / 1000,
+                    durationSeconds,
+                  ),
+                  total: durationSeconds,
+                  message: `${collected.length} new log entries`,
+                },
+              });
+            }
+          },
+        });
+
+        const stopReasons = {
+          duration: `Tail ended after ${durationSeconds} seconds`,
+          maxEntries: `Tail stopped after reaching ${maxEntries} entries`,
+          cancelled: "Tail was cancelled by the client",
+        };
+
+        return buildLogToolResult(
+          outputFormat,
+          `# Log Tail Results\n\n${formatLogScope(projectId, scope)}\nFilter: ${filter || "None"}\nStatus: ${stopReasons[result.stopReason]}\nNew Entries: ${result.delivered}\nPolls: ${result.polls}\nDuplicates Skipped: ${result.duplicatesSkipped}\nWatermark: ${result.watermark}\n\n${collected.length > 0 ? `\`\`\`\n${collected.join("\n")}\n\`\`\`` : "No new log entries arrived while tailing."}`,
+          {
+            projectId,
+            filter,
+            ...result,
+            entries: collectedEntries,
+            resourceNames: scope,
+          },
+          collectedEntries,
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Tailing Logs\n\nAn error occurred while tailing logs: ${errorMessage}\n\nPlease check your filter syntax and try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to list log-based metrics
+  server.registerTool(
+    "gcp-logging-list-metrics",
+    {
+      title: "List Log-Based Metrics",
+      description:
+        "List the log-based metrics defined in the current project, with their type, filter and labels.",
+      inputSchema: {
+        nameContains: z
+          .string()
+          .optional()
+          .describe("Only list metrics whose name contains this text"),
+      },
+    },
+    async ({ nameContains }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const response = await requestLoggingApi<unknown[]>(
+          logging,
+          "MetricsServiceV2Client",
+          "listLogMetrics",
+          { parent: `projects/${projectId}` },
+        );
+        const metrics = (response || [])
+          .map(normaliseLogMetric)
+          .filter(
+            (metric) => !nameContains || metric.name.includes(nameContains),
+          )
+          .sort((a, b) => a.name.localeCompare(b.name));
+
+        if (metrics.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log-Based Metrics\n\nProject: ${projectId}\n\nNo log-based metrics found${nameContains ? ` with a name containing "${nameContains}"` : ""}.`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log-Based Metrics\n\nProject: ${projectId}\nMetrics: ${metrics.length}\n\n${metrics.map(formatLogMetric).join("\n")}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Listing Log-Based Metrics\n\nAn error occurred while listing log-based metrics: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to describe a single log-based metric
+  server.registerTool(
+    "gcp-logging-get-metric",
+    {
+      title: "Get Log-Based Metric",
+      description:
+        "Describe a log-based metric. Optionally counts how many entries its filter matched over recent hours.",
+      inputSchema: {
+        metricName: z.string().describe("The metric name"),
+        previewHours: z
+          .number()
+          .positive()
+          .max(720)
+          .optional()
+          .describe(
+            "Count the entries the filter matched over this many hours",
+          ),
+      },
+    },
+    async ({ metricName, previewHours }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const metric = await getLogMetric(logging, projectId, metricName);
+
+        let text = `# Log-Based Metric\n\nProject: ${projectId}\n\n${formatLogMetric(metric)}`;
+        if (previewHours) {
+          const preview = await previewLogMetric(
+            logging,
+            metric.filter,
+            previewHours,
+          );
+          text += `\n${formatLogMetricPreview(preview)}`;
+        }
+
+        return {
+          content: [{ type: "text", text }],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Getting Log-Based Metric\n\nAn error occurred while getting log-based metric "${metricName}": ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to create a log-based metric
+  server.registerTool(
+    "gcp-logging-create-metric",
+    {
+      title: "Create Log-Based Metric",
+      description:
+        "Create a counter or distribution log-based metric with optional label extractors. Use dryRun to validate the definition and see how many entries the filter matched recently without creating anything.",
+      inputSchema: {
+        name: z.string().describe('The metric name (e.g., "checkout_errors")'),
+        kind: z
+          .enum(["counter", "distribution"])
+          .default("counter")
+          .describe(
+            "counter counts matching entries; distribution records a value extracted from each entry",
+          ),
+        filter: z
+          .string()
+          .describe("Entries to include (Cloud Logging query language)"),
+        description: z.string().optional().describe("Metric description"),
+        valueExtractor: z
+          .string()
+          .optional()
+          .describe(
+            "Distribution metrics only: extractor for the recorded value, e.g. EXTRACT(jsonPayload.latencyMs)",
+          ),
+        unit: z
+          .string()
+          .optional()
+          .describe('Unit of the recorded value (e.g., "ms")'),
+        labels: z
+          .array(logMetricLabelSchema)
+          .optional()
+          .describe("Labels and the extractors that populate them"),
+        buckets: logMetricBucketsSchema
+          .optional()
+          .describe(
+            "Distribution metrics only: histogram buckets (default exponential, 64 buckets from 0.01)",
+          ),
+        disabled: z.boolean().optional().describe("Create the metric disabled"),
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe("Preview the metric without creating it"),
+        previewHours: z
+          .number()
+          .positive()
+          .max(720)
+          .default(24)
+          .describe("Hours of logs to count matches over in a dry run"),
+      },
+    },
+    async ({ dryRun, previewHours, ...spec }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const metric = buildLogMetric({
+          ...spec,
+          kind: spec.kind || "counter",
+        });
+
+        if (dryRun) {
+          const preview = await previewLogMetric(
+            logging,
+            metric.filter,
+            previewHours || 24,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log-Based Metric Preview (Dry Run)\n\nProject: ${projectId}\n\nThe metric was not created.\n\n${formatLogMetric(metric)}\n${formatLogMetricPreview(preview)}`,
+              },
+            ],
+          };
+        }
+
+        const created = await requestLoggingApi<unknown>(
+          logging,
+          "MetricsServiceV2Client",
+          "createLogMetric",
+          { parent: `projects/${projectId}`, metric },
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log-Based Metric Created\n\nProject: ${projectId}\n\n${formatLogMetric(normaliseLogMetric(created))}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Creating Log-Based Metric\n\nAn error occurred while creating log-based metric "${spec.name}": ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to update a log-based metric
+  server.registerTool(
+    "gcp-logging-update-metric",
+    {
+      title: "Update Log-Based Metric",
+      description:
+        "Update a log-based metric. Only the fields given are changed; labels replace the existing label set. The metric type cannot be changed. Use dryRun to preview the new definition and its filter matches without saving.",
+      inputSchema: {
+        metricName: z.string().describe("The metric name"),
+        filter: z.string().optional().describe("New filter"),
+        description: z.string().optional().describe("New description"),
+        valueExtractor: z
+          .string()
+          .optional()
+          .describe("New value extractor (distribution metrics only)"),
+        unit: z.string().optional().describe("New unit"),
+        labels: z
+          .array(logMetricLabelSchema)
+          .optional()
+          .describe("Replacement labels and extractors"),
+        buckets: logMetricBucketsSchema
+          .optional()
+          .describe("Replacement buckets (distribution metrics only)"),
+        disabled: z
+          .boolean()
+          .optional()
+          .describe("Disable or re-enable the metric"),
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe("Preview the change without saving it"),
+        previewHours: z
+          .number()
+          .positive()
+          .max(720)
+          .default(24)
+          .describe("Hours of logs to count matches over in a dry run"),
+      },
+    },
+    async ({ metricName, dryRun, previewHours, ...changes }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const raw = await getRawLogMetric(logging, projectId, metricName);
+        const existing = normaliseLogMetric(raw);
+        const metric = applyLogMetricChanges(existing, changes);
+
+        if (dryRun) {
+          const preview = await previewLogMetric(
+            logging,
+            metric.filter,
+            previewHours || 24,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log-Based Metric Update Preview (Dry Run)\n\nProject: ${projectId}\n\nThe metric was not changed.${metric.filter !== existing.filter ? `\n\nPrevious filter:\n\n\`\`\`\n${existing.filter}\n\`\`\`` : ""}\n\n${formatLogMetric(metric)}\n${formatLogMetricPreview(preview)}`,
+              },
+            ],
+          };
+        }
+
+        const updated = await requestLoggingApi<unknown>(
+          logging,
+          "MetricsServiceV2Client",
+          "updateLogMetric",
+          {
+            metricName: logMetricResourceName(projectId, metricName),
+            metric: overlayLogMetricChanges(raw, metric, changes),
+          },
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log-Based Metric Updated\n\nProject: ${projectId}\n\n${formatLogMetric(normaliseLogMetric(updated))}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Updating Log-Based Metric\n\nAn error occurred while updating log-based metric "${metricName}": ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to delete a log-based metric
+  server.registerTool(
+    "gcp-logging-delete-metric",
+    {
+      title: "Delete Log-Based Metric",
+      description:
+        "Delete a log-based metric. Its historical time series in Cloud Monitoring are no longer written to, and alerting policies that use it stop receiving data.",
+      inputSchema: {
+        metricName: z.string().describe("The metric name"),
+      },
+      annotations: { destructiveHint: true },
+    },
+    async ({ metricName }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        await requestLoggingApi<unknown>(
+          logging,
+          "MetricsServiceV2Client",
+          "deleteLogMetric",
+          { metricName: logMetricResourceName(projectId, metricName) },
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log-Based Metric Deleted\n\nProject: ${projectId}\n\nDeleted log-based metric "${metricName}".`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Deleting Log-Based Metric\n\nAn error occurred while deleting log-based metric "${metricName}": ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to list log sinks
+  server.registerTool(
+    "gcp-logging-list-sinks",
+    {
+      title: "List Log Sinks",
+      description:
+        "List the log sinks in the current project with their destinations, inclusion filters and exclusion filters, including the _Required and _Default sinks.",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const projectId = await getProjectId();
+        const sinks = await listLogSinks(getLoggingClient());
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                sinks.length > 0
+                  ? `# Log Sinks\n\nProject: ${projectId}\nSinks: ${sinks.length}\n\n${formatLogSinks(sinks)}`
+                  : `# Log Sinks\n\nProject: ${projectId}\n\nNo log sinks found.`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Listing Log Sinks\n\nAn error occurred while listing log sinks: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to list log exclusions
+  server.registerTool(
+    "gcp-logging-list-exclusions",
+    {
+      title: "List Log Exclusions",
+      description:
+        "List the filters that stop log entries being stored: project-level exclusions, which apply to the _Default sink, and the exclusion filters configured on each sink.",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const [projectExclusions, sinks] = await Promise.all([
+          listLogExclusions(logging, projectId),
+          listLogSinks(logging),
+        ]);
+        const sinksWithExclusions = sinks.filter(
+          (sink) => sink.exclusions.length > 0,
+        );
+
+        let text = `# Log Exclusions\n\nProject: ${projectId}\n\n## Project Exclusions (_Default sink)\n\n`;
+        text +=
+          projectExclusions.length > 0
+            ? `${formatLogExclusions(projectExclusions)}\n`
+            : "No project-level exclusions.\n";
+
+        for (const sink of sinksWithExclusions) {
+          text += `\n## Sink: ${sink.name}\n\n${formatLogExclusions(sink.exclusions)}\n`;
+        }
+        if (sinksWithExclusions.length === 0) {
+          text += `\nNo sinks have exclusion filters.\n`;
+        }
+
+        return {
+          content: [{ type: "text", text }],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Listing Log Exclusions\n\nAn error occurred while listing log exclusions: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to work out which sinks route an entry
+  server.registerTool(
+    "gcp-logging-route-entry",
+    {
+      title: "Trace Log Entry Routing",
+      description:
+        "Work out where log entries go: which sinks route them and which exclusions drop them. Give a sample log entry, or a filter to evaluate recent matching entries. Filters are evaluated locally; parts that cannot be, such as sample(), are reported as unknown.",
+      inputSchema: {
+        entry: z
+          .record(z.unknown())
+          .optional()
+          .describe(
+            'A log entry as JSON, e.g. {"severity": "ERROR", "logName": "projects/p/logs/app", "resource": {"type": "k8s_container", "labels": {}}}',
+          ),
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Evaluate recent entries matching this filter instead of a single entry",
+          ),
+        sampleSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .default(50)
+          .describe("Number of recent entries to evaluate when using a filter"),
+        resourceNames: logResourceNamesSchema.describe(
+          "Resources to sample entries from when using a filter, as project IDs or resource names. Sinks and exclusions are read from the current project.",
+        ),
+      },
+    },
+    async ({ entry, filter, sampleSize, resourceNames }) => {
+      try {
+        if (!entry && !filter) {
+          throw new GcpMcpError(
+            "Provide either a sample log entry or a filter",
+            "INVALID_ARGUMENT",
+            400,
+          );
+        }
+
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+
+        const [sinks, projectExclusions] = await Promise.all([
+          listLogSinks(logging),
+          listLogExclusions(logging, projectId),
+        ]);
+
+        if (entry) {
+          const routes = routeLogEntry(entry, sinks, projectExclusions);
+          const routed = routes.filter(
+            (route) => route.decision === "routed",
+          ).length;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log Entry Routing\n\nProject: ${projectId}\nRouted To: ${routed} sink(s)\n\n${formatLogRoutes(routes)}${routed === 0 && !routes.some((route) => route.decision === "unknown") ? "\n\nNo sink routes this entry, so it is not stored or exported anywhere." : ""}`,
+              },
+            ],
+          };
+        }
+
+        const processedFilter = prepareLogFilter(filter as string);
+        const scope = normaliseLogResourceNames(resourceNames);
+        const [entries] = await logging.getEntries({
+          filter: processedFilter,
+          pageSize: sampleSize || 50,
+          orderBy: "timestamp desc",
+          ...(scope ? { resourceNames: scope } : {}),
+        });
+
+        if (!entries || entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Log Entry Routing\n\nProject: ${projectId}\nFilter: ${processedFilter}\n\nNo recent entries matched the filter, so there is nothing to evaluate.`,
+              },
+            ],
+          };
+        }
+
+        const routesPerEntry = entries.map((sample) =>
+          routeLogEntry(sample, sinks, projectExclusions),
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log Entry Routing\n\nProject: ${projectId}\nFilter: ${processedFilter}\nEntries Evaluated: ${entries.length}\n\n${formatLogRouteCounts(routesPerEntry)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Tracing Log Routing\n\nAn error occurred while evaluating log routing: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool to export matching entries to a local file
+  server.registerTool(
+    "gcp-logging-export",
+    {
+      title: "Export Logs",
+      description:
+        "Export every log entry matching a filter to a local NDJSON, CSV or Parquet file for offline analysis. Entries are streamed to disk page by page, so large incident windows can be exported without loading them into the conversation.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "Additional filter criteria (Cloud Logging query language)",
+          ),
+        startTime: z
+          .string()
+          .default("1h")
+          .describe(
+            'Start time in ISO format or relative time (e.g., "1h", "2d")',
+          ),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End time in ISO format (defaults to now)"),
+        format: z
+          .enum(LOG_EXPORT_FORMATS)
+          .default("ndjson")
+          .describe(
+            "File format: ndjson writes whole entries, csv and parquet write the chosen columns",
+          ),
+        columns: z
+          .array(z.string())
+          .optional()
+          .describe(
+            `Columns for csv and parquet, as dotted field paths or "message" (defaults to ${DEFAULT_LOG_EXPORT_COLUMNS.join(", ")})`,
+          ),
+        maxEntries: z
+          .number()
+          .min(1)
+          .max(1000000)
+          .default(100000)
+          .describe("Maximum number of log entries to export"),
+        fileName: z
+          .string()
+          .optional()
+          .describe(
+            "File name within the export directory (generated if omitted). The extension for the format is added if missing, and existing files are not overwritten.",
+          ),
+        resourceNames: logResourceNamesSchema,
+      },
+    },
+    async ({
+      filter,
+      startTime,
+      endTime,
+      format,
+      columns,
+      maxEntries,
+      fileName,
+      resourceNames,
+    }) => {
+      try {
+        const projectId = await getProjectId();
+        const logging = getLoggingClient();
+        const scope = normaliseLogResourceNames(resourceNames);
+
+        const start = parseRelativeTime(startTime);
+        const end = endTime ? parseRelativeTime(endTime) : new Date();
+
+        let filterStr = `timestamp >= "${start.toISOString()}" AND timestamp <= "${end.toISOString()}"`;
+        if (filter) {
+          filterStr = `${filterStr} AND ${prepareLogFilter(filter)}`;
+        }
+
+        const result = await exportLogEntries(logging, {
+          filter: filterStr,
+          format,
+          columns,
+          maxEntries,
+          resourceNames: scope,
+          fileName,
+        });
+
+        const truncatedNote = result.truncated
+          ? `\n\n*Export stopped after ${result.entries} entries; more entries match the filter. Narrow the time range or increase \`maxEntries\` to export them all.*`
+          : "";
+        const columnsLine = result.columns
+          ? `\nColumns: ${result.columns.join(", ")}`
+          : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Log Export\n\n${formatLogScope(projectId, scope)}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\nFilter: ${filter || "None"}\nFormat: ${result.format}${columnsLine}\nEntries Exported: ${result.entries}\nFile Size: ${result.bytes} bytes\nFile: ${result.path}${truncatedNote}\n\nThe file can also be read through the resource ${logExportResourceUri(result.fileName)}.`,
+            },
+            {
+              type: "resource_link",
+              uri: logExportResourceUri(result.fileName),
+              name: result.fileName,
+              mimeType: LOG_EXPORT_MIME_TYPES[result.format],
+              description: `${result.entries} exported log entries`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Error Exporting Logs\n\nAn error occurred while exporting logs: ${errorMessage}\n\nPlease check your filter syntax and columns and try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
+
+/**
+ * Formats the continuation cursor line appended to paginated results
+ *
+ * @param nextCursor The cursor for the next page, if there is one
+ * @returns The markdown to append to the result header
+ */
+function formatNextCursor(nextCursor?: string): string {
+  if (!nextCursor) {
+    return "";
+  }
+  return `\nNext Cursor: ${nextCursor}\n\nMore entries are available. Pass the cursor above as \`cursor\` to fetch the next page.`;
+}
+
+/**
+ * Describes which fields a comprehensive search covered
+ *
+ * @param fields The fields that were searched
+ * @param customFields The caller-supplied replacement field list, if any
+ * @returns Markdown describing the search coverage
+ */
+function describeSearchCoverage(
+  fields: string[],
+  customFields?: string[],
+): string {
+  if (customFields && customFields.length > 0) {
+    return `This search looked across ${fields.length} field(s):\n${fields.map((field) => `- ${field}`).join("\n")}`;
+  }
+  return `This search looked across ${fields.length} fields including:\n- Text payloads\n- JSON payload fields (message, error, exception, stack traces, HTTP details, etc.)\n- Proto payload fields\n- Labels and metadata\n- HTTP request details\n- Source location information\n- Operation details`;
+}
+
+/**
+ * Maps a Cloud Logging severity to an MCP logging notification level
+ *
+ * Both use syslog severities, so only DEFAULT needs translating.
+ *
+ * @param severity The Cloud Logging severity
+ * @returns The MCP logging level
+ */
+function toNotificationLevel(
+  severity?: string,
+):
+  | "debug"
+  | "info"
+  | "notice"
+  | "warning"
+  | "error"
+  | "critical"
+  | "alert"
+  | "emergency" {
+  switch (severity) {
+    case "DEBUG":
+      return "debug";
+    case "NOTICE":
+      return "notice";
+    case "WARNING":
+      return "warning";
+    case "ERROR":
+      return "error";
+    case "CRITICAL":
+      return "critical";
+    case "ALERT":
+      return "alert";
+    case "EMERGENCY":
+      return "emergency";
+    default:
+      return "info";
+  }
 }
@@ -2,6 +2,7 @@
  * Type definitions for Google Cloud Logging service
  */
 import { Logging } from "@google-cloud/logging";
+import { decodeProtoPayload } from "./proto-payload.js";
 
 /**
  * Interface for Google Cloud Log Entry
@@ -64,6 +65,215 @@ export function getLoggingClient(): Logging {
   });
 }
 
+/**
+ * Calls a method on one of the generated Logging API clients
+ *
+ * The Logging class only wraps entries, logs and sinks; other resources such
+ * as log-based metrics are reached through its lazily created GAPIC clients.
+ *
+ * @param logging The Logging client
+ * @param client The GAPIC client name, e.g. "MetricsServiceV2Client"
+ * @param method The client method to call
+ * @param reqOpts The request message
+ * @returns The response message
+ */
+export function requestLoggingApi<T>(
+  logging: Logging,
+  client: "ConfigServiceV2Client" | "MetricsServiceV2Client",
+  method: string,
+  reqOpts: object,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    logging.request<T>({ client, method, reqOpts }, (err, response) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(response as T);
+    });
+  });
+}
+
+/**
+ * Converts a timestamp returned by the API into an ISO string
+ *
+ * @param value A Date, protobuf Timestamp or string
+ * @returns The timestamp as an ISO string, or the original value if it cannot be converted
+ */
+export function normaliseTimestamp(value: unknown): unknown {
+  if (value instanceof Date) {
+    return !isNaN(value.getTime()) ? value.toISOString() : undefined;
+  }
+  if (value && typeof value === "object" && "seconds" in value) {
+    const { seconds, nanos } = value as { seconds: unknown; nanos?: unknown };
+    const milliseconds = Number(seconds) * 1000 + Number(nanos || 0) / 1e6;
+    return !isNaN(milliseconds) ? new Date(milliseconds).toISOString() : value;
+  }
+  return value;
+}
+
+/**
+ * Normalises an entry returned by the Logging client into a LogEntry
+ *
+ * `getEntries` returns `Entry` instances that keep the API fields under
+ * `metadata` and the decoded payload under `data`. Plain LogEntry objects are
+ * returned unchanged apart from timestamp normalisation.
+ *
+ * @param entry An `Entry` instance or plain log entry object
+ * @returns The flattened log entry
+ */
+export function toLogEntry(entry: unknown): LogEntry {
+  if (!entry || typeof entry !== "object") {
+    return entry as LogEntry;
+  }
+
+  const candidate = entry as { metadata?: unknown; data?: unknown };
+  const hasMetadata =
+    candidate.metadata !== null && typeof candidate.metadata === "object";
+
+  const normalised: Record<string, unknown> = hasMetadata
+    ? { ...(candidate.metadata as Record<string, unknown>) }
+    : { ...(entry as Record<string, unknown>) };
+
+  if (hasMetadata) {
+    const payloadField =
+      typeof normalised.payload === "string" ? normalised.payload : undefined;
+    if (payloadField && candidate.data !== undefined) {
+      normalised[payloadField] = candidate.data;
+    } else if (
+      candidate.data !== undefined &&
+      candidate.data !== null &&
+      normalised.textPayload === undefined &&
+      normalised.jsonPayload === undefined &&
+      normalised.protoPayload === undefined
+    ) {
+      if (typeof candidate.data === "string") {
+        normalised.textPayload = candidate.data;
+      } else if (typeof candidate.data === "object") {
+        normalised.jsonPayload = candidate.data;
+      }
+    }
+    delete normalised.payload;
+  }
+
+  if (normalised.protoPayload && typeof normalised.protoPayload === "object") {
+    normalised.protoPayload = decodeProtoPayload(
+      normalised.protoPayload as Record<string, unknown>,
+    );
+  }
+  if (normalised.timestamp !== undefined) {
+    normalised.timestamp = normaliseTimestamp(normalised.timestamp);
+  }
+  if (normalised.receiveTimestamp !== undefined) {
+    normalised.receiveTimestamp = normaliseTimestamp(
+      normalised.receiveTimestamp,
+    );
+  }
+
+  return normalised as LogEntry;
+}
+
+/**
+ * Payload variants carried by a log entry
+ */
+export type LogPayloadType = "text" | "json" | "proto" | "none";
+
+/**
+ * Machine-readable representation of a log entry
+ */
+export interface NormalisedLogEntry {
+  timestamp?: string;
+  receiveTimestamp?: string;
+  severity: string;
+  logName?: string;
+  insertId?: string;
+  resource: {
+    type: string;
+    labels: Record<string, string>;
+  };
+  labels: Record<string, string>;
+  trace?: string;
+  spanId?: string;
+  traceSampled?: boolean;
+  httpRequest?: Record<string, unknown>;
+  sourceLocation?: Record<string, unknown>;
+  operation?: Record<string, unknown>;
+  payloadType: LogPayloadType;
+  payload: unknown;
+  /** Project ID, or folder, organization or billing account, for multi-resource queries */
+  source?: string;
+}
+
+/**
+ * Returns the value when it is a non-empty string
+ *
+ * @param value The value to check
+ * @returns The string, or undefined
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Converts a log entry into a stable, machine-readable shape
+ *
+ * Unlike formatLogEntry this keeps the payload as data so it can be returned
+ * as JSON rather than re-parsed from markdown.
+ *
+ * @param entry An `Entry` instance or plain log entry object
+ * @returns The normalised entry
+ */
+export function normaliseLogEntry(entry: unknown): NormalisedLogEntry {
+  const logEntry = toLogEntry(entry);
+
+  let payloadType: LogPayloadType = "none";
+  let payload: unknown = null;
+  if (logEntry.textPayload !== undefined && logEntry.textPayload !== null) {
+    payloadType = "text";
+    payload = String(logEntry.textPayload);
+  } else if (logEntry.jsonPayload) {
+    payloadType = "json";
+    payload = logEntry.jsonPayload;
+  } else if (logEntry.protoPayload) {
+    payloadType = "proto";
+    payload = logEntry.protoPayload;
+  } else {
+    // Mirror the payload-like fields that formatLogEntry falls back to
+    const data = logEntry.data || logEntry.message || logEntry.msg;
+    if (typeof data === "string") {
+      payloadType = "text";
+      payload = data;
+    } else if (data && typeof data === "object") {
+      payloadType = "json";
+      payload = data;
+    }
+  }
+
+  return {
+    timestamp: optionalString(logEntry.timestamp),
+    receiveTimestamp: optionalString(logEntry.receiveTimestamp),
+    severity: optionalString(logEntry.severity) || "DEFAULT",
+    logName: optionalString(logEntry.logName),
+    insertId: optionalString(logEntry.insertId),
+    resource: {
+      type: optionalString(logEntry.resource?.type) || "unknown",
+      labels: logEntry.resource?.labels || {},
+    },
+    labels: logEntry.labels || {},
+    trace: optionalString(logEntry.trace),
+    spanId: optionalString(logEntry.spanId),
+    traceSampled:
+      typeof logEntry.traceSampled === "boolean"
+        ? logEntry.traceSampled
+        : undefined,
+    httpRequest: logEntry.httpRequest || undefined,
+    sourceLocation: logEntry.sourceLocation || undefined,
+    operation: logEntry.operation || undefined,
+    payloadType,
+    payload,
+  };
+}
+
 /**
  * Formats a log entry for display with comprehensive information
  *
@@ -0,0 +1,481 @@
+/**
+ * Time series aggregation for Google Cloud Monitoring queries
+ *
+ * Builds the `aggregation` and `secondaryAggregation` fields of
+ * `listTimeSeries` requests and checks aligners and reducers against the
+ * metric kind and value type before the request is sent.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { GcpMcpError } from "../../utils/error.js";
+import { parseDurationSeconds } from "../../utils/time.js";
+import { getMonitoringClient } from "./types.js";
+
+/**
+ * Per-series aligners supported by Cloud Monitoring
+ */
+export const MONITORING_ALIGNERS = [
+  "ALIGN_NONE",
+  "ALIGN_DELTA",
+  "ALIGN_RATE",
+  "ALIGN_INTERPOLATE",
+  "ALIGN_NEXT_OLDER",
+  "ALIGN_MIN",
+  "ALIGN_MAX",
+  "ALIGN_MEAN",
+  "ALIGN_COUNT",
+  "ALIGN_SUM",
+  "ALIGN_STDDEV",
+  "ALIGN_COUNT_TRUE",
+  "ALIGN_COUNT_FALSE",
+  "ALIGN_FRACTION_TRUE",
+  "ALIGN_PERCENTILE_99",
+  "ALIGN_PERCENTILE_95",
+  "ALIGN_PERCENTILE_50",
+  "ALIGN_PERCENTILE_05",
+  "ALIGN_PERCENT_CHANGE",
+] as const;
+
+/**
+ * Cross-series reducers supported by Cloud Monitoring
+ */
+export const MONITORING_REDUCERS = [
+  "REDUCE_NONE",
+  "REDUCE_MEAN",
+  "REDUCE_MIN",
+  "REDUCE_MAX",
+  "REDUCE_SUM",
+  "REDUCE_STDDEV",
+  "REDUCE_COUNT",
+  "REDUCE_COUNT_TRUE",
+  "REDUCE_COUNT_FALSE",
+  "REDUCE_FRACTION_TRUE",
+  "REDUCE_PERCENTILE_99",
+  "REDUCE_PERCENTILE_95",
+  "REDUCE_PERCENTILE_50",
+  "REDUCE_PERCENTILE_05",
+] as const;
+
+export type MonitoringAligner = (typeof MONITORING_ALIGNERS)[number];
+export type MonitoringReducer = (typeof MONITORING_REDUCERS)[number];
+export type MetricKind = "GAUGE" | "DELTA" | "CUMULATIVE";
+export type MetricValueType =
+  | "BOOL"
+  | "INT64"
+  | "DOUBLE"
+  | "STRING"
+  | "DISTRIBUTION"
+  | "MONEY";
+
+/**
+ * The kind and value type of a metric, which decide the valid aligners
+ */
+export interface MetricShape {
+  metricKind: MetricKind;
+  valueType: MetricValueType;
+}
+
+/**
+ * Aggregation options as accepted by the query tools
+ */
+export interface TimeSeriesAggregationOptions {
+  /** Alignment period such as "60s" or "5m" */
+  alignmentPeriod?: string;
+  perSeriesAligner?: MonitoringAligner;
+  crossSeriesReducer?: MonitoringReducer;
+  groupByFields?: string[];
+}
+
+/**
+ * The metric kinds and value types an aligner or reducer accepts, and the
+ * value type it produces (the input type when omitted)
+ */
+interface AggregationRule {
+  kinds: MetricKind[];
+  valueTypes: MetricValueType[];
+  output?: MetricValueType;
+}
+
+const ALL_KINDS: MetricKind[] = ["GAUGE", "DELTA", "CUMULATIVE"];
+const ALIGNED_KINDS: MetricKind[] = ["GAUGE", "DELTA"];
+const NUMERIC: MetricValueType[] = ["INT64", "DOUBLE"];
+const ALL_VALUE_TYPES: MetricValueType[] = [
+  "BOOL",
+  "INT64",
+  "DOUBLE",
+  "STRING",
+  "DISTRIBUTION",
+  "MONEY",
+];
+
+const ALIGNER_RULES: Record<MonitoringAligner, AggregationRule> = {
+  ALIGN_NONE: { kinds: ALL_KINDS, valueTypes: ALL_VALUE_TYPES },
+  ALIGN_DELTA: {
+    kinds: ["CUMULATIVE", "DELTA"],
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+  },
+  ALIGN_RATE: {
+    kinds: ["CUMULATIVE", "DELTA"],
+    valueTypes: NUMERIC,
+    output: "DOUBLE",
+  },
+  ALIGN_INTERPOLATE: { kinds: ["GAUGE"], valueTypes: NUMERIC },
+  ALIGN_NEXT_OLDER: { kinds: ["GAUGE"], valueTypes: ALL_VALUE_TYPES },
+  ALIGN_MIN: { kinds: ALIGNED_KINDS, valueTypes: NUMERIC },
+  ALIGN_MAX: { kinds: ALIGNED_KINDS, valueTypes: NUMERIC },
+  ALIGN_MEAN: { kinds: ALIGNED_KINDS, valueTypes: NUMERIC, output: "DOUBLE" },
+  ALIGN_COUNT: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "BOOL"],
+    output: "INT64",
+  },
+  ALIGN_SUM: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+  },
+  ALIGN_STDDEV: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: NUMERIC,
+    output: "DOUBLE",
+  },
+  ALIGN_COUNT_TRUE: { kinds: ["GAUGE"], valueTypes: ["BOOL"], output: "INT64" },
+  ALIGN_COUNT_FALSE: {
+    kinds: ["GAUGE"],
+    valueTypes: ["BOOL"],
+    output: "INT64",
+  },
+  ALIGN_FRACTION_TRUE: {
+    kinds: ["GAUGE"],
+    valueTypes: ["BOOL"],
+    output: "DOUBLE",
+  },
+  ALIGN_PERCENTILE_99: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  ALIGN_PERCENTILE_95: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  ALIGN_PERCENTILE_50: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  ALIGN_PERCENTILE_05: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  ALIGN_PERCENT_CHANGE: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: NUMERIC,
+    output: "DOUBLE",
+  },
+};
+
+const REDUCER_RULES: Record<MonitoringReducer, AggregationRule> = {
+  REDUCE_NONE: { kinds: ALL_KINDS, valueTypes: ALL_VALUE_TYPES },
+  REDUCE_MEAN: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  REDUCE_MIN: { kinds: ALIGNED_KINDS, valueTypes: NUMERIC },
+  REDUCE_MAX: { kinds: ALIGNED_KINDS, valueTypes: NUMERIC },
+  REDUCE_SUM: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+  },
+  REDUCE_STDDEV: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  REDUCE_COUNT: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "BOOL", "STRING", "DISTRIBUTION"],
+    output: "INT64",
+  },
+  REDUCE_COUNT_TRUE: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["BOOL"],
+    output: "INT64",
+  },
+  REDUCE_COUNT_FALSE: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["BOOL"],
+    output: "INT64",
+  },
+  REDUCE_FRACTION_TRUE: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: ["BOOL"],
+    output: "DOUBLE",
+  },
+  REDUCE_PERCENTILE_99: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  REDUCE_PERCENTILE_95: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  REDUCE_PERCENTILE_50: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+  REDUCE_PERCENTILE_05: {
+    kinds: ALIGNED_KINDS,
+    valueTypes: [...NUMERIC, "DISTRIBUTION"],
+    output: "DOUBLE",
+  },
+};
+
+/**
+ * Builds a Monitoring aggregation from the tool options
+ *
+ * An alignment period on its own aligns with ALIGN_MEAN, as the query tools
+ * always have.
+ *
+ * @param options The aggregation options
+ * @param label Name of the options in error messages
+ * @returns The aggregation, or undefined when no option is set
+ */
+export function buildTimeSeriesAggregation(
+  options: TimeSeriesAggregationOptions,
+  label = "aggregation",
+): google.monitoring.v3.IAggregation | undefined {
+  const { alignmentPeriod, crossSeriesReducer, groupByFields } = options;
+  const perSeriesAligner =
+    options.perSeriesAligner ?? (alignmentPeriod ? "ALIGN_MEAN" : undefined);
+  if (!perSeriesAligner && !crossSeriesReducer && !groupByFields?.length) {
+    return undefined;
+  }
+
+  if (perSeriesAligner && perSeriesAligner !== "ALIGN_NONE") {
+    if (!alignmentPeriod) {
+      throw new GcpMcpError(
+        `The ${label} uses ${perSeriesAligner} but has no alignmentPeriod. Set an alignment period such as "60s".`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+  }
+  if (crossSeriesReducer && crossSeriesReducer !== "REDUCE_NONE") {
+    if (!perSeriesAligner || perSeriesAligner === "ALIGN_NONE") {
+      throw new GcpMcpError(
+        `The ${label} uses ${crossSeriesReducer}, which needs a perSeriesAligner other than ALIGN_NONE and an alignmentPeriod.`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+  }
+  if (
+    groupByFields?.length &&
+    (!crossSeriesReducer || crossSeriesReducer === "REDUCE_NONE")
+  ) {
+    throw new GcpMcpError(
+      `The ${label} sets groupByFields without a crossSeriesReducer. Choose a reducer such as REDUCE_SUM to combine the series in each group.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  const aggregation: google.monitoring.v3.IAggregation = {};
+  if (alignmentPeriod) {
+    aggregation.alignmentPeriod = {
+      seconds: parseDurationSeconds(alignmentPeriod, { allowZero: true }),
+    };
+  }
+  if (perSeriesAligner) {
+    aggregation.perSeriesAligner = perSeriesAligner;
+  }
+  if (crossSeriesReducer) {
+    aggregation.crossSeriesReducer = crossSeriesReducer;
+  }
+  if (groupByFields?.length) {
+    aggregation.groupByFields = groupByFields;
+  }
+  return aggregation;
+}
+
+/**
+ * Lists the names in a rule table that accept a metric shape
+ *
+ * @param rules The aligner or reducer rules
+ * @param shape The metric shape
+ * @returns The names that can be applied
+ */
+function namesValidFor(
+  rules: Record<string, AggregationRule>,
+  shape: MetricShape,
+): string[] {
+  return Object.entries(rules)
+    .filter(
+      ([, rule]) =>
+        rule.kinds.includes(shape.metricKind) &&
+        rule.valueTypes.includes(shape.valueType),
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Checks one aligner or reducer against the shape of its input
+ *
+ * @param rules The aligner or reducer rules
+ * @param name The aligner or reducer
+ * @param shape The shape of the series it is applied to
+ * @param role Description of the option in error messages
+ */
+function checkRule(
+  rules: Record<string, AggregationRule>,
+  name: string,
+  shape: MetricShape,
+  role: string,
+): void {
+  const rule = rules[name];
+  if (
+    rule.kinds.includes(shape.metricKind) &&
+    rule.valueTypes.includes(shape.valueType)
+  ) {
+    return;
+  }
+
+  throw new GcpMcpError(
+    `${role} ${name} cannot be applied to ${shape.metricKind} ${shape.valueType} series: it supports ${rule.kinds.join(" and ")} metrics with ${rule.valueTypes.join(" or ")} values. Valid choices here: ${namesValidFor(rules, shape).join(", ")}.`,
+    "INVALID_ARGUMENT",
+    400,
+  );
+}
+
+/**
+ * Checks an aggregation against the series it is applied to
+ *
+ * @param shape The shape of the input series
+ * @param aggregation The aggregation
+ * @param label Name of the aggregation in error messages
+ * @returns The shape of the aggregated series
+ */
+function applyAggregation(
+  shape: MetricShape,
+  aggregation: google.monitoring.v3.IAggregation,
+  label: string,
+): MetricShape {
+  let result = shape;
+
+  const aligner = aggregation.perSeriesAligner as MonitoringAligner | undefined;
+  if (aligner) {
+    checkRule(ALIGNER_RULES, aligner, result, `${label} perSeriesAligner`);
+    if (aligner !== "ALIGN_NONE") {
+      result = {
+        metricKind: aligner === "ALIGN_DELTA" ? "DELTA" : "GAUGE",
+        valueType: ALIGNER_RULES[aligner].output ?? result.valueType,
+      };
+    }
+  }
+
+  const reducer = aggregation.crossSeriesReducer as
+    | MonitoringReducer
+    | undefined;
+  if (reducer) {
+    checkRule(REDUCER_RULES, reducer, result, `${label} crossSeriesReducer`);
+    result = {
+      metricKind: result.metricKind,
+      valueType: REDUCER_RULES[reducer].output ?? result.valueType,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Checks aligners and reducers against the metric they are applied to
+ *
+ * The secondary aggregation is checked against the output of the primary
+ * one, so e.g. a rate can be summed and then averaged.
+ *
+ * @param shape The metric kind and value type
+ * @param aggregation The primary aggregation
+ * @param secondaryAggregation The secondary aggregation, if any
+ */
+export function validateTimeSeriesAggregation(
+  shape: MetricShape,
+  aggregation?: google.monitoring.v3.IAggregation,
+  secondaryAggregation?: google.monitoring.v3.IAggregation,
+): void {
+  let result = shape;
+  if (aggregation) {
+    result = applyAggregation(result, aggregation, "Aggregation");
+  }
+  if (secondaryAggregation) {
+    applyAggregation(result, secondaryAggregation, "Secondary aggregation");
+  }
+}
+
+/**
+ * Extracts the metric type from a filter that selects exactly one
+ *
+ * @param filter The Monitoring filter
+ * @returns The metric type, or undefined when it is not a simple equality
+ */
+export function getMetricTypeFromFilter(filter: string): string | undefined {
+  const matches = [...filter.matchAll(/metric\.type\s*=\s*"([^"]+)"/g)];
+  return matches.length === 1 ? matches[0][1] : undefined;
+}
+
+/**
+ * Looks up the kind and value type of a metric
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param metricType The metric type
+ * @returns The metric shape, or undefined when it cannot be determined
+ */
+export async function fetchMetricShape(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  metricType: string,
+): Promise<MetricShape | undefined> {
+  try {
+    const [descriptor] = await client.getMetricDescriptor({
+      name: `projects/${projectId}/metricDescriptors/${metricType}`,
+    });
+    if (!descriptor?.metricKind || !descriptor.valueType) {
+      return undefined;
+    }
+    return {
+      metricKind: String(descriptor.metricKind) as MetricKind,
+      valueType: String(descriptor.valueType) as MetricValueType,
+    };
+  } catch {
+    // Leave validation to the API when the descriptor cannot be read
+    return undefined;
+  }
+}
+
+/**
+ * Describes an aggregation for display
+ *
+ * @param aggregation The aggregation
+ * @returns A one-line summary
+ */
+export function formatTimeSeriesAggregation(
+  aggregation: google.monitoring.v3.IAggregation,
+): string {
+  const parts: string[] = [];
+  if (aggregation.perSeriesAligner) {
+    parts.push(
+      `${aggregation.perSeriesAligner}${aggregation.alignmentPeriod ? ` every ${aggregation.alignmentPeriod.seconds}s` : ""}`,
+    );
+  }
+  if (aggregation.crossSeriesReducer) {
+    parts.push(
+      `${aggregation.crossSeriesReducer}${aggregation.groupByFields?.length ? ` by ${aggregation.groupByFields.join(", ")}` : ""}`,
+    );
+  }
+  return parts.join(", ");
+}
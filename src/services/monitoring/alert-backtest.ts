@@ -0,0 +1,402 @@
+/**
+ * Backtesting of alert policy threshold conditions
+ *
+ * Replays a metric threshold condition over historical data to show when it
+ * would have fired. Each series fires once it has violated the threshold
+ * for the condition's duration and resolves at the first point that no
+ * longer violates it; the condition fires while enough series are firing to
+ * meet its trigger.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { GcpMcpError } from "../../utils/error.js";
+import { formatTimeSeriesAggregation } from "./aggregation.js";
+import {
+  ALERT_COMPARISON_SYMBOLS,
+  AlertComparison,
+  buildAlertCondition,
+  AlertThresholdSpec,
+} from "./alerting.js";
+import { extractNumericPoints, getTimeSeriesKey } from "./analysis.js";
+import { getMonitoringClient } from "./types.js";
+
+/**
+ * Most per-series incidents listed in the formatted result
+ */
+const MAX_LISTED_INCIDENTS = 50;
+
+/**
+ * A threshold condition in the form evaluated by the backtest
+ */
+export interface BacktestCondition {
+  displayName: string;
+  filter: string;
+  comparison: AlertComparison;
+  thresholdValue: number;
+  durationSeconds: number;
+  aggregation?: google.monitoring.v3.IAggregation;
+  triggerCount?: number;
+  triggerPercent?: number;
+}
+
+/**
+ * A period during which one series was firing
+ */
+export interface BacktestIncident {
+  series: string;
+  /** When the threshold was first crossed */
+  violationStart: string;
+  /** When the condition would have fired */
+  start: string;
+  /** When it would have resolved; undefined if still firing at the end */
+  end?: string;
+  /** The most extreme value while firing */
+  peakValue: number;
+}
+
+/**
+ * A period during which the condition as a whole was firing
+ */
+export interface BacktestFiring {
+  start: string;
+  end?: string;
+}
+
+/**
+ * Result of a backtest
+ */
+export interface BacktestResult {
+  condition: BacktestCondition;
+  start: string;
+  end: string;
+  seriesEvaluated: number;
+  /** Series that must fire together for the condition to fire */
+  requiredSeries: number;
+  incidents: BacktestIncident[];
+  firings: BacktestFiring[];
+  /** Total seconds the condition was firing within the window */
+  firingSeconds: number;
+}
+
+/**
+ * Converts a threshold condition of an existing policy
+ *
+ * @param condition The policy condition
+ * @returns The condition to backtest
+ */
+export function toBacktestCondition(
+  condition: google.monitoring.v3.AlertPolicy.ICondition,
+): BacktestCondition {
+  const threshold = condition.conditionThreshold;
+  if (!threshold) {
+    throw new GcpMcpError(
+      `Condition "${condition.displayName}" is not a metric threshold condition. Only threshold conditions can be backtested.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  if (threshold.denominatorFilter || threshold.forecastOptions) {
+    throw new GcpMcpError(
+      `Condition "${condition.displayName}" uses a ratio or forecast, which the backtest does not support.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  if ((threshold.aggregations ?? []).length > 1) {
+    throw new GcpMcpError(
+      `Condition "${condition.displayName}" chains several aggregations, which the backtest does not support.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  return {
+    displayName: condition.displayName ?? "",
+    filter: threshold.filter ?? "",
+    comparison: String(
+      threshold.comparison ?? "COMPARISON_GT",
+    ) as AlertComparison,
+    thresholdValue: threshold.thresholdValue ?? 0,
+    durationSeconds: Number(threshold.duration?.seconds ?? 0),
+    aggregation: threshold.aggregations?.[0],
+    triggerCount: threshold.trigger?.count || undefined,
+    triggerPercent: threshold.trigger?.percent || undefined,
+  };
+}
+
+/**
+ * Converts a threshold spec, e.g. for a policy not yet created
+ *
+ * @param spec The threshold spec
+ * @returns The condition to backtest
+ */
+export function thresholdSpecToBacktestCondition(
+  spec: AlertThresholdSpec,
+): BacktestCondition {
+  return toBacktestCondition(
+    buildAlertCondition({ displayName: "Proposed condition", threshold: spec }),
+  );
+}
+
+/**
+ * Checks whether a value violates the threshold
+ *
+ * @param value The value
+ * @param comparison The comparison
+ * @param threshold The threshold
+ * @returns Whether the value violates it
+ */
+function violates(
+  value: number,
+  comparison: AlertComparison,
+  threshold: number,
+): boolean {
+  switch (comparison) {
+    case "COMPARISON_GT":
+      return value > threshold;
+    case "COMPARISON_GE":
+      return value >= threshold;
+    case "COMPARISON_LT":
+      return value < threshold;
+    case "COMPARISON_LE":
+      return value <= threshold;
+    case "COMPARISON_EQ":
+      return value === threshold;
+    case "COMPARISON_NE":
+      return value !== threshold;
+  }
+}
+
+/**
+ * Describes a series by its labels
+ *
+ * @param series The time series
+ * @returns The labels, or the metric type when there are none
+ */
+function describeSeries(series: google.monitoring.v3.ITimeSeries): string {
+  const labels = [
+    ...Object.entries(series.resource?.labels ?? {}),
+    ...Object.entries(series.metric?.labels ?? {}),
+  ]
+    .map(([k, v]) => `${k}=${v}`)
+    .join(", ");
+  return labels || series.metric?.type || "(series)";
+}
+
+/**
+ * A series incident with times in milliseconds
+ */
+interface SeriesIncident {
+  series: string;
+  violationStart: number;
+  start: number;
+  end?: number;
+  peakValue: number;
+}
+
+/**
+ * Finds the periods during which one series would have been firing
+ *
+ * @param series The time series
+ * @param condition The condition
+ * @returns The incidents in time order
+ */
+function evaluateSeries(
+  series: google.monitoring.v3.ITimeSeries,
+  condition: BacktestCondition,
+): SeriesIncident[] {
+  const incidents: SeriesIncident[] = [];
+  const name = describeSeries(series);
+  const durationMs = condition.durationSeconds * 1000;
+  const moreExtreme = (a: number, b: number) =>
+    condition.comparison === "COMPARISON_LT" ||
+    condition.comparison === "COMPARISON_LE"
+      ? a < b
+      : a > b;
+
+  let runStart: number | undefined;
+  let current: SeriesIncident | undefined;
+  for (const point of extractNumericPoints(series)) {
+    if (
+      !violates(point.value, condition.comparison, condition.thresholdValue)
+    ) {
+      if (current) {
+        current.end = point.time;
+      }
+      runStart = undefined;
+      current = undefined;
+      continue;
+    }
+
+    runStart = runStart ?? point.time;
+    if (current) {
+      if (moreExtreme(point.value, current.peakValue)) {
+        current.peakValue = point.value;
+      }
+    } else if (point.time - runStart >= durationMs) {
+      current = {
+        series: name,
+        violationStart: runStart,
+        start: point.time,
+        peakValue: point.value,
+      };
+      incidents.push(current);
+    }
+  }
+  return incidents;
+}
+
+/**
+ * Evaluates a threshold condition against fetched time series
+ *
+ * @param timeSeries The series matched by the condition
+ * @param condition The condition
+ * @param start Start of the backtest window
+ * @param end End of the backtest window
+ * @returns When the condition would have fired
+ */
+export function evaluateThresholdCondition(
+  timeSeries: google.monitoring.v3.ITimeSeries[],
+  condition: BacktestCondition,
+  start: Date,
+  end: Date,
+): BacktestResult {
+  const unique = new Map(
+    timeSeries.map((series) => [getTimeSeriesKey(series), series]),
+  );
+  const incidents = [...unique.values()].flatMap((series) =>
+    evaluateSeries(series, condition),
+  );
+  const requiredSeries = Math.max(
+    1,
+    condition.triggerCount ??
+      (condition.triggerPercent
+        ? Math.ceil((condition.triggerPercent / 100) * unique.size)
+        : 1),
+  );
+
+  // Sweep over incident boundaries, counting the series firing at once
+  const events = incidents
+    .flatMap((incident) => [
+      { time: incident.start, change: 1 },
+      ...(incident.end !== undefined
+        ? [{ time: incident.end, change: -1 }]
+        : []),
+    ])
+    .sort((a, b) => a.time - b.time || a.change - b.change);
+  const firings: Array<{ start: number; end?: number }> = [];
+  let active = 0;
+  for (const event of events) {
+    const wasFiring = active >= requiredSeries;
+    active += event.change;
+    if (!wasFiring && active >= requiredSeries) {
+      firings.push({ start: event.time });
+    } else if (wasFiring && active < requiredSeries) {
+      firings[firings.length - 1].end = event.time;
+    }
+  }
+
+  const firingSeconds = firings.reduce(
+    (total, firing) =>
+      total + ((firing.end ?? end.getTime()) - firing.start) / 1000,
+    0,
+  );
+  const iso = (time: number) => new Date(time).toISOString();
+
+  return {
+    condition,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    seriesEvaluated: unique.size,
+    requiredSeries,
+    incidents: incidents
+      .sort((a, b) => a.start - b.start)
+      .map((incident) => ({
+        series: incident.series,
+        violationStart: iso(incident.violationStart),
+        start: iso(incident.start),
+        end: incident.end !== undefined ? iso(incident.end) : undefined,
+        peakValue: incident.peakValue,
+      })),
+    firings: firings.map((firing) => ({
+      start: iso(firing.start),
+      end: firing.end !== undefined ? iso(firing.end) : undefined,
+    })),
+    firingSeconds,
+  };
+}
+
+/**
+ * Fetches historical data for a condition and evaluates it
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param condition The condition
+ * @param start Start of the backtest window
+ * @param end End of the backtest window
+ * @returns When the condition would have fired
+ */
+export async function backtestThresholdCondition(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  condition: BacktestCondition,
+  start: Date,
+  end: Date,
+): Promise<BacktestResult> {
+  const [timeSeries] = await client.listTimeSeries({
+    name: `projects/${projectId}`,
+    filter: condition.filter,
+    interval: {
+      startTime: { seconds: Math.floor(start.getTime() / 1000), nanos: 0 },
+      endTime: { seconds: Math.floor(end.getTime() / 1000), nanos: 0 },
+    },
+    aggregation: condition.aggregation,
+  });
+  return evaluateThresholdCondition(timeSeries ?? [], condition, start, end);
+}
+
+/**
+ * Formats a backtest result
+ *
+ * @param result The backtest result
+ * @returns A markdown report
+ */
+export function formatBacktestResult(result: BacktestResult): string {
+  const { condition } = result;
+  let text = `## ${condition.displayName}\n\n`;
+  text += `- Filter: \`${condition.filter}\`\n`;
+  if (condition.aggregation) {
+    text += `- Aggregation: ${formatTimeSeriesAggregation(condition.aggregation)}\n`;
+  }
+  text += `- Threshold: value ${ALERT_COMPARISON_SYMBOLS[condition.comparison]} ${condition.thresholdValue} for ${condition.durationSeconds}s\n`;
+  text += `- Series evaluated: ${result.seriesEvaluated}`;
+  text +=
+    result.requiredSeries > 1
+      ? ` (fires when ${result.requiredSeries} violate at once)\n\n`
+      : "\n\n";
+
+  if (result.firings.length === 0) {
+    text += `**Would not have fired** between ${result.start} and ${result.end}.\n`;
+    return text;
+  }
+
+  const total =
+    result.firingSeconds < 3600
+      ? `${Math.round(result.firingSeconds / 60)}m`
+      : `${(result.firingSeconds / 3600).toFixed(1)}h`;
+  text += `**Would have fired ${result.firings.length} time${result.firings.length === 1 ? "" : "s"}**, for ${total} in total.\n\n`;
+  text += "| Fired | Resolved |\n|-------|----------|\n";
+  for (const firing of result.firings) {
+    text += `| ${firing.start} | ${firing.end ?? "still firing"} |\n`;
+  }
+
+  text += "\n### Series Incidents\n\n";
+  text += "| Series | Threshold Crossed | Fired | Resolved | Peak |\n";
+  text += "|--------|-------------------|-------|----------|------|\n";
+  for (const incident of result.incidents.slice(0, MAX_LISTED_INCIDENTS)) {
+    text += `| ${incident.series} | ${incident.violationStart} | ${incident.start} | ${incident.end ?? "still firing"} | ${incident.peakValue} |\n`;
+  }
+  if (result.incidents.length > MAX_LISTED_INCIDENTS) {
+    text += `\n${result.incidents.length - MAX_LISTED_INCIDENTS} more incidents not shown.\n`;
+  }
+  return text;
+}
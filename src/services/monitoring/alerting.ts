@@ -0,0 +1,650 @@
+/**
+ * Alerting policies for Google Cloud Monitoring
+ *
+ * Builds alert policies from a structured spec, applies partial changes with
+ * the matching update mask, and formats policies, their conditions and
+ * notification channels for display.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { z } from "zod";
+import { GcpMcpError } from "../../utils/error.js";
+import { parseDurationSeconds } from "../../utils/time.js";
+import {
+  MONITORING_ALIGNERS,
+  MONITORING_REDUCERS,
+  TimeSeriesAggregationOptions,
+  buildTimeSeriesAggregation,
+  formatTimeSeriesAggregation,
+} from "./aggregation.js";
+import { getNotificationChannelClient } from "./types.js";
+
+type AlertPolicy = google.monitoring.v3.IAlertPolicy;
+type AlertCondition = google.monitoring.v3.AlertPolicy.ICondition;
+type NotificationChannel = google.monitoring.v3.INotificationChannel;
+
+/**
+ * Comparisons available to threshold conditions
+ */
+export const ALERT_COMPARISONS = [
+  "COMPARISON_GT",
+  "COMPARISON_GE",
+  "COMPARISON_LT",
+  "COMPARISON_LE",
+  "COMPARISON_EQ",
+  "COMPARISON_NE",
+] as const;
+
+/**
+ * Ways of combining the conditions of a policy
+ */
+export const ALERT_COMBINERS = [
+  "OR",
+  "AND",
+  "AND_WITH_MATCHING_RESOURCE",
+] as const;
+
+/**
+ * Severities that can be set on a policy
+ */
+export const ALERT_SEVERITIES = ["CRITICAL", "ERROR", "WARNING"] as const;
+
+export type AlertComparison = (typeof ALERT_COMPARISONS)[number];
+
+/**
+ * Symbols used when describing comparisons
+ */
+export const ALERT_COMPARISON_SYMBOLS: Record<AlertComparison, string> = {
+  COMPARISON_GT: ">",
+  COMPARISON_GE: ">=",
+  COMPARISON_LT: "<",
+  COMPARISON_LE: "<=",
+  COMPARISON_EQ: "==",
+  COMPARISON_NE: "!=",
+};
+
+/**
+ * A metric threshold condition
+ */
+export interface AlertThresholdSpec {
+  filter: string;
+  comparison: AlertComparison;
+  thresholdValue: number;
+  /** How long the threshold must be crossed, e.g. "5m" (default "0s") */
+  duration?: string;
+  aggregation?: TimeSeriesAggregationOptions;
+  triggerCount?: number;
+  triggerPercent?: number;
+}
+
+/**
+ * A metric absence condition
+ */
+export interface AlertAbsenceSpec {
+  filter: string;
+  /** How long data must be missing, e.g. "10m" */
+  duration: string;
+  aggregation?: TimeSeriesAggregationOptions;
+  triggerCount?: number;
+  triggerPercent?: number;
+}
+
+/**
+ * A policy condition; exactly one of threshold and absent is set
+ */
+export interface AlertConditionSpec {
+  displayName: string;
+  threshold?: AlertThresholdSpec;
+  absent?: AlertAbsenceSpec;
+}
+
+/**
+ * Changes that can be applied to an alert policy
+ */
+export interface AlertPolicyChanges {
+  displayName?: string;
+  /** Markdown shown in notifications */
+  documentation?: string;
+  combiner?: (typeof ALERT_COMBINERS)[number];
+  enabled?: boolean;
+  severity?: (typeof ALERT_SEVERITIES)[number];
+  /** Channel IDs or full resource names */
+  notificationChannels?: string[];
+  userLabels?: Record<string, string>;
+  conditions?: AlertConditionSpec[];
+}
+
+/**
+ * Definition of a new alert policy
+ */
+export interface AlertPolicySpec extends AlertPolicyChanges {
+  displayName: string;
+  conditions: AlertConditionSpec[];
+}
+
+/**
+ * Input schema for condition aggregation
+ */
+export const alertAggregationSchema = z.object({
+  alignmentPeriod: z
+    .string()
+    .optional()
+    .describe('Alignment period, e.g. "60s"'),
+  perSeriesAligner: z.enum(MONITORING_ALIGNERS).optional(),
+  crossSeriesReducer: z.enum(MONITORING_REDUCERS).optional(),
+  groupByFields: z.array(z.string()).optional(),
+});
+
+/**
+ * Input schema for threshold conditions
+ */
+export const alertThresholdSchema = z.object({
+  filter: z.string().describe("Monitoring filter selecting the time series"),
+  comparison: z.enum(ALERT_COMPARISONS),
+  thresholdValue: z.number(),
+  duration: z
+    .string()
+    .optional()
+    .describe('How long the threshold must be crossed, e.g. "5m"'),
+  aggregation: alertAggregationSchema.optional(),
+  triggerCount: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Number of series that must violate at once (default 1)"),
+  triggerPercent: z
+    .number()
+    .positive()
+    .max(100)
+    .optional()
+    .describe("Percentage of series that must violate at once"),
+});
+
+/**
+ * Input schema for policy conditions
+ */
+export const alertConditionSchema = z.object({
+  displayName: z.string(),
+  threshold: alertThresholdSchema
+    .optional()
+    .describe("Fire when a metric crosses a threshold"),
+  absent: z
+    .object({
+      filter: z.string(),
+      duration: z
+        .string()
+        .describe('How long data must be missing, e.g. "10m"'),
+      aggregation: alertAggregationSchema.optional(),
+      triggerCount: z.number().int().positive().optional(),
+      triggerPercent: z.number().positive().max(100).optional(),
+    })
+    .optional()
+    .describe("Fire when a metric stops reporting"),
+});
+
+/**
+ * Input schema fields for alert policy changes
+ */
+export const alertPolicyChangesShape = {
+  displayName: z.string().optional().describe("Policy name shown in the UI"),
+  documentation: z
+    .string()
+    .optional()
+    .describe("Markdown included in notifications, e.g. a runbook link"),
+  combiner: z
+    .enum(ALERT_COMBINERS)
+    .optional()
+    .describe("How conditions combine (default OR)"),
+  enabled: z.boolean().optional(),
+  severity: z.enum(ALERT_SEVERITIES).optional(),
+  notificationChannels: z
+    .array(z.string())
+    .optional()
+    .describe("Notification channel IDs or resource names"),
+  userLabels: z.record(z.string()).optional(),
+  conditions: z
+    .array(alertConditionSchema)
+    .optional()
+    .describe("Replacement conditions"),
+};
+
+const RESOURCE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Builds a resource name from an ID or returns a full name unchanged
+ *
+ * @param parent The parent resource, e.g. projects/my-project
+ * @param collection The collection, e.g. alertPolicies
+ * @param idOrName The ID or full resource name
+ * @returns The resource name
+ */
+export function monitoringResourceName(
+  parent: string,
+  collection: string,
+  idOrName: string,
+): string {
+  if (idOrName.startsWith("projects/")) {
+    return idOrName;
+  }
+  if (!RESOURCE_ID_PATTERN.test(idOrName)) {
+    throw new GcpMcpError(
+      `Invalid ${collection} ID: "${idOrName}". Pass the ID or the full resource name.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return `${parent}/${collection}/${idOrName}`;
+}
+
+/**
+ * Builds the resource name of an alert policy
+ *
+ * @param projectId The project ID
+ * @param policy The policy ID or resource name
+ * @returns The policy resource name
+ */
+export function alertPolicyResourceName(
+  projectId: string,
+  policy: string,
+): string {
+  return monitoringResourceName(
+    `projects/${projectId}`,
+    "alertPolicies",
+    policy,
+  );
+}
+
+/**
+ * Builds the resource name of a notification channel
+ *
+ * @param projectId The project ID
+ * @param channel The channel ID or resource name
+ * @returns The channel resource name
+ */
+export function notificationChannelResourceName(
+  projectId: string,
+  channel: string,
+): string {
+  return monitoringResourceName(
+    `projects/${projectId}`,
+    "notificationChannels",
+    channel,
+  );
+}
+
+/**
+ * Converts a duration such as "5m" into a protobuf duration
+ *
+ * @param duration The duration
+ * @returns The protobuf duration
+ */
+function toDuration(duration: string): google.protobuf.IDuration {
+  return { seconds: parseDurationSeconds(duration, { allowZero: true }) };
+}
+
+/**
+ * Builds the trigger of a condition
+ *
+ * @param spec The condition settings
+ * @param label Name of the condition in error messages
+ * @returns The trigger, if one was requested
+ */
+function buildTrigger(
+  spec: { triggerCount?: number; triggerPercent?: number },
+  label: string,
+): google.monitoring.v3.AlertPolicy.Condition.ITrigger | undefined {
+  if (spec.triggerCount !== undefined && spec.triggerPercent !== undefined) {
+    throw new GcpMcpError(
+      `${label} sets both triggerCount and triggerPercent; choose one.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  if (spec.triggerCount !== undefined) {
+    return { count: spec.triggerCount };
+  }
+  if (spec.triggerPercent !== undefined) {
+    return { percent: spec.triggerPercent };
+  }
+  return undefined;
+}
+
+/**
+ * Builds an API condition from a condition spec
+ *
+ * @param spec The condition spec
+ * @returns The API condition
+ */
+export function buildAlertCondition(spec: AlertConditionSpec): AlertCondition {
+  const label = `Condition "${spec.displayName}"`;
+  if (Boolean(spec.threshold) === Boolean(spec.absent)) {
+    throw new GcpMcpError(
+      `${label} must set exactly one of threshold or absent.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  const settings = (spec.threshold ?? spec.absent)!;
+  const aggregation = buildTimeSeriesAggregation(
+    settings.aggregation ?? {},
+    `aggregation of ${label.toLowerCase()}`,
+  );
+  const common = {
+    filter: settings.filter,
+    aggregations: aggregation ? [aggregation] : [],
+    trigger: buildTrigger(settings, label),
+  };
+
+  if (spec.threshold) {
+    return {
+      displayName: spec.displayName,
+      conditionThreshold: {
+        ...common,
+        comparison: spec.threshold.comparison,
+        thresholdValue: spec.threshold.thresholdValue,
+        duration: toDuration(spec.threshold.duration ?? "0s"),
+      },
+    };
+  }
+  return {
+    displayName: spec.displayName,
+    conditionAbsent: { ...common, duration: toDuration(spec.absent!.duration) },
+  };
+}
+
+/**
+ * Applies changes to an alert policy
+ *
+ * Conditions and notification channels replace the existing lists, matching
+ * how the API applies update masks to repeated fields.
+ *
+ * @param existing The current policy
+ * @param changes The changes to apply
+ * @param projectId The project ID, used to expand channel IDs
+ * @returns The updated policy and the update mask paths
+ */
+export function applyAlertPolicyChanges(
+  existing: AlertPolicy,
+  changes: AlertPolicyChanges,
+  projectId: string,
+): { policy: AlertPolicy; updateMask: string[] } {
+  const policy: AlertPolicy = { ...existing };
+  const updateMask: string[] = [];
+
+  if (changes.displayName !== undefined) {
+    policy.displayName = changes.displayName;
+    updateMask.push("display_name");
+  }
+  if (changes.documentation !== undefined) {
+    policy.documentation = {
+      content: changes.documentation,
+      mimeType: "text/markdown",
+    };
+    updateMask.push("documentation");
+  }
+  if (changes.combiner !== undefined) {
+    policy.combiner = changes.combiner;
+    updateMask.push("combiner");
+  }
+  if (changes.enabled !== undefined) {
+    policy.enabled = { value: changes.enabled };
+    updateMask.push("enabled");
+  }
+  if (changes.severity !== undefined) {
+    policy.severity = changes.severity;
+    updateMask.push("severity");
+  }
+  if (changes.notificationChannels !== undefined) {
+    policy.notificationChannels = changes.notificationChannels.map((channel) =>
+      notificationChannelResourceName(projectId, channel),
+    );
+    updateMask.push("notification_channels");
+  }
+  if (changes.userLabels !== undefined) {
+    policy.userLabels = { ...changes.userLabels };
+    updateMask.push("user_labels");
+  }
+  if (changes.conditions !== undefined) {
+    if (changes.conditions.length === 0) {
+      throw new GcpMcpError(
+        "An alert policy needs at least one condition",
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    policy.conditions = changes.conditions.map(buildAlertCondition);
+    updateMask.push("conditions");
+  }
+
+  if (updateMask.length === 0) {
+    throw new GcpMcpError(
+      "No changes were given. Set at least one field to update.",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  return { policy, updateMask };
+}
+
+/**
+ * Builds a new alert policy
+ *
+ * @param spec The policy spec
+ * @param projectId The project ID, used to expand channel IDs
+ * @returns The policy in the shape used by the API
+ */
+export function buildAlertPolicy(
+  spec: AlertPolicySpec,
+  projectId: string,
+): AlertPolicy {
+  return applyAlertPolicyChanges(
+    { combiner: "OR", enabled: { value: true } },
+    { ...spec, combiner: spec.combiner ?? "OR" },
+    projectId,
+  ).policy;
+}
+
+/**
+ * Fetches the notification channels of a project by resource name
+ *
+ * A failure leaves the map empty so policies can still be shown, with
+ * channels identified by name only.
+ *
+ * @param client The Notification Channel client
+ * @param projectId The project ID
+ * @returns The channels keyed by resource name
+ */
+export async function fetchNotificationChannels(
+  client: ReturnType<typeof getNotificationChannelClient>,
+  projectId: string,
+): Promise<Map<string, NotificationChannel>> {
+  try {
+    const [channels] = await client.listNotificationChannels({
+      name: `projects/${projectId}`,
+    });
+    return new Map(
+      (channels ?? []).map((channel) => [channel.name ?? "", channel]),
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Describes a notification channel
+ *
+ * @param name The channel resource name
+ * @param channels Known channels keyed by resource name
+ * @returns A one-line description
+ */
+function describeChannel(
+  name: string,
+  channels: Map<string, NotificationChannel>,
+): string {
+  const channel = channels.get(name);
+  if (!channel) {
+    return name;
+  }
+  const enabled = channel.enabled?.value === false ? ", disabled" : "";
+  return `${channel.displayName || name} (${channel.type}${enabled})`;
+}
+
+/**
+ * Gets the ID of a resource from its name
+ *
+ * @param name The resource name
+ * @returns The last path segment
+ */
+function resourceId(name?: string | null): string {
+  return (name ?? "").split("/").pop() ?? "";
+}
+
+/**
+ * Formats a protobuf duration
+ *
+ * @param duration The duration
+ * @returns The duration in seconds, e.g. "300s"
+ */
+function formatDuration(duration?: google.protobuf.IDuration | null): string {
+  return `${Number(duration?.seconds ?? 0)}s`;
+}
+
+/**
+ * Describes a condition in a few lines of markdown
+ *
+ * @param condition The condition
+ * @returns The description
+ */
+export function describeAlertCondition(condition: AlertCondition): string {
+  const lines: string[] = [];
+  const describeCommon = (settings: {
+    filter?: string | null;
+    aggregations?: google.monitoring.v3.IAggregation[] | null;
+    trigger?: google.monitoring.v3.AlertPolicy.Condition.ITrigger | null;
+  }) => {
+    lines.push(`  - Filter: \`${settings.filter}\``);
+    for (const aggregation of settings.aggregations ?? []) {
+      lines.push(
+        `  - Aggregation: ${formatTimeSeriesAggregation(aggregation)}`,
+      );
+    }
+    if (settings.trigger?.count) {
+      lines.push(`  - Trigger: ${settings.trigger.count} series`);
+    } else if (settings.trigger?.percent) {
+      lines.push(`  - Trigger: ${settings.trigger.percent}% of series`);
+    }
+  };
+
+  if (condition.conditionThreshold) {
+    const threshold = condition.conditionThreshold;
+    const symbol =
+      ALERT_COMPARISON_SYMBOLS[threshold.comparison as AlertComparison] ??
+      threshold.comparison;
+    lines.push(
+      `- **${condition.displayName}** (threshold): value ${symbol} ${threshold.thresholdValue ?? 0} for ${formatDuration(threshold.duration)}`,
+    );
+    describeCommon(threshold);
+    if (threshold.denominatorFilter) {
+      lines.push(`  - Denominator: \`${threshold.denominatorFilter}\``);
+    }
+  } else if (condition.conditionAbsent) {
+    lines.push(
+      `- **${condition.displayName}** (absence): no data for ${formatDuration(condition.conditionAbsent.duration)}`,
+    );
+    describeCommon(condition.conditionAbsent);
+  } else if (condition.conditionMonitoringQueryLanguage) {
+    const mql = condition.conditionMonitoringQueryLanguage;
+    lines.push(
+      `- **${condition.displayName}** (MQL) for ${formatDuration(mql.duration)}`,
+    );
+    lines.push(`  - Query: \`${mql.query}\``);
+  } else if (condition.conditionPrometheusQueryLanguage) {
+    const promql = condition.conditionPrometheusQueryLanguage;
+    lines.push(
+      `- **${condition.displayName}** (PromQL) for ${formatDuration(promql.duration)}`,
+    );
+    lines.push(`  - Query: \`${promql.query}\``);
+  } else if (condition.conditionMatchedLog) {
+    lines.push(`- **${condition.displayName}** (log match)`);
+    lines.push(`  - Filter: \`${condition.conditionMatchedLog.filter}\``);
+  } else {
+    lines.push(`- **${condition.displayName}** (unsupported condition type)`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a list of policies as a table
+ *
+ * @param policies The policies
+ * @param channels Known channels keyed by resource name
+ * @returns A markdown table
+ */
+export function formatAlertPolicies(
+  policies: AlertPolicy[],
+  channels: Map<string, NotificationChannel>,
+): string {
+  if (policies.length === 0) {
+    return "No alert policies found.";
+  }
+
+  let text = "| ID | Name | Enabled | Severity | Conditions | Channels |\n";
+  text += "|----|------|---------|----------|------------|----------|\n";
+  for (const policy of policies) {
+    const conditions = (policy.conditions ?? [])
+      .map((condition) => condition.displayName)
+      .join("; ");
+    const policyChannels = (policy.notificationChannels ?? [])
+      .map((name) => describeChannel(name, channels))
+      .join("; ");
+    text += `| ${resourceId(policy.name)} | ${policy.displayName} | ${policy.enabled?.value === false ? "No" : "Yes"} | ${policy.severity || "-"} | ${conditions || "-"} | ${policyChannels || "-"} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats one policy with its conditions and channels
+ *
+ * @param policy The policy
+ * @param channels Known channels keyed by resource name
+ * @returns The formatted policy
+ */
+export function formatAlertPolicy(
+  policy: AlertPolicy,
+  channels: Map<string, NotificationChannel>,
+): string {
+  let text = `## ${policy.displayName}\n\n`;
+  text += `- **Name:** ${policy.name}\n`;
+  text += `- **Enabled:** ${policy.enabled?.value === false ? "No" : "Yes"}\n`;
+  if (policy.severity) {
+    text += `- **Severity:** ${policy.severity}\n`;
+  }
+  text += `- **Combiner:** ${policy.combiner || "OR"}\n`;
+  if (policy.userLabels && Object.keys(policy.userLabels).length > 0) {
+    text += `- **Labels:** ${Object.entries(policy.userLabels)
+      .map(([k, v]) => `${k}=${v}`)
+      .join(", ")}\n`;
+  }
+  if (policy.validity?.message) {
+    text += `- **Validity:** ${policy.validity.message}\n`;
+  }
+
+  text += `\n### Conditions\n\n`;
+  text +=
+    (policy.conditions ?? []).map(describeAlertCondition).join("\n") ||
+    "No conditions.";
+  text += "\n\n### Notification Channels\n\n";
+  text +=
+    (policy.notificationChannels ?? [])
+      .map((name) => `- ${describeChannel(name, channels)}`)
+      .join("\n") || "No notification channels; incidents are not notified.";
+  text += "\n";
+
+  if (policy.documentation?.content) {
+    text += `\n### Documentation\n\n${policy.documentation.content}\n`;
+  }
+  return text;
+}
@@ -0,0 +1,602 @@
+/**
+ * Statistical summaries and anomaly detection for Monitoring time series
+ *
+ * Everything here runs in-process on points already fetched from the API,
+ * so long windows can be reported as a few numbers per series instead of
+ * thousands of rows.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { getMonitoringClient } from "./types.js";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Fewest points on each side of a change point
+ */
+const MIN_CHANGE_SEGMENT = 5;
+
+/**
+ * Most change points reported per series
+ */
+const MAX_CHANGE_POINTS = 5;
+
+/**
+ * Smallest shift in mean, in pooled standard deviations, reported as a
+ * change point
+ */
+const CHANGE_POINT_EFFECT_SIZE = 1.5;
+
+/**
+ * Fewest baseline values needed to judge whether a point is anomalous
+ */
+const MIN_BASELINE_VALUES = 3;
+
+/**
+ * A numeric sample of a series
+ */
+export interface NumericPoint {
+  /** Milliseconds since the epoch */
+  time: number;
+  value: number;
+}
+
+/**
+ * A sustained shift in the mean of a series
+ */
+export interface ChangePoint {
+  time: string;
+  meanBefore: number;
+  meanAfter: number;
+}
+
+/**
+ * A run of consecutive points far from the seasonal baseline
+ */
+export interface SeasonalAnomaly {
+  start: string;
+  end: string;
+  direction: "above" | "below";
+  /** The value furthest from the baseline */
+  peakValue: number;
+  /** The baseline median at the peak */
+  expectedValue: number;
+  /** Robust z-score at the peak */
+  score: number;
+}
+
+/**
+ * Statistical summary of one series
+ */
+export interface TimeSeriesSummary {
+  metricType: string;
+  resourceType: string;
+  resourceLabels: Record<string, string>;
+  metricLabels: Record<string, string>;
+  points: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  first: number;
+  last: number;
+  /** Least-squares slope in units per hour */
+  slopePerHour: number;
+  changePoints: ChangePoint[];
+  /** Undefined when no seasonal baseline was requested */
+  anomalies?: SeasonalAnomaly[];
+  /** Days of baseline data found for the series */
+  baselineDays?: number;
+}
+
+/**
+ * Converts the points of a series to numbers in time order
+ *
+ * Booleans count as 0 or 1 and distributions as their mean; strings and
+ * missing values are skipped.
+ *
+ * @param series The time series
+ * @returns The numeric points, oldest first
+ */
+export function extractNumericPoints(
+  series: google.monitoring.v3.ITimeSeries,
+): NumericPoint[] {
+  const points: NumericPoint[] = [];
+  for (const point of series.points ?? []) {
+    const value = point.value;
+    let number: number | undefined;
+    if (value?.doubleValue !== undefined && value.doubleValue !== null) {
+      number = value.doubleValue;
+    } else if (value?.int64Value !== undefined && value.int64Value !== null) {
+      number = Number(value.int64Value);
+    } else if (value?.boolValue !== undefined && value.boolValue !== null) {
+      number = value.boolValue ? 1 : 0;
+    } else if (value?.distributionValue?.mean !== undefined) {
+      number = Number(value.distributionValue.mean);
+    }
+
+    const seconds = Number(point.interval?.endTime?.seconds);
+    if (number !== undefined && Number.isFinite(number) && seconds) {
+      points.push({ time: seconds * 1000, value: number });
+    }
+  }
+  return points.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Computes a percentile with linear interpolation
+ *
+ * @param sorted Values in ascending order
+ * @param percent The percentile, from 0 to 100
+ * @returns The percentile value
+ */
+export function percentile(sorted: number[], percent: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  const rank = (percent / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Computes the mean of some values
+ *
+ * @param values The values
+ * @returns The mean, or NaN when there are none
+ */
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * Fits a least-squares line through the points
+ *
+ * @param points The points
+ * @returns The slope in units per hour, or 0 with fewer than two points
+ */
+export function linearTrend(points: NumericPoint[]): number {
+  if (points.length < 2) {
+    return 0;
+  }
+  const origin = points[0].time;
+  const hours = points.map((point) => (point.time - origin) / MS_PER_HOUR);
+  const meanHours = mean(hours);
+  const meanValue = mean(points.map((point) => point.value));
+
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((point, index) => {
+    numerator += (hours[index] - meanHours) * (point.value - meanValue);
+    denominator += (hours[index] - meanHours) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Finds the split of a segment with the largest shift in mean
+ *
+ * @param values The segment values
+ * @returns The split index and effect size, if a valid split exists
+ */
+function bestSplit(
+  values: number[],
+): { index: number; effect: number } | undefined {
+  const sums = [0];
+  const squares = [0];
+  for (const value of values) {
+    sums.push(sums[sums.length - 1] + value);
+    squares.push(squares[squares.length - 1] + value * value);
+  }
+  const total = values.length;
+
+  let best: { index: number; effect: number } | undefined;
+  for (
+    let index = MIN_CHANGE_SEGMENT;
+    index <= total - MIN_CHANGE_SEGMENT;
+    index++
+  ) {
+    const afterCount = total - index;
+    const meanBefore = sums[index] / index;
+    const meanAfter = (sums[total] - sums[index]) / afterCount;
+    // Sum of squared deviations within each side, from the prefix sums
+    const within =
+      squares[index] -
+      index * meanBefore ** 2 +
+      (squares[total] - squares[index]) -
+      afterCount * meanAfter ** 2;
+    const pooled = Math.sqrt(Math.max(within, 0) / total);
+    const shift = Math.abs(meanBefore - meanAfter);
+    const effect = pooled === 0 ? (shift > 0 ? Infinity : 0) : shift / pooled;
+    if (!best || effect > best.effect) {
+      best = { index, effect };
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds sustained shifts in the mean of a series by binary segmentation
+ *
+ * A split is kept when both sides have at least five points and their means
+ * differ by at least 1.5 pooled standard deviations.
+ *
+ * @param points The points, oldest first
+ * @returns The change points in time order
+ */
+export function detectChangePoints(points: NumericPoint[]): ChangePoint[] {
+  const splits: number[] = [];
+  const segments: Array<[number, number]> = [[0, points.length]];
+
+  while (segments.length > 0 && splits.length < MAX_CHANGE_POINTS) {
+    const [start, end] = segments.shift()!;
+    const values = points.slice(start, end).map((point) => point.value);
+    const split = bestSplit(values);
+    if (!split || split.effect < CHANGE_POINT_EFFECT_SIZE) {
+      continue;
+    }
+    splits.push(start + split.index);
+    segments.push([start, start + split.index], [start + split.index, end]);
+  }
+
+  const sorted = splits.sort((a, b) => a - b);
+  return sorted.map((split, index) => {
+    const previous = index === 0 ? 0 : sorted[index - 1];
+    const next =
+      index === sorted.length - 1 ? points.length : sorted[index + 1];
+    return {
+      time: new Date(points[split].time).toISOString(),
+      meanBefore: mean(points.slice(previous, split).map((p) => p.value)),
+      meanAfter: mean(points.slice(split, next).map((p) => p.value)),
+    };
+  });
+}
+
+/**
+ * Finds the value of the point nearest a time
+ *
+ * @param points The points, oldest first
+ * @param time The time to look up
+ * @param tolerance The largest distance accepted, in milliseconds
+ * @returns The value, or undefined when no point is close enough
+ */
+function valueNear(
+  points: NumericPoint[],
+  time: number,
+  tolerance: number,
+): number | undefined {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (points[middle].time < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let nearest: NumericPoint | undefined;
+  for (const candidate of [points[low - 1], points[low]]) {
+    if (
+      candidate &&
+      Math.abs(candidate.time - time) <= tolerance &&
+      (!nearest ||
+        Math.abs(candidate.time - time) < Math.abs(nearest.time - time))
+    ) {
+      nearest = candidate;
+    }
+  }
+  return nearest?.value;
+}
+
+/**
+ * Flags intervals where a series departs from its seasonal baseline
+ *
+ * Each point is compared with the points at the same time of day on the
+ * previous days. The baseline median and median absolute deviation give a
+ * robust z-score; consecutive points beyond the threshold in the same
+ * direction form one anomaly. The spread is floored at 1% of the median so
+ * flat baselines do not flag tiny wobbles.
+ *
+ * @param current The points of the current window, oldest first
+ * @param baselines Points of each previous day, keyed by days back
+ * @param threshold The robust z-score above which a point is anomalous
+ * @returns The anomalous intervals
+ */
+export function detectSeasonalAnomalies(
+  current: NumericPoint[],
+  baselines: Map<number, NumericPoint[]>,
+  threshold: number,
+): SeasonalAnomaly[] {
+  if (current.length === 0 || baselines.size === 0) {
+    return [];
+  }
+
+  const spacings = current
+    .slice(1)
+    .map((point, index) => point.time - current[index].time)
+    .sort((a, b) => a - b);
+  const tolerance = Math.max(
+    (spacings.length > 0 ? percentile(spacings, 50) : 60_000) / 2,
+    30_000,
+  );
+
+  const anomalies: SeasonalAnomaly[] = [];
+  let open: SeasonalAnomaly | undefined;
+
+  for (const point of current) {
+    const expected: number[] = [];
+    for (const [days, points] of baselines) {
+      const value = valueNear(
+        points,
+        point.time - days * MS_PER_DAY,
+        tolerance,
+      );
+      if (value !== undefined) {
+        expected.push(value);
+      }
+    }
+
+    let flagged: { direction: "above" | "below"; score: number } | undefined;
+    let median = NaN;
+    if (expected.length >= MIN_BASELINE_VALUES) {
+      const sorted = expected.sort((a, b) => a - b);
+      median = percentile(sorted, 50);
+      const deviations = sorted
+        .map((value) => Math.abs(value - median))
+        .sort((a, b) => a - b);
+      const spread = Math.max(
+        1.4826 * percentile(deviations, 50),
+        Math.abs(median) * 0.01,
+        Number.EPSILON,
+      );
+      const score = (point.value - median) / spread;
+      if (Math.abs(score) >= threshold) {
+        flagged = { direction: score > 0 ? "above" : "below", score };
+      }
+    }
+
+    if (flagged && open && open.direction === flagged.direction) {
+      open.end = new Date(point.time).toISOString();
+      if (Math.abs(flagged.score) > Math.abs(open.score)) {
+        open.peakValue = point.value;
+        open.expectedValue = median;
+        open.score = flagged.score;
+      }
+    } else if (flagged) {
+      open = {
+        start: new Date(point.time).toISOString(),
+        end: new Date(point.time).toISOString(),
+        direction: flagged.direction,
+        peakValue: point.value,
+        expectedValue: median,
+        score: flagged.score,
+      };
+      anomalies.push(open);
+    } else {
+      open = undefined;
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Builds a key identifying a series by its metric and resource labels
+ *
+ * @param series The time series
+ * @returns A key that is equal for the same series in different windows
+ */
+export function getTimeSeriesKey(
+  series: google.monitoring.v3.ITimeSeries,
+): string {
+  const sortLabels = (labels?: Record<string, string> | null) =>
+    Object.entries(labels ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([
+    series.metric?.type,
+    sortLabels(series.metric?.labels),
+    series.resource?.type,
+    sortLabels(series.resource?.labels),
+  ]);
+}
+
+/**
+ * Summarises one series
+ *
+ * @param series The time series
+ * @returns The summary, or undefined when it has no numeric points
+ */
+export function summariseTimeSeries(
+  series: google.monitoring.v3.ITimeSeries,
+): TimeSeriesSummary | undefined {
+  const points = extractNumericPoints(series);
+  if (points.length === 0) {
+    return undefined;
+  }
+  const sorted = points.map((point) => point.value).sort((a, b) => a - b);
+
+  return {
+    metricType: series.metric?.type ?? "",
+    resourceType: series.resource?.type ?? "",
+    resourceLabels: { ...(series.resource?.labels ?? {}) },
+    metricLabels: { ...(series.metric?.labels ?? {}) },
+    points: points.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: mean(sorted),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    first: points[0].value,
+    last: points[points.length - 1].value,
+    slopePerHour: linearTrend(points),
+    changePoints: detectChangePoints(points),
+  };
+}
+
+/**
+ * Summarises every series of a window, flagging anomalies when baselines
+ * were fetched
+ *
+ * @param timeSeries The series of the current window
+ * @param baselines Baseline points from `fetchSeasonalBaselines`, if any
+ * @param threshold The robust z-score above which a point is anomalous
+ * @returns One summary per series with numeric points
+ */
+export function summariseTimeSeriesWindow(
+  timeSeries: google.monitoring.v3.ITimeSeries[],
+  baselines: Map<string, Map<number, NumericPoint[]>> | undefined,
+  threshold: number,
+): TimeSeriesSummary[] {
+  const summaries: TimeSeriesSummary[] = [];
+  for (const series of timeSeries) {
+    const summary = summariseTimeSeries(series);
+    if (!summary) {
+      continue;
+    }
+    if (baselines) {
+      const byDay = baselines.get(getTimeSeriesKey(series)) ?? new Map();
+      summary.baselineDays = byDay.size;
+      summary.anomalies = detectSeasonalAnomalies(
+        extractNumericPoints(series),
+        byDay,
+        threshold,
+      );
+    }
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+/**
+ * Fetches the same query for each of the previous days
+ *
+ * The days are fetched concurrently. A day that cannot be fetched is left
+ * out, so series without enough days are reported as having no baseline
+ * rather than failing the query.
+ *
+ * @param client The Monitoring client
+ * @param request The listTimeSeries request for the current window
+ * @param days How many previous days to fetch
+ * @returns Points per series key, keyed by days back
+ */
+export async function fetchSeasonalBaselines(
+  client: ReturnType<typeof getMonitoringClient>,
+  request: google.monitoring.v3.IListTimeSeriesRequest,
+  days: number,
+): Promise<Map<string, Map<number, NumericPoint[]>>> {
+  const baselines = new Map<string, Map<number, NumericPoint[]>>();
+  const shift = (
+    timestamp: google.protobuf.ITimestamp | null | undefined,
+    day: number,
+  ) => ({
+    seconds: Number(timestamp?.seconds) - (day * MS_PER_DAY) / 1000,
+    nanos: 0,
+  });
+
+  const results = await Promise.all(
+    Array.from({ length: days }, async (_, index) => {
+      const day = index + 1;
+      try {
+        const [timeSeries] = await client.listTimeSeries({
+          ...request,
+          interval: {
+            startTime: shift(request.interval?.startTime, day),
+            endTime: shift(request.interval?.endTime, day),
+          },
+        });
+        return { day, timeSeries };
+      } catch {
+        return { day, timeSeries: [] };
+      }
+    }),
+  );
+
+  for (const { day, timeSeries } of results) {
+    for (const series of timeSeries ?? []) {
+      const key = getTimeSeriesKey(series);
+      const byDay = baselines.get(key) ?? new Map<number, NumericPoint[]>();
+      byDay.set(day, extractNumericPoints(series));
+      baselines.set(key, byDay);
+    }
+  }
+  return baselines;
+}
+
+/**
+ * Formats a number compactly for summary tables
+ *
+ * @param value The number
+ * @returns The formatted number
+ */
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    return "N/A";
+  }
+  return Math.abs(value) >= 1000 || Number.isInteger(value)
+    ? String(Math.round(value * 100) / 100)
+    : value.toPrecision(4);
+}
+
+/**
+ * Formats series summaries for display
+ *
+ * @param summaries The summaries
+ * @returns A markdown representation of the summaries
+ */
+export function formatTimeSeriesSummaries(
+  summaries: TimeSeriesSummary[],
+): string {
+  if (summaries.length === 0) {
+    return "No numeric time series data found.";
+  }
+
+  let result = "";
+  for (const summary of summaries) {
+    const labels = (record: Record<string, string>) =>
+      Object.entries(record)
+        .map(([k, v]) => `${k}=${v}`)
+        .join(", ");
+
+    result += `## Metric: ${summary.metricType}\n`;
+    result += `- Resource: ${summary.resourceType}(${labels(summary.resourceLabels)})\n`;
+    if (Object.keys(summary.metricLabels).length > 0) {
+      result += `- Labels: ${labels(summary.metricLabels)}\n`;
+    }
+    result += `- Trend: ${summary.slopePerHour >= 0 ? "+" : ""}${formatNumber(summary.slopePerHour)} per hour (first ${formatNumber(summary.first)}, last ${formatNumber(summary.last)})\n\n`;
+
+    result += "| Points | Min | Max | Mean | p50 | p95 | p99 |\n";
+    result += "|--------|-----|-----|------|-----|-----|-----|\n";
+    result += `| ${summary.points} | ${[summary.min, summary.max, summary.mean, summary.p50, summary.p95, summary.p99].map(formatNumber).join(" | ")} |\n\n`;
+
+    if (summary.changePoints.length > 0) {
+      result += "**Change points:**\n";
+      for (const change of summary.changePoints) {
+        result += `- ${change.time}: mean ${formatNumber(change.meanBefore)} → ${formatNumber(change.meanAfter)}\n`;
+      }
+      result += "\n";
+    }
+
+    if (summary.anomalies) {
+      if (summary.baselineDays === 0) {
+        result += "**Anomalies:** no baseline data for this series\n\n";
+      } else if (summary.anomalies.length === 0) {
+        result += `**Anomalies:** none against a ${summary.baselineDays}-day baseline\n\n`;
+      } else {
+        result += `**Anomalies** (against a ${summary.baselineDays}-day baseline):\n`;
+        for (const anomaly of summary.anomalies) {
+          result += `- ${anomaly.start}${anomaly.end !== anomaly.start ? ` to ${anomaly.end}` : ""}: ${anomaly.direction} baseline, peak ${formatNumber(anomaly.peakValue)} vs expected ${formatNumber(anomaly.expectedValue)} (score ${formatNumber(anomaly.score)})\n`;
+        }
+        result += "\n";
+      }
+    }
+
+    result += "---\n\n";
+  }
+
+  return result;
+}
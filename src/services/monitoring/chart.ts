@@ -0,0 +1,716 @@
+/**
+ * Line charts of metric time series
+ *
+ * A chart is laid out once, with its axes, ticks, legend and annotation
+ * markers, and the layout is then drawn either as SVG markup or as a PNG
+ * through `Raster`. Everything runs in-process.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import {
+  NumericPoint,
+  extractNumericPoints,
+  formatNumber,
+  linearTrend,
+} from "./analysis.js";
+import {
+  GLYPH_ADVANCE,
+  GLYPH_HEIGHT,
+  Raster,
+  parseHexColour,
+} from "./raster.js";
+
+/**
+ * Image formats a chart can be rendered in
+ */
+export const CHART_FORMATS = ["svg", "png"] as const;
+
+export type ChartFormat = (typeof CHART_FORMATS)[number];
+
+/**
+ * Most series drawn on one chart; more would be unreadable
+ */
+export const CHART_MAX_SERIES = 10;
+
+/**
+ * Series colours with names used in the text summary
+ */
+const CHART_PALETTE = [
+  { name: "blue", hex: "#1f77b4" },
+  { name: "orange", hex: "#ff7f0e" },
+  { name: "green", hex: "#2ca02c" },
+  { name: "red", hex: "#d62728" },
+  { name: "purple", hex: "#9467bd" },
+  { name: "brown", hex: "#8c564b" },
+  { name: "pink", hex: "#e377c2" },
+  { name: "grey", hex: "#7f7f7f" },
+  { name: "olive", hex: "#bcbd22" },
+  { name: "cyan", hex: "#17becf" },
+];
+
+const TEXT_COLOUR = "#222222";
+const AXIS_COLOUR = "#444444";
+const GRID_COLOUR = "#e6e6e6";
+const ANNOTATION_COLOUR = "#555555";
+
+/**
+ * Height of a line of text in the layout
+ */
+const LINE_HEIGHT = 14;
+
+/**
+ * Longest legend label, in characters
+ */
+const MAX_LEGEND_LABEL = 48;
+
+/**
+ * Candidate distances between time ticks, in milliseconds
+ */
+const TIME_TICK_STEPS = [
+  1, 2, 5, 10, 15, 30, 60, 120, 180, 360, 720, 1440, 2880, 10080, 20160, 43200,
+].map((minutes) => minutes * 60_000);
+
+/**
+ * A named series of points
+ */
+export interface ChartSeries {
+  label: string;
+  points: NumericPoint[];
+}
+
+/**
+ * A marked moment on the chart, such as a deploy
+ */
+export interface ChartAnnotation {
+  /** Milliseconds since the epoch */
+  time: number;
+  label: string;
+}
+
+/**
+ * What to draw around the series
+ */
+export interface ChartOptions {
+  title: string;
+  yLabel?: string;
+  /** Start of the time axis, in milliseconds since the epoch */
+  start: number;
+  /** End of the time axis, in milliseconds since the epoch */
+  end: number;
+  annotations?: ChartAnnotation[];
+  /** Width in pixels (default 800) */
+  width?: number;
+  /** Height of everything but the legend, in pixels (default 360) */
+  height?: number;
+}
+
+/**
+ * A rendered chart
+ */
+export interface RenderedChart {
+  /** Base64 encoded image */
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * A labelled tick on an axis
+ */
+interface ChartTick {
+  position: number;
+  label: string;
+}
+
+/**
+ * Positions of everything on a chart, in pixels
+ */
+interface ChartLayout {
+  width: number;
+  height: number;
+  plot: { left: number; top: number; right: number; bottom: number };
+  title: string;
+  yLabel: string;
+  xTicks: ChartTick[];
+  yTicks: ChartTick[];
+  lines: Array<{ colour: string; segments: Array<Array<[number, number]>> }>;
+  legend: Array<{ x: number; y: number; colour: string; label: string }>;
+  annotations: Array<{ x: number; y: number; label: string }>;
+}
+
+/**
+ * Estimates the width of text, matching the bitmap font of PNG charts
+ *
+ * @param text The text
+ * @returns The width in pixels
+ */
+function textWidth(text: string): number {
+  return text.length * GLYPH_ADVANCE;
+}
+
+/**
+ * Shortens text to a number of characters
+ *
+ * @param text The text
+ * @param length The most characters to keep
+ * @returns The text, ending in "..." when shortened
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+/**
+ * Chooses a round distance between value ticks
+ *
+ * @param range The range of values
+ * @param count Roughly how many ticks are wanted
+ * @returns The distance
+ */
+function niceStep(range: number, count: number): number {
+  const rough = range / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalised = rough / magnitude;
+  const nice =
+    normalised <= 1 ? 1 : normalised <= 2 ? 2 : normalised <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Formats a value tick with a unit suffix for large values
+ *
+ * @param value The value
+ * @param step The distance between ticks
+ * @param largest The largest absolute value on the axis
+ * @returns The label
+ */
+function formatValueTick(value: number, step: number, largest: number): string {
+  const [divisor, suffix] = (
+    [
+      [1e9, "G"],
+      [1e6, "M"],
+      [1e3, "k"],
+    ] as const
+  ).find(([size]) => largest >= size) ?? [1, ""];
+  const decimals = Math.min(
+    6,
+    Math.max(0, Math.ceil(-Math.log10(step / divisor))),
+  );
+  const label = (value / divisor).toFixed(decimals);
+  return `${Number(label) === 0 ? "0" : label}${suffix}`;
+}
+
+/**
+ * Formats a time tick in UTC
+ *
+ * @param time Milliseconds since the epoch
+ * @param step The distance between ticks
+ * @param span The length of the axis
+ * @returns The label
+ */
+function formatTimeTick(time: number, step: number, span: number): string {
+  const iso = new Date(time).toISOString();
+  if (step >= 86_400_000) {
+    return iso.slice(0, 10);
+  }
+  return span > 86_400_000
+    ? `${iso.slice(5, 10)} ${iso.slice(11, 16)}`
+    : iso.slice(11, 16);
+}
+
+/**
+ * Splits points into runs, breaking where data is missing
+ *
+ * @param points The points, oldest first
+ * @returns Runs of points without large gaps
+ */
+function splitAtGaps(points: NumericPoint[]): NumericPoint[][] {
+  if (points.length < 3) {
+    return points.length ? [points] : [];
+  }
+  const gaps = points
+    .slice(1)
+    .map((point, index) => point.time - points[index].time)
+    .sort((a, b) => a - b);
+  const limit = gaps[Math.floor(gaps.length / 2)] * 2.5;
+
+  const runs: NumericPoint[][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].time - points[i - 1].time > limit) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(points[i]);
+  }
+  return runs;
+}
+
+/**
+ * Lays out a chart
+ *
+ * @param series The series to draw, at most `CHART_MAX_SERIES`
+ * @param options The chart options
+ * @returns The positions of everything on the chart
+ */
+function layoutChart(
+  series: ChartSeries[],
+  options: ChartOptions,
+): ChartLayout {
+  const width = options.width ?? 800;
+  const chartHeight = options.height ?? 360;
+  const start = options.start;
+  const end = Math.max(options.end, start + 1);
+
+  // Value axis, padded to round ticks
+  const values = series.flatMap((item) =>
+    item.points
+      .filter((point) => point.time >= start && point.time <= end)
+      .map((point) => point.value),
+  );
+  // Reduce rather than spread, as long series can exceed the argument limit
+  let min = values.length
+    ? values.reduce((a, b) => Math.min(a, b), Infinity)
+    : 0;
+  let max = values.length
+    ? values.reduce((a, b) => Math.max(a, b), -Infinity)
+    : 1;
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1;
+    min -= pad;
+    max += pad;
+  }
+  const step = niceStep(max - min, 5);
+  const low = Math.floor(min / step) * step;
+  const high = Math.ceil(max / step) * step;
+  const largest = Math.max(Math.abs(low), Math.abs(high));
+  const yValues: number[] = [];
+  for (let i = 0; low + i * step <= high + step / 2; i++) {
+    yValues.push(low + i * step);
+  }
+  const yLabels = yValues.map((value) => formatValueTick(value, step, largest));
+
+  // Legend rows below the plot
+  const legend: ChartLayout["legend"] = [];
+  let legendX = 12;
+  let legendRow = 0;
+  series.forEach((item, index) => {
+    const label = truncate(item.label, MAX_LEGEND_LABEL);
+    const itemWidth = 16 + textWidth(label) + 16;
+    if (legendX + itemWidth > width - 12 && legendX > 12) {
+      legendX = 12;
+      legendRow++;
+    }
+    legend.push({
+      x: legendX,
+      y: chartHeight + legendRow * LINE_HEIGHT,
+      colour: CHART_PALETTE[index % CHART_PALETTE.length].hex,
+      label,
+    });
+    legendX += itemWidth;
+  });
+  const height =
+    chartHeight + (series.length ? (legendRow + 1) * LINE_HEIGHT : 0) + 6;
+
+  const plot = {
+    left: 12 + Math.max(...yLabels.map(textWidth)) + 8,
+    top: 16 + 2 * LINE_HEIGHT,
+    right: width - 20,
+    bottom: chartHeight - 2 * LINE_HEIGHT - 12,
+  };
+  const x = (time: number) =>
+    plot.left + ((time - start) / (end - start)) * (plot.right - plot.left);
+  const y = (value: number) =>
+    plot.bottom - ((value - low) / (high - low)) * (plot.bottom - plot.top);
+
+  // Time axis with ticks on round UTC times
+  const span = end - start;
+  const timeStep =
+    TIME_TICK_STEPS.find((candidate) => span / candidate <= 8) ??
+    TIME_TICK_STEPS[TIME_TICK_STEPS.length - 1];
+  const xTicks: ChartTick[] = [];
+  for (
+    let time = Math.ceil(start / timeStep) * timeStep;
+    time <= end;
+    time += timeStep
+  ) {
+    xTicks.push({
+      position: x(time),
+      label: formatTimeTick(time, timeStep, span),
+    });
+  }
+
+  const annotations = (options.annotations ?? [])
+    .filter((annotation) => annotation.time >= start && annotation.time <= end)
+    .sort((a, b) => a.time - b.time)
+    .map((annotation, index) => ({
+      x: x(annotation.time),
+      // Stagger labels so nearby markers stay readable
+      y: plot.top + 8 + (index % 3) * LINE_HEIGHT,
+      label: truncate(annotation.label, 32),
+    }));
+
+  return {
+    width,
+    height,
+    plot,
+    title: options.title,
+    yLabel: options.yLabel ?? "value",
+    xTicks,
+    yTicks: yValues.map((value, index) => ({
+      position: y(value),
+      label: yLabels[index],
+    })),
+    lines: series.map((item, index) => ({
+      colour: CHART_PALETTE[index % CHART_PALETTE.length].hex,
+      segments: splitAtGaps(
+        item.points.filter((point) => point.time >= start && point.time <= end),
+      ).map((run) =>
+        run.map((point): [number, number] => [x(point.time), y(point.value)]),
+      ),
+    })),
+    legend,
+    annotations,
+  };
+}
+
+/**
+ * Escapes text for SVG markup
+ *
+ * @param text The text
+ * @returns The escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Rounds a coordinate for compact markup
+ *
+ * @param value The coordinate
+ * @returns The coordinate with one decimal place
+ */
+function coordinate(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Draws a chart as SVG
+ *
+ * @param series The series to draw, at most `CHART_MAX_SERIES`
+ * @param options The chart options
+ * @returns The SVG document
+ */
+export function renderChartSvg(
+  series: ChartSeries[],
+  options: ChartOptions,
+): string {
+  const layout = layoutChart(series, options);
+  const { plot } = layout;
+  // Text is placed by its vertical centre, as in the PNG renderer
+  const text = (
+    x: number,
+    y: number,
+    content: string,
+    anchor = "start",
+    extra = "",
+  ) =>
+    `<text x="${coordinate(x)}" y="${coordinate(y + 3.5)}" text-anchor="${anchor}"${extra}>${escapeXml(content)}</text>`;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="sans-serif" font-size="10" fill="${TEXT_COLOUR}">`,
+    `<rect width="${layout.width}" height="${layout.height}" fill="#ffffff"/>`,
+    text(12, 12, layout.title, "start", ' font-size="12" font-weight="bold"'),
+    text(12, plot.top - LINE_HEIGHT, layout.yLabel),
+  ];
+
+  for (const tick of layout.yTicks) {
+    parts.push(
+      `<line x1="${plot.left}" y1="${coordinate(tick.position)}" x2="${plot.right}" y2="${coordinate(tick.position)}" stroke="${GRID_COLOUR}"/>`,
+      text(plot.left - 6, tick.position, tick.label, "end"),
+    );
+  }
+  for (const tick of layout.xTicks) {
+    parts.push(
+      `<line x1="${coordinate(tick.position)}" y1="${plot.bottom}" x2="${coordinate(tick.position)}" y2="${plot.bottom + 4}" stroke="${AXIS_COLOUR}"/>`,
+      text(tick.position, plot.bottom + 12, tick.label, "middle"),
+    );
+  }
+  parts.push(
+    `<path d="M${plot.left} ${plot.top}V${plot.bottom}H${plot.right}" fill="none" stroke="${AXIS_COLOUR}"/>`,
+    text(
+      (plot.left + plot.right) / 2,
+      plot.bottom + 12 + LINE_HEIGHT,
+      "Time (UTC)",
+      "middle",
+    ),
+  );
+
+  for (const annotation of layout.annotations) {
+    parts.push(
+      `<line x1="${coordinate(annotation.x)}" y1="${plot.top}" x2="${coordinate(annotation.x)}" y2="${plot.bottom}" stroke="${ANNOTATION_COLOUR}" stroke-dasharray="4 3"/>`,
+      text(
+        annotation.x + 3,
+        annotation.y,
+        annotation.label,
+        "start",
+        ` fill="${ANNOTATION_COLOUR}"`,
+      ),
+    );
+  }
+
+  for (const line of layout.lines) {
+    for (const segment of line.segments) {
+      if (segment.length === 1) {
+        parts.push(
+          `<circle cx="${coordinate(segment[0][0])}" cy="${coordinate(segment[0][1])}" r="2" fill="${line.colour}"/>`,
+        );
+      } else {
+        parts.push(
+          `<polyline points="${segment.map(([x, y]) => `${coordinate(x)},${coordinate(y)}`).join(" ")}" fill="none" stroke="${line.colour}" stroke-width="1.5" stroke-linejoin="round"/>`,
+        );
+      }
+    }
+  }
+
+  for (const item of layout.legend) {
+    parts.push(
+      `<rect x="${item.x}" y="${item.y - 4}" width="12" height="8" fill="${item.colour}"/>`,
+      text(item.x + 16, item.y, item.label),
+    );
+  }
+
+  parts.push("</svg>");
+  return parts.join("\n");
+}
+
+/**
+ * Draws a chart as a PNG
+ *
+ * @param series The series to draw, at most `CHART_MAX_SERIES`
+ * @param options The chart options
+ * @returns The PNG file contents
+ */
+export function renderChartPng(
+  series: ChartSeries[],
+  options: ChartOptions,
+): Buffer {
+  const layout = layoutChart(series, options);
+  const { plot } = layout;
+  const raster = new Raster(layout.width, layout.height);
+  const textColour = parseHexColour(TEXT_COLOUR);
+  const axisColour = parseHexColour(AXIS_COLOUR);
+  const gridColour = parseHexColour(GRID_COLOUR);
+  const annotationColour = parseHexColour(ANNOTATION_COLOUR);
+  // Text is placed by its vertical centre, as in the SVG renderer
+  const text = (
+    x: number,
+    y: number,
+    content: string,
+    anchor: "start" | "middle" | "end" = "start",
+    colour = textColour,
+  ) => {
+    const width = textWidth(content) - 1;
+    const left =
+      anchor === "end" ? x - width : anchor === "middle" ? x - width / 2 : x;
+    raster.text(left, y - GLYPH_HEIGHT / 2, content, colour);
+  };
+
+  text(12, 12, layout.title);
+  text(12, plot.top - LINE_HEIGHT, layout.yLabel);
+
+  for (const tick of layout.yTicks) {
+    raster.line(
+      plot.left,
+      tick.position,
+      plot.right,
+      tick.position,
+      gridColour,
+    );
+    text(plot.left - 6, tick.position, tick.label, "end");
+  }
+  for (const tick of layout.xTicks) {
+    raster.line(
+      tick.position,
+      plot.bottom,
+      tick.position,
+      plot.bottom + 4,
+      axisColour,
+    );
+    text(tick.position, plot.bottom + 12, tick.label, "middle");
+  }
+  raster.line(plot.left, plot.top, plot.left, plot.bottom, axisColour);
+  raster.line(plot.left, plot.bottom, plot.right, plot.bottom, axisColour);
+  text(
+    (plot.left + plot.right) / 2,
+    plot.bottom + 12 + LINE_HEIGHT,
+    "Time (UTC)",
+    "middle",
+  );
+
+  for (const annotation of layout.annotations) {
+    raster.line(
+      annotation.x,
+      plot.top,
+      annotation.x,
+      plot.bottom,
+      annotationColour,
+      1,
+      [4, 3],
+    );
+    text(
+      annotation.x + 3,
+      annotation.y,
+      annotation.label,
+      "start",
+      annotationColour,
+    );
+  }
+
+  for (const line of layout.lines) {
+    const colour = parseHexColour(line.colour);
+    for (const segment of line.segments) {
+      if (segment.length === 1) {
+        raster.fillRect(segment[0][0] - 1, segment[0][1] - 1, 3, 3, colour);
+      }
+      for (let i = 1; i < segment.length; i++) {
+        raster.line(
+          segment[i - 1][0],
+          segment[i - 1][1],
+          segment[i][0],
+          segment[i][1],
+          colour,
+          2,
+        );
+      }
+    }
+  }
+
+  for (const item of layout.legend) {
+    raster.fillRect(item.x, item.y - 4, 12, 8, parseHexColour(item.colour));
+    text(item.x + 16, item.y, item.label);
+  }
+
+  return raster.toPng();
+}
+
+/**
+ * Draws a chart in the requested format
+ *
+ * @param series The series to draw, at most `CHART_MAX_SERIES`
+ * @param options The chart options
+ * @param format The image format
+ * @returns The image as base64 with its MIME type
+ */
+export function renderChart(
+  series: ChartSeries[],
+  options: ChartOptions,
+  format: ChartFormat,
+): RenderedChart {
+  if (format === "png") {
+    return {
+      data: renderChartPng(series, options).toString("base64"),
+      mimeType: "image/png",
+    };
+  }
+  return {
+    data: Buffer.from(renderChartSvg(series, options)).toString("base64"),
+    mimeType: "image/svg+xml",
+  };
+}
+
+/**
+ * Converts time series to chart series labelled by what tells them apart
+ *
+ * Each series is labelled with the metric type and labels whose values
+ * differ between series, so a chart of one instance per zone is labelled
+ * "zone=...". A lone series is labelled with its metric type.
+ *
+ * @param timeSeries The time series
+ * @returns The series with numeric points
+ */
+export function timeSeriesToChartSeries(
+  timeSeries: google.monitoring.v3.ITimeSeries[],
+): ChartSeries[] {
+  const entries = timeSeries
+    .map((series) => ({
+      labels: {
+        "metric.type": series.metric?.type ?? "",
+        ...(series.resource?.labels ?? {}),
+        ...(series.metric?.labels ?? {}),
+      } as Record<string, string>,
+      points: extractNumericPoints(series),
+    }))
+    .filter((entry) => entry.points.length > 0);
+
+  const keys = [...new Set(entries.flatMap((e) => Object.keys(e.labels)))];
+  const differing = keys.filter(
+    (key) => new Set(entries.map((entry) => entry.labels[key])).size > 1,
+  );
+
+  return entries.map((entry) => ({
+    label: differing.length
+      ? differing
+          .map((key) =>
+            key === "metric.type"
+              ? entry.labels[key]
+              : `${key}=${entry.labels[key] ?? "-"}`,
+          )
+          .join(", ")
+      : entry.labels["metric.type"],
+    points: entry.points,
+  }));
+}
+
+/**
+ * Picks the series to draw when there are too many for one chart
+ *
+ * @param series All series
+ * @returns The series with the highest peaks, and how many were left out
+ */
+export function selectChartSeries(series: ChartSeries[]): {
+  series: ChartSeries[];
+  omitted: number;
+} {
+  if (series.length <= CHART_MAX_SERIES) {
+    return { series, omitted: 0 };
+  }
+  const peak = (item: ChartSeries) =>
+    item.points.reduce((max, point) => Math.max(max, point.value), -Infinity);
+  return {
+    series: [...series]
+      .sort((a, b) => peak(b) - peak(a))
+      .slice(0, CHART_MAX_SERIES),
+    omitted: series.length - CHART_MAX_SERIES,
+  };
+}
+
+/**
+ * Summarises the series of a chart in a compact table
+ *
+ * @param series The series drawn, in legend order
+ * @param omitted How many series were not drawn
+ * @returns A markdown table
+ */
+export function formatChartSummary(series: ChartSeries[], omitted = 0): string {
+  if (series.length === 0) {
+    return "No numeric time series data found.";
+  }
+
+  let text =
+    "| Series | Colour | Points | Min | Max | Mean | Last | Trend per Hour |\n";
+  text +=
+    "|--------|--------|--------|-----|-----|------|------|----------------|\n";
+  series.forEach((item, index) => {
+    const values = item.points.map((point) => point.value);
+    const mean =
+      values.reduce((total, value) => total + value, 0) / values.length;
+    const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+    const trend = linearTrend(item.points);
+    text += `| ${item.label} | ${CHART_PALETTE[index % CHART_PALETTE.length].name} | ${values.length} | ${formatNumber(min)} | ${formatNumber(max)} | ${formatNumber(mean)} | ${formatNumber(values[values.length - 1])} | ${trend >= 0 ? "+" : ""}${formatNumber(trend)} |\n`;
+  });
+  if (omitted > 0) {
+    text += `\n${omitted} more series were left out; only the ${series.length} with the highest peaks are drawn.\n`;
+  }
+  return text;
+}
@@ -0,0 +1,522 @@
+/**
+ * Alert incident history
+ *
+ * Incidents are read from the Cloud Monitoring Alerts API, which the client
+ * library does not cover yet, so requests go to the REST endpoint. Each
+ * incident is joined with the condition of its policy that opened it and
+ * the metric values recorded around the time it opened.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { initGoogleAuth } from "../../utils/auth.js";
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { getMetricTypeFromFilter } from "./aggregation.js";
+import { alertPolicyResourceName, describeAlertCondition } from "./alerting.js";
+import { NumericPoint, extractNumericPoints } from "./analysis.js";
+import { getAlertPolicyClient, getMonitoringClient } from "./types.js";
+
+type AlertPolicy = google.monitoring.v3.IAlertPolicy;
+type AlertCondition = google.monitoring.v3.AlertPolicy.ICondition;
+
+/**
+ * Incident states that can be requested
+ */
+export const INCIDENT_STATES = ["open", "closed", "all"] as const;
+
+/**
+ * An incident state filter
+ */
+export type IncidentState = (typeof INCIDENT_STATES)[number];
+
+/**
+ * Largest page the Alerts API returns
+ */
+const INCIDENTS_MAX_PAGE_SIZE = 1000;
+
+/**
+ * Seconds of data fetched before an incident opened when the condition has
+ * no duration of its own
+ */
+const DEFAULT_LOOKBACK_SECONDS = 600;
+
+/**
+ * Most triggering values listed per incident
+ */
+const MAX_LISTED_VALUES = 10;
+
+/**
+ * An incident as returned by the Alerts API
+ */
+export interface AlertIncident {
+  /** Resource name, e.g. projects/my-project/alerts/123 */
+  name: string;
+  state?: "STATE_UNSPECIFIED" | "OPEN" | "CLOSED";
+  openTime?: string;
+  closeTime?: string;
+  resource?: { type?: string; labels?: Record<string, string> };
+  metric?: { type?: string; labels?: Record<string, string> };
+  policy?: {
+    name?: string;
+    displayName?: string;
+    severity?: string;
+    userLabels?: Record<string, string>;
+  };
+}
+
+/**
+ * An incident with the condition and values that opened it
+ */
+export interface IncidentDetails {
+  incident: AlertIncident;
+  /** The policy condition matched to the incident, when it can be found */
+  condition?: AlertCondition;
+  /** Values of the incident's series leading up to it opening */
+  values: NumericPoint[];
+}
+
+/**
+ * Options for listing incidents
+ */
+export interface ListIncidentsOptions {
+  state: IncidentState;
+  /** Closed incidents are included if they closed after this time */
+  since: Date;
+  /** Only incidents of this policy, by ID or resource name */
+  policy?: string;
+  maxIncidents: number;
+}
+
+/**
+ * Builds the URL of the Alerts API for a project
+ *
+ * @param projectId The project ID
+ * @param alertId An incident ID, to address a single incident
+ * @returns The endpoint URL
+ */
+export function getAlertsUrl(projectId: string, alertId?: string): string {
+  const base = `https://monitoring.googleapis.com/v3/projects/${projectId}/alerts`;
+  return alertId ? `${base}/${encodeURIComponent(alertId)}` : base;
+}
+
+/**
+ * Gets the ID of an incident from its ID or resource name
+ *
+ * @param alert The incident ID or resource name
+ * @returns The incident ID
+ */
+export function incidentId(alert: string): string {
+  return alert.split("/").pop() ?? alert;
+}
+
+/**
+ * Sends an authenticated GET request to the Alerts API
+ *
+ * @param url The request URL
+ * @returns The parsed response body
+ */
+async function getAlertsApi<T>(url: string): Promise<T> {
+  const auth = await initGoogleAuth(true);
+  if (!auth) {
+    throw new GcpMcpError(
+      "Google Cloud authentication not available. Please configure authentication to read alert incidents.",
+      "UNAUTHENTICATED",
+      401,
+    );
+  }
+  const client = await auth.getClient();
+  const token = await client.getAccessToken();
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${token.token}`,
+      Accept: "application/json",
+    },
+  });
+  const body = (await response.json().catch(() => undefined)) as
+    | (T & { error?: { message?: string; status?: string } })
+    | undefined;
+
+  if (!response.ok || !body) {
+    throw new GcpMcpError(
+      `Alerts API request failed: ${body?.error?.message || response.statusText || "Unknown error"}`,
+      body?.error?.status || "FAILED_PRECONDITION",
+      response.ok ? 500 : response.status,
+    );
+  }
+  return body;
+}
+
+/**
+ * Builds the Alerts API filters for a listing
+ *
+ * Open and closed incidents are requested separately so that only closed
+ * incidents are limited by the time window.
+ *
+ * @param options The listing options
+ * @returns One filter per request
+ */
+export function buildIncidentFilters(options: ListIncidentsOptions): string[] {
+  const filters: string[] = [];
+  if (options.state !== "closed") {
+    filters.push('state = "OPEN"');
+  }
+  if (options.state !== "open") {
+    filters.push(
+      `state = "CLOSED" AND close_time >= ${quoteFilterString(options.since.toISOString())}`,
+    );
+  }
+  return filters;
+}
+
+/**
+ * Lists incidents, most recently opened first
+ *
+ * @param projectId The project ID
+ * @param options The listing options
+ * @returns The incidents and whether more matched than were fetched
+ */
+export async function listAlertIncidents(
+  projectId: string,
+  options: ListIncidentsOptions,
+): Promise<{ incidents: AlertIncident[]; truncated: boolean }> {
+  const policyName = options.policy
+    ? alertPolicyResourceName(projectId, options.policy)
+    : undefined;
+  const incidents: AlertIncident[] = [];
+  let truncated = false;
+
+  for (const filter of buildIncidentFilters(options)) {
+    let pageToken: string | undefined;
+    let count = 0;
+    do {
+      const params = new URLSearchParams({
+        filter,
+        orderBy: "open_time desc",
+        pageSize: String(
+          Math.min(options.maxIncidents - count, INCIDENTS_MAX_PAGE_SIZE),
+        ),
+      });
+      if (pageToken) {
+        params.set("pageToken", pageToken);
+      }
+      const body = await getAlertsApi<{
+        alerts?: AlertIncident[];
+        nextPageToken?: string;
+      }>(`${getAlertsUrl(projectId)}?${params}`);
+
+      // The policy is matched here so the filter only uses state and time
+      const page = (body.alerts ?? []).filter(
+        (incident) => !policyName || incident.policy?.name === policyName,
+      );
+      const rows = page.slice(0, options.maxIncidents - count);
+      incidents.push(...rows);
+      count += rows.length;
+      pageToken = body.nextPageToken || undefined;
+    } while (pageToken && count < options.maxIncidents);
+    truncated ||= Boolean(pageToken);
+  }
+
+  incidents.sort(
+    (a, b) => Date.parse(b.openTime ?? "") - Date.parse(a.openTime ?? ""),
+  );
+  return {
+    incidents: incidents.slice(0, options.maxIncidents),
+    truncated: truncated || incidents.length > options.maxIncidents,
+  };
+}
+
+/**
+ * Gets one incident
+ *
+ * @param projectId The project ID
+ * @param alert The incident ID or resource name
+ * @returns The incident
+ */
+export async function getAlertIncident(
+  projectId: string,
+  alert: string,
+): Promise<AlertIncident> {
+  return getAlertsApi<AlertIncident>(
+    getAlertsUrl(projectId, incidentId(alert)),
+  );
+}
+
+/**
+ * Finds the incidents an alert ID refers to
+ *
+ * The ID is tried as an incident first and otherwise taken as a policy,
+ * whose recent incidents are returned.
+ *
+ * @param projectId The project ID
+ * @param alert An incident or policy, by ID or resource name
+ * @param since Start of the window for a policy's closed incidents
+ * @param maxIncidents Maximum number of a policy's incidents to return
+ * @returns The incidents, most recently opened first
+ */
+export async function findAlertIncidents(
+  projectId: string,
+  alert: string,
+  since: Date,
+  maxIncidents: number,
+): Promise<AlertIncident[]> {
+  if (!alert.includes("/alertPolicies/")) {
+    try {
+      return [await getAlertIncident(projectId, alert)];
+    } catch (error: unknown) {
+      if (!(error instanceof GcpMcpError) || error.statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+  const { incidents } = await listAlertIncidents(projectId, {
+    state: "all",
+    since,
+    policy: alert,
+    maxIncidents,
+  });
+  return incidents;
+}
+
+/**
+ * Gets the filter of a condition that selects time series directly
+ *
+ * @param condition The condition
+ * @returns The filter, or undefined for query and log conditions
+ */
+function conditionFilter(condition: AlertCondition): string | undefined {
+  return (
+    condition.conditionThreshold?.filter ??
+    condition.conditionAbsent?.filter ??
+    undefined
+  );
+}
+
+/**
+ * Finds the condition of a policy that opened an incident
+ *
+ * A policy with one condition is taken as is; otherwise the condition is
+ * matched on the incident's metric type.
+ *
+ * @param policy The incident's policy
+ * @param incident The incident
+ * @returns The condition, or undefined when it is ambiguous
+ */
+export function findIncidentCondition(
+  policy: AlertPolicy,
+  incident: AlertIncident,
+): AlertCondition | undefined {
+  const conditions = policy.conditions ?? [];
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  const matches = conditions.filter((condition) => {
+    const filter = conditionFilter(condition);
+    return (
+      filter !== undefined &&
+      getMetricTypeFromFilter(filter) === incident.metric?.type
+    );
+  });
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Builds a filter selecting exactly the series of an incident
+ *
+ * @param incident The incident
+ * @returns The filter, or undefined when the incident has no metric
+ */
+export function buildIncidentSeriesFilter(
+  incident: AlertIncident,
+): string | undefined {
+  if (!incident.metric?.type) {
+    return undefined;
+  }
+  const clauses = [`metric.type = ${quoteFilterString(incident.metric.type)}`];
+  if (incident.resource?.type) {
+    clauses.push(
+      `resource.type = ${quoteFilterString(incident.resource.type)}`,
+    );
+  }
+  for (const [key, value] of Object.entries(incident.resource?.labels ?? {})) {
+    clauses.push(`resource.labels.${key} = ${quoteFilterString(value)}`);
+  }
+  for (const [key, value] of Object.entries(incident.metric.labels ?? {})) {
+    clauses.push(`metric.labels.${key} = ${quoteFilterString(value)}`);
+  }
+  return clauses.join(" AND ");
+}
+
+/**
+ * Fetches the values of an incident's series before it opened
+ *
+ * Threshold conditions are aligned as the policy aligns them, so the values
+ * are the ones the policy compared with its threshold.
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param incident The incident
+ * @param condition The condition that opened it
+ * @returns The values, oldest first
+ */
+async function fetchTriggeringValues(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  incident: AlertIncident,
+  condition?: AlertCondition,
+): Promise<NumericPoint[]> {
+  const filter = buildIncidentSeriesFilter(incident);
+  const openTime = Date.parse(incident.openTime ?? "");
+  if (!filter || Number.isNaN(openTime)) {
+    return [];
+  }
+
+  const settings = condition?.conditionThreshold ?? condition?.conditionAbsent;
+  const durationSeconds = Number(settings?.duration?.seconds ?? 0);
+  const aggregation = condition?.conditionThreshold?.aggregations?.[0];
+  const alignmentSeconds = Number(aggregation?.alignmentPeriod?.seconds ?? 0);
+  const lookbackSeconds = Math.max(
+    DEFAULT_LOOKBACK_SECONDS,
+    durationSeconds + 2 * alignmentSeconds,
+  );
+
+  const [timeSeries] = await client.listTimeSeries({
+    name: `projects/${projectId}`,
+    filter,
+    interval: {
+      startTime: {
+        seconds: Math.floor(openTime / 1000) - lookbackSeconds,
+        nanos: 0,
+      },
+      endTime: { seconds: Math.floor(openTime / 1000) + 60, nanos: 0 },
+    },
+    aggregation,
+  });
+  return (timeSeries ?? [])
+    .flatMap((series) => extractNumericPoints(series))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Adds the opening condition and metric values to incidents
+ *
+ * Policies are fetched once each. Lookups that fail leave the details out
+ * rather than failing the listing.
+ *
+ * @param incidents The incidents
+ * @param projectId The project ID
+ * @param clients The clients to look details up with
+ * @returns The incidents with their details
+ */
+export async function getIncidentDetails(
+  incidents: AlertIncident[],
+  projectId: string,
+  clients: {
+    alertPolicy: ReturnType<typeof getAlertPolicyClient>;
+    monitoring: ReturnType<typeof getMonitoringClient>;
+  },
+): Promise<IncidentDetails[]> {
+  const policies = new Map<string, Promise<AlertPolicy | undefined>>();
+  const getPolicy = (name: string) => {
+    if (!policies.has(name)) {
+      policies.set(
+        name,
+        clients.alertPolicy
+          .getAlertPolicy({ name })
+          .then(([policy]) => policy)
+          .catch(() => undefined),
+      );
+    }
+    return policies.get(name)!;
+  };
+
+  const details: IncidentDetails[] = [];
+  for (const incident of incidents) {
+    const policy = incident.policy?.name
+      ? await getPolicy(incident.policy.name)
+      : undefined;
+    const condition = policy
+      ? findIncidentCondition(policy, incident)
+      : undefined;
+    const values = await fetchTriggeringValues(
+      clients.monitoring,
+      projectId,
+      incident,
+      condition,
+    ).catch(() => []);
+    details.push({ incident, condition, values });
+  }
+  return details;
+}
+
+/**
+ * Formats labels as key=value pairs
+ *
+ * @param labels The labels
+ * @returns The pairs, or "-" when there are none
+ */
+function formatLabels(labels?: Record<string, string>): string {
+  const pairs = Object.entries(labels ?? {}).map(([k, v]) => `${k}=${v}`);
+  return pairs.length > 0 ? pairs.join(", ") : "-";
+}
+
+/**
+ * Formats one incident with its details
+ *
+ * @param details The incident and its details
+ * @returns A markdown section
+ */
+export function formatIncidentDetails(details: IncidentDetails): string {
+  const { incident, condition, values } = details;
+  const policyName =
+    incident.policy?.displayName || incident.policy?.name || "Unknown policy";
+  let text = `## ${policyName} (${incident.state === "OPEN" ? "open" : "closed"})\n\n`;
+  text += `- **Incident:** ${incident.name}\n`;
+  if (incident.policy?.name) {
+    text += `- **Policy:** ${incident.policy.name}\n`;
+  }
+  if (incident.policy?.severity) {
+    text += `- **Severity:** ${incident.policy.severity}\n`;
+  }
+  text += `- **Opened:** ${incident.openTime ?? "unknown"}\n`;
+  text += `- **Closed:** ${incident.closeTime ?? "still open"}\n`;
+  if (incident.metric?.type) {
+    text += `- **Metric:** ${incident.metric.type} (${formatLabels(incident.metric.labels)})\n`;
+  }
+  if (incident.resource?.type) {
+    text += `- **Resource:** ${incident.resource.type} (${formatLabels(incident.resource.labels)})\n`;
+  }
+
+  text += "\n### Condition\n\n";
+  text += condition
+    ? describeAlertCondition(condition)
+    : "The condition that opened this incident could not be determined.";
+  text += "\n\n### Values Before Opening\n\n";
+  if (values.length === 0) {
+    text += "No metric values were found for this incident.\n";
+    return text;
+  }
+  text += "| Timestamp | Value |\n|-----------|-------|\n";
+  for (const point of values.slice(-MAX_LISTED_VALUES)) {
+    text += `| ${new Date(point.time).toISOString()} | ${point.value} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats a list of incidents with their details
+ *
+ * @param incidents The incidents and their details
+ * @returns A markdown report
+ */
+export function formatIncidents(incidents: IncidentDetails[]): string {
+  if (incidents.length === 0) {
+    return "No incidents found.";
+  }
+
+  const open = incidents.filter(
+    (details) => details.incident.state === "OPEN",
+  ).length;
+  let text = `Open: ${open}, Closed: ${incidents.length - open}\n\n`;
+  text += incidents.map(formatIncidentDetails).join("\n---\n\n");
+  return text;
+}
@@ -6,6 +6,17 @@
 
 // Export types and utilities
 export * from "./types.js";
+export * from "./aggregation.js";
+export * from "./alerting.js";
+export * from "./alert-backtest.js";
+export * from "./analysis.js";
+export * from "./chart.js";
+export * from "./incidents.js";
+export * from "./metric-search.js";
+export * from "./mql.js";
+export * from "./promql.js";
+export * from "./slo.js";
+export * from "./uptime.js";
 
 // Export metrics lookup functionality
 export { metricsLookup, Metric, MetricCategory } from "./metrics_lookup.js";
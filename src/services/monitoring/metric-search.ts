@@ -0,0 +1,415 @@
+/**
+ * Ranked metric search
+ *
+ * Metrics are ranked against a natural language query with Okapi BM25,
+ * computed locally over the metric type, display name, description, labels
+ * and monitored resource types. Fields are weighted by scaling their token
+ * counts, and query words are expanded with common synonyms so that phrasing
+ * such as "how busy" reaches metrics described as CPU utilisation.
+ *
+ * Confidence reflects the lead of the best match over the next distinct
+ * metric. Variants of a metric, such as instance/cpu/utilization_by_priority
+ * next to instance/cpu/utilization, share most of their words and would
+ * otherwise make every query about either of them look ambiguous.
+ */
+import type { Metric } from "./metrics_lookup.js";
+
+/**
+ * BM25 term frequency saturation
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 document length normalisation
+ */
+const BM25_B = 0.75;
+
+/**
+ * Confidence below which a caller should ask which metric was meant
+ */
+export const METRIC_SEARCH_MIN_CONFIDENCE = 0.5;
+
+/**
+ * How many times each field's tokens count towards a metric's score
+ */
+const FIELD_WEIGHTS = {
+  type: 3,
+  displayName: 3,
+  description: 1,
+  labels: 1,
+  resources: 2,
+};
+
+/**
+ * Weight of a synonym relative to the word the user wrote
+ */
+const SYNONYM_WEIGHT = 0.6;
+
+/**
+ * Factor applied to the score of a metric whose type or whole display name
+ * appears in the query, counting synonyms of the query's words
+ */
+const EXACT_MATCH_BOOST = 1.5;
+
+/**
+ * Words that carry no meaning for metric search
+ */
+const STOP_WORDS = new Set([
+  "a",
+  "about",
+  "all",
+  "an",
+  "and",
+  "are",
+  "by",
+  "com",
+  "do",
+  "does",
+  "for",
+  "from",
+  "get",
+  "googleapis",
+  "how",
+  "in",
+  "is",
+  "it",
+  "me",
+  "metric",
+  "metrics",
+  "much",
+  "my",
+  "of",
+  "on",
+  "or",
+  "our",
+  "show",
+  "the",
+  "to",
+  "what",
+  "when",
+  "where",
+  "which",
+  "with",
+]);
+
+/**
+ * A label condition such as "database is orders", as the filter builder
+ * reads them
+ */
+const LABEL_CONDITION =
+  /\b([a-z_][a-z0-9_]*)\s+(?:is|equals?|=)\s+["']?[\w-]+["']?/gi;
+
+/**
+ * Words users write mapped to the words metric descriptions use
+ */
+const QUERY_SYNONYMS: Record<string, string[]> = {
+  busy: ["utilization", "cpu", "load"],
+  load: ["utilization", "cpu"],
+  usage: ["utilization", "used"],
+  utilisation: ["utilization"],
+  slow: ["latency"],
+  response: ["latency", "request"],
+  error: ["failed", "failure", "response_code"],
+  failure: ["error", "failed"],
+  traffic: ["request", "bytes", "count"],
+  throughput: ["count", "bytes", "request"],
+  request: ["count"],
+  ram: ["memory"],
+  memory: ["ram"],
+  node: ["instance"],
+  server: ["instance"],
+  vm: ["instance", "gce_instance"],
+  space: ["bytes", "used"],
+  storage: ["bytes", "disk"],
+  restart: ["restart_count"],
+  backlog: ["undelivered", "num_undelivered_messages"],
+  queue: ["backlog", "undelivered"],
+};
+
+/**
+ * A metric matched by a search
+ */
+export interface MetricCandidate {
+  metric: Metric;
+  /** BM25 score scaled by coverage and exact naming; only comparable within one search */
+  score: number;
+  /** Share of the query's words the metric matched, from 0 to 1 */
+  coverage: number;
+  /** How sure the search is that this is the metric meant, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Reduces a word to a simple stem so plurals match
+ *
+ * @param word The lowercase word
+ * @returns The stem
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Splits text into stemmed search tokens
+ *
+ * Metric types and label names are split on slashes, dots and underscores,
+ * so "instance/cpu/utilization" yields "instance", "cpu" and "utilization".
+ *
+ * @param text The text
+ * @returns The tokens, in order
+ */
+export function tokeniseMetricText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Removes the values of the label conditions that follow "where", as they
+ * name resources rather than describe the metric
+ *
+ * @param query The natural language query
+ * @returns The query with only the label names of its conditions
+ */
+function removeConditionValues(query: string): string {
+  const where = /\bwhere\b/i.exec(query);
+  if (!where) {
+    return query;
+  }
+  return (
+    query.slice(0, where.index) +
+    query.slice(where.index).replace(LABEL_CONDITION, "$1")
+  );
+}
+
+/**
+ * Expands query words with their synonyms
+ *
+ * @param word A stemmed query word
+ * @returns The word and its synonyms, each with a weight
+ */
+function expandQueryWord(word: string): Map<string, number> {
+  const expanded = new Map([[word, 1]]);
+  for (const synonym of QUERY_SYNONYMS[word] ?? []) {
+    for (const token of tokeniseMetricText(synonym)) {
+      if (!expanded.has(token)) {
+        expanded.set(token, SYNONYM_WEIGHT);
+      }
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Checks whether the query names a metric by its type or its display name
+ *
+ * @param metric The metric
+ * @param query The lowercase query
+ * @param words The query's tokens and their synonyms
+ * @returns Whether the query contains the type or every display name word
+ */
+function namesMetric(
+  metric: Metric,
+  query: string,
+  words: ReadonlySet<string>,
+): boolean {
+  if (query.includes(metric.type.toLowerCase())) {
+    return true;
+  }
+  const displayWords = tokeniseMetricText(metric.displayName);
+  return (
+    displayWords.length > 0 && displayWords.every((word) => words.has(word))
+  );
+}
+
+/**
+ * Checks whether one metric is a variant of another, such as
+ * instance/cpu/utilization_by_priority of instance/cpu/utilization
+ *
+ * @param a A metric type
+ * @param b Another metric type
+ * @returns Whether either type extends the other's last path segment
+ */
+function isMetricVariant(a: string, b: string): boolean {
+  return a.startsWith(`${b}_`) || b.startsWith(`${a}_`);
+}
+
+/**
+ * A metric with its weighted token counts
+ */
+interface IndexedMetric {
+  metric: Metric;
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 index over a metric catalogue
+ */
+export class MetricSearchIndex {
+  private documents: IndexedMetric[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  /**
+   * Build an index over metrics
+   *
+   * @param metrics The metrics to index
+   */
+  constructor(metrics: Metric[]) {
+    this.documents = metrics.map((metric) => {
+      const terms = new Map<string, number>();
+      const add = (text: string, weight: number) => {
+        for (const token of tokeniseMetricText(text)) {
+          terms.set(token, (terms.get(token) ?? 0) + weight);
+        }
+      };
+      add(metric.type, FIELD_WEIGHTS.type);
+      add(metric.displayName, FIELD_WEIGHTS.displayName);
+      add(metric.description, FIELD_WEIGHTS.description);
+      for (const label of metric.labels) {
+        add(label.name, FIELD_WEIGHTS.labels);
+      }
+      add(metric.monitoredResources.join(" "), FIELD_WEIGHTS.resources);
+
+      let length = 0;
+      for (const [term, count] of terms) {
+        length += count;
+        this.documentFrequency.set(
+          term,
+          (this.documentFrequency.get(term) ?? 0) + 1,
+        );
+      }
+      return { metric, terms, length };
+    });
+    this.averageLength =
+      this.documents.reduce((total, doc) => total + doc.length, 0) /
+        this.documents.length || 1;
+  }
+
+  /**
+   * Computes the inverse document frequency of a term
+   *
+   * @param term The term
+   * @returns The BM25 IDF, always positive
+   */
+  private idf(term: string): number {
+    const frequency = this.documentFrequency.get(term) ?? 0;
+    return Math.log(
+      1 + (this.documents.length - frequency + 0.5) / (frequency + 0.5),
+    );
+  }
+
+  /**
+   * Ranks metrics against a query
+   *
+   * @param query The natural language query
+   * @param limit Maximum number of candidates
+   * @param eligible When given, only these metrics may match
+   * @returns The candidates, best first
+   */
+  search(
+    query: string,
+    limit = 5,
+    eligible?: ReadonlySet<Metric>,
+  ): MetricCandidate[] {
+    const words = [
+      ...new Set(tokeniseMetricText(removeConditionValues(query))),
+    ];
+    if (words.length === 0) {
+      return [];
+    }
+    const expansions = words.map(expandQueryWord);
+    const lowerQuery = query.toLowerCase();
+    const namedWords = new Set(
+      expansions.flatMap((expansion) => [...expansion.keys()]),
+    );
+
+    const scored = [];
+    for (const doc of this.documents) {
+      if (eligible && !eligible.has(doc.metric)) {
+        continue;
+      }
+      let score = 0;
+      let matchedWords = 0;
+      for (const expansion of expansions) {
+        let matched = false;
+        for (const [term, weight] of expansion) {
+          const frequency = doc.terms.get(term);
+          if (!frequency) {
+            continue;
+          }
+          matched = true;
+          score +=
+            weight *
+            this.idf(term) *
+            ((frequency * (BM25_K1 + 1)) /
+              (frequency +
+                BM25_K1 *
+                  (1 - BM25_B + (BM25_B * doc.length) / this.averageLength)));
+        }
+        if (matched) {
+          matchedWords++;
+        }
+      }
+      if (score > 0) {
+        // Scaling by coverage favours metrics that match every part of the
+        // query over those that match one part very well
+        const coverage = matchedWords / words.length;
+        const boost = namesMetric(doc.metric, lowerQuery, namedWords)
+          ? EXACT_MATCH_BOOST
+          : 1;
+        scored.push({
+          metric: doc.metric,
+          score: score * coverage * boost,
+          coverage,
+        });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    const best = scored[0];
+    const top = best?.score ?? 0;
+    // A clear lead over the best other metric makes the top match more
+    // certain; its own variants are not competitors
+    const second =
+      scored
+        .slice(1)
+        .find(
+          (candidate) =>
+            !isMetricVariant(candidate.metric.type, best.metric.type),
+        )?.score ?? 0;
+    const margin = top > 0 ? (top - second) / top : 0;
+
+    return scored.slice(0, limit).map((candidate) => ({
+      ...candidate,
+      confidence:
+        candidate.coverage * (candidate.score / top) * (0.4 + 0.6 * margin),
+    }));
+  }
+}
+
+/**
+ * Formats candidates with their confidence and filter
+ *
+ * @param candidates The candidates, best first
+ * @returns A markdown table
+ */
+export function formatMetricCandidates(
+  candidates: Array<MetricCandidate & { filter: string }>,
+): string {
+  let text = "| Confidence | Metric Type | Display Name | Filter |\n";
+  text += "|------------|-------------|--------------|--------|\n";
+  for (const candidate of candidates) {
+    text += `| ${Math.round(candidate.confidence * 100)}% | ${candidate.metric.type} | ${candidate.metric.displayName || "-"} | \`${candidate.filter}\` |\n`;
+  }
+  return text;
+}
@@ -3,12 +3,19 @@
  *
  * This module provides functionality to search and retrieve metric information
  * from the metrics documentation files based on natural language queries.
+ * The documentation is merged with the metric descriptors of the active
+ * project, so custom, log-based and Prometheus metrics can be found too.
  */
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { promisify } from "util";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { logger } from "../../utils/logger.js";
+import { MetricCandidate, MetricSearchIndex } from "./metric-search.js";
+import { getMonitoringClient } from "./types.js";
 
 const readFile = promisify(fs.readFile);
 
@@ -46,6 +53,167 @@ export enum MetricCategory {
   GCP = "gcp",
   Kubernetes = "kubernetes",
   Istio = "istio",
+  Project = "project",
+}
+
+/**
+ * Default number of seconds a cached project catalogue stays fresh
+ */
+const DEFAULT_CATALOGUE_TTL_SECONDS = 6 * 60 * 60;
+
+/**
+ * A project's metric descriptors as cached on disk
+ */
+interface CachedCatalogue {
+  projectId: string;
+  /** When the descriptors were fetched, in milliseconds since the epoch */
+  fetchedAt: number;
+  metrics: Metric[];
+}
+
+/**
+ * Options for searching the catalogue
+ */
+export interface MetricSearchOptions {
+  /** Natural language or keyword query; without one, matches are sorted by type */
+  query?: string;
+  category?: MetricCategory;
+  /** Only metrics written against this monitored resource type */
+  resourceType?: string;
+  /** Only metrics with this label */
+  label?: string;
+  limit?: number;
+}
+
+/**
+ * A ranked metric with the filter that selects it
+ */
+export interface RankedMetric extends MetricCandidate {
+  filter: string;
+}
+
+/**
+ * Returns the directory project catalogues are cached in
+ *
+ * @returns The `METRIC_CATALOGUE_DIR` environment variable, or ~/.google-cloud-mcp/metric-catalogue
+ */
+export function getMetricCatalogueDirectory(): string {
+  return (
+    process.env.METRIC_CATALOGUE_DIR ||
+    path.join(os.homedir(), ".google-cloud-mcp", "metric-catalogue")
+  );
+}
+
+/**
+ * Returns how long a cached project catalogue stays fresh
+ *
+ * @returns The `METRIC_CATALOGUE_TTL_SECONDS` environment variable, or six hours
+ */
+export function getMetricCatalogueTtlSeconds(): number {
+  const ttl = Number(process.env.METRIC_CATALOGUE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CATALOGUE_TTL_SECONDS;
+}
+
+/**
+ * Converts a metric descriptor to a catalogue entry
+ *
+ * @param descriptor The metric descriptor
+ * @returns The metric
+ */
+export function metricDescriptorToMetric(
+  descriptor: google.api.IMetricDescriptor,
+): Metric {
+  return {
+    type: descriptor.type ?? "",
+    displayName: descriptor.displayName ?? "",
+    description: descriptor.description ?? "",
+    kind: String(descriptor.metricKind ?? ""),
+    valueType: String(descriptor.valueType ?? ""),
+    unit: descriptor.unit ?? "",
+    monitoredResources: descriptor.monitoredResourceTypes ?? [],
+    labels: (descriptor.labels ?? []).map((label) => ({
+      name: label.key ?? "",
+      description: label.description ?? "",
+    })),
+    source: MetricCategory.Project,
+  };
+}
+
+/**
+ * Metric type prefixes of the documentation files that do not state one
+ */
+const DEFAULT_METRIC_TYPE_PREFIXES: Partial<Record<MetricCategory, string>> = {
+  [MetricCategory.Kubernetes]: "kubernetes.io/",
+  [MetricCategory.Istio]: "istio.io/",
+};
+
+/**
+ * Parses the metrics listed in a documentation file
+ *
+ * Each metric takes three lines of the file's tables: the type, launch stage
+ * and display name; the kind, value type, unit and monitored resources; and
+ * the description followed by each label and its description. Columns are
+ * separated by runs of whitespace, which includes the non-breaking spaces
+ * the files use. Types are prefixed with the domain named before each table.
+ *
+ * @param content The markdown content
+ * @param category The category of the file
+ * @returns The metrics, in the order listed
+ */
+export function parseMetricsMarkdown(
+  content: string,
+  category: MetricCategory,
+): Metric[] {
+  const lines = content.split("\n");
+  const metrics: Metric[] = [];
+  let prefix = DEFAULT_METRIC_TYPE_PREFIXES[category] ?? "";
+
+  for (let index = 0; index < lines.length; index++) {
+    const prefixMatch = lines[index].match(/must be prefixed with `([^`]+)`/);
+    if (prefixMatch) {
+      prefix = prefixMatch[1];
+      continue;
+    }
+
+    const header = lines[index].match(
+      /^\*\s+Metric\s+type\b.*?Display\s+name:\s+(\S+)\s+[A-Z_]+\s+\([^)]*\)\s*(.*?)\s*$/,
+    );
+    const details = lines[index + 1]?.match(
+      /Display\s+name:\s+(GAUGE|DELTA|CUMULATIVE),\s+([A-Z0-9]+),\s+(.*?)\s*$/,
+    );
+    if (!header || !details) {
+      continue;
+    }
+    const [unit, ...monitoredResources] = details[3].split(/\s{2,}/);
+
+    // The description and labels are split on "name:" columns
+    const descriptionLine = lines[index + 2]?.match(/^\s+\*\s+(.*?)\s*$/);
+    const columns = descriptionLine
+      ? descriptionLine[1].split(/\s{2,}(\S+):\s+/)
+      : [""];
+    const labels: Array<{ name: string; description: string }> = [];
+    for (let column = 1; column < columns.length; column += 2) {
+      labels.push({
+        name: columns[column],
+        description: (columns[column + 1] ?? "").replace(/\s+/g, " ").trim(),
+      });
+    }
+
+    metrics.push({
+      type: `${prefix}${header[1]}`,
+      displayName: header[2],
+      description: columns[0].replace(/\s+/g, " ").trim(),
+      kind: details[1],
+      valueType: details[2],
+      unit,
+      monitoredResources,
+      labels,
+      source: category,
+    });
+    index += descriptionLine ? 2 : 1;
+  }
+
+  return metrics;
 }
 
 /**
@@ -55,6 +223,13 @@ export class MetricsLookup {
   private metrics: Metric[] = [];
   private initialized = false;
   private metricsDir: string;
+  /** Documented metrics merged with those of the loaded project */
+  private catalogue: Metric[] = [];
+  private projectId?: string;
+  private projectLoadedAt = 0;
+  private projectMetricCount = 0;
+  /** Search index over the catalogue, built when first needed */
+  private searchIndex?: MetricSearchIndex;
 
   /**
    * Create a new MetricsLookup instance
@@ -78,6 +253,8 @@ export class MetricsLookup {
     await this.parseMetricsFile(MetricCategory.Kubernetes);
     await this.parseMetricsFile(MetricCategory.Istio);
 
+    this.catalogue = this.metrics;
+    this.searchIndex = undefined;
     this.initialized = true;
     // Metrics lookup initialized successfully
   }
@@ -94,107 +271,7 @@ export class MetricsLookup {
     try {
       const content = await readFile(filepath, "utf-8");
 
-      // Extract metrics from the markdown content
-      // This is a simplified implementation - in a real-world scenario,
-      // we would use a more robust markdown parser
-
-      // Split the content by metric entries (each starting with "* Metric type")
-      const metricEntries = content.split(/\n\* Metric type/).slice(1);
-
-      for (const entry of metricEntries) {
-        try {
-          // Extract metric type
-          const typeMatch = entry.match(
-            /([a-zA-Z0-9_/]+)\s+([A-Z]+)\s+\(project\)/,
-          );
-          if (!typeMatch) continue;
-
-          const metricName = typeMatch[1].trim();
-
-          // Extract display name
-          const displayNameMatch = entry.match(/Display name:\s+([^\n]+)/);
-          const displayName = displayNameMatch
-            ? displayNameMatch[1].trim()
-            : "";
-
-          // Extract kind, type, and unit
-          const kindTypeUnitMatch = entry.match(
-            /(GAUGE|DELTA|CUMULATIVE),\s+(INT64|DOUBLE|DISTRIBUTION|STRING),\s+([^\n]+)/,
-          );
-          const kind = kindTypeUnitMatch ? kindTypeUnitMatch[1].trim() : "";
-          const valueType = kindTypeUnitMatch
-            ? kindTypeUnitMatch[2].trim()
-            : "";
-          const unit = kindTypeUnitMatch ? kindTypeUnitMatch[3].trim() : "";
-
-          // Extract monitored resources
-          const resourcesMatch = entry.match(
-            /([a-zA-Z0-9_.]+(\s+[a-zA-Z0-9_.]+)*)/g,
-          );
-          const monitoredResources = resourcesMatch
-            ? resourcesMatch.filter(
-                (r) =>
-                  r.includes(".googleapis.com") ||
-                  [
-                    "k8s_container",
-                    "k8s_pod",
-                    "istio_canonical_service",
-                  ].includes(r),
-              )
-            : [];
-
-          // Extract description
-          const descriptionMatch = entry.match(
-            /\*\s+(.*?)(?=\s+[a-zA-Z_]+:|\s*$)/s,
-          );
-          const description = descriptionMatch
-            ? descriptionMatch[1].trim()
-            : "";
-
-          // Extract labels
-          const labels: Array<{ name: string; description: string }> = [];
-          const labelMatches = entry.matchAll(
-            /([a-zA-Z_]+):\s+(.*?)(?=\s+[a-zA-Z_]+:|\s*$)/g,
-          );
-
-          for (const match of labelMatches) {
-            labels.push({
-              name: match[1].trim(),
-              description: match[2].trim(),
-            });
-          }
-
-          // Determine the full metric type based on category
-          let fullType = "";
-          if (category === MetricCategory.GCP) {
-            // For GCP metrics, we need to find the API prefix
-            const apiPrefixMatch = content.match(
-              /The "metric type" strings in this table must be prefixed with `([^`]+)`/,
-            );
-            const apiPrefix = apiPrefixMatch ? apiPrefixMatch[1] : "";
-            fullType = apiPrefix + metricName;
-          } else if (category === MetricCategory.Kubernetes) {
-            fullType = `kubernetes.io/${metricName}`;
-          } else if (category === MetricCategory.Istio) {
-            fullType = `istio.io/${metricName}`;
-          }
-
-          this.metrics.push({
-            type: fullType,
-            displayName,
-            description,
-            kind,
-            valueType,
-            unit,
-            monitoredResources,
-            labels,
-            source: category,
-          });
-        } catch {
-          // Error parsing metric entry - skipping
-          // Continue with next entry
-        }
-      }
+      this.metrics.push(...parseMetricsMarkdown(content, category));
 
       // Metrics file parsed successfully
     } catch {
@@ -204,131 +281,180 @@ export class MetricsLookup {
   }
 
   /**
-   * Find metrics based on a natural language query
+   * Load the metric descriptors of a project into the catalogue
    *
-   * @param query The natural language query to search for
-   * @param category Optional category to limit the search to
-   * @param limit Maximum number of results to return
-   * @returns Array of matching metrics
+   * Descriptors are cached on disk per project and fetched again once the
+   * cache is older than the TTL. Documented metrics the project also
+   * describes are replaced by its descriptors, keeping their category.
+   * Call initialize() first so the documented metrics are merged in.
+   *
+   * @param projectId The project ID
+   * @param client The Monitoring client
+   * @param refresh Whether to ignore any cached descriptors
+   * @returns The number of project metrics and whether they came from the cache
    */
-  findMetrics(query: string, category?: MetricCategory, limit = 5): Metric[] {
-    if (!this.initialized) {
-      throw new Error(
-        "Metrics lookup not initialized. Call initialize() first.",
-      );
+  async loadProjectMetrics(
+    projectId: string,
+    client: ReturnType<typeof getMonitoringClient>,
+    refresh = false,
+  ): Promise<{ count: number; cached: boolean }> {
+    const ttlMs = getMetricCatalogueTtlSeconds() * 1000;
+    if (
+      !refresh &&
+      this.projectId === projectId &&
+      Date.now() - this.projectLoadedAt < ttlMs
+    ) {
+      return { count: this.projectMetricCount, cached: true };
     }
 
-    // Convert query to lowercase for case-insensitive matching
-    const lowerQuery = query.toLowerCase();
+    const cacheFile = path.join(
+      getMetricCatalogueDirectory(),
+      `${projectId.replace(/[^A-Za-z0-9._-]/g, "_")}.json`,
+    );
+    let cached: CachedCatalogue | undefined;
+    if (!refresh) {
+      try {
+        cached = JSON.parse(await fs.promises.readFile(cacheFile, "utf-8"));
+      } catch {
+        // No usable cache - fetch the descriptors
+      }
+    }
 
-    // Extract key terms from the query
-    const terms = this.extractKeyTerms(lowerQuery);
+    let projectMetrics: Metric[];
+    let fetchedAt: number;
+    const fromCache =
+      cached?.projectId === projectId && Date.now() - cached.fetchedAt < ttlMs;
+    if (fromCache) {
+      projectMetrics = cached!.metrics;
+      fetchedAt = cached!.fetchedAt;
+    } else {
+      const [descriptors] = await client.listMetricDescriptors({
+        name: `projects/${projectId}`,
+      });
+      projectMetrics = (descriptors ?? []).map(metricDescriptorToMetric);
+      fetchedAt = Date.now();
+      try {
+        await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+        await fs.promises.writeFile(
+          cacheFile,
+          JSON.stringify({ projectId, fetchedAt, metrics: projectMetrics }),
+        );
+      } catch (error) {
+        logger.warn(
+          `Could not cache metric descriptors: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
 
-    // Score each metric based on how well it matches the query
-    const scoredMetrics = this.metrics
-      .filter((metric) => !category || metric.source === category)
-      .map((metric) => {
-        const score = this.calculateRelevanceScore(metric, terms, lowerQuery);
-        return { metric, score };
-      })
-      .filter((item) => item.score > 0)
-      .sort((a, b) => b.score - a.score);
+    const documented = new Map(
+      this.metrics.map((metric) => [metric.type, metric]),
+    );
+    const merged = projectMetrics.map((metric) => ({
+      ...metric,
+      source: documented.get(metric.type)?.source ?? MetricCategory.Project,
+    }));
+    const projectTypes = new Set(merged.map((metric) => metric.type));
+    this.catalogue = [
+      ...merged,
+      ...this.metrics.filter((metric) => !projectTypes.has(metric.type)),
+    ];
+    this.searchIndex = undefined;
+    this.projectId = projectId;
+    this.projectLoadedAt = fetchedAt;
+    this.projectMetricCount = projectMetrics.length;
 
-    // Return the top N results
-    return scoredMetrics.slice(0, limit).map((item) => item.metric);
+    return { count: projectMetrics.length, cached: fromCache };
   }
 
   /**
-   * Extract key terms from a natural language query
+   * Search the catalogue by query, resource type and label
    *
-   * @param query The query to extract terms from
-   * @returns Array of key terms
+   * @param options The search options
+   * @returns Matching metrics, best first
    */
-  private extractKeyTerms(query: string): string[] {
-    // Remove common words and split into terms
-    const stopWords = [
-      "a",
-      "an",
-      "the",
-      "and",
-      "or",
-      "but",
-      "is",
-      "are",
-      "for",
-      "with",
-      "about",
-      "to",
-      "in",
-      "of",
-    ];
+  searchMetrics(options: MetricSearchOptions): Metric[] {
+    if (!this.initialized) {
+      throw new Error(
+        "Metrics lookup not initialized. Call initialize() first.",
+      );
+    }
 
-    return query
-      .toLowerCase()
-      .replace(/[^\w\s]/g, " ")
-      .split(/\s+/)
-      .filter((word) => word.length > 2 && !stopWords.includes(word));
+    if (options.query) {
+      return this.rankMetrics(options.query, options).map(
+        (candidate) => candidate.metric,
+      );
+    }
+    return this.catalogue
+      .filter((metric) => this.matchesOptions(metric, options))
+      .sort((a, b) => a.type.localeCompare(b.type))
+      .slice(0, options.limit ?? 5);
   }
 
   /**
-   * Calculate a relevance score for a metric based on how well it matches the query terms
+   * Rank metrics against a natural language query
    *
-   * @param metric The metric to score
-   * @param terms The key terms from the query
-   * @param fullQuery The full original query
-   * @returns A relevance score (higher is better)
+   * @param query The natural language query
+   * @param options Filters and the number of candidates to return
+   * @returns The candidates with their confidence and filter, best first
    */
-  private calculateRelevanceScore(
-    metric: Metric,
-    terms: string[],
-    fullQuery: string,
-  ): number {
-    let score = 0;
-
-    // Check for exact matches in the metric type (highest priority)
-    if (metric.type.toLowerCase().includes(fullQuery)) {
-      score += 100;
-    }
-
-    // Check for exact matches in the display name
-    if (metric.displayName.toLowerCase().includes(fullQuery)) {
-      score += 80;
+  rankMetrics(
+    query: string,
+    options: Omit<MetricSearchOptions, "query"> = {},
+  ): RankedMetric[] {
+    if (!this.initialized) {
+      throw new Error(
+        "Metrics lookup not initialized. Call initialize() first.",
+      );
     }
 
-    // Check for exact matches in the description
-    if (metric.description.toLowerCase().includes(fullQuery)) {
-      score += 60;
+    if (!this.searchIndex) {
+      this.searchIndex = new MetricSearchIndex(this.catalogue);
     }
+    const eligible = new Set(
+      this.catalogue.filter((metric) => this.matchesOptions(metric, options)),
+    );
+    return this.searchIndex
+      .search(query, options.limit ?? 5, eligible)
+      .map((candidate) => ({
+        ...candidate,
+        filter: this.buildFilter(candidate.metric, query),
+      }));
+  }
 
-    // Check for individual term matches
-    for (const term of terms) {
-      // Match in type
-      if (metric.type.toLowerCase().includes(term)) {
-        score += 30;
-      }
-
-      // Match in display name
-      if (metric.displayName.toLowerCase().includes(term)) {
-        score += 25;
-      }
-
-      // Match in description
-      if (metric.description.toLowerCase().includes(term)) {
-        score += 20;
-      }
-
-      // Match in labels
-      for (const label of metric.labels) {
-        if (
-          label.name.toLowerCase().includes(term) ||
-          label.description.toLowerCase().includes(term)
-        ) {
-          score += 15;
-        }
-      }
-    }
+  /**
+   * Check a metric against the category, resource type and label options
+   *
+   * @param metric The metric
+   * @param options The search options
+   * @returns Whether the metric passes the filters
+   */
+  private matchesOptions(
+    metric: Metric,
+    options: MetricSearchOptions,
+  ): boolean {
+    const resourceType = options.resourceType?.toLowerCase();
+    const label = options.label?.toLowerCase();
+    return (
+      (!options.category || metric.source === options.category) &&
+      (!resourceType ||
+        metric.monitoredResources.some(
+          (resource) => resource.toLowerCase() === resourceType,
+        )) &&
+      (!label ||
+        metric.labels.some((item) => item.name.toLowerCase() === label))
+    );
+  }
 
-    return score;
+  /**
+   * Find metrics based on a natural language query
+   *
+   * @param query The natural language query to search for
+   * @param category Optional category to limit the search to
+   * @param limit Maximum number of results to return
+   * @returns Array of matching metrics
+   */
+  findMetrics(query: string, category?: MetricCategory, limit = 5): Metric[] {
+    return this.searchMetrics({ query, category, limit });
   }
 
   /**
@@ -338,7 +464,7 @@ export class MetricsLookup {
    * @returns The metric or undefined if not found
    */
   getMetricByType(metricType: string): Metric | undefined {
-    return this.metrics.find((m) => m.type === metricType);
+    return this.catalogue.find((m) => m.type === metricType);
   }
 
   /**
@@ -348,17 +474,20 @@ export class MetricsLookup {
    * @returns A suggested monitoring filter string
    */
   suggestFilter(query: string): string {
-    const metrics = this.findMetrics(query);
-
-    if (metrics.length === 0) {
-      return "";
-    }
-
-    // Use the top matching metric to create a filter
-    const topMetric = metrics[0];
+    const [best] = this.rankMetrics(query, { limit: 1 });
+    return best?.filter ?? "";
+  }
 
+  /**
+   * Build a monitoring filter for a metric from the conditions in a query
+   *
+   * @param metric The metric
+   * @param query The natural language query
+   * @returns The filter
+   */
+  private buildFilter(metric: Metric, query: string): string {
     // Basic filter with just the metric type
-    let filter = `metric.type="${topMetric.type}"`;
+    let filter = `metric.type="${metric.type}"`;
 
     // Try to extract additional filter conditions from the query
     const resourceMatch =
@@ -368,7 +497,7 @@ export class MetricsLookup {
     }
 
     // Look for label conditions
-    for (const label of topMetric.labels) {
+    for (const label of metric.labels) {
       const labelRegex = new RegExp(
         `${label.name}\\s+(?:is|equals?|=)\\s+["']?([\\w-]+)["']?`,
         "i",
@@ -0,0 +1,182 @@
+/**
+ * Monitoring Query Language (MQL) execution
+ *
+ * MQL results are tables rather than time series: each page of a
+ * `queryTimeSeries` response carries a descriptor naming the label columns
+ * and point value columns, and rows hold the matching label and point values.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { formatTypedValue, getQueryClient } from "./types.js";
+
+/**
+ * Largest page the Query API returns
+ */
+const MQL_MAX_PAGE_SIZE = 1000;
+
+/**
+ * One output table of an MQL query
+ */
+export interface MqlTable {
+  /** Label column names, e.g. resource.zone */
+  labelKeys: string[];
+  /** Point value columns */
+  pointDescriptors: google.monitoring.v3.TimeSeriesDescriptor.IValueDescriptor[];
+  series: google.monitoring.v3.ITimeSeriesData[];
+}
+
+/**
+ * Result of an MQL query across all fetched pages
+ */
+export interface MqlQueryResult {
+  tables: MqlTable[];
+  /** Partial errors reported by the API */
+  warnings: string[];
+  /** Whether more series were available than were fetched */
+  truncated: boolean;
+}
+
+/**
+ * Runs an MQL query, following pages until `maxSeries` rows are read
+ *
+ * Pages whose descriptors differ start a new table, so queries with several
+ * outputs keep their columns apart.
+ *
+ * @param client The Query client
+ * @param projectId The project ID
+ * @param query The MQL query
+ * @param maxSeries The maximum number of series to fetch
+ * @returns The output tables
+ */
+export async function queryMql(
+  client: ReturnType<typeof getQueryClient>,
+  projectId: string,
+  query: string,
+  maxSeries: number,
+): Promise<MqlQueryResult> {
+  const tables: MqlTable[] = [];
+  const tablesByKey = new Map<string, MqlTable>();
+  const warnings: string[] = [];
+  let descriptor: google.monitoring.v3.ITimeSeriesDescriptor | undefined;
+  let pageToken: string | undefined;
+  let count = 0;
+
+  do {
+    const [series, , response] = await client.queryTimeSeries(
+      {
+        name: `projects/${projectId}`,
+        query,
+        pageSize: Math.min(maxSeries - count, MQL_MAX_PAGE_SIZE),
+        pageToken,
+      },
+      { autoPaginate: false },
+    );
+
+    descriptor = response?.timeSeriesDescriptor ?? descriptor;
+    const labelKeys = (descriptor?.labelDescriptors ?? []).map(
+      (label) => label.key ?? "",
+    );
+    const pointDescriptors = descriptor?.pointDescriptors ?? [];
+    const key = JSON.stringify([
+      labelKeys,
+      pointDescriptors.map((point) => point.key),
+    ]);
+
+    let table = tablesByKey.get(key);
+    if (!table) {
+      table = { labelKeys, pointDescriptors, series: [] };
+      tablesByKey.set(key, table);
+      tables.push(table);
+    }
+    const rows = (series ?? []).slice(0, maxSeries - count);
+    table.series.push(...rows);
+    count += rows.length;
+
+    for (const error of response?.partialErrors ?? []) {
+      if (error.message) {
+        warnings.push(error.message);
+      }
+    }
+    pageToken = response?.nextPageToken || undefined;
+  } while (pageToken && count < maxSeries);
+
+  return {
+    tables: tables.filter((table) => table.series.length > 0),
+    warnings,
+    truncated: Boolean(pageToken),
+  };
+}
+
+/**
+ * Formats a label value of an MQL row
+ *
+ * @param value The label value
+ * @returns The value as text
+ */
+function formatLabelValue(value: google.monitoring.v3.ILabelValue): string {
+  if (value.stringValue !== undefined && value.stringValue !== null) {
+    return value.stringValue;
+  } else if (value.int64Value !== undefined && value.int64Value !== null) {
+    return value.int64Value.toString();
+  } else if (value.boolValue !== undefined && value.boolValue !== null) {
+    return String(value.boolValue);
+  }
+  return "";
+}
+
+/**
+ * Formats MQL output tables for display
+ *
+ * Each row is shown like a time series from `formatTimeSeriesData`, with one
+ * value column per point descriptor.
+ *
+ * @param tables The output tables
+ * @returns A markdown representation of the tables
+ */
+export function formatMqlTables(tables: MqlTable[]): string {
+  if (tables.length === 0) {
+    return "No time series data found.";
+  }
+
+  let result = "";
+  tables.forEach((table, tableIndex) => {
+    if (tables.length > 1) {
+      result += `# Table ${tableIndex + 1}\n\n`;
+    }
+
+    const columns = table.pointDescriptors.map(
+      (point, index) => point.key || `value${index + 1}`,
+    );
+
+    table.series.forEach((series, seriesIndex) => {
+      const labels = (series.labelValues ?? [])
+        .map(
+          (value, index) =>
+            `${table.labelKeys[index] ?? `label${index + 1}`}=${formatLabelValue(value)}`,
+        )
+        .join(", ");
+
+      result += `## Series: ${labels || seriesIndex + 1}\n`;
+      for (const [index, point] of table.pointDescriptors.entries()) {
+        result += `- ${columns[index]}: Kind: ${point.metricKind}, Type: ${point.valueType}${point.unit ? `, Unit: ${point.unit}` : ""}\n`;
+      }
+      result += "\n";
+
+      result += `| Timestamp | ${columns.join(" | ")} |\n`;
+      result += `|-----------|${columns.map(() => "-------").join("|")}|\n`;
+
+      for (const point of series.pointData ?? []) {
+        const timestamp = new Date(
+          Number(point.timeInterval?.endTime?.seconds) * 1000,
+        ).toISOString();
+        const values = columns.map((_, index) =>
+          formatTypedValue(point.values?.[index]),
+        );
+        result += `| ${timestamp} | ${values.join(" | ")} |\n`;
+      }
+
+      result += "\n---\n\n";
+    });
+  });
+
+  return result;
+}
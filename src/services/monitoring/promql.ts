@@ -0,0 +1,275 @@
+/**
+ * PromQL queries through the Managed Service for Prometheus API
+ *
+ * Cloud Monitoring exposes a Prometheus-compatible HTTP API per project.
+ * Results are converted to Monitoring time series so they can be displayed
+ * with the same formatter as `listTimeSeries` results.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { initGoogleAuth } from "../../utils/auth.js";
+import { GcpMcpError } from "../../utils/error.js";
+
+/**
+ * Kinds of PromQL query
+ */
+export const PROMQL_QUERY_TYPES = ["instant", "range"] as const;
+
+/**
+ * A PromQL query kind
+ */
+export type PromqlQueryType = (typeof PROMQL_QUERY_TYPES)[number];
+
+/**
+ * Labels identifying a prometheus_target monitored resource
+ */
+const PROMETHEUS_TARGET_LABELS = [
+  "project_id",
+  "location",
+  "cluster",
+  "namespace",
+  "job",
+  "instance",
+];
+
+/**
+ * A PromQL query
+ */
+export interface PromqlQuery {
+  query: string;
+  type: PromqlQueryType;
+  /** Evaluation time of an instant query */
+  time?: Date;
+  start?: Date;
+  end?: Date;
+  /** Resolution of a range query, in seconds */
+  stepSeconds?: number;
+}
+
+/**
+ * A sample as returned by the Prometheus API: [unix seconds, value]
+ */
+export type PrometheusSample = [number, string];
+
+/**
+ * Result data returned by the Prometheus query API
+ */
+export interface PrometheusQueryData {
+  resultType: "matrix" | "vector" | "scalar" | "string";
+  result: unknown;
+}
+
+/**
+ * One series of a PromQL result in plain JSON form
+ */
+export interface PromqlSeries {
+  metric: Record<string, string>;
+  /** Samples in time order; NaN and infinite values are null */
+  values: Array<{ timestamp: string; value: number | null }>;
+}
+
+/**
+ * Result of a PromQL query
+ */
+export interface PromqlResult {
+  resultType: PrometheusQueryData["resultType"];
+  series: PromqlSeries[];
+  warnings: string[];
+}
+
+/**
+ * Builds the URL of the Prometheus query API for a project
+ *
+ * @param projectId The project ID
+ * @param type The query kind
+ * @returns The endpoint URL
+ */
+export function getPrometheusQueryUrl(
+  projectId: string,
+  type: PromqlQueryType,
+): string {
+  return `https://monitoring.googleapis.com/v1/projects/${projectId}/location/global/prometheus/api/v1/${type === "range" ? "query_range" : "query"}`;
+}
+
+/**
+ * Formats a date as the Unix seconds the Prometheus API expects
+ *
+ * @param date The date
+ * @returns Seconds since the epoch
+ */
+function toUnixSeconds(date: Date): string {
+  return String(date.getTime() / 1000);
+}
+
+/**
+ * Runs a PromQL query
+ *
+ * @param projectId The project ID
+ * @param query The query
+ * @returns The query result
+ */
+export async function queryPromql(
+  projectId: string,
+  query: PromqlQuery,
+): Promise<PromqlResult> {
+  const params = new URLSearchParams({ query: query.query });
+  if (query.type === "range") {
+    if (!query.start || !query.end || !query.stepSeconds) {
+      throw new GcpMcpError(
+        "Range queries need a start time, an end time and a step",
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    params.set("start", toUnixSeconds(query.start));
+    params.set("end", toUnixSeconds(query.end));
+    params.set("step", `${query.stepSeconds}s`);
+  } else if (query.time) {
+    params.set("time", toUnixSeconds(query.time));
+  }
+
+  const auth = await initGoogleAuth(true);
+  if (!auth) {
+    throw new GcpMcpError(
+      "Google Cloud authentication not available. Please configure authentication to run PromQL queries.",
+      "UNAUTHENTICATED",
+      401,
+    );
+  }
+  const client = await auth.getClient();
+  const token = await client.getAccessToken();
+
+  const response = await fetch(getPrometheusQueryUrl(projectId, query.type), {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token.token}`,
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params.toString(),
+  });
+
+  const body = (await response.json().catch(() => undefined)) as
+    | {
+        status?: string;
+        data?: PrometheusQueryData;
+        error?: string;
+        errorType?: string;
+        warnings?: string[];
+      }
+    | undefined;
+
+  if (!response.ok || body?.status !== "success" || !body.data) {
+    throw new GcpMcpError(
+      `PromQL query failed: ${body?.error || response.statusText || "Unknown error"}${body?.errorType ? ` (${body.errorType})` : ""}`,
+      response.status === 400 ? "INVALID_ARGUMENT" : "FAILED_PRECONDITION",
+      response.ok ? 500 : response.status,
+    );
+  }
+
+  return {
+    resultType: body.data.resultType,
+    series: toPromqlSeries(body.data),
+    warnings: body.warnings || [],
+  };
+}
+
+/**
+ * Converts a Prometheus sample to a timestamped value
+ *
+ * @param sample The sample
+ * @returns The ISO timestamp and numeric value
+ */
+function toSampleValue([seconds, value]: PrometheusSample): {
+  timestamp: string;
+  value: number | null;
+} {
+  const number = Number(value);
+  return {
+    timestamp: new Date(seconds * 1000).toISOString(),
+    value: Number.isFinite(number) ? number : null,
+  };
+}
+
+/**
+ * Converts Prometheus result data to plain series
+ *
+ * @param data The result data
+ * @returns One series per result, each with its samples in time order
+ */
+export function toPromqlSeries(data: PrometheusQueryData): PromqlSeries[] {
+  switch (data.resultType) {
+    case "matrix":
+      return (
+        data.result as Array<{
+          metric: Record<string, string>;
+          values: PrometheusSample[];
+        }>
+      ).map((series) => ({
+        metric: series.metric || {},
+        values: (series.values || []).map(toSampleValue),
+      }));
+    case "vector":
+      return (
+        data.result as Array<{
+          metric: Record<string, string>;
+          value: PrometheusSample;
+        }>
+      ).map((series) => ({
+        metric: series.metric || {},
+        values: series.value ? [toSampleValue(series.value)] : [],
+      }));
+    case "scalar":
+    case "string":
+      return [
+        {
+          metric: {},
+          values: [toSampleValue(data.result as PrometheusSample)],
+        },
+      ];
+  }
+}
+
+/**
+ * Converts PromQL series to Monitoring time series for display
+ *
+ * The metric name becomes the metric type and prometheus_target labels
+ * become resource labels, mirroring how Managed Prometheus stores the data.
+ *
+ * @param series The PromQL series
+ * @param query The query, used as the type of series without a metric name
+ * @returns The equivalent Monitoring time series
+ */
+export function promqlSeriesToTimeSeries(
+  series: PromqlSeries[],
+  query: string,
+): google.monitoring.v3.ITimeSeries[] {
+  return series.map((item) => {
+    const metricLabels: Record<string, string> = {};
+    const resourceLabels: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item.metric)) {
+      if (key === "__name__") {
+        continue;
+      }
+      if (PROMETHEUS_TARGET_LABELS.includes(key)) {
+        resourceLabels[key] = value;
+      } else {
+        metricLabels[key] = value;
+      }
+    }
+
+    return {
+      metric: { type: item.metric.__name__ || query, labels: metricLabels },
+      resource: { type: "prometheus_target", labels: resourceLabels },
+      metricKind: "GAUGE",
+      valueType: "DOUBLE",
+      points: item.values.map((sample) => ({
+        interval: {
+          endTime: {
+            seconds: Math.floor(new Date(sample.timestamp).getTime() / 1000),
+          },
+        },
+        value: sample.value === null ? {} : { doubleValue: sample.value },
+      })),
+    };
+  });
+}
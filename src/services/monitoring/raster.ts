@@ -0,0 +1,279 @@
+/**
+ * A minimal RGB raster with a PNG encoder
+ *
+ * Draws lines, rectangles and text in a 5x7 bitmap font, and encodes the
+ * result as a PNG with Node's zlib, so charts can be rendered without a
+ * browser or native image libraries.
+ */
+import { deflateSync } from "zlib";
+
+/**
+ * Width of a glyph in pixels, before scaling
+ */
+export const GLYPH_WIDTH = 5;
+
+/**
+ * Height of a glyph in pixels, before scaling
+ */
+export const GLYPH_HEIGHT = 7;
+
+/**
+ * Horizontal distance from one glyph to the next, before scaling
+ */
+export const GLYPH_ADVANCE = GLYPH_WIDTH + 1;
+
+/**
+ * Columns of the printable ASCII glyphs from space to tilde, five bytes per
+ * glyph with the top row in the lowest bit
+ */
+const FONT =
+  "000000000000005f00000007000700147f147f14242a7f2a12" +
+  "231308646236495522500005030000001c2241000041221c00" +
+  "14083e081408083e0808005030000008080808080060600000" +
+  "20100804023e5149453e00427f400042615149462141454b31" +
+  "1814127f1027454545393c4a49493001710905033649494936" +
+  "064949291e0036360000005636000008142241001414141414" +
+  "00412214080201510906324979413e7e1111117e7f49494936" +
+  "3e414141227f4141221c7f494949417f090901013e41415132" +
+  "7f0808087f00417f41002040413f017f081422417f40404040" +
+  "7f0204027f7f0408107f3e4141413e7f090909063e4151215e" +
+  "7f09192946464949493101017f01013f4040403f1f2040201f" +
+  "7f2018207f63140814630304780403615149454300007f4141" +
+  "020408102041417f0000040201020440404040400001020400" +
+  "20545454787f484444383844444420384444487f3854545418" +
+  "087e090102081454543c7f0804047800447d40002040443d00" +
+  "007f10284400417f40007c041804787c080404783844444438" +
+  "7c14141408081414187c7c080404084854545420043f444020" +
+  "3c4040207c1c2040201c3c4030403c44281028440c5050503c" +
+  "4464544c44000836410000007f000000413608000804081008";
+
+/**
+ * An RGB colour
+ */
+export type RgbColour = [number, number, number];
+
+/**
+ * Parses a colour such as "#1f77b4"
+ *
+ * @param hex The colour in #rrggbb form
+ * @returns The colour
+ */
+export function parseHexColour(hex: string): RgbColour {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * CRC-32 lookup table used by PNG chunks
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Computes the CRC-32 of some bytes
+ *
+ * @param bytes The bytes
+ * @returns The checksum
+ */
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a PNG chunk
+ *
+ * @param type The four letter chunk type
+ * @param data The chunk data
+ * @returns The chunk with its length and checksum
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * An RGB image that can be drawn on and encoded as a PNG
+ */
+export class Raster {
+  private pixels: Uint8Array;
+
+  /**
+   * Create a raster filled with a background colour
+   *
+   * @param width Width in pixels
+   * @param height Height in pixels
+   * @param background The background colour
+   */
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: RgbColour = [255, 255, 255],
+  ) {
+    this.pixels = new Uint8Array(width * height * 3);
+    for (let i = 0; i < this.pixels.length; i += 3) {
+      this.pixels.set(background, i);
+    }
+  }
+
+  /**
+   * Set one pixel, ignoring pixels outside the raster
+   *
+   * @param x The column
+   * @param y The row
+   * @param colour The colour
+   */
+  setPixel(x: number, y: number, colour: RgbColour): void {
+    const column = Math.round(x);
+    const row = Math.round(y);
+    if (column < 0 || row < 0 || column >= this.width || row >= this.height) {
+      return;
+    }
+    this.pixels.set(colour, (row * this.width + column) * 3);
+  }
+
+  /**
+   * Fill a rectangle
+   *
+   * @param x Left edge
+   * @param y Top edge
+   * @param width Width in pixels
+   * @param height Height in pixels
+   * @param colour The colour
+   */
+  fillRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    colour: RgbColour,
+  ): void {
+    for (let row = Math.round(y); row < Math.round(y + height); row++) {
+      for (
+        let column = Math.round(x);
+        column < Math.round(x + width);
+        column++
+      ) {
+        this.setPixel(column, row, colour);
+      }
+    }
+  }
+
+  /**
+   * Draw a straight line
+   *
+   * @param x1 Start column
+   * @param y1 Start row
+   * @param x2 End column
+   * @param y2 End row
+   * @param colour The colour
+   * @param thickness Line thickness in pixels
+   * @param dash Lengths of the drawn and skipped parts, for dashed lines
+   */
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    colour: RgbColour,
+    thickness = 1,
+    dash?: [number, number],
+  ): void {
+    const steps = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1), 1);
+    const offset = Math.floor((thickness - 1) / 2);
+    for (let step = 0; step <= steps; step++) {
+      if (dash && step % (dash[0] + dash[1]) >= dash[0]) {
+        continue;
+      }
+      const x = Math.round(x1 + ((x2 - x1) * step) / steps) - offset;
+      const y = Math.round(y1 + ((y2 - y1) * step) / steps) - offset;
+      this.fillRect(x, y, thickness, thickness, colour);
+    }
+  }
+
+  /**
+   * Draw text in the bitmap font; characters outside ASCII are drawn as "?"
+   *
+   * @param x Left edge of the first glyph
+   * @param y Top edge of the glyphs
+   * @param label The text
+   * @param colour The colour
+   * @param scale Size of each font pixel
+   */
+  text(
+    x: number,
+    y: number,
+    label: string,
+    colour: RgbColour,
+    scale = 1,
+  ): void {
+    let left = Math.round(x);
+    for (const character of label) {
+      let code = character.charCodeAt(0);
+      if (code < 32 || code > 126) {
+        code = 63;
+      }
+      const glyph = (code - 32) * GLYPH_WIDTH * 2;
+      for (let column = 0; column < GLYPH_WIDTH; column++) {
+        const bits = parseInt(
+          FONT.slice(glyph + column * 2, glyph + column * 2 + 2),
+          16,
+        );
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+          if (bits & (1 << row)) {
+            this.fillRect(
+              left + column * scale,
+              Math.round(y) + row * scale,
+              scale,
+              scale,
+              colour,
+            );
+          }
+        }
+      }
+      left += GLYPH_ADVANCE * scale;
+    }
+  }
+
+  /**
+   * Encode the raster as a PNG
+   *
+   * @returns The PNG file contents
+   */
+  toPng(): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    // 8 bits per channel, RGB, default compression, filtering and interlace
+    header.set([8, 2, 0, 0, 0], 8);
+
+    const rowLength = this.width * 3;
+    const scanlines = Buffer.alloc((rowLength + 1) * this.height);
+    for (let row = 0; row < this.height; row++) {
+      // Each scanline starts with filter type 0 (none)
+      scanlines.set(
+        this.pixels.subarray(row * rowLength, (row + 1) * rowLength),
+        row * (rowLength + 1) + 1,
+      );
+    }
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", deflateSync(scanlines)),
+      pngChunk("IEND", Buffer.alloc(0)),
+    ]);
+  }
+}
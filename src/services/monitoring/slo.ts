@@ -0,0 +1,529 @@
+/**
+ * Service level objectives and error budgets
+ *
+ * SLO performance is read with the `select_slo_compliance` time series
+ * selector: aligned with `ALIGN_NEXT_OLDER` over a window, it gives the
+ * fraction of good service in that window. Error budget and burn rates are
+ * derived from those fractions and the SLO goal.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { parseRelativeTime } from "../../utils/time.js";
+import { monitoringResourceName } from "./alerting.js";
+import { getMonitoringClient, getServiceMonitoringClient } from "./types.js";
+
+type Service = google.monitoring.v3.IService;
+type ServiceLevelObjective = google.monitoring.v3.IServiceLevelObjective;
+
+/**
+ * Burn rate windows with the rate above which each is a concern
+ *
+ * The thresholds follow the multi-window alerting guidance for a 30 day
+ * budget: 2% of it spent in an hour, 5% in six hours or 10% in a day, or
+ * spending faster than the budget allows over 30 days.
+ */
+export const SLO_BURN_RATE_WINDOWS = [
+  { window: "1h", threshold: 14.4 },
+  { window: "6h", threshold: 6 },
+  { window: "24h", threshold: 3 },
+  { window: "30d", threshold: 1 },
+] as const;
+
+/**
+ * Risk levels of an SLO, most severe first
+ */
+export const SLO_RISK_LEVELS = [
+  "exhausted",
+  "critical",
+  "warning",
+  "ok",
+  "unknown",
+] as const;
+
+/**
+ * A risk level
+ */
+export type SloRisk = (typeof SLO_RISK_LEVELS)[number];
+
+/**
+ * Approximate lengths of calendar periods, in days
+ */
+const CALENDAR_PERIOD_DAYS: Record<string, number> = {
+  DAY: 1,
+  WEEK: 7,
+  FORTNIGHT: 14,
+  MONTH: 30,
+  QUARTER: 91,
+  HALF: 182,
+  YEAR: 365,
+};
+
+/**
+ * The burn rate over one window
+ */
+export interface SloBurnRate {
+  window: string;
+  /** Fraction of good service in the window, from 0 to 1 */
+  compliance?: number;
+  /** Budget spend relative to the rate the goal allows; 1 spends it exactly */
+  burnRate?: number;
+  threshold: number;
+}
+
+/**
+ * Current performance of an SLO against its goal
+ */
+export interface SloStatus {
+  slo: ServiceLevelObjective;
+  /** Start of the current compliance period */
+  periodStart: Date;
+  /** Fraction of good service so far in the period */
+  attainment?: number;
+  /** Fraction of the period's error budget left; negative when overspent */
+  budgetRemaining?: number;
+  burnRates: SloBurnRate[];
+  /** Hours until the budget runs out at the 24h burn rate */
+  hoursToExhaustion?: number;
+  risk: SloRisk;
+  /** Why the SLO has its risk level */
+  reasons: string[];
+}
+
+/**
+ * Builds the resource name of a service
+ *
+ * @param projectId The project ID
+ * @param service The service ID or resource name
+ * @returns The service resource name
+ */
+export function serviceResourceName(
+  projectId: string,
+  service: string,
+): string {
+  return monitoringResourceName(`projects/${projectId}`, "services", service);
+}
+
+/**
+ * Builds the resource name of an SLO
+ *
+ * @param projectId The project ID
+ * @param service The service ID or resource name
+ * @param slo The SLO ID, or its full resource name
+ * @returns The SLO resource name
+ */
+export function sloResourceName(
+  projectId: string,
+  service: string,
+  slo: string,
+): string {
+  return monitoringResourceName(
+    serviceResourceName(projectId, service),
+    "serviceLevelObjectives",
+    slo,
+  );
+}
+
+/**
+ * Finds the start of the compliance period an SLO is in
+ *
+ * Calendar periods start on UTC boundaries, with weeks starting on Monday.
+ * Fortnights are treated as the last 14 days.
+ *
+ * @param slo The SLO
+ * @param now The current time
+ * @returns The period start
+ */
+export function getSloPeriodStart(slo: ServiceLevelObjective, now: Date): Date {
+  if (slo.rollingPeriod) {
+    return new Date(now.getTime() - Number(slo.rollingPeriod.seconds) * 1000);
+  }
+
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  const period = String(slo.calendarPeriod ?? "");
+  switch (period) {
+    case "DAY":
+      return new Date(Date.UTC(year, month, day));
+    case "FORTNIGHT":
+      return new Date(now.getTime() - 14 * 86400 * 1000);
+    case "WEEK":
+      return new Date(Date.UTC(year, month, day - ((now.getUTCDay() + 6) % 7)));
+    case "MONTH":
+      return new Date(Date.UTC(year, month, 1));
+    case "QUARTER":
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case "HALF":
+      return new Date(Date.UTC(year, month - (month % 6), 1));
+    case "YEAR":
+      return new Date(Date.UTC(year, 0, 1));
+  }
+  throw new GcpMcpError(
+    `SLO ${slo.name} has no compliance period`,
+    "FAILED_PRECONDITION",
+    400,
+  );
+}
+
+/**
+ * Gets the length of an SLO's compliance period
+ *
+ * @param slo The SLO
+ * @returns The length in seconds, approximate for calendar periods
+ */
+export function getSloPeriodSeconds(slo: ServiceLevelObjective): number {
+  if (slo.rollingPeriod) {
+    return Number(slo.rollingPeriod.seconds);
+  }
+  return (CALENDAR_PERIOD_DAYS[String(slo.calendarPeriod)] ?? 0) * 86400;
+}
+
+/**
+ * Describes an SLO's compliance period
+ *
+ * @param slo The SLO
+ * @returns The period, e.g. "rolling 28d" or "calendar MONTH"
+ */
+export function describeSloPeriod(slo: ServiceLevelObjective): string {
+  if (slo.rollingPeriod) {
+    return `rolling ${Math.round(Number(slo.rollingPeriod.seconds) / 86400)}d`;
+  }
+  return `calendar ${slo.calendarPeriod}`;
+}
+
+/**
+ * Describes what an SLO's indicator measures
+ *
+ * @param slo The SLO
+ * @returns A short description of the SLI
+ */
+export function describeSli(slo: ServiceLevelObjective): string {
+  const sli = slo.serviceLevelIndicator;
+  if (sli?.basicSli) {
+    const latency = sli.basicSli.latency?.threshold;
+    return latency
+      ? `latency under ${Number(latency.seconds ?? 0) * 1000 + Math.round((latency.nanos ?? 0) / 1e6)}ms`
+      : "availability";
+  } else if (sli?.requestBased?.goodTotalRatio) {
+    return "request ratio";
+  } else if (sli?.requestBased?.distributionCut) {
+    const range = sli.requestBased.distributionCut.range;
+    return `distribution cut (${range?.min ?? "-∞"} to ${range?.max ?? "∞"})`;
+  } else if (sli?.windowsBased) {
+    return `good windows of ${Number(sli.windowsBased.windowPeriod?.seconds ?? 0)}s`;
+  }
+  return "custom";
+}
+
+/**
+ * Fetches the fraction of good service in a window
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param sloName The SLO resource name
+ * @param start Start of the window
+ * @param end End of the window
+ * @returns The fraction, or undefined when there is no data
+ */
+export async function fetchSloCompliance(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  sloName: string,
+  start: Date,
+  end: Date,
+): Promise<number | undefined> {
+  const seconds = Math.max(
+    60,
+    Math.round((end.getTime() - start.getTime()) / 1000),
+  );
+  const [timeSeries] = await client.listTimeSeries({
+    name: `projects/${projectId}`,
+    filter: `select_slo_compliance(${quoteFilterString(sloName)})`,
+    interval: {
+      startTime: { seconds: Math.floor(start.getTime() / 1000), nanos: 0 },
+      endTime: { seconds: Math.floor(end.getTime() / 1000), nanos: 0 },
+    },
+    aggregation: {
+      alignmentPeriod: { seconds },
+      perSeriesAligner: "ALIGN_NEXT_OLDER",
+    },
+  });
+
+  // Points are newest first
+  const value = timeSeries?.[0]?.points?.[0]?.value?.doubleValue;
+  return value === undefined || value === null ? undefined : value;
+}
+
+/**
+ * Converts a compliance fraction to the rate at which it spends budget
+ *
+ * @param compliance Fraction of good service
+ * @param goal The SLO goal
+ * @returns The burn rate
+ */
+export function burnRate(compliance: number, goal: number): number {
+  return (1 - compliance) / (1 - goal);
+}
+
+/**
+ * Assesses how much risk an SLO is at
+ *
+ * @param status The SLO status without its assessment
+ * @returns The risk level and the reasons for it
+ */
+export function assessSloRisk(
+  status: Pick<SloStatus, "budgetRemaining" | "burnRates">,
+): Pick<SloStatus, "risk" | "reasons"> {
+  if (status.budgetRemaining === undefined) {
+    return { risk: "unknown", reasons: ["No SLO data in the current period"] };
+  }
+  if (status.budgetRemaining <= 0) {
+    return {
+      risk: "exhausted",
+      reasons: ["The error budget for the current period is spent"],
+    };
+  }
+
+  const reasons: string[] = [];
+  let risk: SloRisk = "ok";
+  for (const burn of status.burnRates) {
+    if (burn.burnRate === undefined || burn.burnRate < burn.threshold) {
+      continue;
+    }
+    reasons.push(
+      `${burn.window} burn rate ${burn.burnRate.toFixed(1)} is at or above ${burn.threshold}`,
+    );
+    // The short windows catch fast burns that need attention now
+    if (burn.window === "1h" || burn.window === "6h") {
+      risk = "critical";
+    } else if (risk === "ok") {
+      risk = "warning";
+    }
+  }
+  return { risk, reasons };
+}
+
+/**
+ * Computes the current status of an SLO
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param slo The SLO
+ * @returns Attainment, error budget and burn rates
+ */
+export async function getSloStatus(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  slo: ServiceLevelObjective,
+): Promise<SloStatus> {
+  const now = new Date();
+  const name = slo.name ?? "";
+  const goal = slo.goal ?? 0;
+  const periodStart = getSloPeriodStart(slo, now);
+
+  const attainment = await fetchSloCompliance(
+    client,
+    projectId,
+    name,
+    periodStart,
+    now,
+  );
+  const budgetRemaining =
+    attainment === undefined ? undefined : 1 - burnRate(attainment, goal);
+
+  const burnRates: SloBurnRate[] = [];
+  for (const { window, threshold } of SLO_BURN_RATE_WINDOWS) {
+    const compliance = await fetchSloCompliance(
+      client,
+      projectId,
+      name,
+      parseRelativeTime(window),
+      now,
+    );
+    burnRates.push({
+      window,
+      compliance,
+      burnRate:
+        compliance === undefined ? undefined : burnRate(compliance, goal),
+      threshold,
+    });
+  }
+
+  // A burn rate of 1 spends a whole period's budget over the period
+  const daily = burnRates.find((burn) => burn.window === "24h")?.burnRate;
+  const periodHours = getSloPeriodSeconds(slo) / 3600;
+  const hoursToExhaustion =
+    budgetRemaining !== undefined && budgetRemaining > 0 && daily
+      ? (budgetRemaining * periodHours) / daily
+      : undefined;
+
+  return {
+    slo,
+    periodStart,
+    attainment,
+    budgetRemaining,
+    burnRates,
+    hoursToExhaustion,
+    ...assessSloRisk({ budgetRemaining, burnRates }),
+  };
+}
+
+/**
+ * Lists services with their SLOs
+ *
+ * @param client The Service Monitoring client
+ * @param projectId The project ID
+ * @param service Only this service, by ID or resource name
+ * @returns Each service with its SLOs
+ */
+export async function listServicesWithSlos(
+  client: ReturnType<typeof getServiceMonitoringClient>,
+  projectId: string,
+  service?: string,
+): Promise<Array<{ service: Service; slos: ServiceLevelObjective[] }>> {
+  const services = service
+    ? [
+        (
+          await client.getService({
+            name: serviceResourceName(projectId, service),
+          })
+        )[0],
+      ]
+    : (await client.listServices({ parent: `projects/${projectId}` }))[0];
+
+  const result = [];
+  for (const item of services ?? []) {
+    const [slos] = await client.listServiceLevelObjectives({
+      parent: item.name ?? "",
+    });
+    result.push({ service: item, slos: slos ?? [] });
+  }
+  return result;
+}
+
+/**
+ * Formats a fraction as a percentage
+ *
+ * @param value The fraction
+ * @param digits Decimal places
+ * @returns The percentage, or "-" when unknown
+ */
+function formatPercent(value: number | undefined, digits = 3): string {
+  return value === undefined ? "-" : `${(value * 100).toFixed(digits)}%`;
+}
+
+/**
+ * Formats services and their SLOs
+ *
+ * @param services Services with their SLOs
+ * @returns A markdown section per service
+ */
+export function formatServicesWithSlos(
+  services: Array<{ service: Service; slos: ServiceLevelObjective[] }>,
+): string {
+  if (services.length === 0) {
+    return "No services found.";
+  }
+
+  return services
+    .map(({ service, slos }) => {
+      let text = `## ${service.displayName || service.name}\n\n`;
+      text += `- **Name:** ${service.name}\n\n`;
+      if (slos.length === 0) {
+        return `${text}No SLOs defined.\n`;
+      }
+      text += "| SLO | Name | Goal | Period | Indicator |\n";
+      text += "|-----|------|------|--------|-----------|\n";
+      for (const slo of slos) {
+        text += `| ${slo.name?.split("/").pop()} | ${slo.displayName || "-"} | ${formatPercent(slo.goal ?? undefined)} | ${describeSloPeriod(slo)} | ${describeSli(slo)} |\n`;
+      }
+      return text;
+    })
+    .join("\n");
+}
+
+/**
+ * Formats the status of one SLO
+ *
+ * @param status The SLO status
+ * @returns A markdown section
+ */
+export function formatSloStatus(status: SloStatus): string {
+  const { slo } = status;
+  let text = `## ${slo.displayName || slo.name}\n\n`;
+  text += `- **Name:** ${slo.name}\n`;
+  text += `- **Goal:** ${formatPercent(slo.goal ?? undefined)} (${describeSloPeriod(slo)}, since ${status.periodStart.toISOString()})\n`;
+  text += `- **Attainment:** ${formatPercent(status.attainment)}\n`;
+  text += `- **Error Budget Remaining:** ${formatPercent(status.budgetRemaining, 1)}\n`;
+  if (status.hoursToExhaustion !== undefined) {
+    text += `- **Budget Exhausted In:** ${status.hoursToExhaustion.toFixed(1)}h at the 24h burn rate\n`;
+  }
+  text += `- **Risk:** ${status.risk}\n`;
+  for (const reason of status.reasons) {
+    text += `  - ${reason}\n`;
+  }
+
+  text += "\n| Window | Good Service | Burn Rate | Threshold |\n";
+  text += "|--------|--------------|-----------|-----------|\n";
+  for (const burn of status.burnRates) {
+    text += `| ${burn.window} | ${formatPercent(burn.compliance)} | ${burn.burnRate === undefined ? "-" : burn.burnRate.toFixed(2)} | ${burn.threshold} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats SLOs ranked by risk with a recommendation for each at risk
+ *
+ * @param statuses The SLO statuses
+ * @returns A markdown report
+ */
+export function formatSloRiskReport(statuses: SloStatus[]): string {
+  if (statuses.length === 0) {
+    return "No SLOs found.";
+  }
+
+  const ranked = [...statuses].sort(
+    (a, b) =>
+      SLO_RISK_LEVELS.indexOf(a.risk) - SLO_RISK_LEVELS.indexOf(b.risk) ||
+      (a.budgetRemaining ?? 1) - (b.budgetRemaining ?? 1),
+  );
+  const atRisk = ranked.filter(
+    (status) => status.risk !== "ok" && status.risk !== "unknown",
+  );
+
+  let text = `SLOs at risk: ${atRisk.length} of ${statuses.length}\n\n`;
+  text += "| Risk | SLO | Attainment | Budget Left | 1h | 6h | 24h | 30d |\n";
+  text += "|------|-----|------------|-------------|----|----|-----|-----|\n";
+  for (const status of ranked) {
+    const rates = status.burnRates.map((burn) =>
+      burn.burnRate === undefined ? "-" : burn.burnRate.toFixed(1),
+    );
+    text += `| ${status.risk} | ${status.slo.displayName || status.slo.name} | ${formatPercent(status.attainment)} | ${formatPercent(status.budgetRemaining, 1)} | ${rates.join(" | ")} |\n`;
+  }
+
+  if (atRisk.length > 0) {
+    text += "\n### Recommendations\n\n";
+    for (const status of atRisk) {
+      text += `- **${status.slo.displayName || status.slo.name}**: ${recommendation(status)} ${status.reasons.join("; ")}.\n`;
+    }
+  }
+  return text;
+}
+
+/**
+ * Suggests what to do about an SLO at risk
+ *
+ * @param status The SLO status
+ * @returns The recommendation
+ */
+function recommendation(status: SloStatus): string {
+  switch (status.risk) {
+    case "exhausted":
+      return "Freeze risky changes and prioritise reliability work until the budget recovers.";
+    case "critical":
+      return "Investigate now; at this rate the budget will be spent within days.";
+    default:
+      return "Review recent changes and plan reliability work before the budget runs out.";
+  }
+}
@@ -5,9 +5,93 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getProjectId } from "../../utils/auth.js";
 import { GcpMcpError } from "../../utils/error.js";
-import { formatTimeSeriesData, getMonitoringClient } from "./types.js";
-import { parseRelativeTime } from "../../utils/time.js";
+import {
+  formatTimeSeriesData,
+  getAlertPolicyClient,
+  getMonitoringClient,
+  getNotificationChannelClient,
+  getQueryClient,
+  getServiceMonitoringClient,
+  getUptimeCheckClient,
+} from "./types.js";
+import { parseDurationSeconds, parseRelativeTime } from "../../utils/time.js";
 import { metricsLookup } from "./metrics_lookup.js";
+import {
+  CHART_FORMATS,
+  formatChartSummary,
+  renderChart,
+  selectChartSeries,
+  timeSeriesToChartSeries,
+} from "./chart.js";
+import {
+  METRIC_SEARCH_MIN_CONFIDENCE,
+  formatMetricCandidates,
+} from "./metric-search.js";
+import {
+  MONITORING_ALIGNERS,
+  MONITORING_REDUCERS,
+  buildTimeSeriesAggregation,
+  fetchMetricShape,
+  formatTimeSeriesAggregation,
+  getMetricTypeFromFilter,
+  validateTimeSeriesAggregation,
+} from "./aggregation.js";
+import {
+  alertConditionSchema,
+  alertPolicyChangesShape,
+  alertPolicyResourceName,
+  alertThresholdSchema,
+  applyAlertPolicyChanges,
+  buildAlertPolicy,
+  fetchNotificationChannels,
+  formatAlertPolicies,
+  formatAlertPolicy,
+} from "./alerting.js";
+import {
+  backtestThresholdCondition,
+  formatBacktestResult,
+  thresholdSpecToBacktestCondition,
+  toBacktestCondition,
+} from "./alert-backtest.js";
+import {
+  fetchSeasonalBaselines,
+  formatTimeSeriesSummaries,
+  summariseTimeSeriesWindow,
+} from "./analysis.js";
+import {
+  INCIDENT_STATES,
+  formatIncidents,
+  getIncidentDetails,
+  listAlertIncidents,
+} from "./incidents.js";
+import { formatMqlTables, queryMql } from "./mql.js";
+import {
+  PROMQL_QUERY_TYPES,
+  promqlSeriesToTimeSeries,
+  queryPromql,
+} from "./promql.js";
+import {
+  formatServicesWithSlos,
+  formatSloRiskReport,
+  formatSloStatus,
+  getSloStatus,
+  listServicesWithSlos,
+  serviceResourceName,
+  sloResourceName,
+} from "./slo.js";
+import {
+  UPTIME_CHECK_REGIONS,
+  applyUptimeCheckChanges,
+  buildUptimeCheck,
+  formatUptimeCheck,
+  formatUptimeCheckIps,
+  formatUptimeChecks,
+  formatUptimeResults,
+  getUptimeCheckResults,
+  uptimeCheckChangesShape,
+  uptimeCheckId,
+  uptimeCheckResourceName,
+} from "./uptime.js";
 
 /**
  * Registers Google Cloud Monitoring tools with the MCP server
@@ -42,8 +126,88 @@ export async function registerMonitoringTools(
         .string()
         .optional()
         .describe('Alignment period (e.g., "60s", "300s")'),
+      perSeriesAligner: z
+        .enum(MONITORING_ALIGNERS)
+        .optional()
+        .describe(
+          "How each series is aligned to the alignment period (defaults to ALIGN_MEAN when alignmentPeriod is set). Use ALIGN_RATE or ALIGN_DELTA for CUMULATIVE counters and ALIGN_PERCENTILE_99 etc. for distributions.",
+        ),
+      crossSeriesReducer: z
+        .enum(MONITORING_REDUCERS)
+        .optional()
+        .describe(
+          "How aligned series are combined, e.g. REDUCE_SUM across instances or REDUCE_PERCENTILE_99",
+        ),
+      groupByFields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Labels to keep when reducing, e.g. ["resource.labels.zone", "metric.labels.response_code"]',
+        ),
+      secondaryAggregation: z
+        .object({
+          alignmentPeriod: z.string().optional(),
+          perSeriesAligner: z.enum(MONITORING_ALIGNERS).optional(),
+          crossSeriesReducer: z.enum(MONITORING_REDUCERS).optional(),
+          groupByFields: z.array(z.string()).optional(),
+        })
+        .optional()
+        .describe(
+          "A second aggregation applied to the output of the first, e.g. to average per-zone sums",
+        ),
+      outputMode: z
+        .enum(["points", "summary"])
+        .default("points")
+        .describe(
+          "points lists every data point; summary reports min/max/mean/percentiles, trend and change points per series",
+        ),
+      baselineDays: z
+        .number()
+        .int()
+        .min(0)
+        .max(28)
+        .default(0)
+        .describe(
+          "In summary mode, compare against the same window on this many previous days to flag anomalies, with one extra query per day (0 to skip; at least 3 are needed)",
+        ),
+      anomalyThreshold: z
+        .number()
+        .positive()
+        .default(3.5)
+        .describe(
+          "Robust z-score against the seasonal baseline above which a point is anomalous",
+        ),
+      render: z
+        .enum(CHART_FORMATS)
+        .optional()
+        .describe(
+          "Draw the series as a line chart and return it as an image, with a compact summary in place of every point",
+        ),
+      annotations: z
+        .array(
+          z.object({
+            time: z.string().describe('ISO time or relative time (e.g., "2h")'),
+            label: z.string().describe('Marker text, e.g. "deploy v42"'),
+          }),
+        )
+        .optional()
+        .describe("Moments to mark on the chart, such as deploys"),
     },
-    async ({ filter, startTime, endTime, alignmentPeriod }) => {
+    async ({
+      filter,
+      startTime,
+      endTime,
+      alignmentPeriod,
+      perSeriesAligner,
+      crossSeriesReducer,
+      groupByFields,
+      secondaryAggregation,
+      outputMode,
+      baselineDays,
+      anomalyThreshold,
+      render,
+      annotations,
+    }) => {
       try {
         const projectId = await getProjectId();
         const client = getMonitoringClient();
@@ -67,40 +231,38 @@ export async function registerMonitoringTools(
           },
         };
 
-        // Add alignment if specified
-        if (alignmentPeriod) {
-          // Parse alignment period (e.g., "60s" -> 60 seconds)
-          const match = alignmentPeriod.match(/^(\d+)([smhd])$/);
-          if (!match) {
-            throw new GcpMcpError(
-              'Invalid alignment period format. Use format like "60s", "5m", "1h".',
-              "INVALID_ARGUMENT",
-              400,
-            );
-          }
+        const aggregation = buildTimeSeriesAggregation({
+          alignmentPeriod,
+          perSeriesAligner,
+          crossSeriesReducer,
+          groupByFields,
+        });
+        const secondary = secondaryAggregation
+          ? buildTimeSeriesAggregation(
+              secondaryAggregation,
+              "secondary aggregation",
+            )
+          : undefined;
+        if (secondary && !aggregation) {
+          throw new GcpMcpError(
+            "secondaryAggregation is applied to the output of the primary aggregation. Set perSeriesAligner or alignmentPeriod as well.",
+            "INVALID_ARGUMENT",
+            400,
+          );
+        }
 
-          const value = parseInt(match[1]);
-          const unit = match[2];
-          let seconds = value;
-
-          switch (unit) {
-            case "m": // minutes
-              seconds = value * 60;
-              break;
-            case "h": // hours
-              seconds = value * 60 * 60;
-              break;
-            case "d": // days
-              seconds = value * 60 * 60 * 24;
-              break;
+        if (aggregation) {
+          const metricType = getMetricTypeFromFilter(filter);
+          const shape = metricType
+            ? await fetchMetricShape(client, projectId, metricType)
+            : undefined;
+          if (shape) {
+            validateTimeSeriesAggregation(shape, aggregation, secondary);
           }
-
-          request.aggregation = {
-            alignmentPeriod: {
-              seconds: seconds,
-            },
-            perSeriesAligner: "ALIGN_MEAN",
-          };
+          request.aggregation = aggregation;
+        }
+        if (secondary) {
+          request.secondaryAggregation = secondary;
         }
 
         const [timeSeries] = await client.listTimeSeries(request);
@@ -116,14 +278,51 @@ export async function registerMonitoringTools(
           };
         }
 
-        const formattedData = formatTimeSeriesData(timeSeries);
+        const chart = render
+          ? selectChartSeries(timeSeriesToChartSeries(timeSeries))
+          : undefined;
+
+        let formattedData: string;
+        if (outputMode === "summary") {
+          const baselines = baselineDays
+            ? await fetchSeasonalBaselines(client, request, baselineDays)
+            : undefined;
+          formattedData = formatTimeSeriesSummaries(
+            summariseTimeSeriesWindow(timeSeries, baselines, anomalyThreshold),
+          );
+        } else if (chart) {
+          formattedData = formatChartSummary(chart.series, chart.omitted);
+        } else {
+          formattedData = formatTimeSeriesData(timeSeries);
+        }
+
+        const text = `# Metric Query Results\n\nProject: ${projectId}\nFilter: ${filter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n${aggregation ? `\nAggregation: ${formatTimeSeriesAggregation(aggregation)}` : ""}${secondary ? `\nSecondary Aggregation: ${formatTimeSeriesAggregation(secondary)}` : ""}\n\n${formattedData}`;
+
+        if (!render || !chart?.series.length) {
+          return { content: [{ type: "text", text }] };
+        }
+
+        const image = renderChart(
+          chart.series,
+          {
+            title: getMetricTypeFromFilter(filter) ?? filter,
+            yLabel: aggregation
+              ? formatTimeSeriesAggregation(aggregation)
+              : undefined,
+            start: start.getTime(),
+            end: end.getTime(),
+            annotations: annotations?.map((annotation) => ({
+              time: parseRelativeTime(annotation.time).getTime(),
+              label: annotation.label,
+            })),
+          },
+          render,
+        );
 
         return {
           content: [
-            {
-              type: "text",
-              text: `# Metric Query Results\n\nProject: ${projectId}\nFilter: ${filter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n${alignmentPeriod ? `\nAlignment: ${alignmentPeriod}` : ""}\n\n${formattedData}`,
-            },
+            { type: "image", data: image.data, mimeType: image.mimeType },
+            { type: "text", text },
           ],
         };
       } catch (error: any) {
@@ -312,6 +511,88 @@ export async function registerMonitoringTools(
     },
   );
 
+  // Tool to search the metric catalogue of the project
+  server.tool(
+    "gcp-monitoring-search-metrics",
+    {
+      query: z
+        .string()
+        .optional()
+        .describe('What the metric measures (e.g., "spanner cpu")'),
+      resourceType: z
+        .string()
+        .optional()
+        .describe(
+          'Only metrics of this monitored resource (e.g., "gce_instance")',
+        ),
+      label: z
+        .string()
+        .optional()
+        .describe('Only metrics with this label (e.g., "response_code")'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of metrics to return"),
+      refresh: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Fetch the project's metric descriptors again instead of using the cache",
+        ),
+    },
+    async ({ query, resourceType, label, limit, refresh }) => {
+      try {
+        const projectId = await getProjectId();
+        const { count, cached } = await metricsLookup.loadProjectMetrics(
+          projectId,
+          getMonitoringClient(),
+          refresh,
+        );
+        const metrics = metricsLookup.searchMetrics({
+          query,
+          resourceType,
+          label,
+          limit,
+        });
+
+        let markdown = `# Metric Catalogue Search\n\nProject: ${projectId} (${count} metric descriptors${cached ? ", cached" : ""})\n`;
+        if (query) markdown += `Query: ${query}\n`;
+        if (resourceType) markdown += `Resource Type: ${resourceType}\n`;
+        if (label) markdown += `Label: ${label}\n`;
+        markdown += "\n";
+        if (metrics.length === 0) {
+          markdown += "No metrics found.";
+        } else {
+          markdown +=
+            "| Metric Type | Kind | Value Type | Unit | Resources | Labels | Source |\n";
+          markdown +=
+            "|-------------|------|------------|------|-----------|--------|--------|\n";
+          for (const metric of metrics) {
+            markdown += `| ${metric.type} | ${metric.kind || "-"} | ${metric.valueType || "-"} | ${metric.unit || "-"} | ${metric.monitoredResources.join(", ") || "-"} | ${metric.labels.map((item) => item.name).join(", ") || "-"} | ${metric.source} |\n`;
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: markdown,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to search metrics: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
   // Tool to query metrics using natural language
   server.tool(
     "gcp-monitoring-query-natural-language",
@@ -339,11 +620,19 @@ export async function registerMonitoringTools(
     async ({ query, startTime, endTime, alignmentPeriod }) => {
       try {
         const projectId = await getProjectId();
+        const client = getMonitoringClient();
+
+        // Include the project's own metrics, falling back to the documented ones
+        try {
+          await metricsLookup.loadProjectMetrics(projectId, client);
+        } catch {
+          // Continue with the documented metrics only
+        }
 
-        // Use the metrics lookup to suggest a filter based on the natural language query
-        const suggestedFilter = metricsLookup.suggestFilter(query);
+        // Rank the catalogue against the query
+        const candidates = metricsLookup.rankMetrics(query, { limit: 5 });
 
-        if (!suggestedFilter) {
+        if (candidates.length === 0) {
           throw new GcpMcpError(
             "Could not determine an appropriate metric filter from your query. Please try a more specific query that mentions a metric type.",
             "INVALID_ARGUMENT",
@@ -351,14 +640,28 @@ export async function registerMonitoringTools(
           );
         }
 
+        // Ask which metric was meant rather than guess
+        const [best, ...alternatives] = candidates;
+        if (best.confidence < METRIC_SEARCH_MIN_CONFIDENCE) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Natural Language Query: Which Metric?\n\nProject: ${projectId}\nQuery: ${query}\n\nThe query does not clearly identify one metric. Ask the user which of these they mean, or to rephrase, then query it with gcp-monitoring-query-metrics and its filter.\n\n${formatMetricCandidates(candidates)}`,
+              },
+            ],
+          };
+        }
+
+        const suggestedFilter = best.filter;
+        const matched = `Matched Metric: ${best.metric.type} (confidence ${Math.round(best.confidence * 100)}%)${alternatives.length > 0 ? `\nAlternatives: ${alternatives.map((candidate) => `${candidate.metric.type} (${Math.round(candidate.confidence * 100)}%)`).join(", ")}` : ""}`;
+
         // Use default time range if not specified
         const start = startTime
           ? parseRelativeTime(startTime)
           : parseRelativeTime("1h");
         const end = endTime ? parseRelativeTime(endTime) : new Date();
 
-        const client = getMonitoringClient();
-
         // Build request
         const request: any = {
           name: `projects/${projectId}`,
@@ -376,39 +679,9 @@ export async function registerMonitoringTools(
         };
 
         // Add alignment if specified
-        if (alignmentPeriod) {
-          // Parse alignment period (e.g., "60s" -> 60 seconds)
-          const match = alignmentPeriod.match(/^(\d+)([smhd])$/);
-          if (!match) {
-            throw new GcpMcpError(
-              'Invalid alignment period format. Use format like "60s", "5m", "1h".',
-              "INVALID_ARGUMENT",
-              400,
-            );
-          }
-
-          const value = parseInt(match[1]);
-          const unit = match[2];
-          let seconds = value;
-
-          switch (unit) {
-            case "m": // minutes
-              seconds = value * 60;
-              break;
-            case "h": // hours
-              seconds = value * 60 * 60;
-              break;
-            case "d": // days
-              seconds = value * 60 * 60 * 24;
-              break;
-          }
-
-          request.aggregation = {
-            alignmentPeriod: {
-              seconds: seconds,
-            },
-            perSeriesAligner: "ALIGN_MEAN",
-          };
+        const aggregation = buildTimeSeriesAggregation({ alignmentPeriod });
+        if (aggregation) {
+          request.aggregation = aggregation;
         }
 
         const [timeSeries] = await client.listTimeSeries(request);
@@ -418,7 +691,7 @@ export async function registerMonitoringTools(
             content: [
               {
                 type: "text",
-                text: `# Natural Language Query Results\n\nProject: ${projectId}\nQuery: ${query}\nGenerated Filter: ${suggestedFilter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n\nNo metrics found matching the filter.\n\nTry refining your query to be more specific about the metric type, resource type, or labels.`,
+                text: `# Natural Language Query Results\n\nProject: ${projectId}\nQuery: ${query}\n${matched}\nGenerated Filter: ${suggestedFilter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n\nNo metrics found matching the filter.\n\nTry refining your query to be more specific about the metric type, resource type, or labels.`,
               },
             ],
           };
@@ -430,7 +703,7 @@ export async function registerMonitoringTools(
           content: [
             {
               type: "text",
-              text: `# Natural Language Query Results\n\nProject: ${projectId}\nQuery: ${query}\nGenerated Filter: ${suggestedFilter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}${alignmentPeriod ? `\nAlignment: ${alignmentPeriod}` : ""}\n\n${formattedData}`,
+              text: `# Natural Language Query Results\n\nProject: ${projectId}\nQuery: ${query}\n${matched}\nGenerated Filter: ${suggestedFilter}\nTime Range: ${start.toISOString()} to ${end.toISOString()}${alignmentPeriod ? `\nAlignment: ${alignmentPeriod}` : ""}\n\n${formattedData}`,
             },
           ],
         };
@@ -444,4 +717,898 @@ export async function registerMonitoringTools(
       }
     },
   );
+
+  // Tool to run Monitoring Query Language (MQL) queries
+  server.tool(
+    "gcp-monitoring-query-mql",
+    {
+      query: z
+        .string()
+        .describe(
+          "The MQL query, e.g. fetch gce_instance | metric 'compute.googleapis.com/instance/cpu/utilization' | within 1h. Set the time range with a within clause.",
+        ),
+      maxSeries: z
+        .number()
+        .min(1)
+        .max(10000)
+        .default(100)
+        .describe("Maximum number of series to return across all pages"),
+    },
+    async ({ query, maxSeries }) => {
+      try {
+        const projectId = await getProjectId();
+        const client = getQueryClient();
+
+        const { tables, warnings, truncated } = await queryMql(
+          client,
+          projectId,
+          query,
+          maxSeries,
+        );
+        const seriesCount = tables.reduce(
+          (total, table) => total + table.series.length,
+          0,
+        );
+
+        const notes = [
+          ...(truncated
+            ? [
+                `More series matched than the limit of ${maxSeries}. Increase maxSeries or narrow the query to see the rest.`,
+              ]
+            : []),
+          ...warnings.map((warning) => `Partial error: ${warning}`),
+        ];
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# MQL Query Results\n\nProject: ${projectId}\nQuery: ${query}\nSeries: ${seriesCount}${tables.length > 1 ? `\nTables: ${tables.length}` : ""}${notes.length > 0 ? `\n\n**Warnings:**\n${notes.map((note) => `- ${note}`).join("\n")}` : ""}\n\n${formatMqlTables(tables)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to run MQL query: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to list alerting policies with their conditions and channels
+  server.tool(
+    "gcp-monitoring-list-alert-policies",
+    {
+      filter: z
+        .string()
+        .optional()
+        .describe(
+          'Optional filter on policy fields, e.g. display_name="Checkout latency" or enabled=true',
+        ),
+    },
+    async ({ filter }) => {
+      try {
+        const projectId = await getProjectId();
+        const [policies] = await getAlertPolicyClient().listAlertPolicies({
+          name: `projects/${projectId}`,
+          filter,
+        });
+        const channels = await fetchNotificationChannels(
+          getNotificationChannelClient(),
+          projectId,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Policies\n\nProject: ${projectId}${filter ? `\nFilter: ${filter}` : ""}\nPolicies: ${policies.length}\n\n${formatAlertPolicies(policies, channels)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to list alert policies: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to describe one alerting policy
+  server.tool(
+    "gcp-monitoring-get-alert-policy",
+    {
+      policy: z.string().describe("The policy ID or full resource name"),
+    },
+    async ({ policy }) => {
+      try {
+        const projectId = await getProjectId();
+        const [alertPolicy] = await getAlertPolicyClient().getAlertPolicy({
+          name: alertPolicyResourceName(projectId, policy),
+        });
+        const channels = await fetchNotificationChannels(
+          getNotificationChannelClient(),
+          projectId,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Policy\n\nProject: ${projectId}\n\n${formatAlertPolicy(alertPolicy, channels)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to get alert policy: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to create an alerting policy from a structured spec
+  server.tool(
+    "gcp-monitoring-create-alert-policy",
+    {
+      ...alertPolicyChangesShape,
+      displayName: z.string().describe("Policy name shown in the UI"),
+      conditions: z
+        .array(alertConditionSchema)
+        .min(1)
+        .describe(
+          "Conditions, each with either a threshold or an absent setting",
+        ),
+    },
+    async (spec) => {
+      try {
+        const projectId = await getProjectId();
+        const [created] = await getAlertPolicyClient().createAlertPolicy({
+          name: `projects/${projectId}`,
+          alertPolicy: buildAlertPolicy(spec, projectId),
+        });
+        const channels = await fetchNotificationChannels(
+          getNotificationChannelClient(),
+          projectId,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Policy Created\n\nProject: ${projectId}\n\n${formatAlertPolicy(created, channels)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to create alert policy: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to update an alerting policy
+  server.tool(
+    "gcp-monitoring-update-alert-policy",
+    {
+      policy: z.string().describe("The policy ID or full resource name"),
+      ...alertPolicyChangesShape,
+    },
+    async ({ policy, ...changes }) => {
+      try {
+        const projectId = await getProjectId();
+        const client = getAlertPolicyClient();
+        const [existing] = await client.getAlertPolicy({
+          name: alertPolicyResourceName(projectId, policy),
+        });
+        const { policy: alertPolicy, updateMask } = applyAlertPolicyChanges(
+          existing,
+          changes,
+          projectId,
+        );
+        const [updated] = await client.updateAlertPolicy({
+          alertPolicy,
+          updateMask: { paths: updateMask },
+        });
+        const channels = await fetchNotificationChannels(
+          getNotificationChannelClient(),
+          projectId,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Policy Updated\n\nProject: ${projectId}\nUpdated Fields: ${updateMask.join(", ")}\n\n${formatAlertPolicy(updated, channels)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to update alert policy: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to enable or disable an alerting policy
+  server.tool(
+    "gcp-monitoring-set-alert-policy-enabled",
+    {
+      policy: z.string().describe("The policy ID or full resource name"),
+      enabled: z
+        .boolean()
+        .describe("false to stop the policy opening incidents, true to resume"),
+    },
+    async ({ policy, enabled }) => {
+      try {
+        const projectId = await getProjectId();
+        const [updated] = await getAlertPolicyClient().updateAlertPolicy({
+          alertPolicy: {
+            name: alertPolicyResourceName(projectId, policy),
+            enabled: { value: enabled },
+          },
+          updateMask: { paths: ["enabled"] },
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Policy ${enabled ? "Enabled" : "Disabled"}\n\nProject: ${projectId}\nPolicy: ${updated.displayName} (${updated.name})`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to ${enabled ? "enable" : "disable"} alert policy: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to check whether a threshold condition would have fired
+  server.tool(
+    "gcp-monitoring-backtest-alert-condition",
+    {
+      policy: z
+        .string()
+        .optional()
+        .describe(
+          "Policy ID or resource name whose threshold conditions are replayed; conditions of other types are listed as not backtested",
+        ),
+      conditionName: z
+        .string()
+        .optional()
+        .describe("Only replay the policy condition with this display name"),
+      condition: alertThresholdSchema
+        .optional()
+        .describe("A proposed threshold condition to replay instead"),
+      startTime: z
+        .string()
+        .default("7d")
+        .describe(
+          'Start of the window in ISO format or relative time (e.g., "7d")',
+        ),
+      endTime: z
+        .string()
+        .optional()
+        .describe("End of the window in ISO format (defaults to now)"),
+    },
+    async ({ policy, conditionName, condition, startTime, endTime }) => {
+      try {
+        if (Boolean(policy) === Boolean(condition)) {
+          throw new GcpMcpError(
+            "Pass either a policy to replay its conditions or a proposed condition.",
+            "INVALID_ARGUMENT",
+            400,
+          );
+        }
+
+        const projectId = await getProjectId();
+        const start = parseRelativeTime(startTime);
+        const end = endTime ? parseRelativeTime(endTime) : new Date();
+
+        let conditions;
+        let title = "Proposed condition";
+        const skipped: string[] = [];
+        if (policy) {
+          const [alertPolicy] = await getAlertPolicyClient().getAlertPolicy({
+            name: alertPolicyResourceName(projectId, policy),
+          });
+          title = alertPolicy.displayName ?? policy;
+          const selected = (alertPolicy.conditions ?? []).filter(
+            (item) => !conditionName || item.displayName === conditionName,
+          );
+          if (selected.length === 0) {
+            throw new GcpMcpError(
+              conditionName
+                ? `Policy has no condition named "${conditionName}"`
+                : "Policy has no conditions",
+              "NOT_FOUND",
+              404,
+            );
+          }
+          if (conditionName) {
+            conditions = selected.map(toBacktestCondition);
+          } else {
+            // Replay what can be replayed rather than failing the whole
+            // policy on one MQL, PromQL or absence condition
+            conditions = [];
+            for (const item of selected) {
+              try {
+                conditions.push(toBacktestCondition(item));
+              } catch (error: any) {
+                skipped.push(error.message);
+              }
+            }
+            if (conditions.length === 0) {
+              throw new GcpMcpError(
+                `None of the policy's conditions can be backtested.\n${skipped.map((reason) => `- ${reason}`).join("\n")}`,
+                "INVALID_ARGUMENT",
+                400,
+              );
+            }
+          }
+        } else {
+          conditions = [thresholdSpecToBacktestCondition(condition!)];
+        }
+
+        const client = getMonitoringClient();
+        const results = [];
+        for (const item of conditions) {
+          results.push(
+            await backtestThresholdCondition(
+              client,
+              projectId,
+              item,
+              start,
+              end,
+            ),
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Backtest: ${title}\n\nProject: ${projectId}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n\n${results.map(formatBacktestResult).join("\n")}${skipped.length ? `\n## Not Backtested\n\n${skipped.map((reason) => `- ${reason}`).join("\n")}\n` : ""}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to backtest alert condition: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to list open and recently closed alert incidents
+  server.tool(
+    "gcp-monitoring-list-incidents",
+    {
+      state: z
+        .enum(INCIDENT_STATES)
+        .default("all")
+        .describe("Which incidents to list: open, closed or all"),
+      since: z
+        .string()
+        .default("24h")
+        .describe(
+          'Include incidents closed after this time, in ISO format or relative time (e.g., "24h")',
+        ),
+      policy: z
+        .string()
+        .optional()
+        .describe("Only incidents of this policy, by ID or resource name"),
+      maxIncidents: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of incidents to return"),
+    },
+    async ({ state, since, policy, maxIncidents }) => {
+      try {
+        const projectId = await getProjectId();
+        const sinceTime = parseRelativeTime(since);
+        const { incidents, truncated } = await listAlertIncidents(projectId, {
+          state,
+          since: sinceTime,
+          policy,
+          maxIncidents,
+        });
+        const details = await getIncidentDetails(incidents, projectId, {
+          alertPolicy: getAlertPolicyClient(),
+          monitoring: getMonitoringClient(),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Alert Incidents\n\nProject: ${projectId}\nState: ${state}${state !== "open" ? `\nClosed Since: ${sinceTime.toISOString()}` : ""}${policy ? `\nPolicy: ${policy}` : ""}\n\n${formatIncidents(details)}${truncated ? `\n\nMore incidents matched; only the ${maxIncidents} most recently opened are shown.` : ""}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to list incidents: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to list services and their SLOs
+  server.tool(
+    "gcp-monitoring-list-slos",
+    {
+      service: z
+        .string()
+        .optional()
+        .describe("Only this service, by ID or resource name"),
+    },
+    async ({ service }) => {
+      try {
+        const projectId = await getProjectId();
+        const services = await listServicesWithSlos(
+          getServiceMonitoringClient(),
+          projectId,
+          service,
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Services and SLOs\n\nProject: ${projectId}\n\n${formatServicesWithSlos(services)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to list SLOs: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to report SLO attainment, error budget and burn rates
+  server.tool(
+    "gcp-monitoring-get-slo-status",
+    {
+      service: z.string().describe("The service ID or resource name"),
+      slo: z
+        .string()
+        .optional()
+        .describe("The SLO ID or resource name (defaults to all SLOs)"),
+    },
+    async ({ service, slo }) => {
+      try {
+        const projectId = await getProjectId();
+        const serviceClient = getServiceMonitoringClient();
+        const slos = slo
+          ? [
+              (
+                await serviceClient.getServiceLevelObjective({
+                  name: sloResourceName(projectId, service, slo),
+                })
+              )[0],
+            ]
+          : (
+              await serviceClient.listServiceLevelObjectives({
+                parent: serviceResourceName(projectId, service),
+              })
+            )[0];
+
+        const client = getMonitoringClient();
+        const statuses = [];
+        for (const item of slos) {
+          statuses.push(await getSloStatus(client, projectId, item));
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# SLO Status\n\nProject: ${projectId}\nService: ${service}\n\n${statuses.map(formatSloStatus).join("\n") || "No SLOs found."}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to get SLO status: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to rank SLOs by how close they are to spending their budget
+  server.tool(
+    "gcp-monitoring-slos-at-risk",
+    {
+      service: z
+        .string()
+        .optional()
+        .describe("Only this service, by ID or resource name"),
+    },
+    async ({ service }) => {
+      try {
+        const projectId = await getProjectId();
+        const services = await listServicesWithSlos(
+          getServiceMonitoringClient(),
+          projectId,
+          service,
+        );
+
+        const client = getMonitoringClient();
+        const statuses = [];
+        for (const { slos } of services) {
+          for (const item of slos) {
+            statuses.push(await getSloStatus(client, projectId, item));
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# SLOs at Risk\n\nProject: ${projectId}${service ? `\nService: ${service}` : ""}\n\n${formatSloRiskReport(statuses)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to assess SLOs: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to list uptime checks
+  server.tool("gcp-monitoring-list-uptime-checks", {}, async () => {
+    try {
+      const projectId = await getProjectId();
+      const [configs] = await getUptimeCheckClient().listUptimeCheckConfigs({
+        parent: `projects/${projectId}`,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `# Uptime Checks\n\nProject: ${projectId}\n\n${formatUptimeChecks(configs ?? [])}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new GcpMcpError(
+        `Failed to list uptime checks: ${error.message}`,
+        error.code || "UNKNOWN",
+        error.statusCode || 500,
+      );
+    }
+  });
+
+  // Tool to report uptime check results per region
+  server.tool(
+    "gcp-monitoring-get-uptime-check-results",
+    {
+      check: z
+        .string()
+        .optional()
+        .describe("The check ID or resource name (defaults to all checks)"),
+      window: z
+        .string()
+        .default("1h")
+        .describe('How far back to look, e.g. "1h" or "1d"'),
+    },
+    async ({ check, window }) => {
+      try {
+        const projectId = await getProjectId();
+        const uptimeClient = getUptimeCheckClient();
+        const configs = check
+          ? [
+              (
+                await uptimeClient.getUptimeCheckConfig({
+                  name: uptimeCheckResourceName(projectId, check),
+                })
+              )[0],
+            ]
+          : ((
+              await uptimeClient.listUptimeCheckConfigs({
+                parent: `projects/${projectId}`,
+              })
+            )[0] ?? []);
+
+        const client = getMonitoringClient();
+        const start = parseRelativeTime(window);
+        const end = new Date();
+        const sections = [];
+        for (const config of configs) {
+          const results = await getUptimeCheckResults(
+            client,
+            projectId,
+            uptimeCheckId(config),
+            start,
+            end,
+          );
+          sections.push(
+            `${formatUptimeCheck(config)}\n${formatUptimeResults(results)}`,
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Uptime Check Results\n\nProject: ${projectId}\nTime Range: ${start.toISOString()} to ${end.toISOString()}\n\n${sections.join("\n") || "No uptime checks found."}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to get uptime check results: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to create an uptime check
+  server.tool(
+    "gcp-monitoring-create-uptime-check",
+    {
+      ...uptimeCheckChangesShape,
+      displayName: z.string().describe("Check name shown in the UI"),
+      host: z.string().describe("Host name or IP address to check"),
+    },
+    async (spec) => {
+      try {
+        const projectId = await getProjectId();
+        const [created] = await getUptimeCheckClient().createUptimeCheckConfig({
+          parent: `projects/${projectId}`,
+          uptimeCheckConfig: buildUptimeCheck(spec, projectId),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Uptime Check Created\n\nProject: ${projectId}\n\n${formatUptimeCheck(created)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to create uptime check: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to update an uptime check
+  server.tool(
+    "gcp-monitoring-update-uptime-check",
+    {
+      check: z.string().describe("The check ID or full resource name"),
+      ...uptimeCheckChangesShape,
+    },
+    async ({ check, ...changes }) => {
+      try {
+        const projectId = await getProjectId();
+        const client = getUptimeCheckClient();
+        const [existing] = await client.getUptimeCheckConfig({
+          name: uptimeCheckResourceName(projectId, check),
+        });
+        const { config, updateMask } = applyUptimeCheckChanges(
+          existing,
+          changes,
+        );
+        const [updated] = await client.updateUptimeCheckConfig({
+          uptimeCheckConfig: config,
+          updateMask: { paths: updateMask },
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Uptime Check Updated\n\nProject: ${projectId}\nUpdated Fields: ${updateMask.join(", ")}\n\n${formatUptimeCheck(updated)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to update uptime check: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to list the addresses uptime checks are sent from
+  server.tool(
+    "gcp-monitoring-list-uptime-check-ips",
+    {
+      regions: z
+        .array(z.enum(UPTIME_CHECK_REGIONS))
+        .optional()
+        .describe("Only addresses in these regions"),
+    },
+    async ({ regions }) => {
+      try {
+        const [ips] = await getUptimeCheckClient().listUptimeCheckIps({});
+        const selected = (ips ?? []).filter(
+          (ip) =>
+            !regions?.length ||
+            (regions as string[]).includes(String(ip.region)),
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Uptime Check Source Addresses\n\n${regions?.length ? `Regions: ${regions.join(", ")}\n\n` : ""}${formatUptimeCheckIps(selected)}`,
+            },
+          ],
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to list uptime check addresses: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
+
+  // Tool to run PromQL queries against Managed Service for Prometheus
+  server.registerTool(
+    "gcp-monitoring-query-promql",
+    {
+      title: "Query Metrics with PromQL",
+      description:
+        "Run a PromQL instant or range query through the Prometheus-compatible API of Cloud Monitoring. Works with Managed Service for Prometheus metrics and with Cloud Monitoring metrics using their PromQL names.",
+      inputSchema: {
+        query: z.string().describe("The PromQL expression to evaluate"),
+        queryType: z
+          .enum(PROMQL_QUERY_TYPES)
+          .default("range")
+          .describe(
+            "range returns samples over startTime to endTime; instant evaluates once at time",
+          ),
+        startTime: z
+          .string()
+          .default("1h")
+          .describe(
+            'Start of a range query in ISO format or relative time (e.g., "1h", "2d")',
+          ),
+        endTime: z
+          .string()
+          .optional()
+          .describe("End of a range query in ISO format (defaults to now)"),
+        step: z
+          .string()
+          .default("60s")
+          .describe('Resolution of a range query (e.g., "30s", "5m")'),
+        time: z
+          .string()
+          .optional()
+          .describe(
+            "Evaluation time of an instant query in ISO format or relative time (defaults to now)",
+          ),
+      },
+      outputSchema: {
+        projectId: z.string(),
+        query: z.string(),
+        queryType: z.enum(PROMQL_QUERY_TYPES),
+        resultType: z.enum(["matrix", "vector", "scalar", "string"]),
+        series: z.array(
+          z.object({
+            metric: z.record(z.string()),
+            values: z.array(
+              z.object({
+                timestamp: z.string(),
+                value: z.number().nullable(),
+              }),
+            ),
+          }),
+        ),
+        warnings: z.array(z.string()).optional(),
+      },
+    },
+    async ({ query, queryType, startTime, endTime, step, time }) => {
+      try {
+        const projectId = await getProjectId();
+
+        let range: string;
+        let result;
+        if (queryType === "range") {
+          const start = parseRelativeTime(startTime);
+          const end = endTime ? parseRelativeTime(endTime) : new Date();
+          const stepSeconds = parseDurationSeconds(step);
+          result = await queryPromql(projectId, {
+            query,
+            type: "range",
+            start,
+            end,
+            stepSeconds,
+          });
+          range = `Time Range: ${start.toISOString()} to ${end.toISOString()}\nStep: ${step}`;
+        } else {
+          const at = time ? parseRelativeTime(time) : new Date();
+          result = await queryPromql(projectId, {
+            query,
+            type: "instant",
+            time: at,
+          });
+          range = `Evaluated At: ${at.toISOString()}`;
+        }
+
+        const warnings =
+          result.warnings.length > 0
+            ? `\n\n**Warnings:**\n${result.warnings.map((warning) => `- ${warning}`).join("\n")}`
+            : "";
+        const body =
+          result.series.length === 0
+            ? "No series matched the query."
+            : formatTimeSeriesData(
+                promqlSeriesToTimeSeries(result.series, query),
+              );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# PromQL Query Results\n\nProject: ${projectId}\nQuery: ${query}\n${range}\nResult Type: ${result.resultType}\nSeries: ${result.series.length}${warnings}\n\n${body}`,
+            },
+          ],
+          structuredContent: {
+            projectId,
+            query,
+            queryType,
+            resultType: result.resultType,
+            series: result.series,
+            warnings: result.warnings.length > 0 ? result.warnings : undefined,
+          },
+        };
+      } catch (error: any) {
+        throw new GcpMcpError(
+          `Failed to run PromQL query: ${error.message}`,
+          error.code || "UNKNOWN",
+          error.statusCode || 500,
+        );
+      }
+    },
+  );
 }
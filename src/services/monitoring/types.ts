@@ -3,7 +3,14 @@
  */
 import monitoring from "@google-cloud/monitoring";
 import { google } from "@google-cloud/monitoring/build/protos/protos.js";
-const { MetricServiceClient } = monitoring;
+const {
+  AlertPolicyServiceClient,
+  MetricServiceClient,
+  NotificationChannelServiceClient,
+  QueryServiceClient,
+  ServiceMonitoringServiceClient,
+  UptimeCheckServiceClient,
+} = monitoring;
 
 /**
  * Interface for Google Cloud Monitoring time series data
@@ -45,6 +52,85 @@ export function getMonitoringClient() {
   });
 }
 
+/**
+ * Initialises the Google Cloud Monitoring query client used for MQL
+ *
+ * @returns A configured Query client
+ */
+export function getQueryClient() {
+  return new QueryServiceClient({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+/**
+ * Initialises the Google Cloud Monitoring alert policy client
+ *
+ * @returns A configured Alert Policy client
+ */
+export function getAlertPolicyClient() {
+  return new AlertPolicyServiceClient({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+/**
+ * Initialises the Google Cloud Monitoring notification channel client
+ *
+ * @returns A configured Notification Channel client
+ */
+export function getNotificationChannelClient() {
+  return new NotificationChannelServiceClient({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+/**
+ * Initialises the Google Cloud Monitoring service monitoring client used for
+ * services and SLOs
+ *
+ * @returns A configured Service Monitoring client
+ */
+export function getServiceMonitoringClient() {
+  return new ServiceMonitoringServiceClient({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+/**
+ * Initialises the Google Cloud Monitoring uptime check client
+ *
+ * @returns A configured Uptime Check client
+ */
+export function getUptimeCheckClient() {
+  return new UptimeCheckServiceClient({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+/**
+ * Formats a single metric value for display
+ *
+ * @param value The typed value of a point
+ * @returns The value as text, or "N/A" when it is missing
+ */
+export function formatTypedValue(
+  value?: google.monitoring.v3.ITypedValue | null,
+): string {
+  if (value?.boolValue !== undefined && value.boolValue !== null) {
+    return String(value.boolValue);
+  } else if (value?.int64Value !== undefined && value.int64Value !== null) {
+    return value.int64Value.toString();
+  } else if (value?.doubleValue !== undefined && value.doubleValue !== null) {
+    return value.doubleValue.toFixed(6);
+  } else if (value?.stringValue !== undefined && value.stringValue !== null) {
+    return value.stringValue;
+  } else if (value?.distributionValue) {
+    return "Distribution";
+  }
+  return "N/A";
+}
+
 /**
  * Formats a time series data point for display
  *
@@ -89,23 +175,7 @@ export function formatTimeSeriesData(
       const timestamp = new Date(
         Number(point.interval?.endTime?.seconds) * 1000,
       ).toISOString();
-      // Extract the value based on valueType
-      let value: string;
-      if (point.value?.boolValue !== undefined) {
-        value = String(point.value?.boolValue) ?? "N/A";
-      } else if (point.value?.int64Value !== undefined) {
-        value = point.value?.int64Value?.toString() ?? "N/A";
-      } else if (point.value?.doubleValue !== undefined) {
-        value = point.value?.doubleValue?.toFixed(6) ?? "N/A";
-      } else if (point.value?.stringValue !== undefined) {
-        value = point.value?.stringValue ?? "N/A";
-      } else if (point.value?.distributionValue) {
-        value = "Distribution";
-      } else {
-        value = "N/A";
-      }
-
-      result += `| ${timestamp} | ${value} |\n`;
+      result += `| ${timestamp} | ${formatTypedValue(point.value)} |\n`;
     }
 
     result += "\n---\n\n";
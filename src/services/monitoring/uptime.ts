@@ -0,0 +1,696 @@
+/**
+ * Uptime checks for Google Cloud Monitoring
+ *
+ * Builds HTTP and TCP uptime checks from a structured spec, applies partial
+ * changes with the matching update mask, and summarises check results per
+ * checker region from the `monitoring.googleapis.com/uptime_check/*` metrics.
+ */
+import { google } from "@google-cloud/monitoring/build/protos/protos.js";
+import { z } from "zod";
+import { GcpMcpError } from "../../utils/error.js";
+import { quoteFilterString } from "../../utils/filter.js";
+import { parseDurationSeconds } from "../../utils/time.js";
+import { monitoringResourceName } from "./alerting.js";
+import { extractNumericPoints, percentile } from "./analysis.js";
+import { getMonitoringClient } from "./types.js";
+
+type UptimeCheckConfig = google.monitoring.v3.IUptimeCheckConfig;
+type HttpCheck = google.monitoring.v3.UptimeCheckConfig.IHttpCheck;
+type UptimeCheckIp = google.monitoring.v3.IUptimeCheckIp;
+
+/**
+ * Metric recording whether each check passed
+ */
+const CHECK_PASSED_METRIC =
+  "monitoring.googleapis.com/uptime_check/check_passed";
+
+/**
+ * Metric recording the latency of each check in milliseconds
+ */
+const REQUEST_LATENCY_METRIC =
+  "monitoring.googleapis.com/uptime_check/request_latency";
+
+/**
+ * Regions checks can run from
+ */
+export const UPTIME_CHECK_REGIONS = [
+  "USA",
+  "EUROPE",
+  "SOUTH_AMERICA",
+  "ASIA_PACIFIC",
+  "USA_OREGON",
+  "USA_IOWA",
+  "USA_VIRGINIA",
+] as const;
+
+/**
+ * Intervals at which checks can run
+ */
+export const UPTIME_CHECK_PERIODS = ["60s", "300s", "600s", "900s"] as const;
+
+/**
+ * Ways of matching the response content
+ */
+export const UPTIME_CONTENT_MATCHERS = [
+  "CONTAINS_STRING",
+  "NOT_CONTAINS_STRING",
+  "MATCHES_REGEX",
+  "NOT_MATCHES_REGEX",
+] as const;
+
+/**
+ * Settings of an HTTP check
+ */
+export interface UptimeHttpSpec {
+  path?: string;
+  port?: number;
+  useSsl?: boolean;
+  validateSsl?: boolean;
+  requestMethod?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  /** MIME type of the body (default application/x-www-form-urlencoded) */
+  contentType?: string;
+  /** Status codes such as "200" or classes such as "2xx" */
+  acceptedStatusCodes?: string[];
+}
+
+/**
+ * Settings of a TCP check
+ */
+export interface UptimeTcpSpec {
+  port: number;
+}
+
+/**
+ * Changes that can be applied to an uptime check
+ */
+export interface UptimeCheckChanges {
+  displayName?: string;
+  http?: UptimeHttpSpec;
+  tcp?: UptimeTcpSpec;
+  period?: (typeof UPTIME_CHECK_PERIODS)[number];
+  /** How long to wait for a response, e.g. "10s" */
+  timeout?: string;
+  /** At least three regions; all regions when unset */
+  regions?: Array<(typeof UPTIME_CHECK_REGIONS)[number]>;
+  contentMatch?: {
+    content: string;
+    matcher?: (typeof UPTIME_CONTENT_MATCHERS)[number];
+  };
+  userLabels?: Record<string, string>;
+}
+
+/**
+ * Definition of a new uptime check; exactly one of http and tcp is set
+ */
+export interface UptimeCheckSpec extends UptimeCheckChanges {
+  displayName: string;
+  /** Host name or IP address to check */
+  host: string;
+}
+
+/**
+ * Input schema for HTTP checks
+ */
+export const uptimeHttpSchema = z.object({
+  path: z.string().optional().describe('Path to request (default "/")'),
+  port: z.number().int().min(1).max(65535).optional(),
+  useSsl: z.boolean().optional().describe("Use HTTPS"),
+  validateSsl: z
+    .boolean()
+    .optional()
+    .describe("Fail the check when the certificate is invalid"),
+  requestMethod: z.enum(["GET", "POST"]).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.string().optional().describe("Request body for POST checks"),
+  contentType: z
+    .string()
+    .optional()
+    .describe(
+      "MIME type of the body (default application/x-www-form-urlencoded)",
+    ),
+  acceptedStatusCodes: z
+    .array(z.string())
+    .optional()
+    .describe('Status codes such as "200" or classes such as "2xx" or "any"'),
+});
+
+/**
+ * Input schema fields for uptime check changes
+ */
+export const uptimeCheckChangesShape = {
+  displayName: z.string().optional().describe("Check name shown in the UI"),
+  http: uptimeHttpSchema.optional().describe("Check over HTTP or HTTPS"),
+  tcp: z
+    .object({ port: z.number().int().min(1).max(65535) })
+    .optional()
+    .describe("Check that a TCP connection can be opened"),
+  period: z
+    .enum(UPTIME_CHECK_PERIODS)
+    .optional()
+    .describe("How often the check runs (default 60s)"),
+  timeout: z
+    .string()
+    .optional()
+    .describe('How long to wait for a response, from "1s" to "60s"'),
+  regions: z
+    .array(z.enum(UPTIME_CHECK_REGIONS))
+    .optional()
+    .describe("At least three regions to check from (default all)"),
+  contentMatch: z
+    .object({
+      content: z.string(),
+      matcher: z.enum(UPTIME_CONTENT_MATCHERS).optional(),
+    })
+    .optional()
+    .describe("Content the response must or must not contain"),
+  userLabels: z.record(z.string()).optional(),
+};
+
+/**
+ * Builds the resource name of an uptime check
+ *
+ * @param projectId The project ID
+ * @param check The check ID or resource name
+ * @returns The check resource name
+ */
+export function uptimeCheckResourceName(
+  projectId: string,
+  check: string,
+): string {
+  return monitoringResourceName(
+    `projects/${projectId}`,
+    "uptimeCheckConfigs",
+    check,
+  );
+}
+
+/**
+ * Converts accepted status codes to the shape used by the API
+ *
+ * @param codes Codes such as "200", classes such as "2xx", or "any"
+ * @returns The response status codes
+ */
+function toResponseStatusCodes(
+  codes: string[],
+): google.monitoring.v3.UptimeCheckConfig.HttpCheck.IResponseStatusCode[] {
+  return codes.map((code) => {
+    if (/^\d{3}$/.test(code)) {
+      return { statusValue: Number(code) };
+    }
+    const statusClass = /^([1-5])xx$/i.exec(code);
+    if (statusClass) {
+      const digit = statusClass[1] as "1" | "2" | "3" | "4" | "5";
+      return { statusClass: `STATUS_CLASS_${digit}XX` as const };
+    }
+    if (code.toLowerCase() === "any") {
+      return { statusClass: "STATUS_CLASS_ANY" as const };
+    }
+    throw new GcpMcpError(
+      `Invalid accepted status code "${code}". Use a code such as "200", a class such as "2xx", or "any".`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  });
+}
+
+/**
+ * Builds the HTTP settings of a check, keeping existing settings not given
+ *
+ * @param spec The HTTP settings
+ * @param existing The current settings
+ * @returns The HTTP check
+ */
+function buildHttpCheck(
+  spec: UptimeHttpSpec,
+  existing: HttpCheck = {},
+): HttpCheck {
+  const check: HttpCheck = { ...existing };
+  if (spec.path !== undefined) {
+    check.path = spec.path.startsWith("/") ? spec.path : `/${spec.path}`;
+  }
+  if (spec.port !== undefined) {
+    check.port = spec.port;
+  }
+  if (spec.useSsl !== undefined) {
+    check.useSsl = spec.useSsl;
+  }
+  if (spec.validateSsl !== undefined) {
+    check.validateSsl = spec.validateSsl;
+  }
+  if (spec.requestMethod !== undefined) {
+    check.requestMethod = spec.requestMethod;
+  }
+  if (spec.headers !== undefined) {
+    check.headers = { ...spec.headers };
+  }
+  if (spec.body !== undefined) {
+    check.body = Buffer.from(spec.body);
+    if (
+      !spec.contentType ||
+      spec.contentType === "application/x-www-form-urlencoded"
+    ) {
+      check.contentType = "URL_ENCODED";
+      check.customContentType = "";
+    } else {
+      check.contentType = "USER_PROVIDED";
+      check.customContentType = spec.contentType;
+    }
+  }
+  if (spec.acceptedStatusCodes !== undefined) {
+    check.acceptedResponseStatusCodes = toResponseStatusCodes(
+      spec.acceptedStatusCodes,
+    );
+  }
+  if (check.body?.length && check.requestMethod !== "POST") {
+    throw new GcpMcpError(
+      "A request body can only be sent with requestMethod POST.",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  return check;
+}
+
+/**
+ * Applies changes to an uptime check
+ *
+ * HTTP settings are merged into the existing ones; a check cannot switch
+ * between HTTP and TCP, so the API would reject that change.
+ *
+ * @param existing The current check
+ * @param changes The changes to apply
+ * @returns The updated check and the update mask paths
+ */
+export function applyUptimeCheckChanges(
+  existing: UptimeCheckConfig,
+  changes: UptimeCheckChanges,
+): { config: UptimeCheckConfig; updateMask: string[] } {
+  if (changes.http && changes.tcp) {
+    throw new GcpMcpError(
+      "Set either http or tcp, not both.",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+  if (
+    (changes.http && existing.tcpCheck) ||
+    (changes.tcp && existing.httpCheck)
+  ) {
+    throw new GcpMcpError(
+      "An uptime check cannot switch between HTTP and TCP. Create a new check instead.",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  const config: UptimeCheckConfig = { ...existing };
+  const updateMask: string[] = [];
+
+  if (changes.displayName !== undefined) {
+    config.displayName = changes.displayName;
+    updateMask.push("display_name");
+  }
+  if (changes.http !== undefined) {
+    config.httpCheck = buildHttpCheck(changes.http, existing.httpCheck ?? {});
+    updateMask.push("http_check");
+  }
+  if (changes.tcp !== undefined) {
+    config.tcpCheck = { ...existing.tcpCheck, port: changes.tcp.port };
+    updateMask.push("tcp_check");
+  }
+  if (changes.period !== undefined) {
+    config.period = { seconds: parseDurationSeconds(changes.period) };
+    updateMask.push("period");
+  }
+  if (changes.timeout !== undefined) {
+    const seconds = parseDurationSeconds(changes.timeout);
+    if (seconds < 1 || seconds > 60) {
+      throw new GcpMcpError(
+        `Timeout must be between 1s and 60s, got "${changes.timeout}".`,
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    config.timeout = { seconds };
+    updateMask.push("timeout");
+  }
+  if (changes.regions !== undefined) {
+    const regions = [...new Set(changes.regions)];
+    if (regions.length > 0 && regions.length < 3) {
+      throw new GcpMcpError(
+        "Select at least three regions, or none to check from all regions.",
+        "INVALID_ARGUMENT",
+        400,
+      );
+    }
+    config.selectedRegions = regions.map(
+      (region) => google.monitoring.v3.UptimeCheckRegion[region],
+    );
+    updateMask.push("selected_regions");
+  }
+  if (changes.contentMatch !== undefined) {
+    config.contentMatchers = [
+      {
+        content: changes.contentMatch.content,
+        matcher: changes.contentMatch.matcher ?? "CONTAINS_STRING",
+      },
+    ];
+    updateMask.push("content_matchers");
+  }
+  if (changes.userLabels !== undefined) {
+    config.userLabels = { ...changes.userLabels };
+    updateMask.push("user_labels");
+  }
+
+  if (updateMask.length === 0) {
+    throw new GcpMcpError(
+      "No changes were given. Set at least one field to update.",
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  return { config, updateMask };
+}
+
+/**
+ * Builds a new uptime check
+ *
+ * @param spec The check spec
+ * @param projectId The project ID
+ * @returns The check in the shape used by the API
+ */
+export function buildUptimeCheck(
+  spec: UptimeCheckSpec,
+  projectId: string,
+): UptimeCheckConfig {
+  if (Boolean(spec.http) === Boolean(spec.tcp)) {
+    throw new GcpMcpError(
+      `Uptime check "${spec.displayName}" must set exactly one of http or tcp.`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  const { host, ...changes } = spec;
+  return applyUptimeCheckChanges(
+    {
+      monitoredResource: {
+        type: "uptime_url",
+        labels: { host, project_id: projectId },
+      },
+      period: { seconds: 60 },
+      timeout: { seconds: 10 },
+    },
+    { ...changes, http: spec.http && { path: "/", ...spec.http } },
+  ).config;
+}
+
+/**
+ * Results of a check from one checker region
+ */
+export interface UptimeRegionResult {
+  /** The checker location, e.g. "usa-iowa" */
+  region: string;
+  passed: number;
+  failed: number;
+  /** Whether the most recent check passed */
+  lastPassed?: boolean;
+  lastTime?: Date;
+  /** Latency statistics in milliseconds */
+  latency?: { mean: number; p95: number; max: number };
+}
+
+/**
+ * Builds the filter for an uptime check metric
+ *
+ * @param metricType The metric type
+ * @param checkId The check ID
+ * @returns The filter
+ */
+function uptimeMetricFilter(metricType: string, checkId: string): string {
+  return `metric.type = ${quoteFilterString(metricType)} AND metric.labels.check_id = ${quoteFilterString(checkId)}`;
+}
+
+/**
+ * Fetches the results of a check per checker region
+ *
+ * @param client The Monitoring client
+ * @param projectId The project ID
+ * @param checkId The check ID
+ * @param start Start of the window
+ * @param end End of the window
+ * @returns Results for each region that reported, sorted by region
+ */
+export async function getUptimeCheckResults(
+  client: ReturnType<typeof getMonitoringClient>,
+  projectId: string,
+  checkId: string,
+  start: Date,
+  end: Date,
+): Promise<UptimeRegionResult[]> {
+  const interval = {
+    startTime: { seconds: Math.floor(start.getTime() / 1000), nanos: 0 },
+    endTime: { seconds: Math.floor(end.getTime() / 1000), nanos: 0 },
+  };
+  const [[passedSeries], [latencySeries]] = await Promise.all([
+    client.listTimeSeries({
+      name: `projects/${projectId}`,
+      filter: uptimeMetricFilter(CHECK_PASSED_METRIC, checkId),
+      interval,
+    }),
+    client.listTimeSeries({
+      name: `projects/${projectId}`,
+      filter: uptimeMetricFilter(REQUEST_LATENCY_METRIC, checkId),
+      interval,
+    }),
+  ]);
+
+  const results = new Map<string, UptimeRegionResult>();
+  const resultFor = (series: google.monitoring.v3.ITimeSeries) => {
+    const region = series.metric?.labels?.checker_location || "unknown";
+    let result = results.get(region);
+    if (!result) {
+      result = { region, passed: 0, failed: 0 };
+      results.set(region, result);
+    }
+    return result;
+  };
+
+  for (const series of passedSeries ?? []) {
+    const result = resultFor(series);
+    for (const point of extractNumericPoints(series)) {
+      if (point.value) {
+        result.passed++;
+      } else {
+        result.failed++;
+      }
+      if (!result.lastTime || point.time >= result.lastTime.getTime()) {
+        result.lastTime = new Date(point.time);
+        result.lastPassed = point.value === 1;
+      }
+    }
+  }
+
+  const latencies = new Map<string, number[]>();
+  for (const series of latencySeries ?? []) {
+    const { region } = resultFor(series);
+    latencies.set(region, [
+      ...(latencies.get(region) ?? []),
+      ...extractNumericPoints(series).map((point) => point.value),
+    ]);
+  }
+  for (const [region, values] of latencies) {
+    if (values.length > 0) {
+      const sorted = [...values].sort((a, b) => a - b);
+      results.get(region)!.latency = {
+        mean: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+        p95: percentile(sorted, 95),
+        max: sorted[sorted.length - 1],
+      };
+    }
+  }
+
+  return [...results.values()].sort((a, b) => a.region.localeCompare(b.region));
+}
+
+/**
+ * Gets the ID of a check from its resource name
+ *
+ * @param config The check
+ * @returns The check ID
+ */
+export function uptimeCheckId(config: UptimeCheckConfig): string {
+  return (config.name ?? "").split("/").pop() ?? "";
+}
+
+/**
+ * Describes what a check connects to
+ *
+ * @param config The check
+ * @returns The protocol and target, e.g. "HTTPS https://example.com:443/health"
+ */
+function describeTarget(config: UptimeCheckConfig): string {
+  const resource = config.monitoredResource;
+  const host =
+    resource?.labels?.host ??
+    (config.resourceGroup?.groupId
+      ? `group ${config.resourceGroup.groupId}`
+      : (resource?.type ?? "-"));
+  if (config.tcpCheck) {
+    return `TCP ${host}:${config.tcpCheck.port}`;
+  }
+  if (config.httpCheck) {
+    const scheme = config.httpCheck.useSsl ? "https" : "http";
+    const port = config.httpCheck.port ? `:${config.httpCheck.port}` : "";
+    return `${scheme.toUpperCase()} ${scheme}://${host}${port}${config.httpCheck.path ?? "/"}`;
+  }
+  return host;
+}
+
+/**
+ * Formats a protobuf duration
+ *
+ * @param duration The duration
+ * @returns The duration in seconds, e.g. "60s"
+ */
+function formatDuration(duration?: google.protobuf.IDuration | null): string {
+  return duration ? `${Number(duration.seconds ?? 0)}s` : "-";
+}
+
+/**
+ * Formats uptime checks as a table
+ *
+ * @param configs The checks
+ * @returns A markdown table
+ */
+export function formatUptimeChecks(configs: UptimeCheckConfig[]): string {
+  if (configs.length === 0) {
+    return "No uptime checks found.";
+  }
+
+  let text = "| ID | Name | Target | Period | Timeout | Regions |\n";
+  text += "|----|------|--------|--------|---------|---------|\n";
+  for (const config of configs) {
+    const regions = config.selectedRegions?.length
+      ? config.selectedRegions.join(", ")
+      : "all";
+    text += `| ${uptimeCheckId(config)} | ${config.displayName || "-"} | ${describeTarget(config)} | ${formatDuration(config.period)} | ${formatDuration(config.timeout)} | ${regions} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats one uptime check with all its settings
+ *
+ * @param config The check
+ * @returns A markdown section
+ */
+export function formatUptimeCheck(config: UptimeCheckConfig): string {
+  let text = `## ${config.displayName || config.name}\n\n`;
+  text += `- **Name:** ${config.name}\n`;
+  text += `- **Target:** ${describeTarget(config)}\n`;
+  text += `- **Period:** ${formatDuration(config.period)}\n`;
+  text += `- **Timeout:** ${formatDuration(config.timeout)}\n`;
+  text += `- **Regions:** ${config.selectedRegions?.length ? config.selectedRegions.join(", ") : "all"}\n`;
+
+  const http = config.httpCheck;
+  if (http) {
+    text += `- **Method:** ${http.requestMethod || "GET"}\n`;
+    if (http.useSsl) {
+      text += `- **Validate SSL:** ${http.validateSsl ? "yes" : "no"}\n`;
+    }
+    if (http.acceptedResponseStatusCodes?.length) {
+      text += `- **Accepted Status:** ${http.acceptedResponseStatusCodes
+        .map((code) => code.statusValue ?? code.statusClass)
+        .join(", ")}\n`;
+    }
+    const headers = Object.keys(http.headers ?? {});
+    if (headers.length > 0) {
+      text += `- **Headers:** ${headers.join(", ")}\n`;
+    }
+  }
+  for (const matcher of config.contentMatchers ?? []) {
+    text += `- **Content:** ${matcher.matcher || "CONTAINS_STRING"} \`${matcher.content}\`\n`;
+  }
+  for (const [key, value] of Object.entries(config.userLabels ?? {})) {
+    text += `- **Label:** ${key}=${value}\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats the results of a check per region
+ *
+ * @param results Results for each region
+ * @returns A summary line and a markdown table
+ */
+export function formatUptimeResults(results: UptimeRegionResult[]): string {
+  if (results.length === 0) {
+    return "No results were recorded in this window.\n";
+  }
+
+  const passed = results.reduce((total, result) => total + result.passed, 0);
+  const total = results.reduce(
+    (sum, result) => sum + result.passed + result.failed,
+    0,
+  );
+  const failing = results
+    .filter((result) => result.lastPassed === false)
+    .map((result) => result.region);
+  let text = `Pass rate: ${total > 0 ? ((passed / total) * 100).toFixed(1) : "-"}% (${passed} of ${total} checks)`;
+  text += failing.length
+    ? `. Failing now in: ${failing.join(", ")}\n\n`
+    : ". No region is failing now.\n\n";
+
+  const ms = (value?: number) =>
+    value === undefined ? "-" : `${value.toFixed(0)} ms`;
+  text +=
+    "| Region | Passed | Failed | Pass Rate | Last Result | Mean Latency | p95 Latency | Max Latency |\n";
+  text +=
+    "|--------|--------|--------|-----------|-------------|--------------|-------------|-------------|\n";
+  for (const result of results) {
+    const count = result.passed + result.failed;
+    const rate =
+      count > 0 ? `${((result.passed / count) * 100).toFixed(1)}%` : "-";
+    const last =
+      result.lastPassed === undefined
+        ? "-"
+        : `${result.lastPassed ? "pass" : "FAIL"} at ${result.lastTime!.toISOString()}`;
+    text += `| ${result.region} | ${result.passed} | ${result.failed} | ${rate} | ${last} | ${ms(result.latency?.mean)} | ${ms(result.latency?.p95)} | ${ms(result.latency?.max)} |\n`;
+  }
+  return text;
+}
+
+/**
+ * Formats the source addresses of uptime checkers
+ *
+ * @param ips The checker addresses
+ * @returns A table by region and a plain list for firewall rules
+ */
+export function formatUptimeCheckIps(ips: UptimeCheckIp[]): string {
+  if (ips.length === 0) {
+    return "No uptime checker addresses found.";
+  }
+
+  const sorted = [...ips].sort(
+    (a, b) =>
+      String(a.region).localeCompare(String(b.region)) ||
+      (a.location ?? "").localeCompare(b.location ?? "") ||
+      (a.ipAddress ?? "").localeCompare(b.ipAddress ?? ""),
+  );
+  let text = "| Region | Location | IP Address |\n";
+  text += "|--------|----------|------------|\n";
+  for (const ip of sorted) {
+    text += `| ${ip.region} | ${ip.location} | ${ip.ipAddress} |\n`;
+  }
+
+  // Single addresses, written as ranges for pasting into firewall rules
+  const ranges = sorted.map(({ ipAddress }) =>
+    ipAddress?.includes(":") ? `${ipAddress}/128` : `${ipAddress}/32`,
+  );
+  text += `\n## Allowlist\n\n\`\`\`\n${ranges.join("\n")}\n\`\`\`\n`;
+  return text;
+}
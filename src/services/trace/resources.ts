@@ -9,6 +9,8 @@ import { getProjectId, initGoogleAuth } from "../../utils/auth.js";
 import { GcpMcpError } from "../../utils/error.js";
 import { buildTraceHierarchy, formatTraceData } from "./types.js";
 import { LogEntry } from "../logging/types.js";
+import { formatFieldPath, prepareLogFilter } from "../logging/filter.js";
+import { quoteFilterString } from "../../utils/filter.js";
 import { logger } from "../../utils/logger.js";
 
 /**
@@ -142,15 +144,19 @@ export function registerTraceResources(server: McpServer): void {
         });
 
         // Create a more flexible filter that searches for the trace ID in multiple fields
-        const traceFilter = `
-          (trace="projects/${actualProjectId}/traces/${traceId}" OR 
-           jsonPayload.logging.googleapis.com/trace="projects/${actualProjectId}/traces/${traceId}" OR 
-           labels."logging.googleapis.com/trace_id"="${traceId}" OR
-           labels."trace_id"="${traceId}" OR
-           jsonPayload.trace_id="${traceId}")
-        `
-          .replace(/\s+/g, " ")
-          .trim();
+        const traceName = quoteFilterString(
+          `projects/${actualProjectId}/traces/${traceId}`,
+        );
+        const quotedTraceId = quoteFilterString(String(traceId));
+        const traceFilter = prepareLogFilter(
+          [
+            `trace=${traceName}`,
+            `${formatFieldPath(["jsonPayload", "logging.googleapis.com/trace"])}=${traceName}`,
+            `${formatFieldPath(["labels", "logging.googleapis.com/trace_id"])}=${quotedTraceId}`,
+            `labels.trace_id=${quotedTraceId}`,
+            `jsonPayload.trace_id=${quotedTraceId}`,
+          ].join(" OR "),
+        );
 
         // Fetch logs with the flexible filter
         const [entries] = await logging.getEntries({
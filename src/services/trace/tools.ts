@@ -11,6 +11,7 @@ import {
   extractTraceIdFromLog,
 } from "./types.js";
 import { Logging } from "@google-cloud/logging";
+import { buildLogFilter, prepareLogFilter } from "../logging/filter.js";
 import { logger } from "../../utils/logger.js";
 import { stateManager } from "../../utils/state-manager.js";
 
@@ -526,56 +527,8 @@ export async function registerTraceTools(server: McpServer): Promise<void> {
           stateManager.getCurrentProjectId() ||
           (await getProjectId());
 
-        // Process the filter to handle relative time formats
-        let processedFilter = filter;
-
-        // Check for relative time patterns in the filter
-        const relativeTimeRegex = /(timestamp[><]=?\s*["'])(-?\d+[hmd])(["'])/g;
-        processedFilter = processedFilter.replace(
-          relativeTimeRegex,
-          (
-            match: string,
-            prefix: string,
-            timeValue: string,
-            suffix: string,
-          ) => {
-            logger.debug(
-              `Found relative time in filter: ${match}, timeValue: ${timeValue}`,
-            );
-
-            // Parse the relative time
-            const value = parseInt(timeValue.slice(1, -1));
-            const unit = timeValue.slice(-1);
-            const isNegative = timeValue.startsWith("-");
-
-            // Calculate the absolute time
-            const now = new Date();
-            const targetDate = new Date(now);
-
-            if (unit === "h") {
-              targetDate.setHours(
-                targetDate.getHours() + (isNegative ? -value : value),
-              );
-            } else if (unit === "d") {
-              targetDate.setDate(
-                targetDate.getDate() + (isNegative ? -value : value),
-              );
-            } else if (unit === "m") {
-              targetDate.setMinutes(
-                targetDate.getMinutes() + (isNegative ? -value : value),
-              );
-            }
-
-            // Format as RFC3339
-            const formattedTime = targetDate.toISOString();
-            logger.debug(
-              `Converted relative time ${timeValue} to absolute time: ${formattedTime}`,
-            );
-
-            // Return the updated filter part
-            return `${prefix}${formattedTime}${suffix}`;
-          },
-        );
+        // Validate the filter and resolve relative times such as "-1d"
+        const processedFilter = prepareLogFilter(filter);
 
         logger.debug(`Original filter: ${filter}`);
         logger.debug(`Processed filter: ${processedFilter}`);
@@ -915,21 +868,22 @@ export async function registerTraceTools(server: McpServer): Promise<void> {
           normalizedQuery.includes("log") ||
           normalizedQuery.includes("logging")
         ) {
-          let logFilter = "severity>=ERROR"; // Default to error logs
+          let logSeverity = "ERROR"; // Default to error logs
 
           if (
             normalizedQuery.includes("info") ||
             normalizedQuery.includes("information")
           ) {
-            logFilter = "severity>=INFO";
+            logSeverity = "INFO";
           } else if (
             normalizedQuery.includes("warn") ||
             normalizedQuery.includes("warning")
           ) {
-            logFilter = "severity>=WARNING";
+            logSeverity = "WARNING";
           } else if (normalizedQuery.includes("debug")) {
-            logFilter = "severity>=DEBUG";
+            logSeverity = "DEBUG";
           }
+          const logFilter = buildLogFilter({ severity: logSeverity });
 
           // Implement find-traces-from-logs functionality directly
           // Initialize the logging client
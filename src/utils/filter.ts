@@ -0,0 +1,13 @@
+/**
+ * Filter-related utility functions
+ */
+
+/**
+ * Quotes a value for use in a Logging, Monitoring or Trace filter
+ *
+ * @param value The raw value
+ * @returns The value as a double-quoted string with quotes and backslashes escaped
+ */
+export function quoteFilterString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
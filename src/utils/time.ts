@@ -51,3 +51,34 @@ export function parseRelativeTime(timeString: string): Date {
       );
   }
 }
+
+/**
+ * Parses a duration string into a number of seconds
+ *
+ * @param duration A duration such as "30s", "5m", "1h" or "1d"
+ * @param options Set allowZero to accept "0s", e.g. for alert durations
+ * @returns The duration in seconds
+ */
+export function parseDurationSeconds(
+  duration: string,
+  options: { allowZero?: boolean } = {},
+): number {
+  const match = duration.trim().match(/^(\d+)([smhdw])$/);
+  if (!match || (parseInt(match[1]) === 0 && !options.allowZero)) {
+    throw new GcpMcpError(
+      `Invalid duration: ${duration}. Use format like "30s", "5m", "1h", or "1d".`,
+      "INVALID_ARGUMENT",
+      400,
+    );
+  }
+
+  const value = parseInt(match[1]);
+  const multipliers: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 60 * 60,
+    d: 24 * 60 * 60,
+    w: 7 * 24 * 60 * 60,
+  };
+  return value * multipliers[match[2]];
+}
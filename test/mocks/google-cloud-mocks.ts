@@ -9,6 +9,7 @@ export const mockLoggingClient = {
   getEntries: vi.fn().mockResolvedValue([createMockLogEntries(), {}, {}]),
   createSink: vi.fn().mockResolvedValue([{ name: 'test-sink' }]),
   getSinks: vi.fn().mockResolvedValue([[], {}, {}]),
+  request: vi.fn((_config: unknown, callback: (err: Error | null, response?: unknown) => void) => callback(null, [])),
 };
 
 vi.mock('@google-cloud/logging', () => ({
@@ -19,12 +20,55 @@ vi.mock('@google-cloud/logging', () => ({
 export const mockMonitoringClient = {
   listTimeSeries: vi.fn().mockResolvedValue([[], {}, {}]),
   listMetricDescriptors: vi.fn().mockResolvedValue([[], {}, {}]),
+  getMetricDescriptor: vi.fn().mockResolvedValue([{}]),
   createTimeSeries: vi.fn().mockResolvedValue([{}]),
 };
 
+export const mockQueryClient = {
+  queryTimeSeries: vi.fn().mockResolvedValue([[], null, {}]),
+};
+
+export const mockAlertPolicyClient = {
+  listAlertPolicies: vi.fn().mockResolvedValue([[], null, {}]),
+  getAlertPolicy: vi.fn().mockResolvedValue([{}]),
+  createAlertPolicy: vi.fn().mockResolvedValue([{}]),
+  updateAlertPolicy: vi.fn().mockResolvedValue([{}]),
+};
+
+export const mockNotificationChannelClient = {
+  listNotificationChannels: vi.fn().mockResolvedValue([[], null, {}]),
+};
+
+export const mockServiceMonitoringClient = {
+  listServices: vi.fn().mockResolvedValue([[], null, {}]),
+  getService: vi.fn().mockResolvedValue([{}]),
+  listServiceLevelObjectives: vi.fn().mockResolvedValue([[], null, {}]),
+  getServiceLevelObjective: vi.fn().mockResolvedValue([{}]),
+};
+
+export const mockUptimeCheckClient = {
+  listUptimeCheckConfigs: vi.fn().mockResolvedValue([[], null, {}]),
+  getUptimeCheckConfig: vi.fn().mockResolvedValue([{}]),
+  createUptimeCheckConfig: vi.fn().mockResolvedValue([{}]),
+  updateUptimeCheckConfig: vi.fn().mockResolvedValue([{}]),
+  listUptimeCheckIps: vi.fn().mockResolvedValue([[], null, {}]),
+};
+
 vi.mock('@google-cloud/monitoring', () => ({
-  default: { MetricServiceClient: vi.fn(() => mockMonitoringClient) },
+  default: {
+    MetricServiceClient: vi.fn(() => mockMonitoringClient),
+    QueryServiceClient: vi.fn(() => mockQueryClient),
+    AlertPolicyServiceClient: vi.fn(() => mockAlertPolicyClient),
+    NotificationChannelServiceClient: vi.fn(() => mockNotificationChannelClient),
+    ServiceMonitoringServiceClient: vi.fn(() => mockServiceMonitoringClient),
+    UptimeCheckServiceClient: vi.fn(() => mockUptimeCheckClient),
+  },
   MetricServiceClient: vi.fn(() => mockMonitoringClient),
+  QueryServiceClient: vi.fn(() => mockQueryClient),
+  AlertPolicyServiceClient: vi.fn(() => mockAlertPolicyClient),
+  NotificationChannelServiceClient: vi.fn(() => mockNotificationChannelClient),
+  ServiceMonitoringServiceClient: vi.fn(() => mockServiceMonitoringClient),
+  UptimeCheckServiceClient: vi.fn(() => mockUptimeCheckClient),
 }));
 
 // Mock @google-cloud/spanner
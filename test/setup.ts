@@ -2,13 +2,24 @@
  * Test setup file for vitest
  * Configures global test environment and mocks
  */
-import { vi } from 'vitest';
+import { afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock environment variables for testing
 process.env.NODE_ENV = 'test';
 process.env.GOOGLE_CLOUD_PROJECT = 'test-project';
 process.env.LAZY_AUTH = 'true';
 
+// Keep cached metric catalogues out of the home directory
+const metricCatalogueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metric-catalogue-'));
+process.env.METRIC_CATALOGUE_DIR = metricCatalogueDir;
+
+afterAll(() => {
+  fs.rmSync(metricCatalogueDir, { recursive: true, force: true });
+});
+
 // Mock console methods to avoid noise in tests
 global.console = {
   ...console,
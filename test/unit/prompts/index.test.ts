@@ -5,14 +5,78 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Import mocks first
 import '../../mocks/google-cloud-mocks.js';
+import {
+  mockAlertPolicyClient,
+  mockMonitoringClient,
+} from '../../mocks/google-cloud-mocks.js';
 import { createMockMcpServer } from '../../utils/test-helpers.js';
 
+vi.mock('../../../src/utils/auth.js', () => ({
+  initGoogleAuth: vi.fn().mockResolvedValue({
+    getClient: vi.fn().mockResolvedValue({
+      getAccessToken: vi.fn().mockResolvedValue({ token: 'mock-token' })
+    }),
+  }),
+  getProjectId: vi.fn().mockResolvedValue('test-project'),
+}));
+
+global.fetch = vi.fn();
+const mockFetch = fetch as any;
+
+const openIncident = {
+  name: 'projects/test-project/alerts/a1',
+  state: 'OPEN',
+  openTime: '2024-01-01T12:00:00Z',
+  resource: { type: 'gce_instance', labels: { instance_id: '42', zone: 'us-central1-a' } },
+  metric: { type: 'compute.googleapis.com/instance/cpu/utilization', labels: {} },
+  policy: { name: 'projects/test-project/alertPolicies/p1', displayName: 'High CPU', severity: 'CRITICAL' },
+};
+
+const cpuPolicy = {
+  name: 'projects/test-project/alertPolicies/p1',
+  displayName: 'High CPU',
+  conditions: [
+    {
+      displayName: 'CPU above 80%',
+      conditionThreshold: {
+        filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+        comparison: 'COMPARISON_GT',
+        thresholdValue: 0.8,
+      },
+    },
+  ],
+};
+
+function mockJsonResponse(body: unknown, ok = true, status = 200) {
+  return {
+    ok,
+    status,
+    statusText: ok ? 'OK' : 'Not Found',
+    json: vi.fn().mockResolvedValue(body),
+  };
+}
+
+function cpuSeries(values: number[]) {
+  const openSeconds = Date.parse(openIncident.openTime) / 1000;
+  return {
+    metric: openIncident.metric,
+    resource: openIncident.resource,
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: openSeconds - (values.length - 1 - index) * 60 } },
+      value: { doubleValue: value },
+    })),
+  };
+}
+
 describe('Prompts', () => {
   let mockServer: ReturnType<typeof createMockMcpServer>;
 
   beforeEach(() => {
     vi.clearAllMocks();
     mockServer = createMockMcpServer();
+    mockFetch.mockResolvedValue(mockJsonResponse(openIncident));
+    mockAlertPolicyClient.getAlertPolicy.mockResolvedValue([cpuPolicy]);
+    mockMonitoringClient.listTimeSeries.mockResolvedValue([[cpuSeries([0.5, 0.85, 0.9])], {}, {}]);
   });
 
   describe('registerPrompts', () => {
@@ -75,6 +139,20 @@ describe('Prompts', () => {
       expect(result.messages[0].content.text).toContain('Trace the following request');
     });
 
+    it('should escape prompt arguments in generated log filters', async () => {
+      const { registerPrompts } = await import('../../../src/prompts/index.js');
+
+      registerPrompts(mockServer as any);
+
+      const promptCall = mockServer.registerPrompt.mock.calls.find(
+        call => call[0] === 'alert-investigation'
+      );
+      const result = await promptCall![2]({ alertId: 'alert"1', timeframe: '30m' });
+      const uri = new URL(result.messages[2].content.resource.uri);
+
+      expect(uri.searchParams.get('filter')).toBe('jsonPayload.alertId="alert\\"1"');
+    });
+
     it('should handle performance-overview prompt execution', async () => {
       const { registerPrompts } = await import('../../../src/prompts/index.js');
       
@@ -116,4 +194,61 @@ describe('Prompts', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('alert-investigation prompt', () => {
+    it('embeds the incidents of the alert', async () => {
+      const { registerPrompts } = await import('../../../src/prompts/index.js');
+
+      registerPrompts(mockServer as any);
+
+      const promptCall = mockServer.registerPrompt.mock.calls.find(
+        call => call[0] === 'alert-investigation'
+      );
+      const result = await promptCall![2]({ alertId: 'a1', timeframe: '30m' });
+
+      expect(new URL(mockFetch.mock.calls[0][0]).pathname).toBe('/v3/projects/test-project/alerts/a1');
+      expect(result.messages[1].content.text).toContain('## High CPU (open)');
+      expect(result.messages[1].content.text).toContain('| 2024-01-01T12:00:00.000Z | 0.9 |');
+    });
+
+    it('looks for the incidents of a policy within the timeframe', async () => {
+      const { registerPrompts } = await import('../../../src/prompts/index.js');
+      mockFetch.mockResolvedValue(mockJsonResponse({ alerts: [] }));
+
+      registerPrompts(mockServer as any);
+
+      const promptCall = mockServer.registerPrompt.mock.calls.find(
+        call => call[0] === 'alert-investigation'
+      );
+      const before = Date.now();
+      const result = await promptCall![2]({ alertId: 'projects/test-project/alertPolicies/p1', timeframe: '2h' });
+
+      const filters = mockFetch.mock.calls.map((call: any[]) => new URL(call[0]).searchParams.get('filter'));
+      const since = Date.parse(filters[1].match(/close_time >= "(.+)"/)[1]);
+      expect(since).toBeGreaterThanOrEqual(before - 2 * 60 * 60_000);
+      expect(since).toBeLessThanOrEqual(Date.now() - 2 * 60 * 60_000);
+      expect(result.messages[1].content.text).toBe(
+        'No incidents were found for alert projects/test-project/alertPolicies/p1 in the past 2h.',
+      );
+      expect(result.messages[2].content.resource.uri).toContain('timeframe=2h');
+    });
+
+    it('explains when the incidents cannot be retrieved', async () => {
+      const { registerPrompts } = await import('../../../src/prompts/index.js');
+      mockFetch.mockResolvedValue(
+        mockJsonResponse({ error: { message: 'Permission denied' } }, false, 403),
+      );
+
+      registerPrompts(mockServer as any);
+
+      const promptCall = mockServer.registerPrompt.mock.calls.find(
+        call => call[0] === 'alert-investigation'
+      );
+      const result = await promptCall![2]({ alertId: 'a1', timeframe: '30m' });
+
+      expect(result.messages[1].content.text).toBe(
+        'Incident data for alert a1 could not be retrieved: Alerts API request failed: Permission denied',
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for Logging aggregation utilities
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { createMockLogEntries } from '../../../utils/test-helpers.js';
+
+describe('Logging Aggregation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getLogFieldValue', () => {
+    it('should read nested field paths', async () => {
+      const { getLogFieldValue } = await import('../../../../src/services/logging/aggregation.js');
+      const entry = {
+        jsonPayload: { request: { method: 'GET' } },
+        resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+      };
+
+      expect(getLogFieldValue(entry as any, 'jsonPayload.request.method')).toBe('GET');
+      expect(getLogFieldValue(entry as any, 'resource.labels.service_name')).toBe('api');
+      expect(getLogFieldValue(entry as any, 'jsonPayload.missing.path')).toBeUndefined();
+    });
+  });
+
+  describe('LogAggregator', () => {
+    it('should count entries by severity in descending order', async () => {
+      const { LogAggregator } = await import('../../../../src/services/logging/aggregation.js');
+      const aggregator = new LogAggregator('severity');
+
+      createMockLogEntries(5).forEach(entry => aggregator.add(entry as any));
+      aggregator.add({ timestamp: new Date().toISOString() } as any);
+
+      const result = aggregator.getResult();
+      expect(result.total).toBe(6);
+      expect(result.buckets.map(bucket => [bucket.key, bucket.count])).toEqual([
+        ['INFO', 3],
+        ['ERROR', 2],
+        ['DEFAULT', 1],
+      ]);
+    });
+
+    it('should group by time buckets and fill gaps', async () => {
+      const { LogAggregator } = await import('../../../../src/services/logging/aggregation.js');
+      const aggregator = new LogAggregator('timestamp', 60);
+
+      aggregator.add({ timestamp: '2025-01-01T00:00:10Z' } as any);
+      aggregator.add({ timestamp: '2025-01-01T00:00:50Z' } as any);
+      aggregator.add({ timestamp: '2025-01-01T00:02:05Z' } as any);
+
+      const result = aggregator.getResult();
+      expect(result.buckets.map(bucket => [bucket.key, bucket.count])).toEqual([
+        ['2025-01-01T00:00:00.000Z', 2],
+        ['2025-01-01T00:01:00.000Z', 0],
+        ['2025-01-01T00:02:00.000Z', 1],
+      ]);
+    });
+
+    it('should report entries missing the grouping field', async () => {
+      const { LogAggregator, MISSING_VALUE } = await import('../../../../src/services/logging/aggregation.js');
+      const aggregator = new LogAggregator('jsonPayload.service');
+
+      aggregator.add({ jsonPayload: { service: 'checkout' } } as any);
+      aggregator.add({ textPayload: 'plain text' } as any);
+
+      const keys = aggregator.getResult().buckets.map(bucket => bucket.key);
+      expect(keys).toContain('checkout');
+      expect(keys).toContain(MISSING_VALUE);
+    });
+
+    it('should reject unsupported fields', async () => {
+      const { LogAggregator } = await import('../../../../src/services/logging/aggregation.js');
+
+      expect(() => new LogAggregator('unknownField')).toThrow('Unsupported groupBy field');
+      expect(() => new LogAggregator('timestamp')).toThrow('bucket size is required');
+    });
+  });
+
+  describe('formatLogAggregation', () => {
+    it('should render a markdown histogram limited to topN groups', async () => {
+      const { LogAggregator, formatLogAggregation } = await import('../../../../src/services/logging/aggregation.js');
+      const aggregator = new LogAggregator('resource.labels.instance_id');
+
+      createMockLogEntries(5).forEach(entry => aggregator.add(entry as any));
+
+      const formatted = formatLogAggregation(aggregator.getResult(), 2);
+      expect(formatted).toContain('| resource.labels.instance_id | Count |');
+      expect(formatted).toContain('3 more values (3 entries) not shown');
+    });
+  });
+});
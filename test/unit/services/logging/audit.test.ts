@@ -0,0 +1,237 @@
+/**
+ * Tests for Cloud Audit Logs helpers
+ */
+import { describe, it, expect } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+/**
+ * Builds an audit entry
+ */
+function auditEntry(
+  logId: string,
+  principal: string | undefined,
+  methodName: string,
+  resourceName: string,
+  timestamp: string,
+  status?: { code: number; message?: string }
+) {
+  return {
+    timestamp,
+    severity: status ? 'ERROR' : 'NOTICE',
+    logName: `projects/test-project/logs/${encodeURIComponent(logId)}`,
+    resource: { type: 'gce_instance', labels: {} },
+    protoPayload: {
+      '@type': 'type.googleapis.com/google.cloud.audit.AuditLog',
+      serviceName: 'compute.googleapis.com',
+      methodName,
+      resourceName,
+      authenticationInfo: principal ? { principalEmail: principal } : {},
+      requestMetadata: { callerIp: '198.51.100.4', callerSuppliedUserAgent: 'gcloud/460.0.0' },
+      ...(status ? { status } : {}),
+    },
+  };
+}
+
+const ENTRIES = [
+  auditEntry('cloudaudit.googleapis.com/activity', 'alice@example.com', 'v1.compute.instances.delete', 'projects/p/zones/z/instances/web-1', '2024-01-01T12:05:00Z'),
+  auditEntry('cloudaudit.googleapis.com/activity', 'alice@example.com', 'v1.compute.instances.insert', 'projects/p/zones/z/instances/web-2', '2024-01-01T12:00:00Z'),
+  auditEntry('cloudaudit.googleapis.com/policy', 'bob@example.com', 'v1.compute.instances.delete', 'projects/p/zones/z/instances/web-1', '2024-01-01T11:00:00Z', { code: 7, message: 'Permission denied by org policy' }),
+  auditEntry('cloudaudit.googleapis.com/system_event', undefined, 'compute.instances.migrateOnHostMaintenance', 'projects/p/zones/z/instances/web-1', '2024-01-01T10:00:00Z'),
+];
+
+/**
+ * Encodes protobuf fields: strings and messages as bytes, numbers as varints
+ */
+function encodeProto(fields: Array<[number, string | number | Buffer]>): Buffer {
+  const varint = (value: number) => {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push((value & 0x7f) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+  };
+  return Buffer.concat(
+    fields.map(([number, value]) => {
+      if (typeof value === 'number') {
+        return Buffer.concat([varint(number * 8), varint(value)]);
+      }
+      const bytes = typeof value === 'string' ? Buffer.from(value) : value;
+      return Buffer.concat([varint(number * 8 + 2), varint(bytes.length), bytes]);
+    })
+  );
+}
+
+/**
+ * Builds an audit entry as the gRPC client returns it: an Entry whose
+ * protoPayload is an undecoded google.protobuf.Any
+ */
+function grpcAuditEntry() {
+  const payload = {
+    type_url: 'type.googleapis.com/google.cloud.audit.AuditLog',
+    value: encodeProto([
+      [2, encodeProto([[1, 7], [2, 'Permission denied by org policy']])],
+      [3, encodeProto([[1, 'bob@example.com']])],
+      [4, encodeProto([[1, '198.51.100.4'], [2, 'gcloud/460.0.0']])],
+      [7, 'compute.googleapis.com'],
+      [8, 'v1.compute.instances.delete'],
+      [11, 'projects/p/zones/z/instances/web-1'],
+      // A Struct request the decoder does not read
+      [16, encodeProto([[1, encodeProto([[1, 'name'], [2, encodeProto([[3, 'web-1']])]])]])],
+      [12, 3],
+    ]),
+  };
+  return {
+    metadata: {
+      timestamp: { seconds: '1704106800', nanos: 0 },
+      severity: 'ERROR',
+      logName: 'projects/test-project/logs/cloudaudit.googleapis.com%2Fpolicy',
+      resource: { type: 'gce_instance', labels: {} },
+      insertId: 'audit-1',
+      payload: 'protoPayload',
+      protoPayload: payload,
+    },
+    data: payload,
+  };
+}
+
+describe('Audit Logs', () => {
+  describe('buildAuditLogFilter', () => {
+    it('should select the requested audit logs and criteria', async () => {
+      const { buildAuditLogFilter } = await import('../../../../src/services/logging/audit.js');
+
+      expect(
+        buildAuditLogFilter({
+          types: ['admin-activity', 'policy-denied'],
+          principal: 'alice@example.com',
+          method: 'SetIamPolicy',
+          failedOnly: true,
+        })
+      ).toBe(
+        '(log_id("cloudaudit.googleapis.com/activity") OR log_id("cloudaudit.googleapis.com/policy")) AND protoPayload.authenticationInfo.principalEmail="alice@example.com" AND protoPayload.methodName:"SetIamPolicy" AND protoPayload.status.code>0'
+      );
+    });
+
+    it('should read every audit log when no types are given', async () => {
+      const { buildAuditLogFilter } = await import('../../../../src/services/logging/audit.js');
+
+      const filter = buildAuditLogFilter({ types: [], resource: 'instances/web-1' });
+      expect(filter).toContain('log_id("cloudaudit.googleapis.com/data_access")');
+      expect(filter).toContain('AND protoPayload.resourceName:"instances/web-1"');
+    });
+  });
+
+  describe('parseAuditLogEntry', () => {
+    it('should extract who did what, when and with what outcome', async () => {
+      const { parseAuditLogEntry } = await import('../../../../src/services/logging/audit.js');
+
+      expect(parseAuditLogEntry(ENTRIES[2] as any)).toEqual({
+        timestamp: '2024-01-01T11:00:00Z',
+        type: 'policy-denied',
+        principal: 'bob@example.com',
+        method: 'v1.compute.instances.delete',
+        service: 'compute.googleapis.com',
+        resourceName: 'projects/p/zones/z/instances/web-1',
+        statusCode: 7,
+        statusMessage: 'Permission denied by org policy',
+        callerIp: '198.51.100.4',
+        userAgent: 'gcloud/460.0.0',
+        severity: 'ERROR',
+      });
+    });
+
+    it('should decode the Any payload returned by the gRPC client', async () => {
+      const { parseAuditLogEntry, groupAuditEvents } = await import('../../../../src/services/logging/audit.js');
+      const { toLogEntry } = await import('../../../../src/services/logging/types.js');
+
+      const entry = toLogEntry(grpcAuditEntry());
+      expect(entry.protoPayload).toEqual({
+        '@type': 'type.googleapis.com/google.cloud.audit.AuditLog',
+        status: { code: 7, message: 'Permission denied by org policy' },
+        authenticationInfo: { principalEmail: 'bob@example.com' },
+        requestMetadata: { callerIp: '198.51.100.4', callerSuppliedUserAgent: 'gcloud/460.0.0' },
+        serviceName: 'compute.googleapis.com',
+        methodName: 'v1.compute.instances.delete',
+        resourceName: 'projects/p/zones/z/instances/web-1',
+        numResponseItems: '3',
+      });
+
+      const event = parseAuditLogEntry(entry)!;
+      expect(event).toEqual({
+        ...parseAuditLogEntry(ENTRIES[2] as any),
+        timestamp: '2024-01-01T11:00:00.000Z',
+        insertId: 'audit-1',
+      });
+      expect(groupAuditEvents([event], 'principal')[0].key).toBe('bob@example.com');
+    });
+
+    it('should keep only the type of other Any payloads', async () => {
+      const { decodeProtoPayload } = await import('../../../../src/services/logging/proto-payload.js');
+
+      expect(
+        decodeProtoPayload({ type_url: 'type.googleapis.com/google.appengine.logging.v1.RequestLog', value: Buffer.from([8, 1]) })
+      ).toEqual({ '@type': 'type.googleapis.com/google.appengine.logging.v1.RequestLog' });
+      expect(decodeProtoPayload({ '@type': 'x', methodName: 'm' })).toEqual({ '@type': 'x', methodName: 'm' });
+    });
+
+    it('should attribute system events to Google and skip non-audit entries', async () => {
+      const { parseAuditLogEntry } = await import('../../../../src/services/logging/audit.js');
+
+      expect(parseAuditLogEntry(ENTRIES[3] as any)).toMatchObject({ type: 'system-event', principal: '(Google system)', statusCode: 0 });
+      expect(parseAuditLogEntry({ textPayload: 'hello' } as any)).toBeUndefined();
+    });
+  });
+
+  describe('groupAuditEvents', () => {
+    it('should group events by resource with their methods and log types', async () => {
+      const { groupAuditEvents, parseAuditLogEntry } = await import('../../../../src/services/logging/audit.js');
+
+      const events = ENTRIES.map((entry) => parseAuditLogEntry(entry as any)!);
+      const groups = groupAuditEvents(events, 'resource');
+
+      expect(groups[0]).toEqual({
+        key: 'projects/p/zones/z/instances/web-1',
+        count: 3,
+        failed: 1,
+        types: { 'admin-activity': 1, 'policy-denied': 1, 'system-event': 1 },
+        methods: ['v1.compute.instances.delete', 'compute.instances.migrateOnHostMaintenance'],
+        firstSeen: '2024-01-01T10:00:00Z',
+        lastSeen: '2024-01-01T12:05:00Z',
+      });
+      expect(groups[1]).toMatchObject({ key: 'projects/p/zones/z/instances/web-2', count: 1 });
+    });
+  });
+
+  describe('formatting', () => {
+    it('should list events in a separate table per audit log type', async () => {
+      const { formatAuditEvents, parseAuditLogEntry } = await import('../../../../src/services/logging/audit.js');
+
+      const markdown = formatAuditEvents(ENTRIES.map((entry) => parseAuditLogEntry(entry as any)!));
+
+      expect(markdown).toContain('## Admin Activity (2)');
+      expect(markdown).toContain('## System Event (1)');
+      expect(markdown).toContain('## Policy Denied (1)');
+      expect(markdown).not.toContain('## Data Access');
+      expect(markdown).toContain(
+        '| 2024-01-01T11:00:00Z | bob@example.com | v1.compute.instances.delete | projects/p/zones/z/instances/web-1 | PERMISSION_DENIED: Permission denied by org policy | 198.51.100.4 |'
+      );
+    });
+
+    it('should summarise groups with their log types', async () => {
+      const { formatAuditGroups, groupAuditEvents, parseAuditLogEntry } = await import(
+        '../../../../src/services/logging/audit.js'
+      );
+
+      const events = ENTRIES.map((entry) => parseAuditLogEntry(entry as any)!);
+      const markdown = formatAuditGroups(groupAuditEvents(events, 'principal'), 'principal');
+
+      expect(markdown).toContain('| Principal | Events | Failed |');
+      expect(markdown).toContain(
+        '| alice@example.com | 2 | 0 | Admin Activity: 2 | v1.compute.instances.delete, v1.compute.instances.insert | 2024-01-01T12:00:00Z | 2024-01-01T12:05:00Z |'
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for log window comparison
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+
+/**
+ * Builds entries repeating each message the given number of times
+ */
+function entries(messages: Array<[string, number, string?]>) {
+  return messages.flatMap(([message, count, severity]) =>
+    Array.from({ length: count }, (_, i) => ({
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, i)).toISOString(),
+      severity: severity || 'INFO',
+      textPayload: message.replace('{n}', String(i)),
+    }))
+  );
+}
+
+describe('Log Window Comparison', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('templatesMatch', () => {
+    it('should treat wildcards on either side as matching', async () => {
+      const { templatesMatch } = await import('../../../../src/services/logging/comparison.js');
+
+      expect(templatesMatch('User <*> logged in', 'User alice logged in')).toBe(true);
+      expect(templatesMatch('User alice logged in', 'User <*> logged in')).toBe(true);
+      expect(templatesMatch('User alice logged in', 'User bob logged in')).toBe(false);
+      expect(templatesMatch('User logged in', 'User <*> logged in')).toBe(false);
+    });
+  });
+
+  describe('compareLogWindows', () => {
+    it('should report new, vanished, changed and severity-shifted templates', async () => {
+      const { compareLogWindows, summariseLogWindow } = await import(
+        '../../../../src/services/logging/comparison.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([
+          entries([
+            ['Request {n} served in <NUM>ms', 80],
+            ['Cache miss for key k{n}', 10],
+            ['Legacy endpoint called by client c{n}', 6],
+            ['Retrying upstream call', 4],
+          ]),
+          null,
+          {},
+        ])
+        .mockResolvedValueOnce([
+          entries([
+            ['Request {n} served in <NUM>ms', 80],
+            ['Cache miss for key k{n}', 40],
+            ['Payment provider timeout after {n}s', 12, 'ERROR'],
+            ['Retrying upstream call', 4, 'WARNING'],
+          ]),
+          null,
+          {},
+        ]);
+
+      const logging = getLoggingClient();
+      const baseline = await summariseLogWindow(logging, 'before', 'filter-a', 1000);
+      const comparison = await summariseLogWindow(logging, 'after', 'filter-b', 1000);
+      const result = compareLogWindows(baseline, comparison, { changeRatio: 2, minCount: 5 });
+
+      const byKind = Object.fromEntries(result.changes.map((change) => [change.kind, change]));
+      expect(baseline.entries).toBe(100);
+      expect(comparison.entries).toBe(136);
+      expect(byKind.new).toMatchObject({ comparisonCount: 12, baselineCount: 0, newSeverities: ['ERROR'] });
+      expect(byKind.new.template).toContain('Payment provider timeout');
+      expect(byKind.vanished).toMatchObject({ baselineCount: 6, comparisonCount: 0 });
+      expect(byKind.increased).toMatchObject({ baselineCount: 10, comparisonCount: 40 });
+      expect(byKind.increased.ratio).toBeCloseTo(40 / 136 / (10 / 100));
+      expect(byKind['severity-shift']).toMatchObject({
+        template: 'Retrying upstream call',
+        newSeverities: ['WARNING'],
+      });
+      expect(result.unchanged).toBe(1);
+      expect(result.severities.map((severity) => severity.severity)).toEqual(['ERROR', 'WARNING', 'INFO']);
+      expect(result.severities[0]).toMatchObject({ baselineCount: 0, comparisonCount: 12 });
+    });
+
+    it('should ignore small changes below the minimum count', async () => {
+      const { compareLogWindows, summariseLogWindow } = await import(
+        '../../../../src/services/logging/comparison.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([entries([['Started worker w{n}', 50], ['Disk nearly full', 1]]), null, {}])
+        .mockResolvedValueOnce([entries([['Started worker w{n}', 50], ['Disk nearly full', 3]]), null, {}]);
+
+      const logging = getLoggingClient();
+      const baseline = await summariseLogWindow(logging, 'before', 'filter-a', 1000);
+      const comparison = await summariseLogWindow(logging, 'after', 'filter-b', 1000);
+      const result = compareLogWindows(baseline, comparison, { changeRatio: 2, minCount: 5 });
+
+      expect(result.changes).toEqual([]);
+      expect(result.unchanged).toBe(2);
+    });
+  });
+
+  describe('formatLogWindowComparison', () => {
+    it('should list each kind of change in its own section', async () => {
+      const { compareLogWindows, formatLogWindowComparison, summariseLogWindow } = await import(
+        '../../../../src/services/logging/comparison.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([entries([['Old message', 5]]), null, {}])
+        .mockResolvedValueOnce([entries([['Brand new failure', 5, 'ERROR']]), null, { nextPageToken: 'more' }]);
+
+      const logging = getLoggingClient();
+      const baseline = await summariseLogWindow(logging, 'v1', 'filter-a', 1000);
+      const comparison = await summariseLogWindow(logging, 'v2', 'filter-b', 5);
+      const markdown = formatLogWindowComparison(
+        baseline,
+        comparison,
+        compareLogWindows(baseline, comparison, { changeRatio: 2, minCount: 5 })
+      );
+
+      expect(markdown).toContain('| Baseline | v1 | 5 | 1 |');
+      expect(markdown).toContain('| Comparison | v2 | 5 (truncated) | 1 |');
+      expect(markdown).toContain('| ERROR | 0 (0.0%) | 5 (100.0%) |');
+      expect(markdown).toContain('## New Templates (1)');
+      expect(markdown).toContain('## Vanished Templates (1)');
+      expect(markdown).toContain('- **Example:** Brand new failure');
+      expect(markdown).not.toContain('## Increased Templates');
+    });
+  });
+});
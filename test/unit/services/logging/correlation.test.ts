@@ -0,0 +1,197 @@
+/**
+ * Tests for request-scoped log correlation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+
+const TRACE = 'projects/test-project/traces/abc123';
+
+/**
+ * Entries written by a load balancer, an application and a proxy for one request
+ */
+function requestEntries() {
+  return [
+    {
+      timestamp: '2024-01-01T12:00:00.000Z',
+      severity: 'INFO',
+      insertId: 'lb-1',
+      logName: 'projects/test-project/logs/requests',
+      resource: { type: 'http_load_balancer', labels: { forwarding_rule_name: 'web-rule' } },
+      trace: TRACE,
+      httpRequest: { requestMethod: 'GET', requestUrl: '/checkout', status: 502, latency: '1.5s' },
+    },
+    {
+      timestamp: '2024-01-01T12:00:00.200Z',
+      severity: 'ERROR',
+      insertId: 'app-2',
+      logName: 'projects/test-project/logs/run.googleapis.com%2Fstderr',
+      resource: { type: 'cloud_run_revision', labels: { service_name: 'checkout' } },
+      trace: TRACE,
+      jsonPayload: { message: 'Database query timed out' },
+    },
+    {
+      timestamp: '2024-01-01T12:00:00.100Z',
+      severity: 'INFO',
+      insertId: 'app-1',
+      logName: 'projects/test-project/logs/run.googleapis.com%2Frequests',
+      resource: { type: 'cloud_run_revision', labels: { service_name: 'checkout' } },
+      trace: TRACE,
+      httpRequest: { requestMethod: 'GET', requestUrl: '/checkout', status: 502, latency: { seconds: 1, nanos: 200000000 } },
+    },
+  ];
+}
+
+describe('Request Correlation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildRequestCorrelationFilter', () => {
+    it('should match traces by ID whether or not the full name is given', async () => {
+      const { buildRequestCorrelationFilter } = await import('../../../../src/services/logging/correlation.js');
+
+      expect(buildRequestCorrelationFilter({ traceId: TRACE })).toBe('trace:"abc123"');
+      expect(buildRequestCorrelationFilter({ traceId: 'abc123' })).toBe('trace:"abc123"');
+    });
+
+    it('should OR request ID fields and other identifiers together', async () => {
+      const { buildRequestCorrelationFilter } = await import('../../../../src/services/logging/correlation.js');
+
+      const filter = buildRequestCorrelationFilter({ requestId: 'req-"1"', remoteIp: '203.0.113.7' });
+
+      expect(filter.startsWith('(protoPayload.requestId="req-\\"1\\"" OR jsonPayload.requestId="req-\\"1\\""')).toBe(true);
+      expect(filter.endsWith(' OR httpRequest.remoteIp="203.0.113.7")')).toBe(true);
+    });
+
+    it('should require at least one identifier', async () => {
+      const { buildRequestCorrelationFilter } = await import('../../../../src/services/logging/correlation.js');
+
+      expect(() => buildRequestCorrelationFilter({})).toThrow('Provide a trace ID, request ID or remote IP');
+    });
+  });
+
+  describe('parseHttpLatency', () => {
+    it('should read duration strings and protobuf durations', async () => {
+      const { parseHttpLatency } = await import('../../../../src/services/logging/correlation.js');
+
+      expect(parseHttpLatency('0.25s')).toBe(250);
+      expect(parseHttpLatency({ seconds: '2', nanos: 500000000 })).toBe(2500);
+      expect(parseHttpLatency('fast')).toBeUndefined();
+      expect(parseHttpLatency(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('buildRequestTimeline', () => {
+    it('should order events and break down latency by component', async () => {
+      const { buildRequestTimeline } = await import('../../../../src/services/logging/correlation.js');
+
+      const timeline = buildRequestTimeline(requestEntries() as any);
+
+      expect(timeline.events.map((event) => event.insertId)).toEqual(['lb-1', 'app-1', 'app-2']);
+      expect(timeline.events.map((event) => event.offsetMs)).toEqual([0, 100, 200]);
+      expect(timeline.events[0]).toMatchObject({ layer: 'load-balancer', service: 'web-rule', status: 502 });
+      expect(timeline.events[2]).toMatchObject({ layer: 'application', message: 'Database query timed out' });
+      expect(timeline.spanMs).toBe(200);
+      expect(timeline.latency).toEqual([
+        { layer: 'load-balancer', service: 'web-rule', latencyMs: 1500 },
+        { layer: 'application', service: 'checkout', latencyMs: 1200 },
+      ]);
+    });
+
+    it('should mark time-correlated entries and drop duplicates', async () => {
+      const { buildRequestTimeline, formatRequestTimeline } = await import(
+        '../../../../src/services/logging/correlation.js'
+      );
+
+      const proxy = {
+        timestamp: '2024-01-01T12:00:00.150Z',
+        severity: 'WARNING',
+        insertId: 'proxy-1',
+        logName: 'projects/test-project/logs/cloud_sql_proxy',
+        resource: { type: 'k8s_container', labels: { container_name: 'cloud-sql-proxy' } },
+        textPayload: 'connection to instance took 1.1s',
+      };
+      const entries = requestEntries();
+      const timeline = buildRequestTimeline(entries as any, [proxy, entries[0]] as any);
+
+      expect(timeline.events).toHaveLength(4);
+      expect(timeline.events[2]).toMatchObject({ layer: 'database', correlatedBy: 'time' });
+
+      const markdown = formatRequestTimeline(timeline);
+      expect(markdown).toContain('| Load Balancer | web-rule | 1.50 s | 100.0% |');
+      expect(markdown).toContain('| Application | checkout | 1.20 s | 80.0% |');
+      expect(markdown).toContain('300.0 ms of the load balancer latency was spent outside the slowest backend');
+      expect(markdown).toContain('| +150.0 ms | 2024-01-01T12:00:00.150Z | Database (by time) | cloud-sql-proxy | WARNING |');
+      expect(markdown).toContain('| +0.0 ms | 2024-01-01T12:00:00.000Z | Load Balancer | web-rule | INFO | 502 | 1.50 s | GET /checkout |');
+    });
+  });
+
+  describe('fetchRequestTimeline', () => {
+    it('should correlate database logs by time within the request span', async () => {
+      const { fetchRequestTimeline } = await import('../../../../src/services/logging/correlation.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([requestEntries(), null, {}])
+        .mockResolvedValueOnce([[], null, {}]);
+
+      const result = await fetchRequestTimeline(getLoggingClient(), {
+        keys: { traceId: 'abc123' },
+        start: new Date('2024-01-01T11:00:00Z'),
+        end: new Date('2024-01-01T13:00:00Z'),
+        maxEntries: 100,
+        includeDatabaseLogs: true,
+      });
+
+      expect(result.timeline.events).toHaveLength(3);
+      expect(mockLoggingClient.getEntries.mock.calls[1][0].filter).toBe(
+        'timestamp >= "2024-01-01T11:59:59.000Z" AND timestamp <= "2024-01-01T12:00:02.500Z" AND (resource.type="cloudsql_database" OR logName:"cloud_sql_proxy" OR logName:"cloud-sql-proxy" OR resource.labels.container_name:"cloud-sql-proxy")'
+      );
+    });
+
+    it('should widen the window around a single load balancer entry', async () => {
+      const { fetchRequestTimeline } = await import('../../../../src/services/logging/correlation.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      const [loadBalancer] = requestEntries();
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([[loadBalancer], null, {}])
+        .mockResolvedValueOnce([[], null, {}]);
+
+      await fetchRequestTimeline(getLoggingClient(), {
+        keys: { traceId: 'abc123' },
+        start: new Date('2024-01-01T11:00:00Z'),
+        end: new Date('2024-01-01T13:00:00Z'),
+        maxEntries: 100,
+        includeDatabaseLogs: true,
+      });
+
+      expect(mockLoggingClient.getEntries.mock.calls[1][0].filter).toMatch(
+        /^timestamp >= "2024-01-01T11:59:59.000Z" AND timestamp <= "2024-01-01T12:00:02.500Z" AND /
+      );
+    });
+
+    it('should skip time correlation when the entries span many requests', async () => {
+      const { fetchRequestTimeline } = await import('../../../../src/services/logging/correlation.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      const entries = requestEntries();
+      entries[1].timestamp = '2024-01-01T12:10:00.000Z';
+      mockLoggingClient.getEntries.mockResolvedValueOnce([entries, null, {}]);
+
+      const result = await fetchRequestTimeline(getLoggingClient(), {
+        keys: { remoteIp: '203.0.113.7' },
+        start: new Date('2024-01-01T11:00:00Z'),
+        end: new Date('2024-01-01T13:00:00Z'),
+        maxEntries: 100,
+        includeDatabaseLogs: true,
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledTimes(1);
+      expect(result.databaseSkippedReason).toContain('span 600 seconds');
+    });
+  });
+});
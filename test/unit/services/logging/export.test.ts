@@ -0,0 +1,217 @@
+/**
+ * Tests for log export helpers
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockLogEntries } from '../../../utils/test-helpers.js';
+
+describe('Log Export', () => {
+  let exportDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-export-'));
+    process.env.LOG_EXPORT_DIR = exportDir;
+    mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(), null, {}]);
+  });
+
+  afterEach(() => {
+    delete process.env.LOG_EXPORT_DIR;
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  describe('escapeCsvValue', () => {
+    it('should quote values containing separators, quotes or newlines', async () => {
+      const { escapeCsvValue } = await import('../../../../src/services/logging/export.js');
+
+      expect(escapeCsvValue('plain')).toBe('plain');
+      expect(escapeCsvValue('a,b')).toBe('"a,b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+      expect(escapeCsvValue(' padded')).toBe('" padded"');
+      expect(escapeCsvValue(null)).toBe('');
+    });
+  });
+
+  describe('resolveLogExportPath', () => {
+    it('should resolve file names inside the export directory', async () => {
+      const { resolveLogExportPath } = await import('../../../../src/services/logging/export.js');
+
+      expect(resolveLogExportPath('incident.csv')).toBe(path.join(exportDir, 'incident.csv'));
+    });
+
+    it('should reject names that could escape the export directory', async () => {
+      const { resolveLogExportPath } = await import('../../../../src/services/logging/export.js');
+
+      expect(() => resolveLogExportPath('../secrets.csv')).toThrow('Invalid export file name');
+      expect(() => resolveLogExportPath('/etc/passwd')).toThrow('Invalid export file name');
+      expect(() => resolveLogExportPath('.hidden')).toThrow('Invalid export file name');
+    });
+  });
+
+  describe('resolveLogExportFileName', () => {
+    it('should give file names the extension for the format', async () => {
+      const { resolveLogExportFileName } = await import('../../../../src/services/logging/export.js');
+
+      expect(resolveLogExportFileName('incident', 'parquet')).toBe('incident.parquet');
+      expect(resolveLogExportFileName('incident.2025-01-01', 'csv')).toBe('incident.2025-01-01.csv');
+      expect(resolveLogExportFileName('incident.CSV', 'csv')).toBe('incident.CSV');
+      expect(resolveLogExportFileName(undefined, 'ndjson')).toMatch(/^logs-.*\.ndjson$/);
+      expect(() => resolveLogExportFileName('a.csv', 'parquet')).toThrow(
+        'has a .csv extension but the format is parquet'
+      );
+    });
+  });
+
+  describe('exportLogEntries', () => {
+    it('should write whole entries as NDJSON', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      const result = await exportLogEntries(getLoggingClient(), {
+        filter: 'severity>=INFO',
+        format: 'ndjson',
+        maxEntries: 100,
+        fileName: 'entries.ndjson',
+      });
+
+      const lines = fs.readFileSync(result.path, 'utf8').trim().split('\n');
+      expect(result.entries).toBe(5);
+      expect(result.columns).toBeUndefined();
+      expect(result.bytes).toBe(fs.statSync(result.path).size);
+      expect(lines).toHaveLength(5);
+      expect(JSON.parse(lines[1])).toMatchObject({
+        severity: 'ERROR',
+        payload: 'Mock log entry 1',
+        resource: { type: 'gce_instance' },
+      });
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: 'timestamp asc' })
+      );
+    });
+
+    it('should write chosen columns as CSV', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([
+        [
+          {
+            severity: 'ERROR',
+            jsonPayload: { message: 'Payment failed, "card" declined', order: { id: 42 } },
+            labels: { 'k8s-pod/app': 'checkout' },
+          },
+        ],
+        null,
+        {},
+      ]);
+
+      const result = await exportLogEntries(getLoggingClient(), {
+        filter: 'severity>=ERROR',
+        format: 'csv',
+        columns: ['severity', 'message', 'jsonPayload.order', 'labels."k8s-pod/app"', 'trace'],
+        maxEntries: 100,
+        fileName: 'entries.csv',
+      });
+
+      expect(fs.readFileSync(result.path, 'utf8')).toBe(
+        'severity,message,jsonPayload.order,"labels.""k8s-pod/app""",trace\n' +
+          'ERROR,"Payment failed, ""card"" declined","{""id"":42}",checkout,\n'
+      );
+    });
+
+    it('should write a Parquet file with the default columns', async () => {
+      const { exportLogEntries, DEFAULT_LOG_EXPORT_COLUMNS } = await import(
+        '../../../../src/services/logging/export.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      const result = await exportLogEntries(getLoggingClient(), {
+        filter: 'severity>=INFO',
+        format: 'parquet',
+        maxEntries: 100,
+      });
+
+      const data = fs.readFileSync(result.path);
+      expect(result.fileName).toMatch(/^logs-.*\.parquet$/);
+      expect(result.columns).toEqual(DEFAULT_LOG_EXPORT_COLUMNS);
+      expect(data.subarray(0, 4).toString()).toBe('PAR1');
+      expect(data.subarray(-4).toString()).toBe('PAR1');
+      expect(data.includes(Buffer.from('resource.type'))).toBe(true);
+    });
+
+    it('should stop at the entry limit and report truncation', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(3), null, { nextPageToken: 'more' }]);
+
+      const result = await exportLogEntries(getLoggingClient(), {
+        filter: 'severity>=INFO',
+        format: 'ndjson',
+        maxEntries: 3,
+        fileName: 'limited.ndjson',
+      });
+
+      expect(result.entries).toBe(3);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should remove the partial file when the export fails', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([createMockLogEntries(2), null, { nextPageToken: 'more' }])
+        .mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      await expect(
+        exportLogEntries(getLoggingClient(), {
+          filter: 'severity>=INFO',
+          format: 'csv',
+          maxEntries: 100,
+          fileName: 'failed.csv',
+        })
+      ).rejects.toThrow('Quota exceeded');
+      expect(fs.existsSync(path.join(exportDir, 'failed.csv'))).toBe(false);
+    });
+
+    it('should not overwrite an existing export', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+      fs.writeFileSync(path.join(exportDir, 'existing.ndjson'), 'keep me');
+
+      await expect(
+        exportLogEntries(getLoggingClient(), {
+          filter: 'severity>=INFO',
+          format: 'ndjson',
+          maxEntries: 100,
+          fileName: 'existing',
+        })
+      ).rejects.toThrow('An export named "existing.ndjson" already exists');
+      expect(fs.readFileSync(path.join(exportDir, 'existing.ndjson'), 'utf-8')).toBe('keep me');
+      expect(mockLoggingClient.getEntries).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid columns', async () => {
+      const { exportLogEntries } = await import('../../../../src/services/logging/export.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      await expect(
+        exportLogEntries(getLoggingClient(), {
+          filter: 'severity>=INFO',
+          format: 'csv',
+          columns: ['severity >= ERROR'],
+          maxEntries: 100,
+          fileName: 'invalid.csv',
+        })
+      ).rejects.toThrow('Invalid export column');
+    });
+  });
+});
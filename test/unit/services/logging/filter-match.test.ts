@@ -0,0 +1,73 @@
+/**
+ * Tests for local Logging filter evaluation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+const entry = {
+  timestamp: '2025-01-01T12:00:00.000Z',
+  severity: 'ERROR',
+  logName: 'projects/test-project/logs/cloudaudit.googleapis.com%2Factivity',
+  resource: { type: 'k8s_container', labels: { namespace_name: 'payments', cluster_name: 'prod' } },
+  labels: { 'k8s-pod/app': 'checkout' },
+  httpRequest: { status: 503, requestUrl: '/api/checkout' },
+  jsonPayload: { message: 'Upstream Timeout while charging card', retries: [1, 2] },
+};
+
+describe('Logging Filter Matching', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should evaluate comparisons, value groups and boolean logic', async () => {
+    const { matchLogFilter } = await import('../../../../src/services/logging/filter-match.js');
+
+    const cases: Array<[string, string]> = [
+      ['severity>=WARNING', 'match'],
+      ['severity>=CRITICAL', 'no-match'],
+      ['resource.type="k8s_container" AND resource.labels.namespace_name=(payments OR billing)', 'match'],
+      ['resource.type="k8s_container" NOT resource.labels.namespace_name="payments"', 'no-match'],
+      ['labels."k8s-pod/app"="checkout"', 'match'],
+      ['httpRequest.status>=500 AND httpRequest.status<600', 'match'],
+      ['jsonPayload.message:"timeout"', 'match'],
+      ['jsonPayload.message=~"^Upstream \\\\w+"', 'match'],
+      ['jsonPayload.message!~"Timeout"', 'no-match'],
+      ['jsonPayload.message=~"(?i)^upstream (?P<kind>\\w+)"', 'match'],
+      ['jsonPayload.retries=2', 'match'],
+      ['jsonPayload.missing:*', 'no-match'],
+      ['jsonPayload.missing!="x"', 'match'],
+      ['timestamp>="2025-01-01T11:00:00Z"', 'match'],
+      ['log_id("cloudaudit.googleapis.com/activity")', 'match'],
+      ['"charging card"', 'match'],
+      ['', 'match'],
+    ];
+
+    for (const [filter, expected] of cases) {
+      expect({ filter, result: matchLogFilter(filter, entry).result }).toEqual({ filter, result: expected });
+    }
+  });
+
+  it('should report unsupported expressions as unknown', async () => {
+    const { matchLogFilter } = await import('../../../../src/services/logging/filter-match.js');
+
+    expect(matchLogFilter('severity>=ERROR AND sample(insertId, 0.1)', entry)).toEqual({
+      result: 'unknown',
+      unsupported: ['sample(insertId, 0.1)'],
+    });
+    expect(matchLogFilter('severity<ERROR AND sample(insertId, 0.1)', entry).result).toBe('no-match');
+    expect(matchLogFilter('severity>=ERROR OR sample(insertId, 0.1)', entry).result).toBe('match');
+  });
+
+  it('should accept Entry instances from the Logging client', async () => {
+    const { matchLogFilter } = await import('../../../../src/services/logging/filter-match.js');
+
+    const instance = {
+      metadata: { severity: 'INFO', resource: { type: 'gce_instance', labels: {} } },
+      data: 'Disk usage at 91%',
+    };
+
+    expect(matchLogFilter('textPayload:"disk usage"', instance).result).toBe('match');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for the Logging query language parser and builder
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+
+describe('Logging Filter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseLogFilter', () => {
+    it('should give OR higher precedence than AND', async () => {
+      const { parseLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const ast = parseLogFilter('severity>=ERROR AND a OR b');
+
+      expect(ast).toMatchObject({
+        kind: 'and',
+        operands: [
+          { kind: 'comparison', field: 'severity', operator: '>=' },
+          { kind: 'or', operands: [{ kind: 'term', value: 'a' }, { kind: 'term', value: 'b' }] },
+        ],
+      });
+    });
+
+    it('should parse quoted paths, negation, value groups and functions', async () => {
+      const { parseLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const ast = parseLogFilter(
+        'labels."k8s-pod/app"="web" -textPayload:"noise" NOT severity=(INFO OR DEBUG) log_id("stdout")'
+      );
+
+      expect(ast).toMatchObject({
+        kind: 'and',
+        operands: [
+          { kind: 'comparison', path: ['labels', 'k8s-pod/app'], value: { value: 'web', quoted: true } },
+          { kind: 'not', operand: { kind: 'comparison', field: 'textPayload', operator: ':' } },
+          { kind: 'not', operand: { kind: 'comparison', value: { kind: 'or' } } },
+          { kind: 'function', name: 'log_id', args: ['"stdout"'] },
+        ],
+      });
+    });
+
+    it('should return undefined for an empty filter', async () => {
+      const { parseLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(parseLogFilter('  -- only a comment')).toBeUndefined();
+    });
+
+    it('should report the position of syntax errors', async () => {
+      const { parseLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(() => parseLogFilter('severity>=ERROR AND\nresource.type=')).toThrow(
+        'Line 2, column 15: Expected a value after "="'
+      );
+      expect(() => parseLogFilter('(severity>=ERROR')).toThrow('Missing ")"');
+      expect(() => parseLogFilter('textPayload:"open')).toThrow('Line 1, column 13: Unterminated string');
+      expect(() => parseLogFilter('jsonPayload.logging.googleapis.com/trace="x"')).toThrow(
+        'Invalid field name'
+      );
+    });
+  });
+
+  describe('validateLogFilter', () => {
+    it('should resolve relative timestamps', async () => {
+      const { validateLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const result = validateLogFilter('timestamp >= "-1h" AND timestamp < 30m', NOW);
+
+      expect(result.valid).toBe(true);
+      expect(result.normalised).toBe(
+        'timestamp >= "2025-01-01T11:00:00.000Z" AND timestamp < "2025-01-01T11:30:00.000Z"'
+      );
+    });
+
+    it('should report semantic errors and warnings', async () => {
+      const { validateLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const result = validateLogFilter(
+        'severity>=ERORR AND timestamp>="yesterday" AND textPayload=~"(" AND foo.bar="x"',
+        NOW
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(error => error.message)).toEqual([
+        expect.stringContaining('Unknown severity "ERORR"'),
+        expect.stringContaining('Invalid timestamp "yesterday"'),
+        expect.stringContaining('Invalid regular expression'),
+      ]);
+      expect(result.errors[0].column).toBe(11);
+      expect(result.warnings[0].message).toContain('Unknown field "foo"');
+      expect(result.fields).toEqual(['severity', 'timestamp', 'textPayload', 'foo.bar']);
+    });
+  });
+
+  describe('compileRe2Pattern', () => {
+    it('should accept RE2 flags and named groups', async () => {
+      const { compileRe2Pattern, validateLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(compileRe2Pattern('(?i)timeout')?.test('Upstream TIMEOUT')).toBe(true);
+      expect(compileRe2Pattern('a(?P<n>b)')?.exec('ab')?.groups).toEqual({ n: 'b' });
+      expect(compileRe2Pattern('a(?i:b)')).toBeUndefined();
+      expect(() => compileRe2Pattern('(')).toThrow('Invalid regular expression');
+
+      const result = validateLogFilter(
+        'jsonPayload.message =~ "(?i)timeout" AND jsonPayload.message =~ "a(?P<n>b)" AND textPayload !~ "x(?s:.)y"',
+        NOW
+      );
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('prepareLogFilter', () => {
+    it('should pass severity presence and pattern matches through', async () => {
+      const { prepareLogFilter, validateLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(prepareLogFilter('severity:* AND resource.type="gce_instance"')).toBe(
+        'severity:* AND resource.type="gce_instance"'
+      );
+      expect(prepareLogFilter('severity=~"ERR.*"')).toBe('severity=~"ERR.*"');
+      expect(validateLogFilter('severity:ERR OR severity!~"^DEBUG$"', NOW).errors).toEqual([]);
+      expect(validateLogFilter('severity!=LOUD', NOW).errors).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('Unknown severity "LOUD"') }),
+      ]);
+    });
+
+    it('should throw with a caret pointing at the problem', async () => {
+      const { prepareLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(() => prepareLogFilter('severity>=ERROR AND')).toThrow(
+        'Invalid filter: Line 1, column 20: Expected an expression after "AND"\n  severity>=ERROR AND\n                     ^'
+      );
+    });
+  });
+
+  describe('buildLogFilter', () => {
+    it('should build and escape filters from structured input', async () => {
+      const { buildLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const filter = buildLogFilter(
+        {
+          severity: 'warning',
+          resourceType: 'cloud_run_revision',
+          resourceLabels: { service_name: 'api' },
+          labels: { 'k8s-pod/app': 'web' },
+          payload: { 'request.status': { operator: '>=', value: 500 }, user: 'a"b' },
+          startTime: '1h',
+          filter: 'foo OR bar',
+        },
+        NOW
+      );
+
+      expect(filter).toBe(
+        'severity>=WARNING AND resource.type="cloud_run_revision" AND resource.labels.service_name="api" AND labels."k8s-pod/app"="web" AND jsonPayload.request.status>=500 AND jsonPayload.user="a\\"b" AND timestamp>="2025-01-01T11:00:00.000Z" AND (foo OR bar)'
+      );
+    });
+
+    it('should reject unknown severities', async () => {
+      const { buildLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      expect(() => buildLogFilter({ severity: 'LOUD' })).toThrow('Unknown severity');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for log-based metric helpers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockLogEntries } from '../../../utils/test-helpers.js';
+
+describe('Log-Based Metrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(), {}, {}]);
+  });
+
+  describe('buildLogMetric', () => {
+    it('should build a counter metric with label extractors', async () => {
+      const { buildLogMetric } = await import('../../../../src/services/logging/log-metrics.js');
+
+      const metric = buildLogMetric({
+        name: 'checkout_errors',
+        kind: 'counter',
+        filter: 'severity>=ERROR AND resource.type="cloud_run_revision"',
+        labels: [
+          { key: 'service', extractor: 'EXTRACT(resource.labels.service_name)' },
+          { key: 'status', valueType: 'INT64', extractor: 'EXTRACT(httpRequest.status)' },
+        ],
+      });
+
+      expect(metric).toEqual({
+        name: 'checkout_errors',
+        filter: 'severity>=ERROR AND resource.type="cloud_run_revision"',
+        metricDescriptor: {
+          metricKind: 'DELTA',
+          valueType: 'INT64',
+          labels: [
+            { key: 'service', valueType: 'STRING', description: undefined },
+            { key: 'status', valueType: 'INT64', description: undefined },
+          ],
+        },
+        labelExtractors: {
+          service: 'EXTRACT(resource.labels.service_name)',
+          status: 'EXTRACT(httpRequest.status)',
+        },
+      });
+    });
+
+    it('should build a distribution metric with default buckets', async () => {
+      const { buildLogMetric } = await import('../../../../src/services/logging/log-metrics.js');
+
+      const metric = buildLogMetric({
+        name: 'checkout_latency',
+        kind: 'distribution',
+        filter: 'jsonPayload.event="checkout"',
+        valueExtractor: 'EXTRACT(jsonPayload.latencyMs)',
+        unit: 'ms',
+      });
+
+      expect(metric.metricDescriptor).toEqual({ metricKind: 'DELTA', valueType: 'DISTRIBUTION', unit: 'ms' });
+      expect(metric.valueExtractor).toBe('EXTRACT(jsonPayload.latencyMs)');
+      expect(metric.bucketOptions).toEqual({
+        exponentialBuckets: { numFiniteBuckets: 64, growthFactor: 2, scale: 0.01 },
+      });
+    });
+
+    it('should reject inconsistent definitions', async () => {
+      const { buildLogMetric } = await import('../../../../src/services/logging/log-metrics.js');
+
+      expect(() => buildLogMetric({ name: 'latency', kind: 'distribution', filter: 'severity>=ERROR' })).toThrow(
+        'Distribution metrics require a value extractor'
+      );
+      expect(() =>
+        buildLogMetric({
+          name: 'errors',
+          kind: 'counter',
+          filter: 'severity>=ERROR',
+          valueExtractor: 'EXTRACT(jsonPayload.latencyMs)',
+        })
+      ).toThrow('Counter metrics cannot have a value extractor');
+      expect(() =>
+        buildLogMetric({
+          name: 'errors',
+          kind: 'counter',
+          filter: 'severity>=ERROR',
+          labels: [{ key: 'service', extractor: 'jsonPayload.service' }],
+        })
+      ).toThrow('Invalid extractor for label "service"');
+      expect(() => buildLogMetric({ name: 'bad name', kind: 'counter', filter: 'severity>=ERROR' })).toThrow(
+        'Invalid metric name'
+      );
+      expect(() => buildLogMetric({ name: 'errors', kind: 'counter', filter: 'severity>=' })).toThrow(
+        'Invalid filter'
+      );
+    });
+  });
+
+  describe('normaliseLogMetric', () => {
+    it('should drop unset proto fields and convert timestamps', async () => {
+      const { normaliseLogMetric } = await import('../../../../src/services/logging/log-metrics.js');
+
+      const metric = normaliseLogMetric({
+        name: 'checkout_errors',
+        description: '',
+        filter: 'severity>=ERROR',
+        disabled: false,
+        metricDescriptor: { metricKind: 'DELTA', valueType: 'INT64', unit: '1', labels: [] },
+        valueExtractor: '',
+        labelExtractors: {},
+        bucketOptions: null,
+        createTime: { seconds: '1735689600', nanos: 0 },
+        version: 'V2',
+      });
+
+      expect(metric).toEqual({
+        name: 'checkout_errors',
+        filter: 'severity>=ERROR',
+        metricDescriptor: { metricKind: 'DELTA', valueType: 'INT64' },
+        createTime: '2025-01-01T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('applyLogMetricChanges', () => {
+    it('should keep the metric type and replace labels', async () => {
+      const { applyLogMetricChanges, buildLogMetric } = await import(
+        '../../../../src/services/logging/log-metrics.js'
+      );
+
+      const existing = {
+        ...buildLogMetric({
+          name: 'checkout_latency',
+          kind: 'distribution',
+          filter: 'jsonPayload.event="checkout"',
+          valueExtractor: 'EXTRACT(jsonPayload.latencyMs)',
+          labels: [{ key: 'region', extractor: 'EXTRACT(jsonPayload.region)' }],
+        }),
+        createTime: '2025-01-01T00:00:00.000Z',
+      };
+
+      const updated = applyLogMetricChanges(existing, {
+        labels: [{ key: 'service', extractor: 'EXTRACT(jsonPayload.service)' }],
+        buckets: { type: 'explicit', bounds: [500, 100, 1000] },
+      });
+
+      expect(updated.metricDescriptor.valueType).toBe('DISTRIBUTION');
+      expect(updated.labelExtractors).toEqual({ service: 'EXTRACT(jsonPayload.service)' });
+      expect(updated.bucketOptions).toEqual({ explicitBuckets: { bounds: [100, 500, 1000] } });
+      expect(updated.createTime).toBeUndefined();
+      expect(existing.labelExtractors).toEqual({ region: 'EXTRACT(jsonPayload.region)' });
+    });
+  });
+
+  describe('previewLogMetric', () => {
+    it('should count entries matched since the start of the window', async () => {
+      const { previewLogMetric, formatLogMetricPreview } = await import(
+        '../../../../src/services/logging/log-metrics.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([createMockLogEntries(3), null, { nextPageToken: 'next' }])
+        .mockResolvedValueOnce([createMockLogEntries(2), null, {}]);
+
+      const preview = await previewLogMetric(
+        getLoggingClient(),
+        'severity>=ERROR',
+        2,
+        10000,
+        new Date('2025-01-01T12:00:00Z')
+      );
+
+      expect(preview).toEqual({
+        hours: 2,
+        since: '2025-01-01T10:00:00.000Z',
+        matched: 5,
+        truncated: false,
+      });
+      expect(mockLoggingClient.getEntries.mock.calls[0][0].filter).toBe(
+        '(severity>=ERROR) AND timestamp>="2025-01-01T10:00:00.000Z"'
+      );
+      expect(formatLogMetricPreview(preview)).toContain('matched 5 entries in the last 2 hour(s)');
+    });
+
+    it('should report a lower bound when the entry limit is reached', async () => {
+      const { previewLogMetric, formatLogMetricPreview } = await import(
+        '../../../../src/services/logging/log-metrics.js'
+      );
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(5), null, { nextPageToken: 'next' }]);
+
+      const preview = await previewLogMetric(getLoggingClient(), 'severity>=ERROR', 1, 5);
+
+      expect(preview.truncated).toBe(true);
+      expect(formatLogMetricPreview(preview)).toContain('matched at least 5 entries');
+    });
+  });
+});
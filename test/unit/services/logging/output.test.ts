@@ -0,0 +1,82 @@
+/**
+ * Tests for Logging output formats
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { createMockLogEntries } from '../../../utils/test-helpers.js';
+
+describe('Logging Output Formats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseLogOutputFormat', () => {
+    it('should accept supported formats case-insensitively', async () => {
+      const { parseLogOutputFormat } = await import('../../../../src/services/logging/output.js');
+
+      expect(parseLogOutputFormat('json')).toBe('json');
+      expect(parseLogOutputFormat('NDJSON')).toBe('ndjson');
+    });
+
+    it('should reject unsupported formats', async () => {
+      const { parseLogOutputFormat } = await import('../../../../src/services/logging/output.js');
+
+      expect(() => parseLogOutputFormat('csv')).toThrow('Unsupported output format');
+    });
+  });
+
+  describe('buildLogToolResult', () => {
+    it('should serialise structured content in json mode', async () => {
+      const { buildLogToolResult } = await import('../../../../src/services/logging/output.js');
+      const structured = { projectId: 'test-project', entries: [{ severity: 'INFO' }] };
+
+      const result = buildLogToolResult('json', '# Markdown', structured, structured.entries);
+
+      expect(JSON.parse(result.content[0].text)).toEqual(structured);
+      expect(result.structuredContent).toBe(structured);
+    });
+
+    it('should write one record per line in ndjson mode', async () => {
+      const { buildLogToolResult } = await import('../../../../src/services/logging/output.js');
+      const records = [{ id: 1 }, { id: 2 }];
+
+      const result = buildLogToolResult('ndjson', '# Markdown', { records }, records);
+
+      expect(result.content).toHaveLength(1);
+      expect(result.content[0].text).toBe('{"id":1}\n{"id":2}');
+    });
+
+    it('should keep markdown text in markdown mode', async () => {
+      const { buildLogToolResult } = await import('../../../../src/services/logging/output.js');
+
+      const result = buildLogToolResult('markdown', '# Markdown', { entries: [] }, []);
+
+      expect(result.content[0].text).toBe('# Markdown');
+      expect(result.structuredContent).toEqual({ entries: [] });
+    });
+  });
+
+  describe('formatLogEntries', () => {
+    it('should format each entry with the separator', async () => {
+      const { formatLogEntries } = await import('../../../../src/services/logging/output.js');
+
+      const markdown = formatLogEntries(createMockLogEntries(2) as any, '\n---\n');
+
+      expect(markdown.split('\n---\n')).toHaveLength(2);
+      expect(markdown).toContain('Mock log entry 1');
+    });
+  });
+
+  describe('normalisedLogEntrySchema', () => {
+    it('should accept normalised mock entries', async () => {
+      const { normalisedLogEntrySchema } = await import('../../../../src/services/logging/output.js');
+      const { normaliseLogEntry } = await import('../../../../src/services/logging/types.js');
+
+      for (const entry of createMockLogEntries(3)) {
+        expect(normalisedLogEntrySchema.safeParse(normaliseLogEntry(entry)).success).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Logging pagination helpers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockLogEntries } from '../../../utils/test-helpers.js';
+
+describe('Logging Pagination', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(), {}, {}]);
+  });
+
+  describe('encodeLogCursor / decodeLogCursor', () => {
+    it('should round-trip cursor contents', async () => {
+      const { encodeLogCursor, decodeLogCursor } = await import('../../../../src/services/logging/pagination.js');
+
+      const cursor = encodeLogCursor({
+        pageToken: 'token-123',
+        filter: 'severity>=ERROR AND timestamp >= "2025-01-01T00:00:00.000Z"',
+        query: 'severity>=ERROR',
+      });
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeLogCursor(cursor)).toEqual({
+        pageToken: 'token-123',
+        filter: 'severity>=ERROR AND timestamp >= "2025-01-01T00:00:00.000Z"',
+        query: 'severity>=ERROR',
+      });
+    });
+
+    it('should reject malformed cursors', async () => {
+      const { decodeLogCursor } = await import('../../../../src/services/logging/pagination.js');
+
+      expect(() => decodeLogCursor('not-a-cursor')).toThrow('Invalid log query cursor');
+    });
+  });
+
+  describe('resolveLogFilter', () => {
+    it('should pin the default 24 hour window when no timestamp is given', async () => {
+      const { resolveLogFilter } = await import('../../../../src/services/logging/pagination.js');
+
+      const now = new Date('2025-01-02T00:00:00.000Z');
+      expect(resolveLogFilter('severity>=ERROR', now)).toBe(
+        'severity>=ERROR AND timestamp >= "2025-01-01T00:00:00.000Z"'
+      );
+      expect(resolveLogFilter('', now)).toBe('timestamp >= "2025-01-01T00:00:00.000Z"');
+    });
+
+    it('should leave filters with a timestamp restriction untouched', async () => {
+      const { resolveLogFilter } = await import('../../../../src/services/logging/pagination.js');
+
+      const filter = 'timestamp >= "2025-01-01T00:00:00Z"';
+      expect(resolveLogFilter(filter)).toBe(filter);
+    });
+  });
+
+  describe('fetchLogEntriesPage', () => {
+    it('should request a single page and return the next page token', async () => {
+      const { fetchLogEntriesPage } = await import('../../../../src/services/logging/pagination.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([
+        createMockLogEntries(2),
+        null,
+        { nextPageToken: 'next-token' },
+      ]);
+
+      const page = await fetchLogEntriesPage(getLoggingClient(), {
+        filter: 'severity>=ERROR',
+        pageSize: 2,
+        pageToken: 'previous-token',
+      });
+
+      expect(page.entries).toHaveLength(2);
+      expect(page.nextPageToken).toBe('next-token');
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith({
+        filter: 'severity>=ERROR',
+        pageSize: 2,
+        pageToken: 'previous-token',
+        autoPaginate: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for Logging pattern mining
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+describe('Logging Patterns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('maskVariableTokens', () => {
+    it('should mask UUIDs, IPs, hex strings and numbers', async () => {
+      const { maskVariableTokens } = await import('../../../../src/services/logging/patterns.js');
+
+      expect(
+        maskVariableTokens(
+          'request 3f2b8c1e-9a7d-4e2b-8c1e-9a7d4e2b8c1e from 10.0.0.12:8080 took 125ms trace=4bf92f3577b34da6a3ce929d0e0e4736'
+        )
+      ).toBe('request <UUID> from <IP> took <NUM> trace=<HEX>');
+      expect(maskVariableTokens('pointer 0xdeadbeef at 2025-01-01T10:00:00Z')).toBe(
+        'pointer <HEX> at <TIMESTAMP>'
+      );
+    });
+
+    it('should keep identifiers that merely contain digits', async () => {
+      const { maskVariableTokens } = await import('../../../../src/services/logging/patterns.js');
+
+      expect(maskVariableTokens('worker-pool2 ready')).toBe('worker-pool2 ready');
+    });
+  });
+
+  describe('getLogMessage', () => {
+    it('should prefer text payloads and common JSON message fields', async () => {
+      const { getLogMessage } = await import('../../../../src/services/logging/patterns.js');
+
+      expect(getLogMessage({ textPayload: 'plain' } as any)).toBe('plain');
+      expect(getLogMessage({ jsonPayload: { msg: 'json message', level: 'info' } } as any)).toBe('json message');
+      expect(getLogMessage({ protoPayload: { methodName: 'storage.buckets.create' } } as any)).toBe(
+        'storage.buckets.create'
+      );
+    });
+  });
+
+  describe('LogPatternMiner', () => {
+    it('should collapse messages that differ only in variable tokens', async () => {
+      const { LogPatternMiner } = await import('../../../../src/services/logging/patterns.js');
+      const miner = new LogPatternMiner();
+
+      const messages = [
+        'Connection to 10.0.0.1 timed out after 30s for user alice',
+        'Connection to 10.0.0.2 timed out after 45s for user bob',
+        'Connection to 10.0.0.3 timed out after 12s for user carol',
+        'Cache miss for key session:42',
+      ];
+      messages.forEach((textPayload, i) =>
+        miner.add({
+          textPayload,
+          severity: 'ERROR',
+          timestamp: `2025-01-01T00:00:0${i}.000Z`,
+          insertId: `id-${i}`,
+        } as any)
+      );
+
+      const patterns = miner.getPatterns();
+      expect(patterns).toHaveLength(2);
+      expect(patterns[0].template).toBe('Connection to <IP> timed out after <NUM> for user <*>');
+      expect(patterns[0].count).toBe(3);
+      expect(patterns[0].firstSeen).toBe('2025-01-01T00:00:00.000Z');
+      expect(patterns[0].lastSeen).toBe('2025-01-01T00:00:02.000Z');
+      expect(patterns[0].example.insertId).toBe('id-0');
+      expect(patterns[0].severities).toEqual({ ERROR: 3 });
+      expect(miner.entryCount).toBe(4);
+    });
+
+    it('should keep dissimilar messages of the same length apart', async () => {
+      const { LogPatternMiner } = await import('../../../../src/services/logging/patterns.js');
+      const miner = new LogPatternMiner();
+
+      miner.add({ textPayload: 'User login succeeded' } as any);
+      miner.add({ textPayload: 'Disk quota exceeded' } as any);
+
+      expect(miner.getPatterns()).toHaveLength(2);
+    });
+  });
+
+  describe('formatLogPatterns', () => {
+    it('should render templates with counts and examples', async () => {
+      const { LogPatternMiner, formatLogPatterns } = await import('../../../../src/services/logging/patterns.js');
+      const miner = new LogPatternMiner();
+
+      miner.add({ textPayload: 'Job 1 finished', severity: 'INFO' } as any);
+      miner.add({ textPayload: 'Job 2 finished', severity: 'INFO' } as any);
+
+      const formatted = formatLogPatterns(miner.getPatterns(), 2);
+      expect(formatted).toContain('## Pattern 1 (2 entries, 100.0%)');
+      expect(formatted).toContain('Job <NUM> finished');
+      expect(formatted).toContain('**Example:** Job 1 finished');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for Logging routing inspection
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+const sinks = [
+  {
+    name: '_Default',
+    destination: 'logging.googleapis.com/projects/test-project/locations/global/buckets/_Default',
+    filter: 'NOT LOG_ID("cloudaudit.googleapis.com/activity")',
+    disabled: false,
+    includeChildren: false,
+    exclusions: [{ name: 'drop-debug', filter: 'severity<INFO', disabled: false }],
+  },
+  {
+    name: '_Required',
+    destination: 'logging.googleapis.com/projects/test-project/locations/global/buckets/_Required',
+    filter: 'LOG_ID("cloudaudit.googleapis.com/activity")',
+    disabled: false,
+    includeChildren: false,
+    exclusions: [],
+  },
+  {
+    name: 'errors-to-bq',
+    destination: 'bigquery.googleapis.com/projects/test-project/datasets/errors',
+    filter: 'severity>=ERROR',
+    disabled: false,
+    includeChildren: false,
+    exclusions: [{ name: 'skip-healthchecks', filter: 'httpRequest.requestUrl:"/healthz"', disabled: false }],
+  },
+  {
+    name: 'archive',
+    destination: 'storage.googleapis.com/archive-bucket',
+    filter: '',
+    disabled: true,
+    includeChildren: false,
+    exclusions: [],
+  },
+];
+
+describe('Logging Routing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should normalise Sink instances returned by getSinks', async () => {
+    const { normaliseLogSink } = await import('../../../../src/services/logging/routing.js');
+
+    expect(
+      normaliseLogSink({
+        name: 'errors-to-bq',
+        metadata: {
+          name: 'errors-to-bq',
+          destination: 'bigquery.googleapis.com/projects/test-project/datasets/errors',
+          filter: 'severity>=ERROR',
+          description: '',
+          disabled: false,
+          exclusions: [{ name: 'skip', filter: 'severity<ERROR', disabled: true, description: '' }],
+          writerIdentity: 'serviceAccount:sink@logging.iam.gserviceaccount.com',
+          createTime: { seconds: '1735689600', nanos: 0 },
+        },
+      })
+    ).toEqual({
+      name: 'errors-to-bq',
+      destination: 'bigquery.googleapis.com/projects/test-project/datasets/errors',
+      filter: 'severity>=ERROR',
+      disabled: false,
+      includeChildren: false,
+      exclusions: [{ name: 'skip', filter: 'severity<ERROR', disabled: true }],
+      writerIdentity: 'serviceAccount:sink@logging.iam.gserviceaccount.com',
+      createTime: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should route an entry through sinks, sink exclusions and project exclusions', async () => {
+    const { routeLogEntry } = await import('../../../../src/services/logging/routing.js');
+
+    const entry = {
+      severity: 'ERROR',
+      logName: 'projects/test-project/logs/app',
+      httpRequest: { requestUrl: '/healthz' },
+    };
+
+    const routes = routeLogEntry(entry, sinks, [
+      { name: 'drop-app', filter: 'log_id("app") AND httpRequest.requestUrl:"/healthz"', disabled: false },
+    ]);
+
+    expect(routes.map(route => [route.sink, route.decision, route.excludedBy])).toEqual([
+      ['_Default', 'excluded', ['drop-app']],
+      ['_Required', 'not-matched', []],
+      ['errors-to-bq', 'excluded', ['skip-healthchecks']],
+      ['archive', 'disabled', []],
+    ]);
+  });
+
+  it('should never apply exclusions to the _Required sink', async () => {
+    const { routeLogEntry } = await import('../../../../src/services/logging/routing.js');
+
+    const routes = routeLogEntry(
+      { severity: 'NOTICE', logName: 'projects/test-project/logs/cloudaudit.googleapis.com%2Factivity' },
+      sinks,
+      [{ name: 'drop-everything', filter: '', disabled: false }]
+    );
+
+    expect(routes.find(route => route.sink === '_Required')?.decision).toBe('routed');
+    expect(routes.find(route => route.sink === '_Default')?.decision).toBe('not-matched');
+  });
+
+  it('should mark decisions as unknown when a filter cannot be evaluated', async () => {
+    const { routeLogEntry, formatLogRoutes } = await import('../../../../src/services/logging/routing.js');
+
+    const routes = routeLogEntry({ severity: 'ERROR' }, [
+      { ...sinks[2], filter: 'severity>=ERROR AND sample(insertId, 0.5)', exclusions: [] },
+    ]);
+
+    expect(routes[0].decision).toBe('unknown');
+    expect(formatLogRoutes(routes)).toContain('Could not evaluate `sample(insertId, 0.5)`');
+  });
+
+  it('should mark only the sinks whose filters cannot be parsed as unknown', async () => {
+    const { routeLogEntry } = await import('../../../../src/services/logging/routing.js');
+
+    const routes = routeLogEntry({ severity: 'ERROR', logName: 'projects/test-project/logs/app' }, [
+      sinks[0],
+      { ...sinks[2], filter: 'severity>=ERROR AND (' },
+      { ...sinks[2], name: 'errors-excluded', exclusions: [{ name: 'broken', filter: 'jsonPayload.x="', disabled: false }] },
+    ]);
+
+    expect(routes.map(route => route.decision)).toEqual(['routed', 'unknown', 'unknown']);
+    expect(routes[1].unsupported).toEqual(['severity>=ERROR AND (']);
+    expect(routes[2].unsupported).toEqual(['jsonPayload.x="']);
+  });
+});
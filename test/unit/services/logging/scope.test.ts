@@ -0,0 +1,61 @@
+/**
+ * Tests for Logging query scope helpers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+describe('Logging Scope', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normaliseLogResourceNames', () => {
+    it('should expand project IDs and keep other resource names', async () => {
+      const { normaliseLogResourceNames } = await import('../../../../src/services/logging/scope.js');
+
+      expect(
+        normaliseLogResourceNames([
+          'app-prod',
+          ' folders/123 ',
+          'organizations/456',
+          'billingAccounts/ABC-123',
+          'projects/app-prod/locations/global/buckets/shared/views/_AllLogs',
+          'projects/app-prod',
+        ])
+      ).toEqual([
+        'projects/app-prod',
+        'folders/123',
+        'organizations/456',
+        'billingAccounts/ABC-123',
+        'projects/app-prod/locations/global/buckets/shared/views/_AllLogs',
+      ]);
+      expect(normaliseLogResourceNames([])).toBeUndefined();
+      expect(normaliseLogResourceNames()).toBeUndefined();
+    });
+
+    it('should reject unsupported resource names', async () => {
+      const { normaliseLogResourceNames } = await import('../../../../src/services/logging/scope.js');
+
+      expect(() => normaliseLogResourceNames(['instances/abc'])).toThrow('Invalid resource name');
+      expect(() => normaliseLogResourceNames(['projects/a/logs/syslog'])).toThrow('Invalid resource name');
+    });
+
+    it('should parse comma-separated URI scopes', async () => {
+      const { parseLogResourceScope } = await import('../../../../src/services/logging/scope.js');
+
+      expect(parseLogResourceScope('app-a,folders%2F123')).toEqual(['projects/app-a', 'folders/123']);
+    });
+  });
+
+  describe('getLogEntrySource', () => {
+    it('should read the source resource from a log name', async () => {
+      const { getLogEntrySource } = await import('../../../../src/services/logging/scope.js');
+
+      expect(getLogEntrySource('projects/app-prod/logs/syslog')).toBe('app-prod');
+      expect(getLogEntrySource('folders/123/logs/cloudaudit.googleapis.com%2Factivity')).toBe('folders/123');
+      expect(getLogEntrySource(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for Logging search filter construction
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+
+describe('Logging Search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.LOG_SEARCH_FIELDS;
+  });
+
+  describe('buildSearchFilter', () => {
+    it('should escape quotes, backslashes and keywords in the term', async () => {
+      const { buildSearchFilter } = await import('../../../../src/services/logging/search.js');
+      const { parseLogFilter } = await import('../../../../src/services/logging/filter.js');
+
+      const filter = buildSearchFilter('say "hi" OR \\ bye', ['textPayload', 'jsonPayload.message']);
+
+      expect(filter).toBe(
+        '(textPayload:"say \\"hi\\" OR \\\\ bye" OR jsonPayload.message:"say \\"hi\\" OR \\\\ bye")'
+      );
+      expect(parseLogFilter(filter)).toMatchObject({
+        kind: 'or',
+        operands: [
+          { kind: 'comparison', value: { value: 'say "hi" OR \\ bye' } },
+          { kind: 'comparison', value: { value: 'say "hi" OR \\ bye' } },
+        ],
+      });
+    });
+
+    it('should use the operator for the match mode', async () => {
+      const { buildSearchFilter } = await import('../../../../src/services/logging/search.js');
+
+      expect(buildSearchFilter('timeout', ['textPayload'], 'exact')).toBe('(textPayload="timeout")');
+      expect(buildSearchFilter('time(out|d)\\d+', ['textPayload'], 'regex')).toBe(
+        '(textPayload=~"time(out|d)\\\\d+")'
+      );
+      expect(buildSearchFilter('(?i)deadline', ['textPayload'], 'regex')).toBe('(textPayload=~"(?i)deadline")');
+    });
+
+    it('should reject invalid regular expressions', async () => {
+      const { buildSearchFilter } = await import('../../../../src/services/logging/search.js');
+
+      expect(() => buildSearchFilter('(unclosed', ['textPayload'], 'regex')).toThrow(
+        'Invalid regular expression'
+      );
+    });
+  });
+
+  describe('resolveSearchFields', () => {
+    it('should extend the defaults with configured and additional fields', async () => {
+      const { resolveSearchFields, DEFAULT_SEARCH_FIELDS } = await import(
+        '../../../../src/services/logging/search.js'
+      );
+      process.env.LOG_SEARCH_FIELDS = 'jsonPayload.orderId, jsonPayload.tenant';
+
+      const fields = resolveSearchFields(undefined, ['labels."k8s-pod/app"', 'textPayload']);
+
+      expect(fields).toHaveLength(DEFAULT_SEARCH_FIELDS.length + 3);
+      expect(fields).toContain('jsonPayload.orderId');
+      expect(fields).toContain('labels."k8s-pod/app"');
+    });
+
+    it('should replace the defaults when search fields are given', async () => {
+      const { resolveSearchFields } = await import('../../../../src/services/logging/search.js');
+
+      expect(resolveSearchFields(['textPayload', 'jsonPayload.orderId'])).toEqual([
+        'textPayload',
+        'jsonPayload.orderId',
+      ]);
+    });
+
+    it('should reject fields that are not a single path', async () => {
+      const { resolveSearchFields } = await import('../../../../src/services/logging/search.js');
+
+      expect(() => resolveSearchFields(['textPayload OR true'])).toThrow('Invalid search field');
+      expect(() => resolveSearchFields(['jsonPayload.a/b'])).toThrow('Invalid search field');
+    });
+  });
+});
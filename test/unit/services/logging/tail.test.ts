@@ -0,0 +1,129 @@
+/**
+ * Tests for Logging tail utilities
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockLoggingClient } from '../../../mocks/google-cloud-mocks.js';
+
+function entryAt(insertId: string, timestamp: string, textPayload = `message ${insertId}`) {
+  return {
+    insertId,
+    timestamp,
+    severity: 'INFO',
+    textPayload,
+    resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+  };
+}
+
+describe('Logging Tail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoggingClient.getEntries.mockResolvedValue([[], {}, {}]);
+  });
+
+  describe('tailLogEntries', () => {
+    it('should deliver new entries once and advance the watermark', async () => {
+      const { tailLogEntries } = await import('../../../../src/services/logging/tail.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([[entryAt('a', '2025-01-01T00:00:01.000Z')], null, {}])
+        .mockResolvedValueOnce([
+          [entryAt('a', '2025-01-01T00:00:01.000Z'), entryAt('b', '2025-01-01T00:00:03.000Z')],
+          null,
+          {},
+        ])
+        .mockResolvedValueOnce([[], null, {}]);
+
+      let clock = Date.parse('2025-01-01T00:00:00.000Z');
+      const batches: string[][] = [];
+
+      const result = await tailLogEntries(getLoggingClient(), {
+        filter: 'severity>=INFO',
+        durationMs: 10000,
+        pollIntervalMs: 5000,
+        maxEntries: 100,
+        now: () => clock,
+        sleep: async (ms: number) => {
+          clock += ms;
+        },
+        onEntries: entries => {
+          batches.push(entries.map(entry => entry.insertId as string));
+        },
+      });
+
+      expect(batches).toEqual([['a'], ['b']]);
+      expect(result.delivered).toBe(2);
+      expect(result.polls).toBe(3);
+      expect(result.duplicatesSkipped).toBe(1);
+      expect(result.stopReason).toBe('duration');
+      expect(result.watermark).toBe('2025-01-01T00:00:03.000Z');
+
+      const [secondRequest] = mockLoggingClient.getEntries.mock.calls[1];
+      expect(secondRequest.orderBy).toBe('timestamp asc');
+      expect(secondRequest.filter).toBe('timestamp >= "2024-12-31T23:59:51.000Z" AND (severity>=INFO)');
+    });
+
+    it('should stop once maxEntries have been delivered', async () => {
+      const { tailLogEntries } = await import('../../../../src/services/logging/tail.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      mockLoggingClient.getEntries.mockResolvedValueOnce([
+        [
+          entryAt('a', '2025-01-01T00:00:01.000Z'),
+          entryAt('b', '2025-01-01T00:00:02.000Z'),
+          entryAt('c', '2025-01-01T00:00:03.000Z'),
+        ],
+        null,
+        {},
+      ]);
+
+      const delivered: string[] = [];
+      const result = await tailLogEntries(getLoggingClient(), {
+        durationMs: 60000,
+        pollIntervalMs: 1000,
+        maxEntries: 2,
+        startTime: new Date('2025-01-01T00:00:00.000Z'),
+        sleep: async () => {},
+        onEntries: entries => {
+          delivered.push(...entries.map(entry => entry.insertId as string));
+        },
+      });
+
+      expect(delivered).toEqual(['a', 'b']);
+      expect(result.stopReason).toBe('maxEntries');
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const { tailLogEntries } = await import('../../../../src/services/logging/tail.js');
+      const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
+
+      const controller = new AbortController();
+      const result = await tailLogEntries(getLoggingClient(), {
+        durationMs: 60000,
+        pollIntervalMs: 1000,
+        maxEntries: 10,
+        signal: controller.signal,
+        sleep: async () => {
+          controller.abort();
+        },
+        onEntries: () => {},
+      });
+
+      expect(result.stopReason).toBe('cancelled');
+      expect(result.polls).toBe(1);
+    });
+  });
+
+  describe('formatLogLine', () => {
+    it('should format an entry on a single line', async () => {
+      const { formatLogLine } = await import('../../../../src/services/logging/tail.js');
+
+      expect(formatLogLine(entryAt('a', '2025-01-01T00:00:01.000Z', 'Ready\nsecond line') as any)).toBe(
+        '2025-01-01T00:00:01.000Z INFO      [api] Ready'
+      );
+    });
+  });
+});
@@ -1,7 +1,10 @@
 /**
  * Tests for Logging service tools
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Import mocks first
 import '../../../mocks/google-cloud-mocks.js';
@@ -18,6 +21,9 @@ describe('Logging Tools', () => {
     // Reset mock implementations
     mockLoggingClient.getEntries.mockResolvedValue([createMockLogEntries(), {}, {}]);
     mockLoggingClient.createSink.mockResolvedValue([{ name: 'test-sink' }]);
+    mockLoggingClient.request.mockImplementation((_config: unknown, callback: (err: Error | null, response?: unknown) => void) =>
+      callback(null, [])
+    );
   });
 
   describe('registerLoggingTools', () => {
@@ -83,6 +89,284 @@ describe('Logging Tools', () => {
       expect(result.content[0].text).toContain('Comprehensive Log Search Results');
     });
 
+    it('should mine patterns in search-logs-comprehensive patterns mode', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-search-comprehensive'
+      );
+      const toolHandler = toolCall![2];
+      const result = await toolHandler({
+        searchTerm: 'Mock',
+        timeRange: '1h',
+        limit: 10,
+        mode: 'patterns',
+        maxScan: 100,
+      });
+
+      expect(result.content[0].text).toContain('Comprehensive Log Search Patterns');
+      expect(result.content[0].text).toContain('Distinct Patterns: 1');
+      expect(result.content[0].text).toContain('Mock log entry <NUM>');
+    });
+
+    it('should stream tailed entries as notifications', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([[], null, {}]);
+      mockLoggingClient.getEntries.mockResolvedValueOnce([
+        [{
+          insertId: 'tail-1',
+          timestamp: new Date(Date.now() + 1000).toISOString(),
+          severity: 'WARNING',
+          textPayload: 'Revision is ready',
+          resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+        }],
+        null,
+        {},
+      ]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-tail'
+      );
+      expect(toolCall).toBeDefined();
+
+      const controller = new AbortController();
+      const sendNotification = vi.fn(async () => controller.abort());
+      const toolHandler = toolCall![2];
+      const result = await toolHandler(
+        { durationSeconds: 5, pollIntervalSeconds: 1, maxEntries: 10 },
+        { _meta: { progressToken: 'tail-token' }, sendNotification, signal: controller.signal }
+      );
+
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/message',
+        params: expect.objectContaining({ level: 'warning', logger: 'gcp-logging-tail' }),
+      });
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: expect.objectContaining({ progressToken: 'tail-token', total: 5 }),
+      });
+      expect(result.content[0].text).toContain('Tail was cancelled by the client');
+      expect(result.content[0].text).toContain('Revision is ready');
+    });
+
+    it('should return a cursor that continues the same query', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValueOnce([
+        createMockLogEntries(2),
+        null,
+        { nextPageToken: 'page-2' },
+      ]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-query-logs'
+      );
+      const toolHandler = toolCall![2];
+
+      const firstPage = await toolHandler({ filter: 'severity>=ERROR', limit: 2 });
+      const cursor = firstPage.content[0].text.match(/Next Cursor: (\S+)/)?.[1];
+      expect(cursor).toBeDefined();
+
+      await toolHandler({ filter: 'severity>=ERROR', limit: 2, cursor });
+
+      const [firstRequest] = mockLoggingClient.getEntries.mock.calls[0];
+      const [secondRequest] = mockLoggingClient.getEntries.mock.calls[1];
+      expect(secondRequest.pageToken).toBe('page-2');
+      expect(secondRequest.filter).toBe(firstRequest.filter);
+
+      const mismatch = await toolHandler({ filter: 'severity>=WARNING', cursor });
+      expect(mismatch.isError).toBe(true);
+      expect(mismatch.content[0].text).toContain('different filter');
+    });
+
+    it('should reject a time range cursor reused with a different query', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValueOnce([
+        createMockLogEntries(2),
+        null,
+        { nextPageToken: 'page-2' },
+      ]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-query-time-range'
+      );
+      const toolHandler = toolCall![2];
+
+      const query = { startTime: '1h', filter: 'severity>=ERROR', limit: 2 };
+      const firstPage = await toolHandler(query);
+      const cursor = firstPage.content[0].text.match(/Next Cursor: (\S+)/)?.[1];
+      expect(cursor).toBeDefined();
+
+      await toolHandler({ ...query, cursor });
+      const [firstRequest] = mockLoggingClient.getEntries.mock.calls[0];
+      const [secondRequest] = mockLoggingClient.getEntries.mock.calls[1];
+      expect(secondRequest.pageToken).toBe('page-2');
+      expect(secondRequest.filter).toBe(firstRequest.filter);
+
+      for (const changed of [{ startTime: '2h' }, { endTime: '30m' }, { filter: 'severity>=WARNING' }]) {
+        const mismatch = await toolHandler({ ...query, ...changed, cursor });
+        expect(mismatch.isError).toBe(true);
+        expect(mismatch.content[0].text).toContain('different time range or filter');
+      }
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledTimes(2);
+    });
+
+    it('should aggregate log entries across pages', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries
+        .mockResolvedValueOnce([createMockLogEntries(3), null, { nextPageToken: 'page-2' }])
+        .mockResolvedValueOnce([createMockLogEntries(2), null, {}]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-aggregate'
+      );
+      expect(toolCall).toBeDefined();
+
+      const toolHandler = toolCall![2];
+      const result = await toolHandler({
+        startTime: '1h',
+        groupBy: 'severity',
+        bucketSize: '5m',
+        maxEntries: 100,
+        topN: 10,
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledTimes(2);
+      expect(result.content[0].text).toContain('Entries Scanned: 5');
+      expect(result.content[0].text).toContain('| INFO | 3 |');
+      expect(result.content[0].text).toContain('| ERROR | 2 |');
+    });
+
+    it('should return structured entries in json and ndjson formats', async () => {
+      const { z } = await import('zod');
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([
+        createMockLogEntries(2),
+        null,
+        { nextPageToken: 'page-2' },
+      ]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-query-logs'
+      );
+      const outputSchema = z.object(toolCall![1].outputSchema);
+      const toolHandler = toolCall![2];
+
+      const json = await toolHandler({ filter: 'severity>=INFO', limit: 2, outputFormat: 'json' });
+      expect(outputSchema.safeParse(json.structuredContent).success).toBe(true);
+      expect(JSON.parse(json.content[0].text)).toEqual(json.structuredContent);
+      expect(json.structuredContent.entries[1]).toMatchObject({
+        severity: 'ERROR',
+        resource: { type: 'gce_instance' },
+        payloadType: 'text',
+        payload: 'Mock log entry 1',
+      });
+      expect(json.structuredContent.nextCursor).toBeDefined();
+
+      const ndjson = await toolHandler({ filter: 'severity>=INFO', limit: 2, outputFormat: 'ndjson' });
+      const lines = ndjson.content[0].text.split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).payload).toBe('Mock log entry 0');
+      expect(ndjson.content[1].text).toContain('Next Cursor:');
+
+      const markdown = await toolHandler({ filter: 'severity>=INFO', limit: 2 });
+      expect(markdown.content[0].text).toContain('# Log Query Results');
+      expect(outputSchema.safeParse(markdown.structuredContent).success).toBe(true);
+    });
+
+    it('should return structured content when no entries match', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([[], null, {}]);
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-search-comprehensive'
+      );
+      const result = await toolCall![2]({ searchTerm: 'missing', timeRange: '1h', limit: 10 });
+
+      expect(result.content[0].text).toContain('No matching log entries found');
+      expect(result.structuredContent.entries).toEqual([]);
+    });
+
+    it('should escape the search term in search-logs-comprehensive', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-search-comprehensive'
+      );
+      const result = await toolCall![2]({
+        searchTerm: 'a") OR severity>=DEBUG OR ("',
+        searchFields: ['textPayload', 'jsonPayload.orderId'],
+        timeRange: '1h',
+        limit: 10,
+      });
+
+      expect(result.isError).toBeUndefined();
+      const [request] = mockLoggingClient.getEntries.mock.calls[0];
+      expect(request.filter).toContain(
+        '(textPayload:"a\\") OR severity>=DEBUG OR (\\"" OR jsonPayload.orderId:"a\\") OR severity>=DEBUG OR (\\"")'
+      );
+      expect(result.content[0].text).toContain('- jsonPayload.orderId');
+    });
+
+    it('should reject invalid filters before calling the API', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-query-logs'
+      );
+      const result = await toolCall![2]({ filter: 'severity>=ERROR AND (resource.type="gce_instance"' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Line 1, column 50: Missing ")"');
+      expect(mockLoggingClient.getEntries).not.toHaveBeenCalled();
+    });
+
+    it('should validate and build filters', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const validateCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-validate-filter'
+      );
+      const invalid = await validateCall![2]({ filter: 'severity>=ERORR' });
+      expect(invalid.content[0].text).toContain('Status: Invalid');
+      expect(invalid.content[0].text).toContain('Unknown severity "ERORR"');
+
+      const relative = await validateCall![2]({ filter: 'timestamp>="-1h"' });
+      expect(relative.content[0].text).toContain('Status: Valid');
+      expect(relative.content[0].text).toContain('## Normalised Filter');
+
+      const buildCall = mockServer.registerTool.mock.calls.find(
+        call => call[0] === 'gcp-logging-build-filter'
+      );
+      const built = await buildCall![2]({ severity: 'ERROR', resourceLabels: { service_name: 'api' } });
+      expect(built.content[0].text).toContain('severity>=ERROR AND resource.labels.service_name="api"');
+    });
+
     it('should handle errors gracefully', async () => {
       const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
       
@@ -104,4 +388,560 @@ describe('Logging Tools', () => {
       expect(result.content[0].text).toContain('Error');
     });
   });
+  describe('log-based metric tools', () => {
+    const existingMetric = {
+      name: 'checkout_errors',
+      description: 'Checkout failures',
+      filter: 'severity>=ERROR',
+      metricDescriptor: { metricKind: 'DELTA', valueType: 'INT64', unit: '1', labels: [] },
+      valueExtractor: '',
+      labelExtractors: {},
+      bucketOptions: null,
+    };
+
+    it('should preview a new metric without creating it in a dry run', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-create-metric');
+      const result = await toolCall![2]({
+        name: 'checkout_errors',
+        kind: 'counter',
+        filter: 'severity>=ERROR',
+        dryRun: true,
+        previewHours: 6,
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('The metric was not created');
+      expect(result.content[0].text).toContain('matched 5 entries in the last 6 hour(s)');
+      expect(mockLoggingClient.request).not.toHaveBeenCalled();
+      expect(mockLoggingClient.getEntries.mock.calls[0][0].filter).toMatch(/^\(severity>=ERROR\) AND timestamp>="/);
+    });
+
+    it('should create a metric through the metrics client', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.request.mockImplementation((config: any, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(null, config.reqOpts.metric)
+      );
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-create-metric');
+      const result = await toolCall![2]({
+        name: 'checkout_latency',
+        kind: 'distribution',
+        filter: 'jsonPayload.event="checkout"',
+        valueExtractor: 'EXTRACT(jsonPayload.latencyMs)',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('Log-Based Metric Created');
+      expect(result.content[0].text).toContain('**Type:** distribution');
+      const [config] = mockLoggingClient.request.mock.calls[0];
+      expect(config).toMatchObject({
+        client: 'MetricsServiceV2Client',
+        method: 'createLogMetric',
+        reqOpts: { parent: expect.stringMatching(/^projects\//), metric: { name: 'checkout_latency' } },
+      });
+    });
+
+    it('should update only the given fields of a metric', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.request.mockImplementation((config: any, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(null, config.method === 'getLogMetric' ? existingMetric : config.reqOpts.metric)
+      );
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-update-metric');
+      const result = await toolCall![2]({
+        metricName: 'checkout_errors',
+        labels: [{ key: 'service', extractor: 'EXTRACT(jsonPayload.service)' }],
+      });
+
+      expect(result.isError).toBeUndefined();
+      const [config] = mockLoggingClient.request.mock.calls[1];
+      expect(config.method).toBe('updateLogMetric');
+      expect(config.reqOpts.metricName).toMatch(/\/metrics\/checkout_errors$/);
+      expect(config.reqOpts.metric).toMatchObject({
+        description: 'Checkout failures',
+        filter: 'severity>=ERROR',
+        labelExtractors: { service: 'EXTRACT(jsonPayload.service)' },
+      });
+    });
+
+    it('should keep fields it does not change when updating a metric', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      const fetched = {
+        ...existingMetric,
+        bucketName: 'projects/test-project/locations/global/buckets/audit',
+        metricDescriptor: {
+          ...existingMetric.metricDescriptor,
+          displayName: 'Checkout errors',
+          description: 'Errors from the checkout service',
+        },
+        version: 'V2',
+        createTime: { seconds: '1735689600', nanos: 0 },
+      };
+      mockLoggingClient.request.mockImplementation((config: any, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(null, config.method === 'getLogMetric' ? fetched : config.reqOpts.metric)
+      );
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-update-metric');
+      const result = await toolCall![2]({ metricName: 'checkout_errors', description: 'Failed checkouts' });
+
+      expect(result.isError).toBeUndefined();
+      const [config] = mockLoggingClient.request.mock.calls[1];
+      const { createTime, ...unchanged } = fetched;
+      expect(createTime).toBeDefined();
+      expect(config.reqOpts.metric).toEqual({ ...unchanged, description: 'Failed checkouts' });
+    });
+
+    it('should list and delete metrics', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.request.mockImplementation((config: any, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(null, config.method === 'listLogMetrics' ? [existingMetric] : {})
+      );
+      registerLoggingTools(mockServer as any);
+
+      const listCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-list-metrics');
+      const listResult = await listCall![2]({});
+      expect(listResult.content[0].text).toContain('## checkout_errors');
+      expect(listResult.content[0].text).toContain('logging.googleapis.com/user/checkout_errors');
+
+      const deleteCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-delete-metric');
+      const deleteResult = await deleteCall![2]({ metricName: 'checkout_errors' });
+      expect(deleteResult.content[0].text).toContain('Deleted log-based metric "checkout_errors"');
+      expect(mockLoggingClient.request.mock.calls[1][0].method).toBe('deleteLogMetric');
+    });
+
+    it('should return an error result when the API call fails', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.request.mockImplementation((_config: unknown, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(new Error('Metric not found'))
+      );
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-get-metric');
+      const result = await toolCall![2]({ metricName: 'missing' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Metric not found');
+    });
+  });
+  describe('log routing tools', () => {
+    const sinks = [
+      {
+        name: '_Default',
+        metadata: {
+          name: '_Default',
+          destination: 'logging.googleapis.com/projects/test-project/locations/global/buckets/_Default',
+          filter: 'NOT LOG_ID("cloudaudit.googleapis.com/activity")',
+        },
+      },
+      {
+        name: 'errors-to-bq',
+        metadata: {
+          name: 'errors-to-bq',
+          destination: 'bigquery.googleapis.com/projects/test-project/datasets/errors',
+          filter: 'severity>=ERROR',
+          exclusions: [{ name: 'skip-healthchecks', filter: 'httpRequest.requestUrl:"/healthz"' }],
+        },
+      },
+    ];
+
+    beforeEach(() => {
+      mockLoggingClient.getSinks.mockResolvedValue([sinks, {}, {}]);
+      mockLoggingClient.request.mockImplementation((_config: unknown, callback: (err: Error | null, response?: unknown) => void) =>
+        callback(null, [{ name: 'projects/test-project/exclusions/drop-info', filter: 'severity<=INFO' }])
+      );
+    });
+
+    it('should list sinks and exclusions', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const sinksCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-list-sinks');
+      const sinksResult = await sinksCall![2]({});
+      expect(sinksResult.content[0].text).toContain('## errors-to-bq');
+      expect(sinksResult.content[0].text).toContain('bigquery.googleapis.com/projects/test-project/datasets/errors');
+
+      const exclusionsCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-list-exclusions');
+      const exclusionsResult = await exclusionsCall![2]({});
+      expect(exclusionsResult.content[0].text).toContain('**drop-info**');
+      expect(exclusionsResult.content[0].text).toContain('## Sink: errors-to-bq');
+      expect(mockLoggingClient.request.mock.calls[0][0]).toMatchObject({
+        client: 'ConfigServiceV2Client',
+        method: 'listExclusions',
+      });
+    });
+
+    it('should explain where a sample entry is routed', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-route-entry');
+      const result = await toolCall![2]({
+        entry: { severity: 'INFO', logName: 'projects/test-project/logs/app' },
+      });
+
+      expect(result.content[0].text).toContain('Routed To: 0 sink(s)');
+      expect(result.content[0].text).toContain('| _Default | Excluded |');
+      expect(result.content[0].text).toContain('Excluded by drop-info');
+      expect(result.content[0].text).toContain('| errors-to-bq | Not matched |');
+      expect(result.content[0].text).toContain('it is not stored or exported anywhere');
+    });
+
+    it('should count routing decisions for recent entries matching a filter', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-route-entry');
+      const result = await toolCall![2]({ filter: 'resource.type="gce_instance"', sampleSize: 5 });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: 'resource.type="gce_instance"', pageSize: 5 })
+      );
+      expect(result.content[0].text).toContain('Entries Evaluated: 5');
+      expect(result.content[0].text).toContain('| _Default | 2 | 3 | 0 | 0 |');
+      expect(result.content[0].text).toContain('| errors-to-bq | 2 | 0 | 3 | 0 |');
+    });
+
+    it('should require an entry or a filter', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-route-entry');
+      const result = await toolCall![2]({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Provide either a sample log entry or a filter');
+    });
+  });
+  describe('multi-resource queries', () => {
+    const scopedEntries = () =>
+      createMockLogEntries(2).map((entry, i) => ({
+        ...entry,
+        logName: `projects/${i === 0 ? 'app-a' : 'app-b'}/logs/app`,
+      }));
+
+    it('should query several resources and label entries by source', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([scopedEntries(), null, { nextPageToken: 'next-token' }]);
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-query-logs');
+      const result = await toolCall![2]({
+        filter: 'severity>=ERROR',
+        limit: 2,
+        resourceNames: ['app-a', 'projects/app-b', 'folders/123'],
+        outputFormat: 'markdown',
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ resourceNames: ['projects/app-a', 'projects/app-b', 'folders/123'] })
+      );
+      expect(result.content[0].text).toContain('Resources: projects/app-a, projects/app-b, folders/123');
+      expect(result.content[0].text).toContain('**Source:** app-b');
+      expect(result.structuredContent.entries.map((entry: any) => entry.source)).toEqual(['app-a', 'app-b']);
+
+      // The cursor keeps the original resources
+      const { decodeLogCursor } = await import('../../../../src/services/logging/pagination.js');
+      expect(decodeLogCursor(result.structuredContent.nextCursor).resourceNames).toEqual([
+        'projects/app-a',
+        'projects/app-b',
+        'folders/123',
+      ]);
+    });
+
+    it('should pass resource names to aggregation scans', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-aggregate');
+      const result = await toolCall![2]({
+        startTime: '1h',
+        groupBy: 'severity',
+        maxEntries: 100,
+        topN: 10,
+        resourceNames: ['organizations/456'],
+      });
+
+      expect(result.content[0].text).toContain('Resources: organizations/456');
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ resourceNames: ['organizations/456'] })
+      );
+    });
+
+    it('should reject invalid resource names', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-query-logs');
+      const result = await toolCall![2]({ filter: 'severity>=ERROR', limit: 10, resourceNames: ['zones/us-east1-b'] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid resource name');
+      expect(mockLoggingClient.getEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('gcp-logging-compare-windows', () => {
+    it('should compare the comparison window with the window just before it', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-compare-windows');
+      const result = await toolCall![2]({
+        comparisonStart: '2024-01-01T12:00:00Z',
+        comparisonEnd: '2024-01-01T13:00:00Z',
+        filter: 'resource.type="cloud_run_revision"',
+        versionField: 'labels.version',
+        maxEntries: 1000,
+        changeRatio: 2,
+        minCount: 5,
+        limit: 20,
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter:
+            'timestamp >= "2024-01-01T11:00:00.000Z" AND timestamp <= "2024-01-01T12:00:00.000Z" AND resource.type="cloud_run_revision"',
+        })
+      );
+      expect(result.content[0].text).toContain('# Log Window Comparison');
+      expect(result.content[0].text).toContain(
+        '| Baseline | 2024-01-01T11:00:00.000Z to 2024-01-01T12:00:00.000Z | 5 | 1 |'
+      );
+      expect(result.content[0].text).toContain('No significant differences between the windows.');
+    });
+
+    it('should compare two versions over the same time range', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-compare-windows');
+      const result = await toolCall![2]({
+        comparisonStart: '2h',
+        baselineVersion: '1.4.0',
+        comparisonVersion: '1.5.0',
+        versionField: 'labels.version',
+        maxEntries: 1000,
+        changeRatio: 2,
+        minCount: 5,
+        limit: 20,
+      });
+
+      const filters = mockLoggingClient.getEntries.mock.calls.map((call: any[]) => call[0].filter);
+      expect(filters[0]).toContain('AND labels.version="1.4.0"');
+      expect(filters[1]).toContain('AND labels.version="1.5.0"');
+      expect(result.content[0].text).toContain('Comparing Versions Of: labels.version');
+      expect(result.content[0].text).toContain('| Comparison | labels.version = 1.5.0 |');
+    });
+
+    it('should require both versions', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-compare-windows');
+      const result = await toolCall![2]({
+        comparisonStart: '1h',
+        baselineVersion: '1.4.0',
+        versionField: 'labels.version',
+        maxEntries: 1000,
+        changeRatio: 2,
+        minCount: 5,
+        limit: 20,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Provide both baselineVersion and comparisonVersion');
+      expect(mockLoggingClient.getEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('gcp-logging-request-timeline', () => {
+    it('should build a timeline for a trace', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([
+        [
+          {
+            timestamp: '2024-01-01T12:00:00.000Z',
+            severity: 'INFO',
+            resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+            trace: 'projects/test-project/traces/abc123',
+            httpRequest: { requestMethod: 'POST', requestUrl: '/orders', status: 200, latency: '0.120s' },
+          },
+        ],
+        null,
+        {},
+      ]);
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-request-timeline');
+      const result = await toolCall![2]({
+        traceId: 'abc123',
+        startTime: '1h',
+        includeDatabaseLogs: false,
+        maxEntries: 500,
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledTimes(1);
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: expect.stringContaining('AND trace:"abc123"'), orderBy: 'timestamp asc' })
+      );
+      expect(result.content[0].text).toContain('Trace: abc123');
+      expect(result.content[0].text).toContain('Entries: 1');
+      expect(result.content[0].text).toContain('| Application | api | 120.0 ms | 100.0% |');
+    });
+
+    it('should require an identifier', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-request-timeline');
+      const result = await toolCall![2]({ startTime: '1h', includeDatabaseLogs: true, maxEntries: 500 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Provide a trace ID, request ID or remote IP');
+    });
+  });
+
+  describe('gcp-logging-audit', () => {
+    const auditEntries = () => [
+      {
+        timestamp: '2024-01-01T12:00:00Z',
+        severity: 'NOTICE',
+        logName: 'projects/test-project/logs/cloudaudit.googleapis.com%2Factivity',
+        protoPayload: {
+          serviceName: 'iam.googleapis.com',
+          methodName: 'SetIamPolicy',
+          resourceName: 'projects/test-project',
+          authenticationInfo: { principalEmail: 'alice@example.com' },
+        },
+      },
+    ];
+
+    it('should list audit events by log type', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([auditEntries(), null, {}]);
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-audit');
+      const result = await toolCall![2]({
+        logTypes: ['admin-activity'],
+        method: 'SetIamPolicy',
+        startTime: '24h',
+        maxEntries: 1000,
+        limit: 50,
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: expect.stringContaining(
+            'AND log_id("cloudaudit.googleapis.com/activity") AND protoPayload.methodName:"SetIamPolicy"'
+          ),
+        })
+      );
+      expect(result.content[0].text).toContain('Audit Events: 1 (0 failed)');
+      expect(result.content[0].text).toContain('By Log Type: Admin Activity: 1, Data Access: 0');
+      expect(result.content[0].text).toContain('| alice@example.com | SetIamPolicy | projects/test-project | OK |');
+    });
+
+    it('should group audit events when requested', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      mockLoggingClient.getEntries.mockResolvedValue([auditEntries(), null, {}]);
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-audit');
+      const result = await toolCall![2]({ startTime: '24h', groupBy: 'principal', maxEntries: 1000, limit: 50 });
+
+      expect(result.content[0].text).toContain('## Calls by principal');
+      expect(result.content[0].text).toContain('| alice@example.com | 1 | 0 | Admin Activity: 1 | SetIamPolicy |');
+    });
+  });
+
+  describe('gcp-logging-export', () => {
+    let exportDir: string;
+
+    beforeEach(() => {
+      exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-export-'));
+      process.env.LOG_EXPORT_DIR = exportDir;
+    });
+
+    afterEach(() => {
+      delete process.env.LOG_EXPORT_DIR;
+      fs.rmSync(exportDir, { recursive: true, force: true });
+    });
+
+    it('should export matching entries and link the file as a resource', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-export');
+      const result = await toolCall![2]({
+        filter: 'severity>=ERROR',
+        startTime: '2h',
+        format: 'csv',
+        columns: ['severity', 'message'],
+        maxEntries: 1000,
+        fileName: 'incident.csv',
+      });
+
+      expect(mockLoggingClient.getEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: expect.stringContaining('AND severity>=ERROR') })
+      );
+      expect(result.content[0].text).toContain('Entries Exported: 5');
+      expect(result.content[0].text).toContain(`File: ${path.join(exportDir, 'incident.csv')}`);
+      expect(result.content[1]).toEqual(
+        expect.objectContaining({
+          type: 'resource_link',
+          uri: 'gcp-logs-export://incident.csv',
+          mimeType: 'text/csv',
+        })
+      );
+      expect(fs.readFileSync(path.join(exportDir, 'incident.csv'), 'utf8')).toContain(
+        'severity,message\nINFO,Mock log entry 0\n'
+      );
+    });
+
+    it('should report invalid file names', async () => {
+      const { registerLoggingTools } = await import('../../../../src/services/logging/tools.js');
+
+      registerLoggingTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(call => call[0] === 'gcp-logging-export');
+      const result = await toolCall![2]({
+        startTime: '1h',
+        format: 'ndjson',
+        maxEntries: 1000,
+        fileName: '../outside.ndjson',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid export file name');
+      expect(mockLoggingClient.getEntries).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
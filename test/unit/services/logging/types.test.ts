@@ -57,6 +57,78 @@ describe('Logging Types and Utilities', () => {
     });
   });
 
+  describe('toLogEntry', () => {
+    it('should flatten Entry instances returned by the client library', async () => {
+      const { toLogEntry } = await import('../../../../src/services/logging/types.js');
+
+      const entry = toLogEntry({
+        metadata: {
+          severity: 'ERROR',
+          timestamp: new Date('2025-01-01T00:00:00Z'),
+          receiveTimestamp: { seconds: 1735689601, nanos: 0 },
+          payload: 'jsonPayload',
+          jsonPayload: { fields: {} },
+          resource: { type: 'cloud_run_revision', labels: {} },
+        },
+        data: { message: 'decoded payload' },
+      });
+
+      expect(entry.severity).toBe('ERROR');
+      expect(entry.timestamp).toBe('2025-01-01T00:00:00.000Z');
+      expect(entry.receiveTimestamp).toBe('2025-01-01T00:00:01.000Z');
+      expect(entry.jsonPayload).toEqual({ message: 'decoded payload' });
+      expect(entry.payload).toBeUndefined();
+    });
+
+    it('should leave plain log entries unchanged', async () => {
+      const { toLogEntry } = await import('../../../../src/services/logging/types.js');
+      const mockEntry = createMockLogEntries(1)[0];
+
+      expect(toLogEntry(mockEntry)).toEqual(mockEntry);
+    });
+  });
+
+  describe('normaliseLogEntry', () => {
+    it('should keep the payload as data', async () => {
+      const { normaliseLogEntry } = await import('../../../../src/services/logging/types.js');
+
+      const entry = normaliseLogEntry({
+        metadata: {
+          timestamp: new Date('2025-01-01T00:00:00Z'),
+          severity: 'ERROR',
+          logName: 'projects/test-project/logs/app',
+          resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+          trace: 'projects/test-project/traces/abc',
+          httpRequest: null,
+          payload: 'jsonPayload',
+        },
+        data: { message: 'boom', code: 500 },
+      });
+
+      expect(entry).toEqual({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        severity: 'ERROR',
+        logName: 'projects/test-project/logs/app',
+        resource: { type: 'cloud_run_revision', labels: { service_name: 'api' } },
+        labels: {},
+        trace: 'projects/test-project/traces/abc',
+        payloadType: 'json',
+        payload: { message: 'boom', code: 500 },
+      });
+    });
+
+    it('should default missing fields', async () => {
+      const { normaliseLogEntry } = await import('../../../../src/services/logging/types.js');
+
+      const entry = normaliseLogEntry({ textPayload: 'plain text' });
+
+      expect(entry.severity).toBe('DEFAULT');
+      expect(entry.resource).toEqual({ type: 'unknown', labels: {} });
+      expect(entry.payloadType).toBe('text');
+      expect(entry.payload).toBe('plain text');
+    });
+  });
+
   describe('getLoggingClient', () => {
     it('should return logging client instance', async () => {
       const { getLoggingClient } = await import('../../../../src/services/logging/types.js');
@@ -0,0 +1,165 @@
+/**
+ * Tests for Monitoring aggregation helpers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+
+describe('Monitoring aggregation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildTimeSeriesAggregation', () => {
+    it('defaults to ALIGN_MEAN when only an alignment period is given', async () => {
+      const { buildTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(buildTimeSeriesAggregation({})).toBeUndefined();
+      expect(buildTimeSeriesAggregation({ alignmentPeriod: '5m' })).toEqual({
+        alignmentPeriod: { seconds: 300 },
+        perSeriesAligner: 'ALIGN_MEAN',
+      });
+    });
+
+    it('includes reducers and group-by fields', async () => {
+      const { buildTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(
+        buildTimeSeriesAggregation({
+          alignmentPeriod: '60s',
+          perSeriesAligner: 'ALIGN_RATE',
+          crossSeriesReducer: 'REDUCE_SUM',
+          groupByFields: ['resource.labels.zone'],
+        }),
+      ).toEqual({
+        alignmentPeriod: { seconds: 60 },
+        perSeriesAligner: 'ALIGN_RATE',
+        crossSeriesReducer: 'REDUCE_SUM',
+        groupByFields: ['resource.labels.zone'],
+      });
+    });
+
+    it('rejects incomplete combinations', async () => {
+      const { buildTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(() => buildTimeSeriesAggregation({ perSeriesAligner: 'ALIGN_RATE' })).toThrow(
+        'has no alignmentPeriod',
+      );
+      expect(() => buildTimeSeriesAggregation({ crossSeriesReducer: 'REDUCE_SUM' })).toThrow(
+        'needs a perSeriesAligner other than ALIGN_NONE',
+      );
+      expect(() =>
+        buildTimeSeriesAggregation({ alignmentPeriod: '60s', groupByFields: ['resource.labels.zone'] }),
+      ).toThrow('groupByFields without a crossSeriesReducer');
+    });
+  });
+
+  describe('validateTimeSeriesAggregation', () => {
+    it('rejects ALIGN_RATE on a GAUGE metric and lists valid aligners', async () => {
+      const { validateTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(() =>
+        validateTimeSeriesAggregation(
+          { metricKind: 'GAUGE', valueType: 'DOUBLE' },
+          { perSeriesAligner: 'ALIGN_RATE', alignmentPeriod: { seconds: 60 } },
+        ),
+      ).toThrow(
+        /Aggregation perSeriesAligner ALIGN_RATE cannot be applied to GAUGE DOUBLE series: it supports CUMULATIVE and DELTA metrics.*ALIGN_MEAN/,
+      );
+    });
+
+    it('rejects ALIGN_MEAN on a CUMULATIVE counter', async () => {
+      const { validateTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(() =>
+        validateTimeSeriesAggregation(
+          { metricKind: 'CUMULATIVE', valueType: 'INT64' },
+          { perSeriesAligner: 'ALIGN_MEAN' },
+        ),
+      ).toThrow(/Valid choices here: ALIGN_NONE, ALIGN_DELTA, ALIGN_RATE\.$/);
+    });
+
+    it('checks reducers against the aligned value type', async () => {
+      const { validateTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+      const distribution = { metricKind: 'DELTA', valueType: 'DISTRIBUTION' } as const;
+
+      expect(() =>
+        validateTimeSeriesAggregation(distribution, {
+          perSeriesAligner: 'ALIGN_DELTA',
+          crossSeriesReducer: 'REDUCE_PERCENTILE_99',
+        }),
+      ).not.toThrow();
+      expect(() =>
+        validateTimeSeriesAggregation(distribution, {
+          perSeriesAligner: 'ALIGN_DELTA',
+          crossSeriesReducer: 'REDUCE_MAX',
+        }),
+      ).toThrow('crossSeriesReducer REDUCE_MAX cannot be applied to DELTA DISTRIBUTION series');
+    });
+
+    it('checks the secondary aggregation against the primary output', async () => {
+      const { validateTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+      const counter = { metricKind: 'CUMULATIVE', valueType: 'INT64' } as const;
+      const primary = { perSeriesAligner: 'ALIGN_RATE', crossSeriesReducer: 'REDUCE_SUM' };
+
+      expect(() =>
+        validateTimeSeriesAggregation(counter, primary, { perSeriesAligner: 'ALIGN_MEAN' }),
+      ).not.toThrow();
+      expect(() =>
+        validateTimeSeriesAggregation(counter, primary, { perSeriesAligner: 'ALIGN_RATE' }),
+      ).toThrow('Secondary aggregation perSeriesAligner ALIGN_RATE cannot be applied to GAUGE DOUBLE series');
+    });
+  });
+
+  describe('getMetricTypeFromFilter', () => {
+    it('returns the metric type only for a single equality', async () => {
+      const { getMetricTypeFromFilter } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(
+        getMetricTypeFromFilter('metric.type = "compute.googleapis.com/instance/cpu/utilization" AND resource.type="gce_instance"'),
+      ).toBe('compute.googleapis.com/instance/cpu/utilization');
+      expect(getMetricTypeFromFilter('metric.type = starts_with("compute.googleapis.com/")')).toBeUndefined();
+      expect(getMetricTypeFromFilter('resource.type="gce_instance"')).toBeUndefined();
+    });
+  });
+
+  describe('fetchMetricShape', () => {
+    it('reads the kind and value type from the descriptor', async () => {
+      const { fetchMetricShape } = await import('../../../../src/services/monitoring/aggregation.js');
+      mockMonitoringClient.getMetricDescriptor.mockResolvedValueOnce([
+        { metricKind: 'CUMULATIVE', valueType: 'INT64' },
+      ]);
+
+      const shape = await fetchMetricShape(mockMonitoringClient as any, 'test-project', 'custom.googleapis.com/requests');
+
+      expect(shape).toEqual({ metricKind: 'CUMULATIVE', valueType: 'INT64' });
+      expect(mockMonitoringClient.getMetricDescriptor).toHaveBeenCalledWith({
+        name: 'projects/test-project/metricDescriptors/custom.googleapis.com/requests',
+      });
+    });
+
+    it('returns undefined when the descriptor cannot be read', async () => {
+      const { fetchMetricShape } = await import('../../../../src/services/monitoring/aggregation.js');
+      mockMonitoringClient.getMetricDescriptor.mockRejectedValueOnce(new Error('Permission denied'));
+
+      expect(await fetchMetricShape(mockMonitoringClient as any, 'test-project', 'x')).toBeUndefined();
+    });
+  });
+
+  describe('formatTimeSeriesAggregation', () => {
+    it('summarises the aligner and reducer', async () => {
+      const { formatTimeSeriesAggregation } = await import('../../../../src/services/monitoring/aggregation.js');
+
+      expect(
+        formatTimeSeriesAggregation({
+          alignmentPeriod: { seconds: 60 },
+          perSeriesAligner: 'ALIGN_RATE',
+          crossSeriesReducer: 'REDUCE_SUM',
+          groupByFields: ['resource.labels.zone'],
+        }),
+      ).toBe('ALIGN_RATE every 60s, REDUCE_SUM by resource.labels.zone');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for alert condition backtesting
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+
+const START = 1700000000;
+
+function createSeries(instance: string, values: number[]) {
+  return {
+    metric: { type: 'compute.googleapis.com/instance/cpu/utilization' },
+    resource: { type: 'gce_instance', labels: { instance_id: instance } },
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: START + index * 60 } },
+      value: { doubleValue: value },
+    })),
+  };
+}
+
+const at = (minutes: number) => new Date((START + minutes * 60) * 1000).toISOString();
+
+const condition = {
+  displayName: 'CPU above 80%',
+  filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+  comparison: 'COMPARISON_GT' as const,
+  thresholdValue: 0.8,
+  durationSeconds: 120,
+};
+
+describe('Alert backtest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('toBacktestCondition', () => {
+    it('reads threshold conditions of existing policies', async () => {
+      const { toBacktestCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+
+      expect(
+        toBacktestCondition({
+          displayName: 'CPU above 80%',
+          conditionThreshold: {
+            filter: condition.filter,
+            comparison: 'COMPARISON_GT',
+            thresholdValue: 0.8,
+            duration: { seconds: '120' },
+            aggregations: [{ alignmentPeriod: { seconds: 60 }, perSeriesAligner: 'ALIGN_MEAN' }],
+            trigger: { count: 2 },
+          },
+        }),
+      ).toEqual({
+        ...condition,
+        aggregation: { alignmentPeriod: { seconds: 60 }, perSeriesAligner: 'ALIGN_MEAN' },
+        triggerCount: 2,
+        triggerPercent: undefined,
+      });
+    });
+
+    it('rejects conditions it cannot replay', async () => {
+      const { toBacktestCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+
+      expect(() => toBacktestCondition({ displayName: 'Gone', conditionAbsent: {} })).toThrow(
+        'Only threshold conditions can be backtested',
+      );
+      expect(() =>
+        toBacktestCondition({ displayName: 'Ratio', conditionThreshold: { denominatorFilter: 'x' } }),
+      ).toThrow('uses a ratio or forecast');
+    });
+  });
+
+  describe('evaluateThresholdCondition', () => {
+    it('fires after the duration and resolves when the value recovers', async () => {
+      const { evaluateThresholdCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+
+      const result = evaluateThresholdCondition(
+        // Crosses at minute 1 and recovers at minute 5; a short blip at minute 7 is ignored
+        [createSeries('1', [0.5, 0.9, 0.95, 0.99, 0.9, 0.4, 0.5, 0.9, 0.5])],
+        condition,
+        new Date(START * 1000),
+        new Date((START + 600) * 1000),
+      );
+
+      expect(result.incidents).toEqual([
+        { series: 'instance_id=1', violationStart: at(1), start: at(3), end: at(5), peakValue: 0.99 },
+      ]);
+      expect(result.firings).toEqual([{ start: at(3), end: at(5) }]);
+      expect(result.firingSeconds).toBe(120);
+    });
+
+    it('requires the trigger count of series to fire together', async () => {
+      const { evaluateThresholdCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+
+      const result = evaluateThresholdCondition(
+        [
+          createSeries('1', [0.9, 0.9, 0.9, 0.9, 0.9, 0.1]),
+          createSeries('2', [0.1, 0.1, 0.9, 0.9, 0.9, 0.9]),
+        ],
+        { ...condition, durationSeconds: 0, triggerCount: 2 },
+        new Date(START * 1000),
+        new Date((START + 600) * 1000),
+      );
+
+      expect(result.requiredSeries).toBe(2);
+      expect(result.incidents).toHaveLength(2);
+      expect(result.firings).toEqual([{ start: at(2), end: at(5) }]);
+    });
+
+    it('leaves incidents open when still firing at the end of the window', async () => {
+      const { evaluateThresholdCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+
+      const result = evaluateThresholdCondition(
+        [createSeries('1', [0.1, 0.05, 0.02])],
+        { ...condition, comparison: 'COMPARISON_LT', thresholdValue: 0.2, durationSeconds: 0 },
+        new Date(START * 1000),
+        new Date((START + 300) * 1000),
+      );
+
+      expect(result.incidents[0]).toMatchObject({ start: at(0), end: undefined, peakValue: 0.02 });
+      expect(result.firingSeconds).toBe(300);
+    });
+  });
+
+  describe('backtestThresholdCondition', () => {
+    it('fetches the window with the condition aggregation', async () => {
+      const { backtestThresholdCondition } = await import('../../../../src/services/monitoring/alert-backtest.js');
+      mockMonitoringClient.listTimeSeries.mockResolvedValueOnce([[createSeries('1', [0.1])], {}, {}]);
+      const aggregation = { alignmentPeriod: { seconds: 60 }, perSeriesAligner: 'ALIGN_MEAN' };
+
+      const result = await backtestThresholdCondition(
+        mockMonitoringClient as any,
+        'test-project',
+        { ...condition, aggregation },
+        new Date(START * 1000),
+        new Date((START + 600) * 1000),
+      );
+
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledWith({
+        name: 'projects/test-project',
+        filter: condition.filter,
+        interval: {
+          startTime: { seconds: START, nanos: 0 },
+          endTime: { seconds: START + 600, nanos: 0 },
+        },
+        aggregation,
+      });
+      expect(result.seriesEvaluated).toBe(1);
+      expect(result.firings).toEqual([]);
+    });
+  });
+
+  describe('formatBacktestResult', () => {
+    it('reports firings and series incidents', async () => {
+      const { evaluateThresholdCondition, formatBacktestResult } = await import('../../../../src/services/monitoring/alert-backtest.js');
+      const firing = evaluateThresholdCondition(
+        [createSeries('1', [0.9, 0.9, 0.9, 0.1])],
+        condition,
+        new Date(START * 1000),
+        new Date((START + 600) * 1000),
+      );
+      const quiet = evaluateThresholdCondition([], condition, new Date(START * 1000), new Date((START + 600) * 1000));
+
+      const text = formatBacktestResult(firing);
+      expect(text).toContain('- Threshold: value > 0.8 for 120s');
+      expect(text).toContain('**Would have fired 1 time**, for 1m in total.');
+      expect(text).toContain(`| instance_id=1 | ${at(0)} | ${at(2)} | ${at(3)} | 0.9 |`);
+      expect(formatBacktestResult(quiet)).toContain('**Would not have fired**');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for alert policy building and formatting
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockNotificationChannelClient } from '../../../mocks/google-cloud-mocks.js';
+
+const latencyCondition = {
+  displayName: 'p99 latency above 500ms',
+  threshold: {
+    filter: 'metric.type="loadbalancing.googleapis.com/https/total_latencies"',
+    comparison: 'COMPARISON_GT' as const,
+    thresholdValue: 500,
+    duration: '5m',
+    aggregation: {
+      alignmentPeriod: '60s',
+      perSeriesAligner: 'ALIGN_PERCENTILE_99' as const,
+    },
+  },
+};
+
+describe('Alerting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resource names', () => {
+    it('expands IDs and keeps full names', async () => {
+      const { alertPolicyResourceName, notificationChannelResourceName } = await import('../../../../src/services/monitoring/alerting.js');
+
+      expect(alertPolicyResourceName('test-project', '123')).toBe('projects/test-project/alertPolicies/123');
+      expect(alertPolicyResourceName('test-project', 'projects/other/alertPolicies/9')).toBe('projects/other/alertPolicies/9');
+      expect(notificationChannelResourceName('test-project', '456')).toBe('projects/test-project/notificationChannels/456');
+      expect(() => alertPolicyResourceName('test-project', '../123')).toThrow('Invalid alertPolicies ID');
+    });
+  });
+
+  describe('buildAlertCondition', () => {
+    it('builds threshold conditions with aggregation and duration', async () => {
+      const { buildAlertCondition } = await import('../../../../src/services/monitoring/alerting.js');
+
+      expect(buildAlertCondition(latencyCondition)).toEqual({
+        displayName: 'p99 latency above 500ms',
+        conditionThreshold: {
+          filter: latencyCondition.threshold.filter,
+          aggregations: [{ alignmentPeriod: { seconds: 60 }, perSeriesAligner: 'ALIGN_PERCENTILE_99' }],
+          trigger: undefined,
+          comparison: 'COMPARISON_GT',
+          thresholdValue: 500,
+          duration: { seconds: 300 },
+        },
+      });
+    });
+
+    it('builds absence conditions with a trigger', async () => {
+      const { buildAlertCondition } = await import('../../../../src/services/monitoring/alerting.js');
+
+      const condition = buildAlertCondition({
+        displayName: 'Heartbeat missing',
+        absent: { filter: 'metric.type="custom.googleapis.com/heartbeat"', duration: '10m', triggerPercent: 50 },
+      });
+
+      expect(condition.conditionAbsent).toMatchObject({
+        duration: { seconds: 600 },
+        trigger: { percent: 50 },
+        aggregations: [],
+      });
+    });
+
+    it('requires exactly one condition type and one trigger kind', async () => {
+      const { buildAlertCondition } = await import('../../../../src/services/monitoring/alerting.js');
+
+      expect(() => buildAlertCondition({ displayName: 'Empty' })).toThrow('must set exactly one of threshold or absent');
+      expect(() =>
+        buildAlertCondition({
+          displayName: 'Both triggers',
+          threshold: { ...latencyCondition.threshold, triggerCount: 2, triggerPercent: 10 },
+        }),
+      ).toThrow('sets both triggerCount and triggerPercent');
+    });
+  });
+
+  describe('buildAlertPolicy and applyAlertPolicyChanges', () => {
+    it('builds an enabled OR policy with expanded channel names', async () => {
+      const { buildAlertPolicy } = await import('../../../../src/services/monitoring/alerting.js');
+
+      const policy = buildAlertPolicy(
+        {
+          displayName: 'Checkout latency',
+          documentation: 'See the [runbook](https://example.com/runbook)',
+          severity: 'CRITICAL',
+          notificationChannels: ['456'],
+          conditions: [latencyCondition],
+        },
+        'test-project',
+      );
+
+      expect(policy).toMatchObject({
+        displayName: 'Checkout latency',
+        combiner: 'OR',
+        enabled: { value: true },
+        severity: 'CRITICAL',
+        notificationChannels: ['projects/test-project/notificationChannels/456'],
+        documentation: { content: 'See the [runbook](https://example.com/runbook)', mimeType: 'text/markdown' },
+      });
+      expect(policy.conditions).toHaveLength(1);
+    });
+
+    it('returns the update mask of the changed fields', async () => {
+      const { applyAlertPolicyChanges } = await import('../../../../src/services/monitoring/alerting.js');
+
+      const { policy, updateMask } = applyAlertPolicyChanges(
+        { name: 'projects/test-project/alertPolicies/1', displayName: 'Old', combiner: 'OR' },
+        { displayName: 'New', enabled: false, userLabels: { team: 'payments' } },
+        'test-project',
+      );
+
+      expect(updateMask).toEqual(['display_name', 'enabled', 'user_labels']);
+      expect(policy).toMatchObject({ displayName: 'New', enabled: { value: false }, combiner: 'OR' });
+    });
+
+    it('rejects empty updates and empty condition lists', async () => {
+      const { applyAlertPolicyChanges } = await import('../../../../src/services/monitoring/alerting.js');
+
+      expect(() => applyAlertPolicyChanges({}, {}, 'test-project')).toThrow('No changes were given');
+      expect(() => applyAlertPolicyChanges({}, { conditions: [] }, 'test-project')).toThrow('at least one condition');
+    });
+  });
+
+  describe('fetchNotificationChannels', () => {
+    it('keys channels by name and tolerates failures', async () => {
+      const { fetchNotificationChannels } = await import('../../../../src/services/monitoring/alerting.js');
+      mockNotificationChannelClient.listNotificationChannels.mockResolvedValueOnce([
+        [{ name: 'projects/test-project/notificationChannels/456', displayName: 'On-call', type: 'pagerduty' }],
+      ]);
+
+      const channels = await fetchNotificationChannels(mockNotificationChannelClient as any, 'test-project');
+      expect(channels.get('projects/test-project/notificationChannels/456')?.displayName).toBe('On-call');
+
+      mockNotificationChannelClient.listNotificationChannels.mockRejectedValueOnce(new Error('Permission denied'));
+      expect((await fetchNotificationChannels(mockNotificationChannelClient as any, 'test-project')).size).toBe(0);
+    });
+  });
+
+  describe('formatting', () => {
+    const channels = new Map([
+      ['projects/test-project/notificationChannels/456', { displayName: 'On-call', type: 'pagerduty' }],
+    ]);
+
+    it('lists policies with conditions and channels', async () => {
+      const { buildAlertPolicy, formatAlertPolicies } = await import('../../../../src/services/monitoring/alerting.js');
+      const policy = {
+        ...buildAlertPolicy({ displayName: 'Checkout latency', notificationChannels: ['456'], conditions: [latencyCondition] }, 'test-project'),
+        name: 'projects/test-project/alertPolicies/123',
+      };
+
+      const table = formatAlertPolicies([policy], channels);
+
+      expect(table).toContain('| 123 | Checkout latency | Yes | - | p99 latency above 500ms | On-call (pagerduty) |');
+      expect(formatAlertPolicies([], channels)).toBe('No alert policies found.');
+    });
+
+    it('describes a policy in detail', async () => {
+      const { buildAlertPolicy, formatAlertPolicy } = await import('../../../../src/services/monitoring/alerting.js');
+      const policy = {
+        ...buildAlertPolicy({ displayName: 'Checkout latency', documentation: 'Runbook', conditions: [latencyCondition] }, 'test-project'),
+        name: 'projects/test-project/alertPolicies/123',
+      };
+
+      const text = formatAlertPolicy(policy, channels);
+
+      expect(text).toContain('- **p99 latency above 500ms** (threshold): value > 500 for 300s');
+      expect(text).toContain('  - Aggregation: ALIGN_PERCENTILE_99 every 60s');
+      expect(text).toContain('No notification channels; incidents are not notified.');
+      expect(text).toContain('### Documentation\n\nRunbook');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for time series summaries and anomaly detection
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+
+const START = 1700000000;
+
+function createSeries(values: number[], stepSeconds = 60, start = START) {
+  return {
+    metric: { type: 'custom.googleapis.com/latency', labels: { route: '/checkout' } },
+    resource: { type: 'gce_instance', labels: { zone: 'us-central1-a' } },
+    metricKind: 'GAUGE',
+    valueType: 'DOUBLE',
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: start + index * stepSeconds } },
+      value: { doubleValue: value },
+    })),
+  };
+}
+
+function toPoints(values: number[], start = START) {
+  return values.map((value, index) => ({ time: (start + index * 60) * 1000, value }));
+}
+
+describe('Time series analysis', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractNumericPoints', () => {
+    it('converts value types and sorts by time', async () => {
+      const { extractNumericPoints } = await import('../../../../src/services/monitoring/analysis.js');
+
+      const points = extractNumericPoints({
+        points: [
+          { interval: { endTime: { seconds: 200 } }, value: { int64Value: '5' } },
+          { interval: { endTime: { seconds: 100 } }, value: { boolValue: true } },
+          { interval: { endTime: { seconds: 300 } }, value: { distributionValue: { mean: 2.5 } } },
+          { interval: { endTime: { seconds: 400 } }, value: { stringValue: 'skipped' } },
+        ],
+      });
+
+      expect(points).toEqual([
+        { time: 100000, value: 1 },
+        { time: 200000, value: 5 },
+        { time: 300000, value: 2.5 },
+      ]);
+    });
+  });
+
+  describe('percentile and linearTrend', () => {
+    it('interpolates percentiles', async () => {
+      const { percentile } = await import('../../../../src/services/monitoring/analysis.js');
+
+      expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+      expect(percentile([1, 2, 3, 4], 100)).toBe(4);
+      expect(percentile([], 50)).toBeNaN();
+    });
+
+    it('reports the slope per hour', async () => {
+      const { linearTrend } = await import('../../../../src/services/monitoring/analysis.js');
+
+      // One unit per minute is sixty per hour
+      expect(linearTrend(toPoints([0, 1, 2, 3, 4]))).toBeCloseTo(60);
+      expect(linearTrend(toPoints([7]))).toBe(0);
+    });
+  });
+
+  describe('detectChangePoints', () => {
+    it('finds a step change in the mean', async () => {
+      const { detectChangePoints } = await import('../../../../src/services/monitoring/analysis.js');
+      const values = [
+        ...Array.from({ length: 20 }, (_, i) => 10 + (i % 2)),
+        ...Array.from({ length: 20 }, (_, i) => 50 + (i % 2)),
+      ];
+
+      const changes = detectChangePoints(toPoints(values));
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].time).toBe(new Date((START + 20 * 60) * 1000).toISOString());
+      expect(changes[0].meanBefore).toBeCloseTo(10.5);
+      expect(changes[0].meanAfter).toBeCloseTo(50.5);
+    });
+
+    it('ignores noise around a stable mean', async () => {
+      const { detectChangePoints } = await import('../../../../src/services/monitoring/analysis.js');
+      const values = Array.from({ length: 40 }, (_, i) => 10 + (i % 3));
+
+      expect(detectChangePoints(toPoints(values))).toEqual([]);
+    });
+  });
+
+  describe('detectSeasonalAnomalies', () => {
+    it('flags runs of points far from the same time on previous days', async () => {
+      const { detectSeasonalAnomalies } = await import('../../../../src/services/monitoring/analysis.js');
+      const day = 24 * 60 * 60;
+      const baselines = new Map([
+        [1, toPoints([10, 11, 10, 11, 10], START - day)],
+        [2, toPoints([11, 10, 11, 10, 11], START - 2 * day)],
+        [3, toPoints([10, 10, 10, 11, 10], START - 3 * day)],
+      ]);
+
+      const anomalies = detectSeasonalAnomalies(toPoints([10, 40, 45, 10, 1]), baselines, 3.5);
+
+      expect(anomalies).toHaveLength(2);
+      expect(anomalies[0]).toMatchObject({
+        start: new Date((START + 60) * 1000).toISOString(),
+        end: new Date((START + 120) * 1000).toISOString(),
+        direction: 'above',
+        peakValue: 45,
+        expectedValue: 10,
+      });
+      expect(anomalies[1].direction).toBe('below');
+    });
+
+    it('needs at least three baseline values', async () => {
+      const { detectSeasonalAnomalies } = await import('../../../../src/services/monitoring/analysis.js');
+      const day = 24 * 60 * 60;
+      const baselines = new Map([[1, toPoints([10, 10, 10], START - day)]]);
+
+      expect(detectSeasonalAnomalies(toPoints([10, 100, 10]), baselines, 3.5)).toEqual([]);
+    });
+  });
+
+  describe('summariseTimeSeriesWindow', () => {
+    it('summarises series and matches baselines by labels', async () => {
+      const { summariseTimeSeriesWindow, getTimeSeriesKey } = await import('../../../../src/services/monitoring/analysis.js');
+      const series = createSeries([1, 2, 3, 4, 100]);
+
+      const [summary] = summariseTimeSeriesWindow(
+        [series, { ...createSeries([]), metric: { type: 'empty' } }],
+        new Map([[getTimeSeriesKey(series), new Map()]]),
+        3.5,
+      );
+
+      expect(summary).toMatchObject({
+        metricType: 'custom.googleapis.com/latency',
+        points: 5,
+        min: 1,
+        max: 100,
+        mean: 22,
+        p50: 3,
+        first: 1,
+        last: 100,
+        baselineDays: 0,
+        anomalies: [],
+      });
+      expect(summary.p99).toBeCloseTo(96.16);
+    });
+  });
+
+  describe('fetchSeasonalBaselines', () => {
+    it('queries the same window on each previous day', async () => {
+      const { fetchSeasonalBaselines, getTimeSeriesKey } = await import('../../../../src/services/monitoring/analysis.js');
+      const series = createSeries([10, 11]);
+      mockMonitoringClient.listTimeSeries.mockResolvedValue([[series], {}, {}]);
+
+      const baselines = await fetchSeasonalBaselines(
+        mockMonitoringClient as any,
+        {
+          name: 'projects/test-project',
+          filter: 'metric.type="custom.googleapis.com/latency"',
+          interval: { startTime: { seconds: START }, endTime: { seconds: START + 3600 } },
+        },
+        2,
+      );
+
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledTimes(2);
+      expect(mockMonitoringClient.listTimeSeries.mock.calls[1][0].interval).toEqual({
+        startTime: { seconds: START - 2 * 86400, nanos: 0 },
+        endTime: { seconds: START + 3600 - 2 * 86400, nanos: 0 },
+      });
+      expect([...baselines.get(getTimeSeriesKey(series))!.keys()]).toEqual([1, 2]);
+    });
+
+    it('leaves out days that cannot be fetched', async () => {
+      const { fetchSeasonalBaselines, getTimeSeriesKey } = await import('../../../../src/services/monitoring/analysis.js');
+      const series = createSeries([10, 11]);
+      mockMonitoringClient.listTimeSeries
+        .mockRejectedValueOnce(new Error('Quota exceeded'))
+        .mockResolvedValue([[series], {}, {}]);
+
+      const baselines = await fetchSeasonalBaselines(
+        mockMonitoringClient as any,
+        {
+          name: 'projects/test-project',
+          filter: 'metric.type="custom.googleapis.com/latency"',
+          interval: { startTime: { seconds: START }, endTime: { seconds: START + 3600 } },
+        },
+        3,
+      );
+
+      expect([...baselines.get(getTimeSeriesKey(series))!.keys()]).toEqual([2, 3]);
+    });
+  });
+
+  describe('formatTimeSeriesSummaries', () => {
+    it('renders statistics, change points and anomalies', async () => {
+      const { formatTimeSeriesSummaries } = await import('../../../../src/services/monitoring/analysis.js');
+
+      const formatted = formatTimeSeriesSummaries([
+        {
+          metricType: 'custom.googleapis.com/latency',
+          resourceType: 'gce_instance',
+          resourceLabels: { zone: 'us-central1-a' },
+          metricLabels: {},
+          points: 1440,
+          min: 0.1,
+          max: 2,
+          mean: 0.25,
+          p50: 0.2,
+          p95: 0.9,
+          p99: 1.5,
+          first: 0.2,
+          last: 0.3,
+          slopePerHour: 0.004,
+          changePoints: [{ time: '2023-11-14T22:00:00.000Z', meanBefore: 0.2, meanAfter: 0.8 }],
+          anomalies: [{
+            start: '2023-11-14T22:00:00.000Z',
+            end: '2023-11-14T22:05:00.000Z',
+            direction: 'above',
+            peakValue: 2,
+            expectedValue: 0.2,
+            score: 12.5,
+          }],
+          baselineDays: 7,
+        },
+      ]);
+
+      expect(formatted).toContain('## Metric: custom.googleapis.com/latency');
+      expect(formatted).toContain('- Trend: +0.004000 per hour');
+      expect(formatted).toContain('| 1440 | 0.1000 | 2 | 0.2500 | 0.2000 | 0.9000 | 1.500 |');
+      expect(formatted).toContain('- 2023-11-14T22:00:00.000Z: mean 0.2000 → 0.8000');
+      expect(formatted).toContain('**Anomalies** (against a 7-day baseline):');
+      expect(formatted).toContain('to 2023-11-14T22:05:00.000Z: above baseline, peak 2 vs expected 0.2000');
+      expect(formatTimeSeriesSummaries([])).toBe('No numeric time series data found.');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for metric charts
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { inflateSync } from 'zlib';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const start = Date.parse('2024-05-01T10:00:00Z');
+const end = start + 60 * 60_000;
+
+function points(values: number[]) {
+  return values.map((value, index) => ({ time: start + index * 10 * 60_000, value }));
+}
+
+function timeSeries(zone: string, values: number[]) {
+  return {
+    metric: { type: 'compute.googleapis.com/instance/cpu/utilization', labels: { instance_name: 'web' } },
+    resource: { type: 'gce_instance', labels: { zone } },
+    // Points are newest first, as the API returns them
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: end / 1000 - index * 600 } },
+      value: { doubleValue: value },
+    })),
+  };
+}
+
+/**
+ * Reads the size and the colour of every pixel from a PNG written by the raster
+ */
+function decodePng(png: Buffer) {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatLength = png.readUInt32BE(33);
+  const scanlines = inflateSync(png.subarray(41, 41 + idatLength));
+  const colours = new Set<string>();
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const offset = row * (width * 3 + 1) + 1 + column * 3;
+      colours.add(scanlines.subarray(offset, offset + 3).toString('hex'));
+    }
+  }
+  return { width, height, colours };
+}
+
+describe('Metric charts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('timeSeriesToChartSeries', () => {
+    it('labels series by the labels that differ between them', async () => {
+      const { timeSeriesToChartSeries } = await import('../../../../src/services/monitoring/chart.js');
+
+      const series = timeSeriesToChartSeries([
+        timeSeries('us-central1-a', [0.4, 0.3]),
+        timeSeries('europe-west1-b', [0.2]),
+      ] as any);
+
+      expect(series.map((item) => item.label)).toEqual(['zone=us-central1-a', 'zone=europe-west1-b']);
+      expect(series[0].points).toEqual([
+        { time: end - 600_000, value: 0.3 },
+        { time: end, value: 0.4 },
+      ]);
+
+      const [single] = timeSeriesToChartSeries([timeSeries('us-central1-a', [0.4])] as any);
+      expect(single.label).toBe('compute.googleapis.com/instance/cpu/utilization');
+    });
+  });
+
+  describe('renderChartSvg', () => {
+    it('draws a line per series with a legend, axes and annotations', async () => {
+      const { renderChartSvg } = await import('../../../../src/services/monitoring/chart.js');
+
+      const svg = renderChartSvg(
+        [
+          { label: 'zone=us-central1-a', points: points([0.2, 0.4, 0.3, 0.5]) },
+          { label: 'zone=<europe>', points: points([0.1, 0.1, 0.2, 0.2]) },
+        ],
+        {
+          title: 'compute.googleapis.com/instance/cpu/utilization',
+          start,
+          end,
+          annotations: [{ time: start + 20 * 60_000, label: 'deploy v42' }],
+        },
+      );
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="800"')).toBe(true);
+      expect(svg.match(/<polyline /g)).toHaveLength(2);
+      expect(svg).toContain('stroke="#1f77b4"');
+      expect(svg).toContain('stroke="#ff7f0e"');
+      expect(svg).toContain('>zone=&lt;europe&gt;</text>');
+      expect(svg).toContain('stroke-dasharray="4 3"');
+      expect(svg).toContain('>deploy v42</text>');
+      expect(svg).toContain('>10:00</text>');
+      expect(svg).toContain('>Time (UTC)</text>');
+    });
+
+    it('breaks lines where points are missing', async () => {
+      const { renderChartSvg } = await import('../../../../src/services/monitoring/chart.js');
+
+      const gappy = points([0.2, 0.4, 0.3, 0.5, 0.4, 0.6, 0.2, 0.3]).filter((_, index) => index < 3 || index > 4);
+      const svg = renderChartSvg([{ label: 'cpu', points: gappy }], { title: 'cpu', start, end: start + 70 * 60_000 });
+
+      expect(svg.match(/<polyline /g)).toHaveLength(2);
+    });
+  });
+
+  describe('renderChartPng', () => {
+    it('encodes a PNG with the series drawn in their colours', async () => {
+      const { renderChartPng } = await import('../../../../src/services/monitoring/chart.js');
+
+      const png = renderChartPng(
+        [
+          { label: 'a', points: points([0.2, 0.4, 0.3, 0.5]) },
+          { label: 'b', points: points([0.1, 0.1, 0.2, 0.2]) },
+        ],
+        { title: 'cpu', start, end, width: 400, height: 240 },
+      );
+
+      expect(png.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+      expect(png.subarray(12, 16).toString('ascii')).toBe('IHDR');
+      const { width, height, colours } = decodePng(png);
+      expect(width).toBe(400);
+      expect(height).toBeGreaterThanOrEqual(240);
+      expect(colours).toContain('1f77b4');
+      expect(colours).toContain('ff7f0e');
+      expect(colours).not.toContain('2ca02c');
+    });
+  });
+
+  describe('selectChartSeries', () => {
+    it('keeps the series with the highest peaks and notes the rest', async () => {
+      const { selectChartSeries, formatChartSummary, CHART_MAX_SERIES } = await import(
+        '../../../../src/services/monitoring/chart.js'
+      );
+
+      const all = Array.from({ length: 12 }, (_, index) => ({
+        label: `series-${index}`,
+        points: points([index, index * 2]),
+      }));
+      const { series, omitted } = selectChartSeries(all);
+
+      expect(series).toHaveLength(CHART_MAX_SERIES);
+      expect(series[0].label).toBe('series-11');
+      expect(series.map((item) => item.label)).not.toContain('series-0');
+      expect(omitted).toBe(2);
+
+      const text = formatChartSummary(series, omitted);
+      expect(text).toContain('| series-11 | blue | 2 | 11 | 22 | 16.50 | 22 | +66 |');
+      expect(text).toContain('2 more series were left out');
+    });
+  });
+
+  describe('query-metrics tool', () => {
+    it('returns a chart image with a compact summary', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockMonitoringClient.listTimeSeries.mockResolvedValue([
+        [timeSeries('us-central1-a', [0.4, 0.3, 0.5]), timeSeries('europe-west1-b', [0.2, 0.25, 0.2])],
+        {},
+        {},
+      ]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-metrics'
+      );
+      const result = await toolCall![2]({
+        filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+        startTime: '2024-05-01T10:00:00Z',
+        endTime: '2024-05-01T11:00:00Z',
+        outputMode: 'points',
+        render: 'png',
+        annotations: [{ time: '2024-05-01T10:30:00Z', label: 'deploy v42' }],
+      });
+
+      expect(result.content).toHaveLength(2);
+      expect(result.content[0]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+      expect(Buffer.from(result.content[0].data, 'base64').subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(result.content[1].type).toBe('text');
+      expect(result.content[1].text).toContain('| zone=us-central1-a | blue | 3 |');
+      expect(result.content[1].text).not.toContain('## Metric:');
+    });
+  });
+});
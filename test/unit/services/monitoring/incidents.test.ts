@@ -0,0 +1,246 @@
+/**
+ * Tests for alert incident history
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import {
+  mockAlertPolicyClient,
+  mockMonitoringClient,
+} from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const mockIncidentsAuth = {
+  getClient: vi.fn().mockResolvedValue({
+    getAccessToken: vi.fn().mockResolvedValue({ token: 'mock-token' })
+  }),
+};
+
+vi.mock('../../../../src/utils/auth.js', () => ({
+  initGoogleAuth: vi.fn().mockResolvedValue(mockIncidentsAuth),
+  getProjectId: vi.fn().mockResolvedValue('test-project'),
+}));
+
+global.fetch = vi.fn();
+const mockFetch = fetch as any;
+
+const openIncident = {
+  name: 'projects/test-project/alerts/a1',
+  state: 'OPEN',
+  openTime: '2024-01-01T12:00:00Z',
+  resource: { type: 'gce_instance', labels: { instance_id: '42', zone: 'us-central1-a' } },
+  metric: { type: 'compute.googleapis.com/instance/cpu/utilization', labels: {} },
+  policy: { name: 'projects/test-project/alertPolicies/p1', displayName: 'High CPU', severity: 'CRITICAL' },
+};
+
+const closedIncident = {
+  ...openIncident,
+  name: 'projects/test-project/alerts/a0',
+  state: 'CLOSED',
+  openTime: '2024-01-01T08:00:00Z',
+  closeTime: '2024-01-01T09:00:00Z',
+};
+
+const cpuPolicy = {
+  name: 'projects/test-project/alertPolicies/p1',
+  displayName: 'High CPU',
+  conditions: [
+    {
+      displayName: 'CPU above 80%',
+      conditionThreshold: {
+        filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+        comparison: 'COMPARISON_GT',
+        thresholdValue: 0.8,
+        duration: { seconds: 300 },
+        aggregations: [{ alignmentPeriod: { seconds: 60 }, perSeriesAligner: 'ALIGN_MEAN' }],
+      },
+    },
+    {
+      displayName: 'Disk reads',
+      conditionThreshold: {
+        filter: 'metric.type="compute.googleapis.com/instance/disk/read_ops_count"',
+        comparison: 'COMPARISON_GT',
+        thresholdValue: 100,
+      },
+    },
+  ],
+};
+
+function mockJsonResponse(body: unknown, ok = true, status = 200) {
+  return {
+    ok,
+    status,
+    statusText: ok ? 'OK' : 'Not Found',
+    json: vi.fn().mockResolvedValue(body),
+  };
+}
+
+function cpuSeries(values: number[]) {
+  const openSeconds = Date.parse(openIncident.openTime) / 1000;
+  return {
+    metric: openIncident.metric,
+    resource: openIncident.resource,
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: openSeconds - (values.length - 1 - index) * 60 } },
+      value: { doubleValue: value },
+    })),
+  };
+}
+
+describe('Incidents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockImplementation(async (url: string) => {
+      const filter = new URL(url).searchParams.get('filter') ?? '';
+      return mockJsonResponse({
+        alerts: filter.startsWith('state = "OPEN"') ? [openIncident] : [closedIncident],
+      });
+    });
+    mockAlertPolicyClient.getAlertPolicy.mockResolvedValue([cpuPolicy]);
+    mockMonitoringClient.listTimeSeries.mockResolvedValue([[cpuSeries([0.5, 0.85, 0.9])], {}, {}]);
+  });
+
+  describe('listAlertIncidents', () => {
+    it('requests open and recently closed incidents separately', async () => {
+      const { listAlertIncidents } = await import('../../../../src/services/monitoring/incidents.js');
+
+      const { incidents, truncated } = await listAlertIncidents('test-project', {
+        state: 'all',
+        since: new Date('2024-01-01T00:00:00Z'),
+        maxIncidents: 10,
+      });
+
+      expect(incidents.map((incident) => incident.name)).toEqual([openIncident.name, closedIncident.name]);
+      expect(truncated).toBe(false);
+
+      const urls = mockFetch.mock.calls.map((call: any[]) => new URL(call[0]));
+      expect(urls[0].pathname).toBe('/v3/projects/test-project/alerts');
+      expect(urls.map((url: URL) => url.searchParams.get('filter'))).toEqual([
+        'state = "OPEN"',
+        'state = "CLOSED" AND close_time >= "2024-01-01T00:00:00.000Z"',
+      ]);
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer mock-token');
+    });
+
+    it('keeps only incidents of the requested policy', async () => {
+      const { listAlertIncidents } = await import('../../../../src/services/monitoring/incidents.js');
+
+      const { incidents } = await listAlertIncidents('test-project', {
+        state: 'open',
+        since: new Date('2024-01-01T00:00:00Z'),
+        policy: 'p2',
+        maxIncidents: 10,
+      });
+
+      expect(incidents).toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports API errors', async () => {
+      const { listAlertIncidents } = await import('../../../../src/services/monitoring/incidents.js');
+      mockFetch.mockResolvedValue(
+        mockJsonResponse({ error: { message: 'Permission denied', status: 'PERMISSION_DENIED' } }, false, 403),
+      );
+
+      await expect(
+        listAlertIncidents('test-project', { state: 'open', since: new Date(), maxIncidents: 10 }),
+      ).rejects.toMatchObject({ message: 'Alerts API request failed: Permission denied', statusCode: 403 });
+    });
+  });
+
+  describe('findIncidentCondition', () => {
+    it('matches the condition on the incident metric type', async () => {
+      const { findIncidentCondition } = await import('../../../../src/services/monitoring/incidents.js');
+
+      expect(findIncidentCondition(cpuPolicy as any, openIncident as any)?.displayName).toBe('CPU above 80%');
+      expect(
+        findIncidentCondition(cpuPolicy as any, { ...openIncident, metric: { type: 'other' } } as any),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('buildIncidentSeriesFilter', () => {
+    it('selects the incident series by metric and resource labels', async () => {
+      const { buildIncidentSeriesFilter } = await import('../../../../src/services/monitoring/incidents.js');
+
+      expect(buildIncidentSeriesFilter(openIncident as any)).toBe(
+        'metric.type = "compute.googleapis.com/instance/cpu/utilization" AND resource.type = "gce_instance" AND resource.labels.instance_id = "42" AND resource.labels.zone = "us-central1-a"',
+      );
+      expect(buildIncidentSeriesFilter({ name: 'x' })).toBeUndefined();
+    });
+  });
+
+  describe('getIncidentDetails', () => {
+    it('adds the condition and the values that opened each incident', async () => {
+      const { getIncidentDetails, formatIncidents } = await import('../../../../src/services/monitoring/incidents.js');
+
+      const details = await getIncidentDetails([openIncident, closedIncident] as any, 'test-project', {
+        alertPolicy: mockAlertPolicyClient as any,
+        monitoring: mockMonitoringClient as any,
+      });
+
+      expect(mockAlertPolicyClient.getAlertPolicy).toHaveBeenCalledTimes(1);
+      expect(details[0].values.map((point) => point.value)).toEqual([0.5, 0.85, 0.9]);
+      const request = mockMonitoringClient.listTimeSeries.mock.calls[0][0];
+      expect(request.aggregation).toEqual(cpuPolicy.conditions[0].conditionThreshold.aggregations[0]);
+      expect(request.interval.startTime.seconds).toBe(Date.parse(openIncident.openTime) / 1000 - 600);
+
+      const text = formatIncidents(details);
+      expect(text).toContain('Open: 1, Closed: 1');
+      expect(text).toContain('## High CPU (open)');
+      expect(text).toContain('**CPU above 80%** (threshold): value > 0.8 for 300s');
+      expect(text).toContain('| 2024-01-01T12:00:00.000Z | 0.9 |');
+      expect(text).toContain('- **Closed:** 2024-01-01T09:00:00Z');
+    });
+
+    it('still lists incidents whose details cannot be fetched', async () => {
+      const { getIncidentDetails, formatIncidentDetails } = await import('../../../../src/services/monitoring/incidents.js');
+      mockAlertPolicyClient.getAlertPolicy.mockRejectedValue(new Error('Not found'));
+      mockMonitoringClient.listTimeSeries.mockRejectedValue(new Error('Bad filter'));
+
+      const [details] = await getIncidentDetails([openIncident] as any, 'test-project', {
+        alertPolicy: mockAlertPolicyClient as any,
+        monitoring: mockMonitoringClient as any,
+      });
+
+      expect(details.condition).toBeUndefined();
+      expect(formatIncidentDetails(details)).toContain('could not be determined');
+      expect(formatIncidentDetails(details)).toContain('No metric values were found');
+    });
+  });
+
+  describe('findAlertIncidents', () => {
+    it('falls back to the incidents of a policy when no incident has the ID', async () => {
+      const { findAlertIncidents } = await import('../../../../src/services/monitoring/incidents.js');
+      mockFetch.mockImplementation(async (url: string) =>
+        url.includes('/alerts/p1')
+          ? mockJsonResponse({ error: { message: 'Not found', status: 'NOT_FOUND' } }, false, 404)
+          : mockJsonResponse({ alerts: [openIncident] }),
+      );
+
+      const incidents = await findAlertIncidents('test-project', 'p1', new Date('2024-01-01T00:00:00Z'), 5);
+
+      expect(incidents.map((incident) => incident.name)).toEqual([openIncident.name, openIncident.name]);
+    });
+  });
+
+  describe('gcp-monitoring-list-incidents tool', () => {
+    it('lists incidents with their details', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-list-incidents'
+      );
+      const result = await toolCall![2]({ state: 'open', since: '24h', maxIncidents: 20 });
+
+      expect(result.content[0].text).toContain('# Alert Incidents');
+      expect(result.content[0].text).toContain('State: open');
+      expect(result.content[0].text).not.toContain('Closed Since');
+      expect(result.content[0].text).toContain('## High CPU (open)');
+    });
+  });
+});
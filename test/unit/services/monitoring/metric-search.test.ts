@@ -0,0 +1,248 @@
+/**
+ * Tests for ranked metric search
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+function metric(type: string, displayName: string, description: string, resources: string[], labels: string[] = []) {
+  return {
+    type,
+    displayName,
+    description,
+    kind: 'GAUGE',
+    valueType: 'DOUBLE',
+    unit: '1',
+    monitoredResources: resources,
+    labels: labels.map((name) => ({ name, description: '' })),
+    source: 'gcp',
+  };
+}
+
+const catalogue = [
+  metric(
+    'spanner.googleapis.com/instance/cpu/utilization',
+    'CPU utilization',
+    'Percent utilization of CPU in the instance, across all nodes.',
+    ['spanner_instance'],
+    ['database', 'priority'],
+  ),
+  metric(
+    'spanner.googleapis.com/instance/cpu/utilization_by_priority',
+    'CPU utilization by priority',
+    'Percent utilization of CPU in the instance, by priority, across all nodes.',
+    ['spanner_instance'],
+    ['database', 'priority', 'is_system'],
+  ),
+  metric(
+    'spanner.googleapis.com/instance/storage/used_bytes',
+    'Storage used',
+    'Storage used in bytes.',
+    ['spanner_instance'],
+    ['database'],
+  ),
+  metric(
+    'compute.googleapis.com/instance/cpu/utilization',
+    'CPU utilization',
+    'Fractional utilization of allocated CPU on this instance.',
+    ['gce_instance'],
+    ['instance_name'],
+  ),
+  metric(
+    'compute.googleapis.com/instance/disk/read_bytes_count',
+    'Disk read bytes',
+    'Count of bytes read from disk.',
+    ['gce_instance'],
+    ['device_name'],
+  ),
+  metric(
+    'loadbalancing.googleapis.com/https/request_count',
+    'Request count',
+    'The number of requests served by the load balancer.',
+    ['https_lb_rule'],
+    ['response_code'],
+  ),
+  metric(
+    'loadbalancing.googleapis.com/https/total_latencies',
+    'Total latency',
+    'A distribution of the latency of requests served by the load balancer, until the last response byte.',
+    ['https_lb_rule'],
+    ['response_code'],
+  ),
+];
+
+describe('metric search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('tokeniseMetricText', () => {
+    it('splits metric types and drops stop words', async () => {
+      const { tokeniseMetricText } = await import('../../../../src/services/monitoring/metric-search.js');
+
+      expect(tokeniseMetricText('How busy are my compute.googleapis.com/instance/cpu/utilization nodes?')).toEqual([
+        'busy',
+        'compute',
+        'instance',
+        'cpu',
+        'utilization',
+        'node',
+      ]);
+    });
+  });
+
+  describe('MetricSearchIndex', () => {
+    it('ranks metrics described in other words', async () => {
+      const { MetricSearchIndex, METRIC_SEARCH_MIN_CONFIDENCE } = await import(
+        '../../../../src/services/monitoring/metric-search.js'
+      );
+      const index = new MetricSearchIndex(catalogue);
+
+      const [best, next] = index.search('how busy are my spanner nodes');
+
+      expect(best.metric.type).toBe('spanner.googleapis.com/instance/cpu/utilization');
+      expect(best.coverage).toBe(1);
+      expect(best.confidence).toBeGreaterThanOrEqual(METRIC_SEARCH_MIN_CONFIDENCE);
+      expect(next.confidence).toBeLessThan(best.confidence);
+
+      expect(index.search('slow responses from the load balancer')[0].metric.type).toBe(
+        'loadbalancing.googleapis.com/https/total_latencies',
+      );
+    });
+
+    it('is not made less confident by variants of the best match', async () => {
+      const { MetricSearchIndex, METRIC_SEARCH_MIN_CONFIDENCE } = await import(
+        '../../../../src/services/monitoring/metric-search.js'
+      );
+      const index = new MetricSearchIndex(catalogue);
+
+      const [best, next] = index.search('spanner cpu utilization');
+
+      expect(best.metric.type).toBe('spanner.googleapis.com/instance/cpu/utilization');
+      expect(next.metric.type).toBe('spanner.googleapis.com/instance/cpu/utilization_by_priority');
+      expect(best.confidence).toBeGreaterThanOrEqual(METRIC_SEARCH_MIN_CONFIDENCE);
+      expect(next.confidence).toBeLessThan(best.confidence);
+
+      expect(index.search('spanner cpu utilization by priority')[0].metric.type).toBe(
+        'spanner.googleapis.com/instance/cpu/utilization_by_priority',
+      );
+      const [byType] = index.search('compute.googleapis.com/instance/cpu/utilization');
+      expect(byType.metric.type).toBe('compute.googleapis.com/instance/cpu/utilization');
+      expect(byType.confidence).toBeGreaterThanOrEqual(METRIC_SEARCH_MIN_CONFIDENCE);
+    });
+
+    it('names metrics through synonyms and ignores label values', async () => {
+      const { MetricSearchIndex, METRIC_SEARCH_MIN_CONFIDENCE } = await import(
+        '../../../../src/services/monitoring/metric-search.js'
+      );
+      const index = new MetricSearchIndex([
+        ...catalogue,
+        metric(
+          'spanner.googleapis.com/instance/cpu/smoothed_utilization',
+          'Smoothed CPU utilization',
+          '24-hour smoothed utilization of CPU in the instance, across all nodes.',
+          ['spanner_instance'],
+          ['database'],
+        ),
+      ]);
+
+      for (const query of ['how busy are my spanner nodes', 'how busy are my spanner nodes where database is orders']) {
+        const [best] = index.search(query);
+
+        expect(best.metric.type).toBe('spanner.googleapis.com/instance/cpu/utilization');
+        expect(best.coverage).toBe(1);
+        expect(best.confidence).toBeGreaterThanOrEqual(METRIC_SEARCH_MIN_CONFIDENCE);
+      }
+    });
+
+    it('has low confidence when the query fits several metrics equally', async () => {
+      const { MetricSearchIndex, METRIC_SEARCH_MIN_CONFIDENCE } = await import(
+        '../../../../src/services/monitoring/metric-search.js'
+      );
+      const index = new MetricSearchIndex(catalogue);
+
+      const candidates = index.search('cpu utilization');
+
+      expect(candidates.map((candidate) => candidate.metric.type).slice(0, 2).sort()).toEqual([
+        'compute.googleapis.com/instance/cpu/utilization',
+        'spanner.googleapis.com/instance/cpu/utilization',
+      ]);
+      expect(candidates[0].confidence).toBeLessThan(METRIC_SEARCH_MIN_CONFIDENCE);
+    });
+
+    it('applies the filter and finds nothing for unrelated queries', async () => {
+      const { MetricSearchIndex } = await import('../../../../src/services/monitoring/metric-search.js');
+      const index = new MetricSearchIndex(catalogue);
+
+      expect(
+        index
+          .search('cpu utilization', 5, new Set(catalogue.filter((m) => m.monitoredResources.includes('gce_instance'))))
+          .map((c) => c.metric.type),
+      ).toEqual(['compute.googleapis.com/instance/cpu/utilization']);
+      expect(index.search('the of and')).toEqual([]);
+      expect(index.search('kafka partitions')).toEqual([]);
+    });
+  });
+
+  describe('gcp-monitoring-query-natural-language tool', () => {
+    async function callTool(query: string) {
+      const { metricsLookup } = await import('../../../../src/services/monitoring/metrics_lookup.js');
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockMonitoringClient.listMetricDescriptors.mockResolvedValue([
+        catalogue.map((m) => ({
+          type: m.type,
+          displayName: m.displayName,
+          description: m.description,
+          metricKind: m.kind,
+          valueType: m.valueType,
+          monitoredResourceTypes: m.monitoredResources,
+          labels: m.labels.map((label) => ({ key: label.name })),
+        })),
+        null,
+        {},
+      ]);
+      mockMonitoringClient.listTimeSeries.mockResolvedValue([[], {}, {}]);
+      await metricsLookup.initialize();
+      await metricsLookup.loadProjectMetrics('test-project-env', mockMonitoringClient as any, true);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-natural-language'
+      );
+      return (await toolCall![2]({ query })).content[0].text;
+    }
+
+    it('queries the best match and reports its confidence', async () => {
+      const text = await callTool('how busy are my spanner nodes where database is orders');
+
+      expect(text).toMatch(/Matched Metric: spanner\.googleapis\.com\/instance\/cpu\/utilization \(confidence \d+%\)/);
+      expect(text).toContain(
+        'Generated Filter: metric.type="spanner.googleapis.com/instance/cpu/utilization" AND metric.labels.database="orders"',
+      );
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers queries about a metric that has variants', async () => {
+      for (const query of ['how busy are my spanner nodes', 'spanner cpu utilization']) {
+        const text = await callTool(query);
+
+        expect(text).toMatch(/Matched Metric: spanner\.googleapis\.com\/instance\/cpu\/utilization \(confidence \d+%\)/);
+        expect(text).not.toContain('Which Metric?');
+      }
+    });
+
+    it('asks which metric was meant when confidence is low', async () => {
+      const text = await callTool('cpu utilization');
+
+      expect(text).toContain('# Natural Language Query: Which Metric?');
+      expect(text).toContain('| compute.googleapis.com/instance/cpu/utilization | CPU utilization |');
+      expect(text).toContain('`metric.type="spanner.googleapis.com/instance/cpu/utilization"`');
+      expect(mockMonitoringClient.listTimeSeries).not.toHaveBeenCalled();
+    });
+  });
+});
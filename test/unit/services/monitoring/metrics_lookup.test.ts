@@ -0,0 +1,188 @@
+/**
+ * Tests for the metric catalogue
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const descriptors = [
+  {
+    type: 'custom.googleapis.com/checkout/orders',
+    displayName: 'Checkout orders',
+    description: 'Orders placed through checkout',
+    metricKind: 'CUMULATIVE',
+    valueType: 'INT64',
+    unit: '1',
+    monitoredResourceTypes: ['k8s_container'],
+    labels: [{ key: 'payment_method', description: 'How the order was paid' }],
+  },
+  {
+    type: 'logging.googleapis.com/user/checkout_errors',
+    displayName: 'Checkout errors',
+    description: 'Errors logged by checkout',
+    metricKind: 'DELTA',
+    valueType: 'INT64',
+    monitoredResourceTypes: ['k8s_container', 'gce_instance'],
+    labels: [{ key: 'response_code' }],
+  },
+];
+
+describe('MetricsLookup', () => {
+  const originalCatalogueDir = process.env.METRIC_CATALOGUE_DIR;
+  let catalogueDir: string;
+  let tempDirs: string[] = [];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    catalogueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metric-catalogue-test-'));
+    tempDirs = [catalogueDir];
+    process.env.METRIC_CATALOGUE_DIR = catalogueDir;
+    delete process.env.METRIC_CATALOGUE_TTL_SECONDS;
+    mockMonitoringClient.listMetricDescriptors.mockResolvedValue([descriptors, null, {}]);
+  });
+
+  afterEach(() => {
+    process.env.METRIC_CATALOGUE_DIR = originalCatalogueDir;
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  async function createLookup() {
+    const { MetricsLookup } = await import('../../../../src/services/monitoring/metrics_lookup.js');
+    const docsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metric-docs-test-'));
+    tempDirs.push(docsDir);
+    fs.writeFileSync(
+      path.join(docsDir, 'metrics_kubernetes.md'),
+      [
+        '# Kubernetes metrics',
+        'The "metric type" strings in this table must be prefixed with `kubernetes.io/`.',
+        // The documentation separates columns with non-breaking spaces
+        '* Metric\u00a0type Launch stage\u2003(Resource hierarchy levels)Display\u00a0name:      container/cpu/core_usage_time      GA      (project)      CPU usage time    ',
+        '* Metric\u00a0type Launch stage\u2003(Resource hierarchy levels)Display\u00a0name:      CUMULATIVE,\u00a0DOUBLE,\u00a0s{CPU}      k8s_container    ',
+        '  *      Cumulative CPU usage on all cores used by the container in seconds.    ',
+        '* Metric\u00a0type Launch stage\u2003(Resource hierarchy levels)Display\u00a0name:      container/memory/used_bytes      GA      (project)      Memory usage    ',
+        '* Metric\u00a0type Launch stage\u2003(Resource hierarchy levels)Display\u00a0name:      GAUGE,\u00a0INT64,\u00a0By      k8s_container    ',
+        '  *      Memory usage in bytes.      memory_type:      Either `evictable` or `non-evictable`.    ',
+      ].join('\n'),
+    );
+    const lookup = new MetricsLookup(docsDir);
+    await lookup.initialize();
+    return lookup;
+  }
+
+  describe('initialize', () => {
+    it('parses the bundled metric documentation', async () => {
+      const { MetricsLookup } = await import('../../../../src/services/monitoring/metrics_lookup.js');
+      const lookup = new MetricsLookup(path.join(__dirname, '../../../../src/services/monitoring'));
+
+      await lookup.initialize();
+
+      expect(lookup.getMetricByType('spanner.googleapis.com/instance/cpu/utilization')).toMatchObject({
+        displayName: 'CPU utilization',
+        kind: 'GAUGE',
+        valueType: 'DOUBLE',
+        unit: '10^2.%',
+        monitoredResources: ['spanner_instance'],
+        labels: [{ name: 'database', description: 'Target database.' }],
+        source: 'gcp',
+      });
+      expect(lookup.getMetricByType('kubernetes.io/container/cpu/core_usage_time')?.source).toBe('kubernetes');
+      expect(lookup.getMetricByType('kubernetes.io/nginx/connections_accepted')).toBeDefined();
+      expect(lookup.getMetricByType('istio.io/service/server/request_count')?.source).toBe('istio');
+    });
+
+    it('reads labels and descriptions from the documentation', async () => {
+      const lookup = await createLookup();
+
+      expect(lookup.getMetricByType('kubernetes.io/container/memory/used_bytes')).toMatchObject({
+        description: 'Memory usage in bytes.',
+        kind: 'GAUGE',
+        valueType: 'INT64',
+        unit: 'By',
+        monitoredResources: ['k8s_container'],
+        labels: [{ name: 'memory_type', description: 'Either `evictable` or `non-evictable`.' }],
+      });
+    });
+  });
+
+  describe('loadProjectMetrics', () => {
+    it('merges project descriptors with the documented metrics', async () => {
+      const lookup = await createLookup();
+      mockMonitoringClient.listMetricDescriptors.mockResolvedValue([
+        [...descriptors, { type: 'kubernetes.io/container/cpu/core_usage_time', metricKind: 'CUMULATIVE', labels: [] }],
+        null,
+        {},
+      ]);
+
+      const result = await lookup.loadProjectMetrics('test-project', mockMonitoringClient as any);
+
+      expect(result).toEqual({ count: 3, cached: false });
+      expect(mockMonitoringClient.listMetricDescriptors).toHaveBeenCalledWith({ name: 'projects/test-project' });
+      expect(lookup.getMetricByType('custom.googleapis.com/checkout/orders')).toMatchObject({
+        kind: 'CUMULATIVE',
+        monitoredResources: ['k8s_container'],
+        labels: [{ name: 'payment_method', description: 'How the order was paid' }],
+        source: 'project',
+      });
+      expect(lookup.getMetricByType('kubernetes.io/container/cpu/core_usage_time')?.source).toBe('kubernetes');
+      expect(lookup.getMetricByType('kubernetes.io/container/memory/used_bytes')?.source).toBe('kubernetes');
+      expect(lookup.suggestFilter('checkout orders')).toBe('metric.type="custom.googleapis.com/checkout/orders"');
+    });
+
+    it('reuses the disk cache until the TTL passes', async () => {
+      await (await createLookup()).loadProjectMetrics('test-project', mockMonitoringClient as any);
+      const cache = JSON.parse(fs.readFileSync(path.join(catalogueDir, 'test-project.json'), 'utf-8'));
+      expect(cache.metrics).toHaveLength(2);
+
+      const fresh = await createLookup();
+      expect(await fresh.loadProjectMetrics('test-project', mockMonitoringClient as any)).toEqual({ count: 2, cached: true });
+      expect(mockMonitoringClient.listMetricDescriptors).toHaveBeenCalledTimes(1);
+
+      process.env.METRIC_CATALOGUE_TTL_SECONDS = '0';
+      const expired = await createLookup();
+      expect(await expired.loadProjectMetrics('test-project', mockMonitoringClient as any)).toEqual({ count: 2, cached: false });
+      expect(mockMonitoringClient.listMetricDescriptors).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('searchMetrics', () => {
+    it('filters by resource type and label', async () => {
+      const lookup = await createLookup();
+      await lookup.loadProjectMetrics('test-project', mockMonitoringClient as any);
+
+      expect(lookup.searchMetrics({ resourceType: 'gce_instance', label: 'response_code' }).map((m) => m.type)).toEqual([
+        'logging.googleapis.com/user/checkout_errors',
+      ]);
+      expect(
+        lookup.searchMetrics({ query: 'checkout', resourceType: 'k8s_container', category: 'project' as any }).map((m) => m.type),
+      ).toEqual(expect.arrayContaining(descriptors.map((d) => d.type)));
+      expect(lookup.searchMetrics({ label: 'no_such_label' })).toEqual([]);
+    });
+  });
+
+  describe('gcp-monitoring-search-metrics tool', () => {
+    it('searches the project catalogue', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-search-metrics'
+      );
+      const result = await toolCall![2]({ label: 'payment_method', limit: 20, refresh: false });
+
+      expect(result.content[0].text).toContain('(2 metric descriptors)');
+      expect(result.content[0].text).toContain(
+        '| custom.googleapis.com/checkout/orders | CUMULATIVE | INT64 | 1 | k8s_container | payment_method | project |',
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for MQL query execution and formatting
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { mockQueryClient } from '../../../mocks/google-cloud-mocks.js';
+
+const descriptor = {
+  labelDescriptors: [{ key: 'resource.zone' }, { key: 'metric.response_code' }],
+  pointDescriptors: [
+    { key: 'value.request_count', metricKind: 'DELTA', valueType: 'INT64', unit: '1' },
+    { key: 'value.latency_mean', metricKind: 'GAUGE', valueType: 'DOUBLE' },
+  ],
+};
+
+function createRow(zone: string, count: number) {
+  return {
+    labelValues: [{ stringValue: zone }, { int64Value: '200' }],
+    pointData: [
+      {
+        values: [{ int64Value: String(count) }, { doubleValue: 0.25 }],
+        timeInterval: { endTime: { seconds: 1700000000 } },
+      },
+    ],
+  };
+}
+
+describe('MQL', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('queryMql', () => {
+    it('follows pages and keeps the descriptor of the first page', async () => {
+      const { queryMql } = await import('../../../../src/services/monitoring/mql.js');
+      mockQueryClient.queryTimeSeries
+        .mockResolvedValueOnce([
+          [createRow('us-central1-a', 10)],
+          null,
+          { timeSeriesDescriptor: descriptor, nextPageToken: 'page-2' },
+        ])
+        .mockResolvedValueOnce([
+          [createRow('us-central1-b', 20)],
+          null,
+          { partialErrors: [{ message: 'Some data is unavailable' }] },
+        ]);
+
+      const result = await queryMql(mockQueryClient as any, 'test-project', 'fetch https_lb_rule', 100);
+
+      expect(mockQueryClient.queryTimeSeries).toHaveBeenCalledTimes(2);
+      expect(mockQueryClient.queryTimeSeries.mock.calls[1][0]).toMatchObject({
+        name: 'projects/test-project',
+        query: 'fetch https_lb_rule',
+        pageToken: 'page-2',
+      });
+      expect(mockQueryClient.queryTimeSeries.mock.calls[0][1]).toEqual({ autoPaginate: false });
+      expect(result.tables).toHaveLength(1);
+      expect(result.tables[0].labelKeys).toEqual(['resource.zone', 'metric.response_code']);
+      expect(result.tables[0].series).toHaveLength(2);
+      expect(result.warnings).toEqual(['Some data is unavailable']);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('stops at maxSeries and reports truncation', async () => {
+      const { queryMql } = await import('../../../../src/services/monitoring/mql.js');
+      mockQueryClient.queryTimeSeries.mockResolvedValueOnce([
+        [createRow('us-central1-a', 10), createRow('us-central1-b', 20)],
+        null,
+        { timeSeriesDescriptor: descriptor, nextPageToken: 'page-2' },
+      ]);
+
+      const result = await queryMql(mockQueryClient as any, 'test-project', 'fetch https_lb_rule', 2);
+
+      expect(mockQueryClient.queryTimeSeries).toHaveBeenCalledTimes(1);
+      expect(mockQueryClient.queryTimeSeries.mock.calls[0][0].pageSize).toBe(2);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('starts a new table when the descriptor changes', async () => {
+      const { queryMql } = await import('../../../../src/services/monitoring/mql.js');
+      mockQueryClient.queryTimeSeries
+        .mockResolvedValueOnce([
+          [createRow('us-central1-a', 10)],
+          null,
+          { timeSeriesDescriptor: descriptor, nextPageToken: 'page-2' },
+        ])
+        .mockResolvedValueOnce([
+          [{ labelValues: [{ stringValue: 'us-central1-a' }], pointData: [] }],
+          null,
+          {
+            timeSeriesDescriptor: {
+              labelDescriptors: [{ key: 'resource.zone' }],
+              pointDescriptors: [{ key: 'value.utilization', metricKind: 'GAUGE', valueType: 'DOUBLE' }],
+            },
+          },
+        ]);
+
+      const result = await queryMql(mockQueryClient as any, 'test-project', 'fetch a; fetch b', 100);
+
+      expect(result.tables).toHaveLength(2);
+      expect(result.tables[1].labelKeys).toEqual(['resource.zone']);
+    });
+  });
+
+  describe('formatMqlTables', () => {
+    it('renders one column per point descriptor', async () => {
+      const { formatMqlTables } = await import('../../../../src/services/monitoring/mql.js');
+
+      const formatted = formatMqlTables([
+        {
+          labelKeys: ['resource.zone', 'metric.response_code'],
+          pointDescriptors: descriptor.pointDescriptors as any,
+          series: [createRow('us-central1-a', 10)],
+        },
+      ]);
+
+      expect(formatted).toContain('## Series: resource.zone=us-central1-a, metric.response_code=200');
+      expect(formatted).toContain('- value.request_count: Kind: DELTA, Type: INT64, Unit: 1');
+      expect(formatted).toContain('| Timestamp | value.request_count | value.latency_mean |');
+      expect(formatted).toContain('| 2023-11-14T22:13:20.000Z | 10 | 0.250000 |');
+      expect(formatted).not.toContain('# Table 1');
+    });
+
+    it('reports empty results', async () => {
+      const { formatMqlTables } = await import('../../../../src/services/monitoring/mql.js');
+
+      expect(formatMqlTables([])).toBe('No time series data found.');
+    });
+  });
+});
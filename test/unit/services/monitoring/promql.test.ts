@@ -0,0 +1,238 @@
+/**
+ * Tests for PromQL queries and the PromQL tool
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const mockPromqlAuth = {
+  getClient: vi.fn().mockResolvedValue({
+    getAccessToken: vi.fn().mockResolvedValue({ token: 'mock-token' })
+  }),
+};
+
+vi.mock('../../../../src/utils/auth.js', () => ({
+  initGoogleAuth: vi.fn().mockResolvedValue(mockPromqlAuth),
+  getProjectId: vi.fn().mockResolvedValue('test-project'),
+}));
+
+global.fetch = vi.fn();
+const mockFetch = fetch as any;
+
+const matrixResponse = {
+  status: 'success',
+  data: {
+    resultType: 'matrix',
+    result: [
+      {
+        metric: {
+          __name__: 'http_requests_total',
+          cluster: 'prod',
+          namespace: 'shop',
+          code: '500',
+        },
+        values: [
+          [1700000000, '1.5'],
+          [1700000060, 'NaN'],
+        ],
+      },
+    ],
+  },
+};
+
+function mockJsonResponse(body: unknown, ok = true, status = 200) {
+  mockFetch.mockResolvedValue({
+    ok,
+    status,
+    statusText: ok ? 'OK' : 'Bad Request',
+    json: vi.fn().mockResolvedValue(body),
+  });
+}
+
+describe('PromQL', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockJsonResponse(matrixResponse);
+  });
+
+  describe('toPromqlSeries', () => {
+    it('converts matrix results and maps non-finite values to null', async () => {
+      const { toPromqlSeries } = await import('../../../../src/services/monitoring/promql.js');
+
+      const series = toPromqlSeries(matrixResponse.data as any);
+
+      expect(series).toEqual([
+        {
+          metric: matrixResponse.data.result[0].metric,
+          values: [
+            { timestamp: '2023-11-14T22:13:20.000Z', value: 1.5 },
+            { timestamp: '2023-11-14T22:14:20.000Z', value: null },
+          ],
+        },
+      ]);
+    });
+
+    it('converts vector and scalar results to single-sample series', async () => {
+      const { toPromqlSeries } = await import('../../../../src/services/monitoring/promql.js');
+
+      expect(
+        toPromqlSeries({
+          resultType: 'vector',
+          result: [{ metric: { job: 'api' }, value: [1700000000, '3'] }],
+        }),
+      ).toEqual([
+        { metric: { job: 'api' }, values: [{ timestamp: '2023-11-14T22:13:20.000Z', value: 3 }] },
+      ]);
+      expect(
+        toPromqlSeries({ resultType: 'scalar', result: [1700000000, '42'] }),
+      ).toEqual([
+        { metric: {}, values: [{ timestamp: '2023-11-14T22:13:20.000Z', value: 42 }] },
+      ]);
+    });
+  });
+
+  describe('promqlSeriesToTimeSeries', () => {
+    it('splits target labels into resource labels and names the metric', async () => {
+      const { toPromqlSeries, promqlSeriesToTimeSeries } = await import('../../../../src/services/monitoring/promql.js');
+      const { formatTimeSeriesData } = await import('../../../../src/services/monitoring/types.js');
+
+      const timeSeries = promqlSeriesToTimeSeries(
+        toPromqlSeries(matrixResponse.data as any),
+        'rate(http_requests_total[5m])',
+      );
+
+      expect(timeSeries[0].metric).toEqual({
+        type: 'http_requests_total',
+        labels: { code: '500' },
+      });
+      expect(timeSeries[0].resource).toEqual({
+        type: 'prometheus_target',
+        labels: { cluster: 'prod', namespace: 'shop' },
+      });
+
+      const formatted = formatTimeSeriesData(timeSeries);
+      expect(formatted).toContain('## Metric: http_requests_total');
+      expect(formatted).toContain('1.500000');
+      expect(formatted).toContain('N/A');
+    });
+
+    it('uses the query as the type of series without a metric name', async () => {
+      const { promqlSeriesToTimeSeries } = await import('../../../../src/services/monitoring/promql.js');
+
+      const [series] = promqlSeriesToTimeSeries(
+        [{ metric: { job: 'api' }, values: [] }],
+        'sum(up)',
+      );
+
+      expect(series.metric?.type).toBe('sum(up)');
+    });
+  });
+
+  describe('queryPromql', () => {
+    it('posts range queries to the query_range endpoint', async () => {
+      const { queryPromql } = await import('../../../../src/services/monitoring/promql.js');
+
+      const result = await queryPromql('test-project', {
+        query: 'up',
+        type: 'range',
+        start: new Date('2023-11-14T22:00:00Z'),
+        end: new Date('2023-11-14T23:00:00Z'),
+        stepSeconds: 60,
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(
+        'https://monitoring.googleapis.com/v1/projects/test-project/location/global/prometheus/api/v1/query_range',
+      );
+      expect(init.method).toBe('POST');
+      expect(init.headers.Authorization).toBe('Bearer mock-token');
+      const params = new URLSearchParams(init.body);
+      expect(params.get('query')).toBe('up');
+      expect(params.get('start')).toBe('1699999200');
+      expect(params.get('step')).toBe('60s');
+      expect(result.resultType).toBe('matrix');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('surfaces Prometheus errors', async () => {
+      const { queryPromql } = await import('../../../../src/services/monitoring/promql.js');
+      mockJsonResponse(
+        { status: 'error', errorType: 'bad_data', error: 'parse error at char 4' },
+        false,
+        400,
+      );
+
+      await expect(
+        queryPromql('test-project', { query: 'up{', type: 'instant' }),
+      ).rejects.toThrow('PromQL query failed: parse error at char 4 (bad_data)');
+    });
+
+    it('rejects range queries without a step', async () => {
+      const { queryPromql } = await import('../../../../src/services/monitoring/promql.js');
+
+      await expect(
+        queryPromql('test-project', { query: 'up', type: 'range' }),
+      ).rejects.toThrow('Range queries need a start time');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('gcp-monitoring-query-promql', () => {
+    it('returns formatted series and structured content', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        (call: any[]) => call[0] === 'gcp-monitoring-query-promql'
+      );
+      expect(toolCall).toBeDefined();
+
+      const result = await toolCall![2]({
+        query: 'http_requests_total',
+        queryType: 'range',
+        startTime: '1h',
+        step: '5m',
+      });
+
+      expect(result.content[0].text).toContain('# PromQL Query Results');
+      expect(result.content[0].text).toContain('Step: 5m');
+      expect(result.content[0].text).toContain('## Metric: http_requests_total');
+      expect(result.structuredContent.resultType).toBe('matrix');
+      expect(result.structuredContent.series[0].values[1].value).toBeNull();
+    });
+
+    it('evaluates instant queries at the requested time', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockJsonResponse({
+        status: 'success',
+        data: { resultType: 'vector', result: [] },
+        warnings: ['partial data'],
+      });
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.registerTool.mock.calls.find(
+        (call: any[]) => call[0] === 'gcp-monitoring-query-promql'
+      );
+      const result = await toolCall![2]({
+        query: 'up',
+        queryType: 'instant',
+        startTime: '1h',
+        step: '60s',
+        time: '2023-11-14T22:13:20Z',
+      });
+
+      const params = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/api\/v1\/query$/);
+      expect(params.get('time')).toBe('1700000000');
+      expect(result.content[0].text).toContain('No series matched the query.');
+      expect(result.content[0].text).toContain('- partial data');
+      expect(result.structuredContent.warnings).toEqual(['partial data']);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for SLO status, error budgets and burn rates
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import {
+  mockMonitoringClient,
+  mockServiceMonitoringClient,
+} from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const availabilitySlo = {
+  name: 'projects/test-project-env/services/checkout/serviceLevelObjectives/availability',
+  displayName: '99.9% available',
+  goal: 0.999,
+  rollingPeriod: { seconds: 30 * 86400 },
+  serviceLevelIndicator: { basicSli: { availability: {} } },
+};
+
+const latencySlo = {
+  name: 'projects/test-project-env/services/checkout/serviceLevelObjectives/latency',
+  displayName: '95% under 300ms',
+  goal: 0.95,
+  calendarPeriod: 'MONTH',
+  serviceLevelIndicator: { basicSli: { latency: { threshold: { nanos: 300_000_000 } } } },
+};
+
+/**
+ * Answers compliance requests by window length in seconds
+ */
+function mockCompliance(byWindow: (seconds: number) => number | undefined) {
+  mockMonitoringClient.listTimeSeries.mockImplementation(async (request: any) => {
+    const value = byWindow(request.aggregation.alignmentPeriod.seconds);
+    return [value === undefined ? [] : [{ points: [{ value: { doubleValue: value } }] }], {}, {}];
+  });
+}
+
+describe('SLOs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCompliance(() => 0.9995);
+    mockServiceMonitoringClient.listServices.mockResolvedValue([
+      [{ name: 'projects/test-project-env/services/checkout', displayName: 'Checkout' }],
+      null,
+      {},
+    ]);
+    mockServiceMonitoringClient.listServiceLevelObjectives.mockResolvedValue([[availabilitySlo, latencySlo], null, {}]);
+  });
+
+  describe('resource names', () => {
+    it('nests SLOs under their service', async () => {
+      const { serviceResourceName, sloResourceName } = await import('../../../../src/services/monitoring/slo.js');
+
+      expect(serviceResourceName('test-project', 'checkout')).toBe('projects/test-project/services/checkout');
+      expect(sloResourceName('test-project', 'checkout', 'availability')).toBe(
+        'projects/test-project/services/checkout/serviceLevelObjectives/availability',
+      );
+      expect(sloResourceName('test-project', 'checkout', availabilitySlo.name)).toBe(availabilitySlo.name);
+      expect(() => sloResourceName('test-project', 'checkout', '../x')).toThrow('Invalid serviceLevelObjectives ID');
+    });
+  });
+
+  describe('getSloPeriodStart', () => {
+    it('handles rolling and calendar periods', async () => {
+      const { getSloPeriodStart } = await import('../../../../src/services/monitoring/slo.js');
+      const now = new Date('2024-05-16T10:00:00Z');
+
+      expect(getSloPeriodStart(availabilitySlo, now).toISOString()).toBe('2024-04-16T10:00:00.000Z');
+      expect(getSloPeriodStart(latencySlo as any, now).toISOString()).toBe('2024-05-01T00:00:00.000Z');
+      expect(getSloPeriodStart({ calendarPeriod: 'WEEK' } as any, now).toISOString()).toBe('2024-05-13T00:00:00.000Z');
+      expect(getSloPeriodStart({ calendarPeriod: 'QUARTER' } as any, now).toISOString()).toBe('2024-04-01T00:00:00.000Z');
+    });
+  });
+
+  describe('assessSloRisk', () => {
+    it('ranks fast burns above slow burns', async () => {
+      const { assessSloRisk } = await import('../../../../src/services/monitoring/slo.js');
+      const burns = (rates: number[]) =>
+        ['1h', '6h', '24h', '30d'].map((window, index) => ({
+          window,
+          burnRate: rates[index],
+          threshold: [14.4, 6, 3, 1][index],
+        }));
+
+      expect(assessSloRisk({ budgetRemaining: 0.5, burnRates: burns([1, 1, 1, 0.5]) }).risk).toBe('ok');
+      expect(assessSloRisk({ budgetRemaining: 0.5, burnRates: burns([1, 1, 4, 0.5]) }).risk).toBe('warning');
+      expect(assessSloRisk({ budgetRemaining: 0.5, burnRates: burns([20, 1, 4, 0.5]) })).toEqual({
+        risk: 'critical',
+        reasons: ['1h burn rate 20.0 is at or above 14.4', '24h burn rate 4.0 is at or above 3'],
+      });
+      expect(assessSloRisk({ budgetRemaining: -0.1, burnRates: burns([20, 1, 4, 0.5]) }).risk).toBe('exhausted');
+      expect(assessSloRisk({ budgetRemaining: undefined, burnRates: [] }).risk).toBe('unknown');
+    });
+  });
+
+  describe('getSloStatus', () => {
+    it('derives the error budget and burn rates from compliance', async () => {
+      const { getSloStatus } = await import('../../../../src/services/monitoring/slo.js');
+      mockCompliance((seconds) => (seconds === 3600 ? 0.98 : 0.9995));
+
+      const status = await getSloStatus(mockMonitoringClient as any, 'test-project-env', availabilitySlo);
+
+      expect(status.attainment).toBe(0.9995);
+      expect(status.budgetRemaining).toBeCloseTo(0.5);
+      expect(status.burnRates.map((burn) => burn.window)).toEqual(['1h', '6h', '24h', '30d']);
+      expect(status.burnRates[0].burnRate).toBeCloseTo(20);
+      expect(status.burnRates[2].burnRate).toBeCloseTo(0.5);
+      expect(status.hoursToExhaustion).toBeCloseTo(720);
+      expect(status.risk).toBe('critical');
+
+      const request = mockMonitoringClient.listTimeSeries.mock.calls[0][0];
+      expect(request.filter).toBe(`select_slo_compliance("${availabilitySlo.name}")`);
+      expect(request.aggregation).toEqual({
+        alignmentPeriod: { seconds: 30 * 86400 },
+        perSeriesAligner: 'ALIGN_NEXT_OLDER',
+      });
+    });
+
+    it('reports SLOs without data as unknown', async () => {
+      const { getSloStatus, formatSloStatus } = await import('../../../../src/services/monitoring/slo.js');
+      mockCompliance(() => undefined);
+
+      const status = await getSloStatus(mockMonitoringClient as any, 'test-project-env', availabilitySlo);
+
+      expect(status.risk).toBe('unknown');
+      expect(formatSloStatus(status)).toContain('- **Attainment:** -');
+    });
+  });
+
+  describe('formatServicesWithSlos', () => {
+    it('describes the goal, period and indicator of each SLO', async () => {
+      const { formatServicesWithSlos } = await import('../../../../src/services/monitoring/slo.js');
+
+      const text = formatServicesWithSlos([
+        { service: { name: 'projects/p/services/checkout', displayName: 'Checkout' }, slos: [availabilitySlo, latencySlo as any] },
+      ]);
+
+      expect(text).toContain('## Checkout');
+      expect(text).toContain('| availability | 99.9% available | 99.900% | rolling 30d | availability |');
+      expect(text).toContain('| latency | 95% under 300ms | 95.000% | calendar MONTH | latency under 300ms |');
+    });
+  });
+
+  describe('tools', () => {
+    it('lists services with their SLOs', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-list-slos'
+      );
+      const result = await toolCall![2]({});
+
+      expect(mockServiceMonitoringClient.listServices).toHaveBeenCalledWith({ parent: 'projects/test-project-env' });
+      expect(mockServiceMonitoringClient.listServiceLevelObjectives).toHaveBeenCalledWith({
+        parent: 'projects/test-project-env/services/checkout',
+      });
+      expect(result.content[0].text).toContain('# Services and SLOs');
+      expect(result.content[0].text).toContain('99.9% available');
+    });
+
+    it('reports the status of one SLO', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockServiceMonitoringClient.getServiceLevelObjective.mockResolvedValue([availabilitySlo]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-get-slo-status'
+      );
+      const result = await toolCall![2]({ service: 'checkout', slo: 'availability' });
+
+      expect(mockServiceMonitoringClient.getServiceLevelObjective).toHaveBeenCalledWith({ name: availabilitySlo.name });
+      expect(result.content[0].text).toContain('- **Error Budget Remaining:** 50.0%');
+      expect(result.content[0].text).toContain('| 1h | 99.950% | 0.50 | 14.4 |');
+    });
+
+    it('ranks SLOs at risk with recommendations', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      // The latency SLO has a 5% budget, so the same compliance is fine for it
+      mockCompliance(() => 0.99);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-slos-at-risk'
+      );
+      const text = (await toolCall![2]({})).content[0].text;
+
+      expect(text).toContain('SLOs at risk: 1 of 2');
+      expect(text.indexOf('| exhausted | 99.9% available')).toBeLessThan(text.indexOf('| ok | 95% under 300ms'));
+      expect(text).toContain('- **99.9% available**: Freeze risky changes');
+    });
+  });
+});
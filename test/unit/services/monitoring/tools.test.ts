@@ -5,7 +5,12 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Import mocks first
 import '../../../mocks/google-cloud-mocks.js';
-import { mockMonitoringClient } from '../../../mocks/google-cloud-mocks.js';
+import {
+  mockAlertPolicyClient,
+  mockMonitoringClient,
+  mockNotificationChannelClient,
+  mockQueryClient,
+} from '../../../mocks/google-cloud-mocks.js';
 import { createMockMcpServer } from '../../../utils/test-helpers.js';
 
 describe('Monitoring Tools', () => {
@@ -18,6 +23,7 @@ describe('Monitoring Tools', () => {
     // Reset mock implementations
     mockMonitoringClient.listTimeSeries.mockResolvedValue([[], {}, {}]);
     mockMonitoringClient.listMetricDescriptors.mockResolvedValue([[], {}, {}]);
+    mockMonitoringClient.getMetricDescriptor.mockResolvedValue([{}]);
   });
 
   describe('registerMonitoringTools', () => {
@@ -97,6 +103,380 @@ describe('Monitoring Tools', () => {
       expect(result.content[0].text).toContain('Metric Query Results');
     });
 
+    it('should pass aligners, reducers and secondary aggregation to listTimeSeries', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockMonitoringClient.getMetricDescriptor.mockResolvedValue([{ metricKind: 'CUMULATIVE', valueType: 'INT64' }]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-metrics'
+      );
+      const result = await toolCall![2]({
+        filter: 'metric.type="loadbalancing.googleapis.com/https/request_count"',
+        startTime: '1h',
+        alignmentPeriod: '5m',
+        perSeriesAligner: 'ALIGN_RATE',
+        crossSeriesReducer: 'REDUCE_SUM',
+        groupByFields: ['resource.labels.zone'],
+        secondaryAggregation: {
+          alignmentPeriod: '5m',
+          crossSeriesReducer: 'REDUCE_MEAN',
+        },
+      });
+
+      const request = mockMonitoringClient.listTimeSeries.mock.calls[0][0];
+      expect(request.aggregation).toEqual({
+        alignmentPeriod: { seconds: 300 },
+        perSeriesAligner: 'ALIGN_RATE',
+        crossSeriesReducer: 'REDUCE_SUM',
+        groupByFields: ['resource.labels.zone'],
+      });
+      expect(request.secondaryAggregation).toEqual({
+        alignmentPeriod: { seconds: 300 },
+        perSeriesAligner: 'ALIGN_MEAN',
+        crossSeriesReducer: 'REDUCE_MEAN',
+      });
+      expect(result.content[0].text).toContain('No metrics found');
+    });
+
+    it('should reject aligners that do not suit the metric kind', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockMonitoringClient.getMetricDescriptor.mockResolvedValue([{ metricKind: 'GAUGE', valueType: 'DOUBLE' }]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-metrics'
+      );
+
+      await expect(
+        toolCall![2]({
+          filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+          startTime: '1h',
+          alignmentPeriod: '60s',
+          perSeriesAligner: 'ALIGN_RATE',
+        }),
+      ).rejects.toThrow('ALIGN_RATE cannot be applied to GAUGE DOUBLE series');
+      expect(mockMonitoringClient.listTimeSeries).not.toHaveBeenCalled();
+    });
+
+    it('should summarise series and compare them with previous days', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockMonitoringClient.listTimeSeries.mockResolvedValue([[{
+        metric: { type: 'compute.googleapis.com/instance/cpu/utilization' },
+        resource: { type: 'gce_instance', labels: { instance_id: '1' } },
+        points: [1, 2, 3].map(i => ({
+          interval: { endTime: { seconds: 1700000000 + i * 60 } },
+          value: { doubleValue: i / 10 }
+        }))
+      }], {}, {}]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-metrics'
+      );
+      const result = await toolCall![2]({
+        filter: 'resource.type="gce_instance"',
+        startTime: '1h',
+        outputMode: 'summary',
+        baselineDays: 3,
+        anomalyThreshold: 3.5,
+      });
+
+      // The current window plus one query per baseline day
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledTimes(4);
+      expect(result.content[0].text).toContain('| Points | Min | Max | Mean | p50 | p95 | p99 |');
+      expect(result.content[0].text).toContain('**Anomalies:** none against a 3-day baseline');
+      expect(result.content[0].text).not.toContain('| Timestamp | Value |');
+    });
+
+    it('should summarise without a baseline when it cannot be fetched', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      const window = [[{
+        metric: { type: 'compute.googleapis.com/instance/cpu/utilization' },
+        resource: { type: 'gce_instance', labels: { instance_id: '1' } },
+        points: [1, 2, 3].map(i => ({
+          interval: { endTime: { seconds: 1700000000 + i * 60 } },
+          value: { doubleValue: i / 10 }
+        }))
+      }], {}, {}];
+      mockMonitoringClient.listTimeSeries.mockResolvedValue(window);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-metrics'
+      );
+      const summary = await toolCall![2]({
+        filter: 'resource.type="gce_instance"',
+        startTime: '1h',
+        outputMode: 'summary',
+      });
+
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledTimes(1);
+      expect(summary.content[0].text).not.toContain('**Anomalies');
+
+      // Only the current window can be fetched
+      mockMonitoringClient.listTimeSeries
+        .mockResolvedValueOnce(window)
+        .mockRejectedValue(new Error('Quota exceeded'));
+      const result = await toolCall![2]({
+        filter: 'resource.type="gce_instance"',
+        startTime: '1h',
+        outputMode: 'summary',
+        baselineDays: 3,
+        anomalyThreshold: 3.5,
+      });
+
+      expect(result.content[0].text).toContain('| Points | Min | Max | Mean | p50 | p95 | p99 |');
+      expect(result.content[0].text).toContain('**Anomalies:** no baseline data for this series');
+    });
+
+    it('should handle query-mql tool execution', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockQueryClient.queryTimeSeries.mockResolvedValueOnce([
+        [{
+          labelValues: [{ stringValue: 'test-instance' }],
+          pointData: [{
+            values: [{ doubleValue: 0.5 }],
+            timeInterval: { endTime: { seconds: 1700000000 } },
+          }],
+        }],
+        null,
+        {
+          timeSeriesDescriptor: {
+            labelDescriptors: [{ key: 'metric.instance_name' }],
+            pointDescriptors: [{ key: 'value.utilization', metricKind: 'GAUGE', valueType: 'DOUBLE' }],
+          },
+          nextPageToken: 'more',
+        },
+      ]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-mql'
+      );
+      const result = await toolCall![2]({
+        query: "fetch gce_instance | metric 'compute.googleapis.com/instance/cpu/utilization' | within 1h",
+        maxSeries: 1,
+      });
+
+      expect(result.content[0].text).toContain('# MQL Query Results');
+      expect(result.content[0].text).toContain('Series: 1');
+      expect(result.content[0].text).toContain('More series matched than the limit of 1');
+      expect(result.content[0].text).toContain('## Series: metric.instance_name=test-instance');
+    });
+
+    it('should wrap MQL errors', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockQueryClient.queryTimeSeries.mockRejectedValueOnce(new Error('Parse error at line 1'));
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-query-mql'
+      );
+
+      await expect(toolCall![2]({ query: 'fetch', maxSeries: 100 })).rejects.toThrow(
+        'Failed to run MQL query: Parse error at line 1',
+      );
+    });
+
+    it('should list alert policies with their channels', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.listAlertPolicies.mockResolvedValueOnce([[{
+        name: 'projects/test-project/alertPolicies/123',
+        displayName: 'High CPU',
+        enabled: { value: true },
+        conditions: [{ displayName: 'CPU above 80%' }],
+        notificationChannels: ['projects/test-project/notificationChannels/456'],
+      }], null, {}]);
+      mockNotificationChannelClient.listNotificationChannels.mockResolvedValueOnce([[{
+        name: 'projects/test-project/notificationChannels/456',
+        displayName: 'On-call',
+        type: 'email',
+      }], null, {}]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-list-alert-policies'
+      );
+      const result = await toolCall![2]({});
+
+      expect(result.content[0].text).toContain('Policies: 1');
+      expect(result.content[0].text).toContain('| 123 | High CPU | Yes | - | CPU above 80% | On-call (email) |');
+    });
+
+    it('should create alert policies from a spec', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.createAlertPolicy.mockImplementationOnce(async ({ alertPolicy }: any) => [
+        { ...alertPolicy, name: 'projects/test-project/alertPolicies/789' },
+      ]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-create-alert-policy'
+      );
+      const result = await toolCall![2]({
+        displayName: 'High CPU',
+        conditions: [{
+          displayName: 'CPU above 80%',
+          threshold: {
+            filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+            comparison: 'COMPARISON_GT',
+            thresholdValue: 0.8,
+            duration: '5m',
+          },
+        }],
+      });
+
+      const request = mockAlertPolicyClient.createAlertPolicy.mock.calls[0][0];
+      expect(request.name).toBe('projects/test-project-env');
+      expect(request.alertPolicy.conditions[0].conditionThreshold.duration).toEqual({ seconds: 300 });
+      expect(result.content[0].text).toContain('# Alert Policy Created');
+      expect(result.content[0].text).toContain('projects/test-project/alertPolicies/789');
+    });
+
+    it('should update only the given fields of an alert policy', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.getAlertPolicy.mockResolvedValueOnce([{
+        name: 'projects/test-project/alertPolicies/123',
+        displayName: 'High CPU',
+      }]);
+      mockAlertPolicyClient.updateAlertPolicy.mockImplementationOnce(async ({ alertPolicy }: any) => [alertPolicy]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-update-alert-policy'
+      );
+      const result = await toolCall![2]({ policy: '123', severity: 'WARNING' });
+
+      expect(mockAlertPolicyClient.updateAlertPolicy.mock.calls[0][0].updateMask).toEqual({ paths: ['severity'] });
+      expect(result.content[0].text).toContain('Updated Fields: severity');
+    });
+
+    it('should disable alert policies', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.updateAlertPolicy.mockResolvedValueOnce([{
+        name: 'projects/test-project/alertPolicies/123',
+        displayName: 'High CPU',
+      }]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-set-alert-policy-enabled'
+      );
+      const result = await toolCall![2]({ policy: '123', enabled: false });
+
+      expect(mockAlertPolicyClient.updateAlertPolicy).toHaveBeenCalledWith({
+        alertPolicy: { name: 'projects/test-project-env/alertPolicies/123', enabled: { value: false } },
+        updateMask: { paths: ['enabled'] },
+      });
+      expect(result.content[0].text).toContain('# Alert Policy Disabled');
+    });
+
+    it('should backtest the threshold conditions of a policy', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.getAlertPolicy.mockResolvedValueOnce([{
+        name: 'projects/test-project/alertPolicies/123',
+        displayName: 'High CPU',
+        conditions: [{
+          displayName: 'CPU above 80%',
+          conditionThreshold: {
+            filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+            comparison: 'COMPARISON_GT',
+            thresholdValue: 0.8,
+            duration: { seconds: 0 },
+          },
+        }],
+      }]);
+      mockMonitoringClient.listTimeSeries.mockResolvedValueOnce([[{
+        metric: { type: 'compute.googleapis.com/instance/cpu/utilization' },
+        resource: { type: 'gce_instance', labels: { instance_id: '1' } },
+        points: [{ interval: { endTime: { seconds: 1700000000 } }, value: { doubleValue: 0.95 } }],
+      }], {}, {}]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-backtest-alert-condition'
+      );
+      const result = await toolCall![2]({ policy: '123', startTime: '7d' });
+
+      expect(result.content[0].text).toContain('# Alert Backtest: High CPU');
+      expect(result.content[0].text).toContain('**Would have fired 1 time**');
+
+      await expect(toolCall![2]({ startTime: '7d' })).rejects.toThrow(
+        'Pass either a policy to replay its conditions or a proposed condition.',
+      );
+    });
+
+    it('should backtest the threshold conditions of a policy with other conditions', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+
+      mockAlertPolicyClient.getAlertPolicy.mockResolvedValueOnce([{
+        name: 'projects/test-project/alertPolicies/123',
+        displayName: 'High CPU',
+        conditions: [
+          {
+            displayName: 'CPU above 80%',
+            conditionThreshold: {
+              filter: 'metric.type="compute.googleapis.com/instance/cpu/utilization"',
+              comparison: 'COMPARISON_GT',
+              thresholdValue: 0.8,
+              duration: { seconds: 0 },
+            },
+          },
+          { displayName: 'Error rate (PromQL)', conditionPrometheusQueryLanguage: { query: 'rate(errors[5m]) > 1' } },
+          { displayName: 'Metric missing', conditionAbsent: { filter: 'metric.type="custom.googleapis.com/heartbeat"' } },
+        ],
+      }]);
+      mockMonitoringClient.listTimeSeries.mockResolvedValueOnce([[{
+        metric: { type: 'compute.googleapis.com/instance/cpu/utilization' },
+        resource: { type: 'gce_instance', labels: { instance_id: '1' } },
+        points: [{ interval: { endTime: { seconds: 1700000000 } }, value: { doubleValue: 0.95 } }],
+      }], {}, {}]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-backtest-alert-condition'
+      );
+      const text = (await toolCall![2]({ policy: '123', startTime: '7d' })).content[0].text;
+
+      expect(mockMonitoringClient.listTimeSeries).toHaveBeenCalledTimes(1);
+      expect(text).toContain('**Would have fired 1 time**');
+      expect(text).toContain('## Not Backtested');
+      expect(text).toContain('- Condition "Error rate (PromQL)" is not a metric threshold condition.');
+      expect(text).toContain('- Condition "Metric missing" is not a metric threshold condition.');
+
+      mockAlertPolicyClient.getAlertPolicy.mockResolvedValueOnce([{
+        displayName: 'Heartbeat',
+        conditions: [{ displayName: 'Metric missing', conditionAbsent: {} }],
+      }]);
+      await expect(toolCall![2]({ policy: '456', startTime: '7d' })).rejects.toThrow(
+        "None of the policy's conditions can be backtested.",
+      );
+    });
+
     it('should handle errors gracefully', async () => {
       const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
       
@@ -61,6 +61,19 @@ describe('Monitoring Types and Utilities', () => {
     });
   });
 
+  describe('formatTypedValue', () => {
+    it('should format each value type', async () => {
+      const { formatTypedValue } = await import('../../../../src/services/monitoring/types.js');
+
+      expect(formatTypedValue({ boolValue: false })).toBe('false');
+      expect(formatTypedValue({ int64Value: '42' })).toBe('42');
+      expect(formatTypedValue({ doubleValue: 0.5 })).toBe('0.500000');
+      expect(formatTypedValue({ stringValue: 'ok' })).toBe('ok');
+      expect(formatTypedValue({ distributionValue: { count: 3 } })).toBe('Distribution');
+      expect(formatTypedValue(undefined)).toBe('N/A');
+    });
+  });
+
   describe('TimeSeriesData interface', () => {
     it('should handle time series data structure', async () => {
       const { formatTimeSeriesData } = await import('../../../../src/services/monitoring/types.js');
@@ -0,0 +1,233 @@
+/**
+ * Tests for uptime checks
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Import mocks first
+import '../../../mocks/google-cloud-mocks.js';
+import {
+  mockMonitoringClient,
+  mockUptimeCheckClient,
+} from '../../../mocks/google-cloud-mocks.js';
+import { createMockMcpServer } from '../../../utils/test-helpers.js';
+
+const httpsCheck = {
+  name: 'projects/test-project-env/uptimeCheckConfigs/checkout-https',
+  displayName: 'Checkout HTTPS',
+  monitoredResource: { type: 'uptime_url', labels: { host: 'shop.example.com', project_id: 'test-project-env' } },
+  httpCheck: { path: '/health', port: 443, useSsl: true, validateSsl: true, requestMethod: 'GET' },
+  period: { seconds: 60 },
+  timeout: { seconds: 10 },
+  selectedRegions: ['USA', 'EUROPE', 'ASIA_PACIFIC'],
+};
+
+function series(metricType: string, location: string, values: Array<number | boolean>) {
+  return {
+    metric: { type: metricType, labels: { check_id: 'checkout-https', checker_location: location } },
+    // Points are newest first, as the API returns them
+    points: values.map((value, index) => ({
+      interval: { endTime: { seconds: 1_700_000_000 - index * 60 } },
+      value: typeof value === 'boolean' ? { boolValue: value } : { doubleValue: value },
+    })),
+  };
+}
+
+function mockResults() {
+  mockMonitoringClient.listTimeSeries.mockImplementation(async (request: any) => [
+    request.filter.includes('check_passed')
+      ? [
+          series('monitoring.googleapis.com/uptime_check/check_passed', 'usa-iowa', [true, true, true, true]),
+          series('monitoring.googleapis.com/uptime_check/check_passed', 'eur-belgium', [false, true, true, true]),
+        ]
+      : [
+          series('monitoring.googleapis.com/uptime_check/request_latency', 'usa-iowa', [100, 120, 140, 200]),
+          series('monitoring.googleapis.com/uptime_check/request_latency', 'eur-belgium', [250, 250]),
+        ],
+    {},
+    {},
+  ]);
+}
+
+describe('Uptime checks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResults();
+    mockUptimeCheckClient.listUptimeCheckConfigs.mockResolvedValue([[httpsCheck], null, {}]);
+    mockUptimeCheckClient.getUptimeCheckConfig.mockResolvedValue([httpsCheck]);
+  });
+
+  describe('buildUptimeCheck', () => {
+    it('builds an HTTP check on an uptime URL', async () => {
+      const { buildUptimeCheck } = await import('../../../../src/services/monitoring/uptime.js');
+
+      const config = buildUptimeCheck(
+        {
+          displayName: 'Checkout',
+          host: 'shop.example.com',
+          http: { path: 'health', useSsl: true, acceptedStatusCodes: ['2xx', '404'] },
+          period: '300s',
+          regions: ['USA', 'EUROPE', 'ASIA_PACIFIC'],
+          contentMatch: { content: 'ok' },
+        },
+        'test-project',
+      );
+
+      expect(config).toMatchObject({
+        displayName: 'Checkout',
+        monitoredResource: { type: 'uptime_url', labels: { host: 'shop.example.com', project_id: 'test-project' } },
+        httpCheck: {
+          path: '/health',
+          useSsl: true,
+          acceptedResponseStatusCodes: [{ statusClass: 'STATUS_CLASS_2XX' }, { statusValue: 404 }],
+        },
+        period: { seconds: 300 },
+        timeout: { seconds: 10 },
+        // USA, EUROPE and ASIA_PACIFIC
+        selectedRegions: [1, 2, 4],
+        contentMatchers: [{ content: 'ok', matcher: 'CONTAINS_STRING' }],
+      });
+      expect(config.tcpCheck).toBeUndefined();
+    });
+
+    it('rejects invalid specs', async () => {
+      const { buildUptimeCheck } = await import('../../../../src/services/monitoring/uptime.js');
+      const base = { displayName: 'Checkout', host: 'shop.example.com' };
+
+      expect(() => buildUptimeCheck(base, 'p')).toThrow('must set exactly one of http or tcp');
+      expect(() => buildUptimeCheck({ ...base, tcp: { port: 22 }, regions: ['USA'] }, 'p')).toThrow(
+        'at least three regions',
+      );
+      expect(() => buildUptimeCheck({ ...base, http: { body: 'x=1' } }, 'p')).toThrow('requestMethod POST');
+      expect(() => buildUptimeCheck({ ...base, http: { acceptedStatusCodes: ['2**'] } }, 'p')).toThrow(
+        'Invalid accepted status code',
+      );
+      expect(() => buildUptimeCheck({ ...base, tcp: { port: 22 }, timeout: '2m' }, 'p')).toThrow(
+        'between 1s and 60s',
+      );
+    });
+  });
+
+  describe('applyUptimeCheckChanges', () => {
+    it('merges HTTP settings and lists the changed fields', async () => {
+      const { applyUptimeCheckChanges } = await import('../../../../src/services/monitoring/uptime.js');
+
+      const { config, updateMask } = applyUptimeCheckChanges(httpsCheck as any, {
+        http: { path: '/ready' },
+        timeout: '5s',
+      });
+
+      expect(config.httpCheck).toEqual({ ...httpsCheck.httpCheck, path: '/ready' });
+      expect(config.timeout).toEqual({ seconds: 5 });
+      expect(updateMask).toEqual(['http_check', 'timeout']);
+      expect(() => applyUptimeCheckChanges(httpsCheck as any, { tcp: { port: 443 } })).toThrow(
+        'cannot switch between HTTP and TCP',
+      );
+      expect(() => applyUptimeCheckChanges(httpsCheck as any, {})).toThrow('No changes were given');
+    });
+  });
+
+  describe('getUptimeCheckResults', () => {
+    it('counts passes and failures and summarises latency per region', async () => {
+      const { getUptimeCheckResults, formatUptimeResults } = await import('../../../../src/services/monitoring/uptime.js');
+
+      const results = await getUptimeCheckResults(
+        mockMonitoringClient as any,
+        'test-project',
+        'checkout-https',
+        new Date('2023-11-14T21:00:00Z'),
+        new Date('2023-11-14T22:00:00Z'),
+      );
+
+      expect(mockMonitoringClient.listTimeSeries.mock.calls.map((call: any[]) => call[0].filter)).toEqual([
+        'metric.type = "monitoring.googleapis.com/uptime_check/check_passed" AND metric.labels.check_id = "checkout-https"',
+        'metric.type = "monitoring.googleapis.com/uptime_check/request_latency" AND metric.labels.check_id = "checkout-https"',
+      ]);
+      expect(results.map((result) => result.region)).toEqual(['eur-belgium', 'usa-iowa']);
+      expect(results[0]).toMatchObject({ passed: 3, failed: 1, lastPassed: false, latency: { mean: 250, max: 250 } });
+      expect(results[1]).toMatchObject({ passed: 4, failed: 0, lastPassed: true, latency: { mean: 140, max: 200 } });
+
+      const text = formatUptimeResults(results);
+      expect(text).toContain('Pass rate: 87.5% (7 of 8 checks). Failing now in: eur-belgium');
+      expect(text).toContain('| eur-belgium | 3 | 1 | 75.0% | FAIL at 2023-11-14T22:13:20.000Z | 250 ms | 250 ms | 250 ms |');
+    });
+  });
+
+  describe('tools', () => {
+    it('lists uptime checks', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-list-uptime-checks'
+      );
+      const result = await toolCall![2]({});
+
+      expect(mockUptimeCheckClient.listUptimeCheckConfigs).toHaveBeenCalledWith({ parent: 'projects/test-project-env' });
+      expect(result.content[0].text).toContain(
+        '| checkout-https | Checkout HTTPS | HTTPS https://shop.example.com:443/health | 60s | 10s | USA, EUROPE, ASIA_PACIFIC |',
+      );
+    });
+
+    it('reports the results of one check', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-get-uptime-check-results'
+      );
+      const text = (await toolCall![2]({ check: 'checkout-https', window: '1h' })).content[0].text;
+
+      expect(mockUptimeCheckClient.getUptimeCheckConfig).toHaveBeenCalledWith({ name: httpsCheck.name });
+      expect(text).toContain('## Checkout HTTPS');
+      expect(text).toContain('| usa-iowa | 4 | 0 | 100.0% |');
+    });
+
+    it('updates a check with an update mask', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockUptimeCheckClient.updateUptimeCheckConfig.mockImplementation(async (request: any) => [request.uptimeCheckConfig]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-update-uptime-check'
+      );
+      const text = (await toolCall![2]({ check: 'checkout-https', period: '300s' })).content[0].text;
+
+      expect(mockUptimeCheckClient.updateUptimeCheckConfig).toHaveBeenCalledWith({
+        uptimeCheckConfig: { ...httpsCheck, period: { seconds: 300 } },
+        updateMask: { paths: ['period'] },
+      });
+      expect(text).toContain('Updated Fields: period');
+      expect(text).toContain('- **Period:** 300s');
+    });
+
+    it('lists the checker addresses for allowlisting', async () => {
+      const { registerMonitoringTools } = await import('../../../../src/services/monitoring/tools.js');
+      const mockServer = createMockMcpServer();
+      mockUptimeCheckClient.listUptimeCheckIps.mockResolvedValue([
+        [
+          { region: 'USA', location: 'Iowa', ipAddress: '35.192.0.1' },
+          { region: 'EUROPE', location: 'Belgium', ipAddress: '2600:1900::1' },
+        ],
+        null,
+        {},
+      ]);
+
+      await registerMonitoringTools(mockServer as any);
+
+      const toolCall = mockServer.tool.mock.calls.find(
+        call => call[0] === 'gcp-monitoring-list-uptime-check-ips'
+      );
+      const text = (await toolCall![2]({ regions: ['EUROPE'] })).content[0].text;
+
+      expect(text).toContain('| EUROPE | Belgium | 2600:1900::1 |');
+      expect(text).not.toContain('35.192.0.1');
+      expect(text).toContain('## Allowlist\n\n```\n2600:1900::1/128\n```');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Tests for time utilities
+ */
+import { describe, it, expect } from 'vitest';
+import { parseDurationSeconds } from '../../../src/utils/time.js';
+
+describe('parseDurationSeconds', () => {
+  it('should parse seconds, minutes, hours, days and weeks', () => {
+    expect(parseDurationSeconds('60s')).toBe(60);
+    expect(parseDurationSeconds('5m')).toBe(300);
+    expect(parseDurationSeconds('1h')).toBe(3600);
+    expect(parseDurationSeconds(' 1d ')).toBe(86400);
+    expect(parseDurationSeconds('2w')).toBe(1209600);
+  });
+
+  it('should reject malformed and zero durations', () => {
+    expect(() => parseDurationSeconds('five minutes')).toThrow('Invalid duration: five minutes');
+    expect(() => parseDurationSeconds('0s')).toThrow('Invalid duration: 0s');
+  });
+
+  it('should accept zero when allowed', () => {
+    expect(parseDurationSeconds('0s', { allowZero: true })).toBe(0);
+    expect(() => parseDurationSeconds('-1s', { allowZero: true })).toThrow('Invalid duration');
+  });
+});